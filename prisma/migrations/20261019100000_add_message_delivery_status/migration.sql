@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "MessageDeliveryStatus" AS ENUM ('QUEUED', 'SENT', 'DELIVERED', 'READ', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "deliveryStatus" "MessageDeliveryStatus",
+ADD COLUMN     "deliveryUpdatedAt" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "WhatsAppChannel" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "instanceName" TEXT NOT NULL,
+    "apiBaseUrl" TEXT NOT NULL,
+    "apiKeyEncrypted" TEXT NOT NULL,
+    "webhookSecretHash" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WhatsAppChannel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WhatsAppChannel_tenantId_key" ON "WhatsAppChannel"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WhatsAppChannel_instanceName_key" ON "WhatsAppChannel"("instanceName");
+
+-- AddForeignKey
+ALTER TABLE "WhatsAppChannel" ADD CONSTRAINT "WhatsAppChannel_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
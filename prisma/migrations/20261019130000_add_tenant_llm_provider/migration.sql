@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "LlmProvider" AS ENUM ('OPENAI', 'OPENAI_COMPATIBLE', 'AZURE_OPENAI', 'ANTHROPIC');
+
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "llmAllowedProviders" "LlmProvider"[] DEFAULT ARRAY[]::"LlmProvider"[],
+ADD COLUMN     "llmModel" TEXT,
+ADD COLUMN     "llmProvider" "LlmProvider";
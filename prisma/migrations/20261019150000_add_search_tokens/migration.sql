@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "searchKeyEncrypted" TEXT;
+
+-- CreateTable
+CREATE TABLE "SearchToken" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "recordId" TEXT,
+    "tokenHash" TEXT NOT NULL,
+    "targetCreatedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchToken_tenantId_tokenHash_idx" ON "SearchToken"("tenantId", "tokenHash");
+
+-- CreateIndex
+CREATE INDEX "SearchToken_conversationId_idx" ON "SearchToken"("conversationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchToken_messageId_tokenHash_key" ON "SearchToken"("messageId", "tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchToken_recordId_tokenHash_key" ON "SearchToken"("recordId", "tokenHash");
+
+-- AddForeignKey
+ALTER TABLE "SearchToken" ADD CONSTRAINT "SearchToken_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SearchToken" ADD CONSTRAINT "SearchToken_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SearchToken" ADD CONSTRAINT "SearchToken_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SearchToken" ADD CONSTRAINT "SearchToken_recordId_fkey" FOREIGN KEY ("recordId") REFERENCES "Record"("id") ON DELETE CASCADE ON UPDATE CASCADE;
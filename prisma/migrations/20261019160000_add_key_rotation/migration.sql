@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "KeyRotationStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "KeyRotation" (
+    "id" TEXT NOT NULL,
+    "targetKeyId" TEXT NOT NULL,
+    "status" "KeyRotationStatus" NOT NULL DEFAULT 'PENDING',
+    "startedByUserId" TEXT,
+    "rewrappedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KeyRotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KeyRotation_targetKeyId_idx" ON "KeyRotation"("targetKeyId");
+
+-- AddForeignKey
+ALTER TABLE "KeyRotation" ADD CONSTRAINT "KeyRotation_startedByUserId_fkey" FOREIGN KEY ("startedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
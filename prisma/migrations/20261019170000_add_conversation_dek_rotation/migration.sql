@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "dekVersion" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "previousEncryptedDek" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "dekVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "DekRotation" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "fromVersion" INTEGER NOT NULL,
+    "toVersion" INTEGER NOT NULL,
+    "status" "KeyRotationStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedByUserId" TEXT,
+    "reencryptedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DekRotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DekRotation_tenantId_idx" ON "DekRotation"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "DekRotation_conversationId_idx" ON "DekRotation"("conversationId");
+
+-- AddForeignKey
+ALTER TABLE "DekRotation" ADD CONSTRAINT "DekRotation_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DekRotation" ADD CONSTRAINT "DekRotation_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DekRotation" ADD CONSTRAINT "DekRotation_requestedByUserId_fkey" FOREIGN KEY ("requestedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Record" ADD COLUMN     "authTag" TEXT,
+ADD COLUMN     "ciphertext" TEXT,
+ADD COLUMN     "dekVersion" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "iv" TEXT,
+ALTER COLUMN "dataJson" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "WeeklySummary" ADD COLUMN     "authTag" TEXT,
+ADD COLUMN     "ciphertext" TEXT,
+ADD COLUMN     "dekVersion" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "iv" TEXT,
+ALTER COLUMN "summaryJson" DROP NOT NULL;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "RecordAuthorType" AS ENUM ('PSYCHOLOGIST', 'PATIENT');
+
+-- AlterTable
+ALTER TABLE "Record" ADD COLUMN     "authorType" "RecordAuthorType" NOT NULL DEFAULT 'PSYCHOLOGIST';
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "RecordDraftStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DISCARDED');
+
+-- AlterTable
+ALTER TABLE "AiEpisode" ADD COLUMN     "closedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "RecordDraft" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+    "status" "RecordDraftStatus" NOT NULL DEFAULT 'PENDING',
+    "ciphertext" TEXT,
+    "iv" TEXT,
+    "authTag" TEXT,
+    "dekVersion" INTEGER NOT NULL DEFAULT 1,
+    "provider" "LlmProvider" NOT NULL,
+    "model" TEXT NOT NULL,
+    "recordId" TEXT,
+    "reviewedByUserId" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecordDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecordDraft_episodeId_key" ON "RecordDraft"("episodeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecordDraft_recordId_key" ON "RecordDraft"("recordId");
+
+-- CreateIndex
+CREATE INDEX "RecordDraft_tenantId_idx" ON "RecordDraft"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "RecordDraft_conversationId_status_idx" ON "RecordDraft"("conversationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "RecordDraft" ADD CONSTRAINT "RecordDraft_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordDraft" ADD CONSTRAINT "RecordDraft_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordDraft" ADD CONSTRAINT "RecordDraft_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "AiEpisode"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordDraft" ADD CONSTRAINT "RecordDraft_recordId_fkey" FOREIGN KEY ("recordId") REFERENCES "Record"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordDraft" ADD CONSTRAINT "RecordDraft_reviewedByUserId_fkey" FOREIGN KEY ("reviewedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
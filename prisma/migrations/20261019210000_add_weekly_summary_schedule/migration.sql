@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "WeeklySummary" ADD COLUMN     "staleAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "WeeklySummary_tenantId_staleAt_idx" ON "WeeklySummary"("tenantId", "staleAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "defaultLanguage" "Language" NOT NULL DEFAULT 'ES',
+ADD COLUMN     "weekStartDay" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "PatientErasureStatus" AS ENUM ('SCHEDULED', 'CANCELLED', 'COMPLETED');
+
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "messageRetentionYears" INTEGER;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "erasedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "shreddedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PatientErasure" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "patientUserId" TEXT NOT NULL,
+    "requestedByUserId" TEXT NOT NULL,
+    "status" "PatientErasureStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "cancelledByUserId" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "conversationCount" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PatientErasure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PatientErasure_tenantId_idx" ON "PatientErasure"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "PatientErasure_patientUserId_idx" ON "PatientErasure"("patientUserId");
+
+-- CreateIndex
+CREATE INDEX "PatientErasure_status_scheduledFor_idx" ON "PatientErasure"("status", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "PatientErasure" ADD CONSTRAINT "PatientErasure_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientErasure" ADD CONSTRAINT "PatientErasure_patientUserId_fkey" FOREIGN KEY ("patientUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientErasure" ADD CONSTRAINT "PatientErasure_requestedByUserId_fkey" FOREIGN KEY ("requestedByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PatientErasure" ADD CONSTRAINT "PatientErasure_cancelledByUserId_fkey" FOREIGN KEY ("cancelledByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
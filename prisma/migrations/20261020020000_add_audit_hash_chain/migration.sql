@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "auditSequence" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "auditHeadHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN     "sequence" INTEGER,
+ADD COLUMN     "prevHash" TEXT,
+ADD COLUMN     "hash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_tenantId_sequence_key" ON "AuditLog"("tenantId", "sequence");
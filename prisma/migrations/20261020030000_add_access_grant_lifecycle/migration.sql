@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "AccessGrantStatus" AS ENUM ('REQUESTED', 'ACTIVE', 'DENIED', 'REVOKED');
+
+-- DropForeignKey
+ALTER TABLE "ConversationAccessGrant" DROP CONSTRAINT "ConversationAccessGrant_grantedByUserId_fkey";
+
+-- AlterTable
+-- Grants created before justifications were required keep an empty one.
+ALTER TABLE "ConversationAccessGrant" ALTER COLUMN "grantedByUserId" DROP NOT NULL,
+ADD COLUMN     "status" "AccessGrantStatus" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "justification" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "decidedAt" TIMESTAMP(3),
+ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "revokedByUserId" TEXT,
+ADD COLUMN     "lastNotifiedAt" TIMESTAMP(3);
+
+ALTER TABLE "ConversationAccessGrant" ALTER COLUMN "justification" DROP DEFAULT;
+
+-- AddForeignKey
+ALTER TABLE "ConversationAccessGrant" ADD CONSTRAINT "ConversationAccessGrant_grantedByUserId_fkey" FOREIGN KEY ("grantedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationAccessGrant" ADD CONSTRAINT "ConversationAccessGrant_revokedByUserId_fkey" FOREIGN KEY ("revokedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
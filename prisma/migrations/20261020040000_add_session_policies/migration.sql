@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "idleTimeoutMinutes" INTEGER;
+
+-- CreateTable
+CREATE TABLE "SessionPolicy" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "role" "Role" NOT NULL,
+    "idleTimeoutMinutes" INTEGER,
+    "absoluteTimeoutHours" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SessionPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionPolicy_tenantId_role_key" ON "SessionPolicy"("tenantId", "role");
+
+-- AddForeignKey
+ALTER TABLE "SessionPolicy" ADD CONSTRAINT "SessionPolicy_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
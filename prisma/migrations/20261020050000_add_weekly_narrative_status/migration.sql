@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "WeeklyNarrativeStatus" AS ENUM ('READY', 'EMPTY', 'UNAVAILABLE', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "WeeklySummary" ADD COLUMN     "narrativeStatus" "WeeklyNarrativeStatus",
+ADD COLUMN     "narrativeAttemptedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "WeeklySummary_tenantId_narrativeStatus_idx" ON "WeeklySummary"("tenantId", "narrativeStatus");
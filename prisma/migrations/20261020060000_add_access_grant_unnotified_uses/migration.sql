@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ConversationAccessGrant" ADD COLUMN     "unnotifiedUses" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PatientErasureStatus" ADD VALUE 'RUNNING';
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "DataExportFailureReason" AS ENUM ('TOO_LARGE', 'TOO_MANY_ATTEMPTS');
+
+-- AlterTable
+ALTER TABLE "DataExport" ADD COLUMN     "failureReason" "DataExportFailureReason";
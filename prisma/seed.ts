@@ -1,7 +1,13 @@
 import { prisma } from "../src/lib/prisma";
 import { hashPassword } from "../src/lib/auth/password";
 import { DEFAULT_AIDO_POLICY } from "../src/lib/ai/policy";
-import { decryptDek, encryptDek, encryptMessage, generateDek, getMasterKek } from "../src/lib/crypto";
+import { reindexConversation } from "../src/lib/search";
+import { encryptDek, encryptMessage, generateDek, getMasterKek } from "../src/lib/crypto";
+import {
+  encryptJson,
+  getConversationKeys,
+  type ConversationKeys,
+} from "../src/lib/conversation-keys";
 
 const DEFAULT_PASSWORD = process.env.SEED_DEFAULT_PASSWORD ?? "123456";
 const TENANT_NAME = process.env.SEED_TENANT_NAME ?? "Clinica Aurora";
@@ -113,6 +119,7 @@ async function seedConversationMessages(params: {
   tenantId: string;
   conversationId: string;
   dek: Buffer;
+  dekVersion: number;
 }) {
   const existing = await prisma.message.findFirst({
     where: { tenantId: params.tenantId, conversationId: params.conversationId },
@@ -148,6 +155,7 @@ async function seedConversationMessages(params: {
       ciphertext: encrypted.ciphertext,
       iv: encrypted.iv,
       authTag: encrypted.authTag,
+      dekVersion: params.dekVersion,
       createdAt: message.createdAt,
     };
   });
@@ -159,6 +167,7 @@ async function seedConversationRecords(params: {
   tenantId: string;
   conversationId: string;
   createdByUserId: string;
+  keys: ConversationKeys;
 }) {
   const existing = await prisma.record.findFirst({
     where: { tenantId: params.tenantId, conversationId: params.conversationId },
@@ -176,42 +185,51 @@ async function seedConversationRecords(params: {
         tenantId: params.tenantId,
         conversationId: params.conversationId,
         createdByUserId: params.createdByUserId,
-        dataJson: {
-          event: "Discussão com a mãe",
-          thought: "Ela nunca me entende",
-          emotion: "irritada",
-          body: "peito apertado",
-          action: "saí do quarto",
-          result: "alívio curto",
-        },
+        ...encryptJson(
+          {
+            event: "Discussão com a mãe",
+            thought: "Ela nunca me entende",
+            emotion: "irritada",
+            body: "peito apertado",
+            action: "saí do quarto",
+            result: "alívio curto",
+          },
+          params.keys,
+        ),
         createdAt: daysAgo(8),
       },
       {
         tenantId: params.tenantId,
         conversationId: params.conversationId,
         createdByUserId: params.createdByUserId,
-        dataJson: {
-          event: "Dia com pouca energia",
-          thought: "Não vou dar conta",
-          emotion: "cansada",
-          body: "peso nos ombros",
-          action: "descansar",
-          result: "melhora leve",
-        },
+        ...encryptJson(
+          {
+            event: "Dia com pouca energia",
+            thought: "Não vou dar conta",
+            emotion: "cansada",
+            body: "peso nos ombros",
+            action: "descansar",
+            result: "melhora leve",
+          },
+          params.keys,
+        ),
         createdAt: daysAgo(13),
       },
       {
         tenantId: params.tenantId,
         conversationId: params.conversationId,
         createdByUserId: params.createdByUserId,
-        dataJson: {
-          event: "Dia melhor",
-          thought: "Posso me cuidar",
-          emotion: "alívio",
-          body: "respiração mais leve",
-          action: "caminhada curta",
-          result: "mais calma",
-        },
+        ...encryptJson(
+          {
+            event: "Dia melhor",
+            thought: "Posso me cuidar",
+            emotion: "alívio",
+            body: "respiração mais leve",
+            action: "caminhada curta",
+            result: "mais calma",
+          },
+          params.keys,
+        ),
         createdAt: daysAgo(2),
       },
     ],
@@ -293,17 +311,20 @@ async function main() {
   });
 
   if (conversation) {
-    const dek = decryptDek(conversation.encryptedDek, getMasterKek());
+    const keys = getConversationKeys(conversation);
     await seedConversationMessages({
       tenantId: tenant.id,
       conversationId: conversation.id,
-      dek,
+      dek: keys.current,
+      dekVersion: keys.version,
     });
     await seedConversationRecords({
       tenantId: tenant.id,
       conversationId: conversation.id,
       createdByUserId: psychologist.id,
+      keys,
     });
+    await reindexConversation({ tenantId: tenant.id, conversationId: conversation.id });
   }
 
   await ensureTenantPolicy(tenant.id);
@@ -0,0 +1,56 @@
+import "dotenv/config";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../src/lib/prisma";
+import { encryptJson, getConversationKeys } from "../src/lib/conversation-keys";
+
+// Encrypts Record and WeeklySummary payloads written before they were stored
+// encrypted, for every conversation or only for the tenant given as the first
+// argument. Safe to run more than once.
+
+async function main() {
+  const tenantId = process.argv[2];
+  const conversations = await prisma.conversation.findMany({
+    where: tenantId ? { tenantId, shreddedAt: null } : { shreddedAt: null },
+    __allowMissingTenant: true,
+  } as Prisma.ConversationFindManyArgs & { __allowMissingTenant?: boolean });
+
+  for (const conversation of conversations) {
+    const keys = getConversationKeys(conversation);
+    const legacy = {
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      ciphertext: null,
+    };
+
+    const records = await prisma.record.findMany({ where: legacy });
+    for (const record of records) {
+      await prisma.record.updateMany({
+        where: { tenantId: conversation.tenantId, id: record.id, ciphertext: null },
+        data: { ...encryptJson(record.dataJson, keys), dataJson: Prisma.DbNull },
+      });
+    }
+
+    const summaries = await prisma.weeklySummary.findMany({ where: legacy });
+    for (const summary of summaries) {
+      await prisma.weeklySummary.updateMany({
+        where: { tenantId: conversation.tenantId, id: summary.id, ciphertext: null },
+        data: { ...encryptJson(summary.summaryJson, keys), summaryJson: Prisma.DbNull },
+      });
+    }
+
+    if (records.length || summaries.length) {
+      console.log(
+        `[payloads] ${conversation.id}: ${records.length} records, ${summaries.length} summaries`,
+      );
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
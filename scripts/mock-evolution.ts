@@ -0,0 +1,73 @@
+import { createServer, type IncomingMessage } from "http";
+import { randomBytes } from "crypto";
+
+// Minimal stand-in for the Evolution API used by the outbound worker in local dev.
+// Register a tenant channel with API URL http://localhost:8085 (or MOCK_EVOLUTION_PORT).
+
+const PORT = Number(process.env.MOCK_EVOLUTION_PORT ?? 8085);
+const API_KEY = process.env.MOCK_EVOLUTION_API_KEY ?? "";
+const FAIL_RATE = Number(process.env.MOCK_EVOLUTION_FAIL_RATE ?? 0);
+
+const SEND_ROUTE = /^\/message\/(sendText|sendWhatsAppAudio)\/([^/]+)$/;
+const MEDIA_ROUTE = /^\/chat\/getBase64FromMediaMessage\/([^/]+)$/;
+
+// 1x1 transparent PNG, returned for every media download.
+const MOCK_MEDIA_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+function readBody(request: IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+const server = createServer(async (request, response) => {
+  if (request.method === "POST" && MEDIA_ROUTE.test(request.url ?? "")) {
+    console.log("[mock-evolution] getBase64FromMediaMessage");
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(
+      JSON.stringify({ base64: MOCK_MEDIA_PNG, mimetype: "image/png", fileName: "mock.png" }),
+    );
+    return;
+  }
+
+  const match = request.method === "POST" ? SEND_ROUTE.exec(request.url ?? "") : null;
+  if (!match) {
+    response.writeHead(404, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ error: "Not found" }));
+    return;
+  }
+
+  if (API_KEY && request.headers.apikey !== API_KEY) {
+    response.writeHead(401, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ error: "Unauthorized" }));
+    return;
+  }
+
+  const raw = await readBody(request);
+  const body = JSON.parse(raw || "{}") as { number?: string; text?: string };
+
+  if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+    console.log(`[mock-evolution] ${match[1]} -> simulated failure`);
+    response.writeHead(503, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ error: "Simulated outage" }));
+    return;
+  }
+
+  const id = randomBytes(10).toString("hex").toUpperCase();
+  console.log(`[mock-evolution] ${match[1]} instance=${match[2]} number=${body.number} id=${id}`);
+  response.writeHead(201, { "Content-Type": "application/json" });
+  response.end(
+    JSON.stringify({
+      key: { id, remoteJid: `${body.number}@s.whatsapp.net`, fromMe: true },
+      status: "PENDING",
+    }),
+  );
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-evolution] listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,35 @@
+import "dotenv/config";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../src/lib/prisma";
+import { reindexConversation } from "../src/lib/search";
+
+// Rebuilds the blind search index for every conversation, or only for the
+// tenant given as the first argument.
+
+async function main() {
+  const tenantId = process.argv[2];
+  const conversations = await prisma.conversation.findMany({
+    where: tenantId ? { tenantId, shreddedAt: null } : { shreddedAt: null },
+    select: { id: true, tenantId: true },
+    __allowMissingTenant: true,
+  } as Prisma.ConversationFindManyArgs & { __allowMissingTenant?: boolean });
+
+  for (const conversation of conversations) {
+    const counts = await reindexConversation({
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+    });
+    console.log(
+      `[search] ${conversation.id}: ${counts.messages} messages, ${counts.records} records`,
+    );
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,6 +1,9 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import AuditLogClient, { EMPTY_AUDIT_FILTERS, type AuditFilters } from "@/app/admin/AuditLogClient";
+import { SessionList, type SessionListLabels } from "@/components/account/SessionList";
+import { SessionTimeout } from "@/components/account/SessionTimeout";
 
 type Psychologist = {
   id: string;
@@ -19,12 +22,73 @@ type Patient = {
   preferredLanguage: "PT" | "ES" | "EN";
   psychologistUserId?: string | null;
   psychologistName?: string | null;
+  erasureScheduledFor?: string | null;
+  conversationId?: string | null;
   createdAt: string;
 };
 
+type AccessGrant = {
+  id: string;
+  conversationId: string;
+  userEmail: string | null;
+  status: "REQUESTED" | "ACTIVE" | "DENIED" | "REVOKED";
+  active: boolean;
+  justification: string;
+  expiresAt: string | null;
+  createdAt: string;
+};
+
+type LlmProvider = "OPENAI" | "OPENAI_COMPATIBLE" | "AZURE_OPENAI" | "ANTHROPIC";
+
+type LlmSettings = {
+  llmProvider: LlmProvider | null;
+  llmModel: string | null;
+  llmAllowedProviders: LlmProvider[];
+};
+
+type TenantSettings = {
+  timeZone: string;
+  defaultLanguage: Patient["preferredLanguage"];
+  weekStartDay: number;
+  messageRetentionYears: number | null;
+};
+
+type SessionPolicy = {
+  role: "ADMIN" | "PSYCHOLOGIST" | "PATIENT";
+  idleTimeoutMinutes: number | null;
+  absoluteTimeoutHours: number;
+};
+
 type Props = {
+  tenantId: string;
+  adminEmail: string | null;
   initialPsychologists: Psychologist[];
   initialPatients: Patient[];
+  initialLlmSettings: LlmSettings;
+  configuredLlmProviders: LlmProvider[];
+  initialTenantSettings: TenantSettings;
+  initialSessionPolicies: SessionPolicy[];
+  auditActions: string[];
+  initialGrants: AccessGrant[];
+};
+
+const WEEK_START_LABELS: Array<{ value: number; label: string }> = [
+  { value: 1, label: "Segunda-feira" },
+  { value: 0, label: "Domingo" },
+  { value: 6, label: "Sabado" },
+];
+
+const SESSION_ROLE_LABELS: Record<SessionPolicy["role"], string> = {
+  ADMIN: "Admins",
+  PSYCHOLOGIST: "Psicologos",
+  PATIENT: "Pacientes",
+};
+
+const LLM_PROVIDER_LABELS: Record<LlmProvider, string> = {
+  OPENAI: "OpenAI",
+  OPENAI_COMPATIBLE: "Compativel com OpenAI (local)",
+  AZURE_OPENAI: "Azure OpenAI",
+  ANTHROPIC: "Anthropic",
 };
 
 async function postJson<T>(url: string, payload: Record<string, unknown>) {
@@ -57,10 +121,47 @@ async function patchJson<T>(url: string, payload: Record<string, unknown>) {
   return data;
 }
 
+async function deleteJson(url: string) {
+  const response = await fetch(url, { method: "DELETE" });
+  const data = (await response.json().catch(() => ({}))) as { error?: string };
+  if (!response.ok) {
+    throw new Error(data.error ?? "Request failed");
+  }
+  return data;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString("pt-BR");
+const formatDateTime = (value: string) => new Date(value).toLocaleString("pt-BR");
+
+const SESSION_LABELS: SessionListLabels = {
+  current: "Esta sessao",
+  lastSeen: "Ultimo uso",
+  signedInAt: "Entrou em",
+  unknownDevice: "Dispositivo desconhecido",
+  revoke: "Encerrar",
+  signOut: "Sair",
+  revokeAll: "Encerrar todas as outras",
+  empty: "Nenhuma sessao ativa.",
+  loading: "Carregando...",
+};
+
+// Requests from the admin UI ask for a one-day window.
+const ACCESS_REQUEST_HOURS = 24;
+
 export default function AdminClient({
+  tenantId,
+  adminEmail,
   initialPsychologists,
   initialPatients,
+  initialLlmSettings,
+  configuredLlmProviders,
+  initialTenantSettings,
+  initialSessionPolicies,
+  auditActions,
+  initialGrants,
 }: Props) {
+  const [tab, setTab] = useState<"manage" | "audit">("manage");
+  const [auditPreset, setAuditPreset] = useState({ key: 0, filters: EMPTY_AUDIT_FILTERS });
   const [psychologists, setPsychologists] = useState(initialPsychologists);
   const [patients, setPatients] = useState(initialPatients);
   const [status, setStatus] = useState("");
@@ -74,7 +175,17 @@ export default function AdminClient({
   const [newPatientPsychologist, setNewPatientPsychologist] = useState("");
   const [newPatientLanguage, setNewPatientLanguage] = useState<
     Patient["preferredLanguage"]
-  >("ES");
+  >(initialTenantSettings.defaultLanguage);
+  const [llmSettings, setLlmSettings] = useState(initialLlmSettings);
+  const [tenantSettings, setTenantSettings] = useState(initialTenantSettings);
+  const [sessionPolicies, setSessionPolicies] = useState(initialSessionPolicies);
+  const [erasureStepUp, setErasureStepUp] = useState<{
+    patientId: string;
+    challengeId: string;
+  } | null>(null);
+  const [erasureOtpCode, setErasureOtpCode] = useState("");
+  const [grants, setGrants] = useState(initialGrants);
+  const [sessionsUserId, setSessionsUserId] = useState<string | null>(null);
 
   const activePsychologists = useMemo(
     () => psychologists.filter((item) => item.isActive),
@@ -177,7 +288,7 @@ export default function AdminClient({
       setNewPatientName("");
       setNewPatientPhone("");
       setNewPatientPsychologist("");
-      setNewPatientLanguage("ES");
+      setNewPatientLanguage(tenantSettings.defaultLanguage);
       setStatus("Paciente criado.");
     } catch (error) {
       setStatus((error as Error).message);
@@ -213,288 +324,916 @@ export default function AdminClient({
     }
   };
 
+  // The worker builds the archive; the patient gets the password by email and
+  // downloads it from the patient area.
+  const handleRequestPatientExport = async (id: string) => {
+    try {
+      setStatus("Solicitando exportacao...");
+      await postJson("/api/exports", { patientId: id });
+      setStatus("Exportacao solicitada. O paciente recebe a senha por email.");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const requestErasureStepUp = async (patientId: string) => {
+    if (!adminEmail) {
+      setStatus("Sua conta nao tem email para receber o codigo de confirmacao.");
+      return;
+    }
+    const data = await postJson<{ challengeId?: string }>("/api/auth/otp/request", {
+      tenantId,
+      email: adminEmail,
+      purpose: "stepup",
+    });
+    if (!data.challengeId) {
+      throw new Error("Request failed");
+    }
+    setErasureStepUp({ patientId, challengeId: data.challengeId });
+    setErasureOtpCode("");
+    setStatus("Enviamos um codigo para o seu email para confirmar a exclusao.");
+  };
+
+  // Erasure runs only after the cooling-off period and can be cancelled until
+  // then; scheduling it still needs a fresh step-up.
+  const scheduleErasure = async (id: string) => {
+    const response = await fetch(`/api/admin/patients/${id}/erasure`, { method: "POST" });
+    const data = (await response.json().catch(() => ({}))) as {
+      item?: { scheduledFor: string };
+      error?: string;
+      stepUpRequired?: boolean;
+    };
+    if (data.stepUpRequired) {
+      await requestErasureStepUp(id);
+      return;
+    }
+    if (!response.ok || !data.item) {
+      throw new Error(data.error ?? "Request failed");
+    }
+    const scheduledFor = data.item.scheduledFor;
+    setPatients((current) =>
+      current.map((item) =>
+        item.id === id ? { ...item, erasureScheduledFor: scheduledFor } : item,
+      ),
+    );
+    setStatus(`Exclusao agendada para ${formatDate(scheduledFor)}.`);
+  };
+
+  const handleScheduleErasure = async (id: string) => {
+    if (
+      !window.confirm(
+        "Esquecer este paciente? Depois do prazo de cancelamento, mensagens, registros e dados pessoais ficam irrecuperaveis.",
+      )
+    ) {
+      return;
+    }
+    try {
+      await scheduleErasure(id);
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const handleVerifyErasureStepUp = async () => {
+    if (!erasureStepUp || !erasureOtpCode.trim()) {
+      return;
+    }
+    try {
+      await postJson("/api/auth/otp/verify", {
+        tenantId,
+        challengeId: erasureStepUp.challengeId,
+        code: erasureOtpCode.trim(),
+        purpose: "stepup",
+      });
+      setErasureStepUp(null);
+      setErasureOtpCode("");
+      await scheduleErasure(erasureStepUp.patientId);
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const handleCancelErasure = async (id: string) => {
+    try {
+      await deleteJson(`/api/admin/patients/${id}/erasure`);
+      setPatients((current) =>
+        current.map((item) =>
+          item.id === id ? { ...item, erasureScheduledFor: null } : item,
+        ),
+      );
+      setStatus("Exclusao cancelada.");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const refreshGrants = async () => {
+    const response = await fetch("/api/conversations/access-grant");
+    const data = (await response.json().catch(() => ({}))) as { items?: AccessGrant[] };
+    if (response.ok) {
+      setGrants(
+        (data.items ?? []).filter(
+          (item) => item.status === "REQUESTED" || item.status === "ACTIVE",
+        ),
+      );
+    }
+  };
+
+  // The psychologist approves or denies in their app; reading still needs
+  // step-up once the grant is active.
+  const handleRequestAccess = async (patient: Patient) => {
+    if (!patient.conversationId) {
+      setStatus("Paciente sem conversa.");
+      return;
+    }
+    const justification = window.prompt(
+      "Justificativa para acessar a conversa (enviada ao psicologo):",
+    );
+    if (!justification?.trim()) {
+      return;
+    }
+    try {
+      await postJson("/api/conversations/access-grant/requests", {
+        conversationId: patient.conversationId,
+        justification: justification.trim(),
+        expiresAt: new Date(Date.now() + ACCESS_REQUEST_HOURS * 60 * 60 * 1000).toISOString(),
+      });
+      await refreshGrants();
+      setStatus("Pedido de acesso enviado ao psicologo.");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const handleRevokeGrant = async (id: string) => {
+    try {
+      await deleteJson(`/api/conversations/access-grant/${id}`);
+      await refreshGrants();
+      setStatus("Acesso revogado.");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const patientByConversation = useMemo(
+    () =>
+      new Map(
+        patients
+          .filter((item) => item.conversationId)
+          .map((item) => [item.conversationId as string, item]),
+      ),
+    [patients],
+  );
+
+  const openAudit = (filters: Partial<AuditFilters>) => {
+    setAuditPreset((current) => ({
+      key: current.key + 1,
+      filters: { ...EMPTY_AUDIT_FILTERS, ...filters },
+    }));
+    setTab("audit");
+  };
+
+  const toggleSessions = (userId: string) =>
+    setSessionsUserId((current) => (current === userId ? null : userId));
+
+  const toggleAllowedProvider = (provider: LlmProvider) => {
+    setLlmSettings((current) => ({
+      ...current,
+      llmAllowedProviders: current.llmAllowedProviders.includes(provider)
+        ? current.llmAllowedProviders.filter((item) => item !== provider)
+        : [...current.llmAllowedProviders, provider],
+    }));
+  };
+
+  const handleSaveLlmSettings = async () => {
+    try {
+      const data = await patchJson<{ item: LlmSettings }>("/api/admin/llm", {
+        llmProvider: llmSettings.llmProvider,
+        llmModel: llmSettings.llmModel?.trim() || null,
+        llmAllowedProviders: llmSettings.llmAllowedProviders,
+      });
+      setLlmSettings(data.item);
+      setStatus("Provedor de IA atualizado.");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const handleSaveTenantSettings = async () => {
+    try {
+      const data = await patchJson<{ item: TenantSettings }>("/api/admin/settings", {
+        timeZone: tenantSettings.timeZone.trim(),
+        defaultLanguage: tenantSettings.defaultLanguage,
+        weekStartDay: tenantSettings.weekStartDay,
+        messageRetentionYears: tenantSettings.messageRetentionYears,
+      });
+      setTenantSettings(data.item);
+      setStatus("Configuracoes da clinica atualizadas.");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const updateSessionPolicy = (role: SessionPolicy["role"], patch: Partial<SessionPolicy>) =>
+    setSessionPolicies((current) =>
+      current.map((item) => (item.role === role ? { ...item, ...patch } : item)),
+    );
+
+  const handleSaveSessionPolicies = async () => {
+    try {
+      const data = await patchJson<{ items: SessionPolicy[] }>("/api/admin/session-policies", {
+        items: sessionPolicies,
+      });
+      setSessionPolicies(data.items);
+      setStatus("Tempos de sessao atualizados. Valem para os proximos logins.");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
   return (
     <div className="space-y-8">
-      <section className="grid gap-6 lg:grid-cols-[1.1fr_0.9fr]">
-        <div className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
-          <h2 className="text-2xl text-[color:var(--ink-900)]">Psicologos</h2>
-          <div className="mt-4 grid gap-3 sm:grid-cols-[1fr_1fr_auto]">
-            <input
-              className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
-              placeholder="Email do psicologo"
-              value={newPsychEmail}
-              onChange={(event) => setNewPsychEmail(event.target.value)}
-            />
-            <input
-              className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
-              placeholder="Nome de exibicao"
-              value={newPsychName}
-              onChange={(event) => setNewPsychName(event.target.value)}
-            />
-            <button
-              className="h-11 rounded-xl bg-[color:var(--accent-500)] px-4 text-sm font-semibold text-white"
-              type="button"
-              onClick={handleCreatePsychologist}
-            >
-              Criar
-            </button>
-          </div>
+      <div className="flex gap-2">
+        {(
+          [
+            { key: "manage", label: "Gestao" },
+            { key: "audit", label: "Auditoria" },
+          ] as const
+        ).map((item) => (
+          <button
+            key={item.key}
+            className={`h-10 rounded-full px-4 text-sm font-semibold ${
+              tab === item.key
+                ? "bg-[color:var(--accent-500)] text-white"
+                : "border border-black/10 bg-white/80 text-[color:var(--ink-700)]"
+            }`}
+            type="button"
+            onClick={() => setTab(item.key)}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
 
-          <div className="mt-5 space-y-3">
-            {psychologists.map((item) => (
-              <div
-                key={item.id}
-                className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] p-4"
+      {tab === "audit" ? (
+        <AuditLogClient
+          key={auditPreset.key}
+          psychologists={psychologists}
+          patients={patients}
+          actions={auditActions}
+          timeZone={tenantSettings.timeZone}
+          initialFilters={auditPreset.filters}
+        />
+      ) : (
+        <>
+          <section className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+            <h2 className="text-2xl text-[color:var(--ink-900)]">Configuracoes da clinica</h2>
+            <p className="mt-2 text-sm text-[color:var(--ink-500)]">
+              Fuso horario (IANA, ex. America/Sao_Paulo) usado nas datas e no corte das
+              semanas, idioma padrao de novos pacientes e primeiro dia da semana. Mudar o
+              fuso ou o inicio da semana apaga os resumos semanais, que sao gerados de novo.
+              A retencao (em anos) apaga mensagens mais antigas todos os dias; vazio
+              mantem tudo.
+            </p>
+            <div className="mt-4 grid gap-3 sm:grid-cols-[1.2fr_1fr_1fr_0.8fr_auto]">
+              <input
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                placeholder="Fuso horario"
+                value={tenantSettings.timeZone}
+                onChange={(event) =>
+                  setTenantSettings({ ...tenantSettings, timeZone: event.target.value })
+                }
+              />
+              <select
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+                value={tenantSettings.defaultLanguage}
+                onChange={(event) =>
+                  setTenantSettings({
+                    ...tenantSettings,
+                    defaultLanguage: event.target.value as TenantSettings["defaultLanguage"],
+                  })
+                }
               >
-                <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto]">
+                <option value="ES">Espanhol</option>
+                <option value="PT">Portugues</option>
+                <option value="EN">Ingles</option>
+              </select>
+              <select
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+                value={tenantSettings.weekStartDay}
+                onChange={(event) =>
+                  setTenantSettings({
+                    ...tenantSettings,
+                    weekStartDay: Number(event.target.value),
+                  })
+                }
+              >
+                {WEEK_START_LABELS.map((item) => (
+                  <option key={item.value} value={item.value}>
+                    {item.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                type="number"
+                min={1}
+                max={50}
+                placeholder="Retencao (anos)"
+                value={tenantSettings.messageRetentionYears ?? ""}
+                onChange={(event) =>
+                  setTenantSettings({
+                    ...tenantSettings,
+                    messageRetentionYears: event.target.value
+                      ? Number(event.target.value)
+                      : null,
+                  })
+                }
+              />
+              <button
+                className="h-11 rounded-xl bg-[color:var(--accent-500)] px-4 text-sm font-semibold text-white"
+                type="button"
+                onClick={handleSaveTenantSettings}
+              >
+                Salvar
+              </button>
+            </div>
+          </section>
+
+          <section className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+            <h2 className="text-2xl text-[color:var(--ink-900)]">Tempo de sessao</h2>
+            <p className="mt-2 text-sm text-[color:var(--ink-500)]">
+              Inatividade (em minutos) encerra a sessao de quem deixou o computador aberto;
+              vazio desativa. O limite total (em horas) vale mesmo com uso continuo. Quem
+              estiver logado recebe um aviso dois minutos antes. As mudancas valem para os
+              proximos logins; para aplicar ja, encerre as sessoes abertas.
+            </p>
+            <div className="mt-4 space-y-3">
+              {sessionPolicies.map((item) => (
+                <div
+                  key={item.role}
+                  className="grid items-center gap-3 sm:grid-cols-[0.8fr_1fr_1fr]"
+                >
+                  <span className="text-sm font-semibold text-[color:var(--ink-900)]">
+                    {SESSION_ROLE_LABELS[item.role]}
+                  </span>
                   <input
-                    className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
-                    defaultValue={item.email ?? ""}
-                    onBlur={(event) => {
-                      const value = event.target.value.trim();
-                      if (!value || value === item.email) {
-                        return;
-                      }
-                      handleUpdatePsychologist(item.id, { email: value });
-                    }}
+                    className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                    type="number"
+                    min={5}
+                    max={1440}
+                    placeholder="Inatividade (min)"
+                    value={item.idleTimeoutMinutes ?? ""}
+                    onChange={(event) =>
+                      updateSessionPolicy(item.role, {
+                        idleTimeoutMinutes: event.target.value
+                          ? Number(event.target.value)
+                          : null,
+                      })
+                    }
                   />
                   <input
-                    className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
-                    defaultValue={item.displayName ?? ""}
-                    onBlur={(event) => {
-                      const value = event.target.value.trim();
-                      if (!value || value === item.displayName) {
-                        return;
-                      }
-                      handleUpdatePsychologist(item.id, { displayName: value });
-                    }}
-                  />
-                  <button
-                    className={`h-10 rounded-lg px-3 text-xs font-semibold ${
-                      item.isActive
-                        ? "border border-black/10 bg-white text-[color:var(--ink-900)]"
-                        : "bg-[color:var(--accent-500)] text-white"
-                    }`}
-                    type="button"
-                    onClick={() =>
-                      handleUpdatePsychologist(item.id, {
-                        isActive: !item.isActive,
+                    className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                    type="number"
+                    min={1}
+                    max={720}
+                    placeholder="Limite total (h)"
+                    value={item.absoluteTimeoutHours}
+                    onChange={(event) =>
+                      updateSessionPolicy(item.role, {
+                        absoluteTimeoutHours: Number(event.target.value),
                       })
                     }
-                  >
-                    {item.isActive ? "Desativar" : "Ativar"}
-                  </button>
+                  />
                 </div>
-              </div>
-            ))}
-          </div>
-        </div>
-
-        <div className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
-          <h2 className="text-2xl text-[color:var(--ink-900)]">Equipe</h2>
-          <p className="mt-2 text-sm text-[color:var(--ink-500)]">
-            Gerencie psicologos e pacientes associados ao tenant.
-          </p>
-        </div>
-      </section>
-
-      <section className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
-        <h2 className="text-2xl text-[color:var(--ink-900)]">Pacientes</h2>
-        <div className="mt-4 grid gap-3 lg:grid-cols-[1fr_1fr_1fr_1fr_1fr_auto]">
-          <input
-            className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
-            placeholder="Email do paciente"
-            value={newPatientEmail}
-            onChange={(event) => {
-              setNewPatientEmail(event.target.value);
-              clearError("newPatientEmail");
-            }}
-            onBlur={(event) => {
-              const value = event.target.value.trim();
-              if (!value || !validEmail(value)) {
-                setError("newPatientEmail", "Email invalido.");
-              }
-            }}
-          />
-          <input
-            className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
-            placeholder="Nome"
-            value={newPatientName}
-            onChange={(event) => {
-              setNewPatientName(event.target.value);
-              clearError("newPatientName");
-            }}
-            onBlur={(event) => {
-              if (!event.target.value.trim()) {
-                setError("newPatientName", "Nome obrigatorio.");
-              }
-            }}
-          />
-          <input
-            className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
-            placeholder="Telefone E164"
-            value={newPatientPhone}
-            onChange={(event) => {
-              setNewPatientPhone(event.target.value);
-              clearError("newPatientPhone");
-            }}
-            onBlur={(event) => {
-              const value = event.target.value.trim();
-              if (!value || !validPhone(value)) {
-                setError("newPatientPhone", "Telefone E164 invalido.");
-              }
-            }}
-          />
-          <select
-            className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
-            value={newPatientPsychologist}
-            onChange={(event) => setNewPatientPsychologist(event.target.value)}
-          >
-            <option value="">Psicologo responsavel</option>
-            {activePsychologists.map((psych) => (
-              <option key={psych.id} value={psych.id}>
-                {psych.displayName ?? psych.email}
-              </option>
-            ))}
-          </select>
-          <select
-            className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
-            value={newPatientLanguage}
-            onChange={(event) =>
-              setNewPatientLanguage(event.target.value as Patient["preferredLanguage"])
-            }
-          >
-            <option value="ES">Espanhol</option>
-            <option value="PT">Portugues</option>
-            <option value="EN">Ingles</option>
-          </select>
-          <button
-            className="h-11 rounded-xl bg-[color:var(--accent-500)] px-4 text-sm font-semibold text-white"
-            type="button"
-            onClick={handleCreatePatient}
-            disabled={
-              !validEmail(newPatientEmail) ||
-              !newPatientName.trim() ||
-              !validPhone(newPatientPhone)
-            }
-          >
-            Criar
-          </button>
-        </div>
-        {fieldErrors.newPatientEmail ? (
-          <p className="text-xs text-red-600">{fieldErrors.newPatientEmail}</p>
-        ) : null}
-        {fieldErrors.newPatientName ? (
-          <p className="text-xs text-red-600">{fieldErrors.newPatientName}</p>
-        ) : null}
-        {fieldErrors.newPatientPhone ? (
-          <p className="text-xs text-red-600">{fieldErrors.newPatientPhone}</p>
-        ) : null}
-
-        <div className="mt-5 space-y-3">
-          {patients.map((item) => (
-            <div
-              key={item.id}
-              className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] p-4"
+              ))}
+            </div>
+            <button
+              className="mt-4 h-11 rounded-xl bg-[color:var(--accent-500)] px-4 text-sm font-semibold text-white"
+              type="button"
+              onClick={handleSaveSessionPolicies}
             >
-              <div className="grid gap-3 md:grid-cols-[1fr_1fr_1fr_1fr_1fr_auto]">
-                <input
-                  className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
-                  defaultValue={item.email ?? ""}
-                  onBlur={(event) => {
-                    const value = event.target.value.trim();
-                    if (!value || value === item.email) {
-                      return;
-                    }
-                    if (!validEmail(value)) {
-                      setStatus("Email invalido.");
-                      return;
-                    }
-                    handleUpdatePatient(item.id, { email: value });
-                  }}
-                />
+              Salvar
+            </button>
+          </section>
+
+          <section className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+            <h2 className="text-2xl text-[color:var(--ink-900)]">Provedor de IA</h2>
+            <p className="mt-2 text-sm text-[color:var(--ink-500)]">
+              Defina o provedor padrao da clinica e quais provedores os psicologos podem
+              usar. Com a lista vazia, qualquer provedor configurado no servidor e aceito.
+            </p>
+            <div className="mt-4 grid gap-3 sm:grid-cols-[1fr_1fr_auto]">
+              <select
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                value={llmSettings.llmProvider ?? ""}
+                onChange={(event) =>
+                  setLlmSettings({
+                    ...llmSettings,
+                    llmProvider: (event.target.value || null) as LlmProvider | null,
+                  })
+                }
+              >
+                <option value="">Padrao do servidor</option>
+                {configuredLlmProviders.map((provider) => (
+                  <option key={provider} value={provider}>
+                    {LLM_PROVIDER_LABELS[provider]}
+                  </option>
+                ))}
+              </select>
+              <input
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                placeholder="Modelo (opcional)"
+                value={llmSettings.llmModel ?? ""}
+                onChange={(event) =>
+                  setLlmSettings({ ...llmSettings, llmModel: event.target.value })
+                }
+              />
+              <button
+                className="h-11 rounded-xl bg-[color:var(--accent-500)] px-4 text-sm font-semibold text-white"
+                type="button"
+                onClick={handleSaveLlmSettings}
+              >
+                Salvar
+              </button>
+            </div>
+            <div className="mt-4 flex flex-wrap gap-4">
+              {configuredLlmProviders.map((provider) => (
+                <label
+                  key={provider}
+                  className="flex items-center gap-2 text-xs text-[color:var(--ink-700)]"
+                >
+                  <input
+                    type="checkbox"
+                    checked={llmSettings.llmAllowedProviders.includes(provider)}
+                    onChange={() => toggleAllowedProvider(provider)}
+                  />
+                  {LLM_PROVIDER_LABELS[provider]}
+                </label>
+              ))}
+              {configuredLlmProviders.length === 0 ? (
+                <p className="text-xs text-[color:var(--ink-500)]">
+                  Nenhum provedor configurado no servidor.
+                </p>
+              ) : null}
+            </div>
+          </section>
+
+          <section className="grid gap-6 lg:grid-cols-[1.1fr_0.9fr]">
+            <div className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+              <h2 className="text-2xl text-[color:var(--ink-900)]">Psicologos</h2>
+              <div className="mt-4 grid gap-3 sm:grid-cols-[1fr_1fr_auto]">
                 <input
-                  className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
-                  defaultValue={item.displayName ?? ""}
-                  onBlur={(event) => {
-                    const value = event.target.value.trim();
-                    if (!value || value === item.displayName) {
-                      return;
-                    }
-                    handleUpdatePatient(item.id, { displayName: value });
-                  }}
+                  className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                  placeholder="Email do psicologo"
+                  value={newPsychEmail}
+                  onChange={(event) => setNewPsychEmail(event.target.value)}
                 />
                 <input
-                  className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
-                  defaultValue={item.phoneE164 ?? ""}
-                  onBlur={(event) => {
-                    const value = event.target.value.trim();
-                    if (!value || value === item.phoneE164) {
-                      return;
-                    }
-                    if (!validPhone(value)) {
-                      setStatus("Telefone E164 invalido.");
-                      return;
-                    }
-                    handleUpdatePatient(item.id, { phoneE164: value });
-                  }}
+                  className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                  placeholder="Nome de exibicao"
+                  value={newPsychName}
+                  onChange={(event) => setNewPsychName(event.target.value)}
                 />
-                <select
-                  className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-xs"
-                  value={item.psychologistUserId ?? ""}
-                  onChange={(event) =>
-                    handleUpdatePatient(item.id, {
-                      psychologistUserId: event.target.value || null,
-                    })
-                  }
-                >
-                  <option value="">Sem psicologo</option>
-                  {activePsychologists.map((psych) => (
-                    <option key={psych.id} value={psych.id}>
-                      {psych.displayName ?? psych.email}
-                    </option>
-                  ))}
-                </select>
-                <select
-                  className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-xs"
-                  defaultValue={item.preferredLanguage}
-                  onChange={(event) =>
-                    handleUpdatePatient(item.id, {
-                      preferredLanguage: event.target.value as Patient["preferredLanguage"],
-                    })
-                  }
-                >
-                  <option value="ES">Espanhol</option>
-                  <option value="PT">Portugues</option>
-                  <option value="EN">Ingles</option>
-                </select>
                 <button
-                  className={`h-10 rounded-lg px-3 text-xs font-semibold ${
-                    item.isActive
-                      ? "border border-black/10 bg-white text-[color:var(--ink-900)]"
-                      : "bg-[color:var(--accent-500)] text-white"
-                  }`}
+                  className="h-11 rounded-xl bg-[color:var(--accent-500)] px-4 text-sm font-semibold text-white"
                   type="button"
-                  onClick={() =>
-                    handleUpdatePatient(item.id, { isActive: !item.isActive })
-                  }
+                  onClick={handleCreatePsychologist}
                 >
-                  {item.isActive ? "Desativar" : "Ativar"}
+                  Criar
                 </button>
               </div>
-              <p className="mt-2 text-xs text-[color:var(--ink-500)]">
-                Psicologo: {item.psychologistName ?? "Nao atribuido"}
+
+              <div className="mt-5 space-y-3">
+                {psychologists.map((item) => (
+                  <div
+                    key={item.id}
+                    className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] p-4"
+                  >
+                    <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto]">
+                      <input
+                        className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
+                        defaultValue={item.email ?? ""}
+                        onBlur={(event) => {
+                          const value = event.target.value.trim();
+                          if (!value || value === item.email) {
+                            return;
+                          }
+                          handleUpdatePsychologist(item.id, { email: value });
+                        }}
+                      />
+                      <input
+                        className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
+                        defaultValue={item.displayName ?? ""}
+                        onBlur={(event) => {
+                          const value = event.target.value.trim();
+                          if (!value || value === item.displayName) {
+                            return;
+                          }
+                          handleUpdatePsychologist(item.id, { displayName: value });
+                        }}
+                      />
+                      <button
+                        className={`h-10 rounded-lg px-3 text-xs font-semibold ${
+                          item.isActive
+                            ? "border border-black/10 bg-white text-[color:var(--ink-900)]"
+                            : "bg-[color:var(--accent-500)] text-white"
+                        }`}
+                        type="button"
+                        onClick={() =>
+                          handleUpdatePsychologist(item.id, {
+                            isActive: !item.isActive,
+                          })
+                        }
+                      >
+                        {item.isActive ? "Desativar" : "Ativar"}
+                      </button>
+                    </div>
+                    <div className="mt-2 flex justify-end">
+                      <button
+                        className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+                        type="button"
+                        onClick={() => toggleSessions(item.id)}
+                      >
+                        Sessoes
+                      </button>
+                    </div>
+                    {sessionsUserId === item.id ? (
+                      <div className="mt-3">
+                        <SessionList
+                          endpoint={`/api/admin/users/${item.id}/sessions`}
+                          labels={{ ...SESSION_LABELS, revokeAll: "Encerrar todas" }}
+                          formatDateTime={formatDateTime}
+                        />
+                      </div>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+              <h2 className="text-2xl text-[color:var(--ink-900)]">Equipe</h2>
+              <p className="mt-2 text-sm text-[color:var(--ink-500)]">
+                Gerencie psicologos e pacientes associados ao tenant.
               </p>
             </div>
-          ))}
-        </div>
-      </section>
+          </section>
+
+          <section className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+            <h2 className="text-2xl text-[color:var(--ink-900)]">Pacientes</h2>
+            <div className="mt-4 grid gap-3 lg:grid-cols-[1fr_1fr_1fr_1fr_1fr_auto]">
+              <input
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                placeholder="Email do paciente"
+                value={newPatientEmail}
+                onChange={(event) => {
+                  setNewPatientEmail(event.target.value);
+                  clearError("newPatientEmail");
+                }}
+                onBlur={(event) => {
+                  const value = event.target.value.trim();
+                  if (!value || !validEmail(value)) {
+                    setError("newPatientEmail", "Email invalido.");
+                  }
+                }}
+              />
+              <input
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                placeholder="Nome"
+                value={newPatientName}
+                onChange={(event) => {
+                  setNewPatientName(event.target.value);
+                  clearError("newPatientName");
+                }}
+                onBlur={(event) => {
+                  if (!event.target.value.trim()) {
+                    setError("newPatientName", "Nome obrigatorio.");
+                  }
+                }}
+              />
+              <input
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+                placeholder="Telefone E164"
+                value={newPatientPhone}
+                onChange={(event) => {
+                  setNewPatientPhone(event.target.value);
+                  clearError("newPatientPhone");
+                }}
+                onBlur={(event) => {
+                  const value = event.target.value.trim();
+                  if (!value || !validPhone(value)) {
+                    setError("newPatientPhone", "Telefone E164 invalido.");
+                  }
+                }}
+              />
+              <select
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+                value={newPatientPsychologist}
+                onChange={(event) => setNewPatientPsychologist(event.target.value)}
+              >
+                <option value="">Psicologo responsavel</option>
+                {activePsychologists.map((psych) => (
+                  <option key={psych.id} value={psych.id}>
+                    {psych.displayName ?? psych.email}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+                value={newPatientLanguage}
+                onChange={(event) =>
+                  setNewPatientLanguage(event.target.value as Patient["preferredLanguage"])
+                }
+              >
+                <option value="ES">Espanhol</option>
+                <option value="PT">Portugues</option>
+                <option value="EN">Ingles</option>
+              </select>
+              <button
+                className="h-11 rounded-xl bg-[color:var(--accent-500)] px-4 text-sm font-semibold text-white"
+                type="button"
+                onClick={handleCreatePatient}
+                disabled={
+                  !validEmail(newPatientEmail) ||
+                  !newPatientName.trim() ||
+                  !validPhone(newPatientPhone)
+                }
+              >
+                Criar
+              </button>
+            </div>
+            {fieldErrors.newPatientEmail ? (
+              <p className="text-xs text-red-600">{fieldErrors.newPatientEmail}</p>
+            ) : null}
+            {fieldErrors.newPatientName ? (
+              <p className="text-xs text-red-600">{fieldErrors.newPatientName}</p>
+            ) : null}
+            {fieldErrors.newPatientPhone ? (
+              <p className="text-xs text-red-600">{fieldErrors.newPatientPhone}</p>
+            ) : null}
+
+            <div className="mt-5 space-y-3">
+              {patients.map((item) => (
+                <div
+                  key={item.id}
+                  className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] p-4"
+                >
+                  <div className="grid gap-3 md:grid-cols-[1fr_1fr_1fr_1fr_1fr_auto]">
+                    <input
+                      className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
+                      defaultValue={item.email ?? ""}
+                      onBlur={(event) => {
+                        const value = event.target.value.trim();
+                        if (!value || value === item.email) {
+                          return;
+                        }
+                        if (!validEmail(value)) {
+                          setStatus("Email invalido.");
+                          return;
+                        }
+                        handleUpdatePatient(item.id, { email: value });
+                      }}
+                    />
+                    <input
+                      className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
+                      defaultValue={item.displayName ?? ""}
+                      onBlur={(event) => {
+                        const value = event.target.value.trim();
+                        if (!value || value === item.displayName) {
+                          return;
+                        }
+                        handleUpdatePatient(item.id, { displayName: value });
+                      }}
+                    />
+                    <input
+                      className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-sm"
+                      defaultValue={item.phoneE164 ?? ""}
+                      onBlur={(event) => {
+                        const value = event.target.value.trim();
+                        if (!value || value === item.phoneE164) {
+                          return;
+                        }
+                        if (!validPhone(value)) {
+                          setStatus("Telefone E164 invalido.");
+                          return;
+                        }
+                        handleUpdatePatient(item.id, { phoneE164: value });
+                      }}
+                    />
+                    <select
+                      className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-xs"
+                      value={item.psychologistUserId ?? ""}
+                      onChange={(event) =>
+                        handleUpdatePatient(item.id, {
+                          psychologistUserId: event.target.value || null,
+                        })
+                      }
+                    >
+                      <option value="">Sem psicologo</option>
+                      {activePsychologists.map((psych) => (
+                        <option key={psych.id} value={psych.id}>
+                          {psych.displayName ?? psych.email}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className="h-10 rounded-lg border border-black/10 bg-white/90 px-3 text-xs"
+                      defaultValue={item.preferredLanguage}
+                      onChange={(event) =>
+                        handleUpdatePatient(item.id, {
+                          preferredLanguage: event.target.value as Patient["preferredLanguage"],
+                        })
+                      }
+                    >
+                      <option value="ES">Espanhol</option>
+                      <option value="PT">Portugues</option>
+                      <option value="EN">Ingles</option>
+                    </select>
+                    <button
+                      className={`h-10 rounded-lg px-3 text-xs font-semibold ${
+                        item.isActive
+                          ? "border border-black/10 bg-white text-[color:var(--ink-900)]"
+                          : "bg-[color:var(--accent-500)] text-white"
+                      }`}
+                      type="button"
+                      onClick={() =>
+                        handleUpdatePatient(item.id, { isActive: !item.isActive })
+                      }
+                    >
+                      {item.isActive ? "Desativar" : "Ativar"}
+                    </button>
+                  </div>
+                  <div className="mt-2 flex items-center justify-between gap-3">
+                    <p className="text-xs text-[color:var(--ink-500)]">
+                      Psicologo: {item.psychologistName ?? "Nao atribuido"}
+                    </p>
+                    <div className="flex items-center gap-3">
+                      <button
+                        className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+                        type="button"
+                        onClick={() => handleRequestPatientExport(item.id)}
+                      >
+                        Exportar dados
+                      </button>
+                      <button
+                        className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+                        type="button"
+                        onClick={() =>
+                          openAudit({ patientId: item.id, action: "message.read,message.stream" })
+                        }
+                      >
+                        Ver acessos
+                      </button>
+                      <button
+                        className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+                        type="button"
+                        onClick={() => handleRequestAccess(item)}
+                      >
+                        Pedir acesso
+                      </button>
+                      <button
+                        className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+                        type="button"
+                        onClick={() => toggleSessions(item.id)}
+                      >
+                        Sessoes
+                      </button>
+                      {item.erasureScheduledFor ? (
+                        <button
+                          className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+                          type="button"
+                          onClick={() => handleCancelErasure(item.id)}
+                        >
+                          Cancelar exclusao
+                        </button>
+                      ) : (
+                        <button
+                          className="text-xs font-semibold text-red-700 underline"
+                          type="button"
+                          onClick={() => handleScheduleErasure(item.id)}
+                        >
+                          Esquecer paciente
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {item.erasureScheduledFor ? (
+                    <p className="mt-2 text-xs text-red-700">
+                      Exclusao agendada para {formatDate(item.erasureScheduledFor)}.
+                    </p>
+                  ) : null}
+                  {sessionsUserId === item.id ? (
+                    <div className="mt-3">
+                      <SessionList
+                        endpoint={`/api/admin/users/${item.id}/sessions`}
+                        labels={{ ...SESSION_LABELS, revokeAll: "Encerrar todas" }}
+                        formatDateTime={formatDateTime}
+                      />
+                    </div>
+                  ) : null}
+                  {erasureStepUp?.patientId === item.id ? (
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                      <input
+                        className="h-9 w-32 rounded-xl border border-black/10 bg-white px-3"
+                        placeholder="Codigo"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        value={erasureOtpCode}
+                        onChange={(event) => setErasureOtpCode(event.target.value)}
+                      />
+                      <button
+                        type="button"
+                        className="h-9 rounded-xl border border-black/10 px-3 font-semibold text-[color:var(--ink-900)]"
+                        onClick={handleVerifyErasureStepUp}
+                        disabled={!erasureOtpCode.trim()}
+                      >
+                        Confirmar exclusao
+                      </button>
+                    </div>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+            <h2 className="text-2xl text-[color:var(--ink-900)]">Acessos a conversas</h2>
+            <p className="mt-2 text-sm text-[color:var(--ink-500)]">
+              Acessos ativos e pedidos aguardando o psicologo. Cada acesso exige uma
+              justificativa e o psicologo e avisado quando a conversa e aberta.
+            </p>
+            <div className="mt-4 space-y-2">
+              {grants.length === 0 ? (
+                <p className="text-sm text-[color:var(--ink-500)]">Nenhum acesso ativo.</p>
+              ) : null}
+              {grants.map((grant) => {
+                const patient = patientByConversation.get(grant.conversationId);
+                return (
+                  <div
+                    key={grant.id}
+                    className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-black/10 bg-[color:var(--surface-100)] px-4 py-3 text-xs"
+                  >
+                    <div className="space-y-1">
+                      <p className="font-semibold text-[color:var(--ink-900)]">
+                        {patient?.displayName ?? patient?.email ?? grant.conversationId}
+                        {" · "}
+                        {grant.status === "REQUESTED"
+                          ? "Aguardando psicologo"
+                          : grant.active
+                            ? "Ativo"
+                            : "Expirado"}
+                      </p>
+                      <p className="text-[color:var(--ink-700)]">
+                        {grant.userEmail ?? "Admin"}
+                        {grant.expiresAt ? ` · ate ${formatDate(grant.expiresAt)}` : " · sem prazo"}
+                      </p>
+                      <p className="text-[color:var(--ink-500)]">{grant.justification || "-"}</p>
+                    </div>
+                    <button
+                      className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+                      type="button"
+                      onClick={() => handleRevokeGrant(grant.id)}
+                    >
+                      {grant.status === "REQUESTED" ? "Retirar pedido" : "Revogar"}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          <section className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+            <h2 className="text-2xl text-[color:var(--ink-900)]">Minhas sessoes</h2>
+            <p className="mt-2 text-sm text-[color:var(--ink-500)]">
+              Dispositivos conectados a sua conta. Encerre o que nao reconhecer; para
+              desconectar outra pessoa, use Sessoes na linha dela.
+            </p>
+            <div className="mt-4">
+              <SessionList
+                endpoint="/api/auth/sessions"
+                labels={SESSION_LABELS}
+                formatDateTime={formatDateTime}
+                canSignOutCurrent
+              />
+            </div>
+          </section>
+        </>
+      )}
 
       {status ? (
         <div className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] px-4 py-3 text-xs text-[color:var(--ink-500)]">
           {status}
         </div>
       ) : null}
+
+      <SessionTimeout
+        labels={{
+          idleWarning: "Sua sessao sera encerrada por inatividade em",
+          absoluteWarning: "Sua sessao atingiu o tempo maximo e sera encerrada em",
+          stay: "Continuar conectado",
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,306 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type AuditLogItem = {
+  id: string;
+  createdAt: string;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  actorRole: "ADMIN" | "PSYCHOLOGIST" | "PATIENT" | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  meta: unknown;
+};
+
+export type AuditFilters = {
+  actorUserId: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  patientId: string;
+  from: string;
+  to: string;
+};
+
+type Person = {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+};
+
+type Props = {
+  psychologists: Person[];
+  patients: Person[];
+  actions: string[];
+  timeZone: string;
+  initialFilters: AuditFilters;
+};
+
+export const EMPTY_AUDIT_FILTERS: AuditFilters = {
+  actorUserId: "",
+  action: "",
+  targetType: "",
+  targetId: "",
+  patientId: "",
+  from: "",
+  to: "",
+};
+
+const ROLE_LABELS: Record<NonNullable<AuditLogItem["actorRole"]>, string> = {
+  ADMIN: "Admin",
+  PSYCHOLOGIST: "Psicologo",
+  PATIENT: "Paciente",
+};
+
+const buildQuery = (filters: AuditFilters) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) {
+      params.set(key, value.trim());
+    }
+  }
+  return params;
+};
+
+const personLabel = (person: Person) => person.displayName ?? person.email ?? person.id;
+
+export default function AuditLogClient({
+  psychologists,
+  patients,
+  actions,
+  timeZone,
+  initialFilters,
+}: Props) {
+  const [filters, setFilters] = useState(initialFilters);
+  // What the list and exports currently reflect; the form may be ahead of it.
+  const [applied, setApplied] = useState(initialFilters);
+  const [items, setItems] = useState<AuditLogItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState("");
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString("pt-BR", { timeZone });
+
+  const load = async (next: AuditFilters, cursor: string | null) => {
+    const params = buildQuery(next);
+    if (cursor) {
+      params.set("cursor", cursor);
+    }
+    const response = await fetch(`/api/admin/audit?${params.toString()}`);
+    const data = (await response.json().catch(() => ({}))) as {
+      items?: AuditLogItem[];
+      nextCursor?: string | null;
+      error?: string;
+    };
+    setLoading(false);
+    if (!response.ok) {
+      setStatus(data.error ?? "Erro ao carregar auditoria.");
+      return;
+    }
+    setApplied(next);
+    setItems((current) => (cursor ? [...current, ...(data.items ?? [])] : (data.items ?? [])));
+    setNextCursor(data.nextCursor ?? null);
+    setStatus("");
+  };
+
+  // Remounted (by key) when another tab opens it with preset filters.
+  useEffect(() => {
+    void load(initialFilters, null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const search = (next: AuditFilters, cursor: string | null = null) => {
+    setLoading(true);
+    void load(next, cursor);
+  };
+
+  const exportHref = (format: "csv" | "jsonl") => {
+    const params = buildQuery(applied);
+    params.set("format", format);
+    return `/api/admin/audit/export?${params.toString()}`;
+  };
+
+  const handleVerifyChain = async () => {
+    const response = await fetch("/api/admin/audit/verify", { method: "POST" });
+    const data = (await response.json().catch(() => ({}))) as { error?: string };
+    if (!response.ok) {
+      setStatus(data.error ?? "Erro ao iniciar verificacao.");
+      return;
+    }
+    setStatus("Verificacao enfileirada. O resultado aparece como audit.chain.verify.");
+  };
+
+  const setFilter = (key: keyof AuditFilters, value: string) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  return (
+    <section className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+      <h2 className="text-2xl text-[color:var(--ink-900)]">Auditoria</h2>
+      <p className="mt-2 text-sm text-[color:var(--ink-500)]">
+        Quem fez o que e quando. Filtre por autor, acao (varias separadas por virgula;
+        terminando em ponto pega o grupo, ex. patient.export.), alvo, paciente e
+        periodo. A exportacao tambem fica registrada. Os eventos formam uma cadeia de
+        hashes por clinica; a verificacao aponta o primeiro elo quebrado.
+      </p>
+      <div className="mt-4 grid gap-3 sm:grid-cols-3">
+        <select
+          className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+          value={filters.actorUserId}
+          onChange={(event) => setFilter("actorUserId", event.target.value)}
+        >
+          <option value="">Qualquer autor</option>
+          {psychologists.map((person) => (
+            <option key={person.id} value={person.id}>
+              Psicologo: {personLabel(person)}
+            </option>
+          ))}
+          {patients.map((person) => (
+            <option key={person.id} value={person.id}>
+              Paciente: {personLabel(person)}
+            </option>
+          ))}
+        </select>
+        <select
+          className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+          value={filters.patientId}
+          onChange={(event) => setFilter("patientId", event.target.value)}
+        >
+          <option value="">Qualquer paciente</option>
+          {patients.map((person) => (
+            <option key={person.id} value={person.id}>
+              {personLabel(person)}
+            </option>
+          ))}
+        </select>
+        <input
+          className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+          placeholder="Acao (ex. message.read)"
+          list="audit-actions"
+          value={filters.action}
+          onChange={(event) => setFilter("action", event.target.value)}
+        />
+        <datalist id="audit-actions">
+          {actions.map((action) => (
+            <option key={action} value={action} />
+          ))}
+        </datalist>
+        <input
+          className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+          placeholder="Tipo do alvo (ex. Conversation)"
+          value={filters.targetType}
+          onChange={(event) => setFilter("targetType", event.target.value)}
+        />
+        <input
+          className="h-11 rounded-xl border border-black/10 bg-white/90 px-4 text-sm"
+          placeholder="Id do alvo"
+          value={filters.targetId}
+          onChange={(event) => setFilter("targetId", event.target.value)}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+            type="date"
+            value={filters.from}
+            onChange={(event) => setFilter("from", event.target.value)}
+          />
+          <input
+            className="h-11 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+            type="date"
+            value={filters.to}
+            onChange={(event) => setFilter("to", event.target.value)}
+          />
+        </div>
+      </div>
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <button
+          className="h-11 rounded-xl bg-[color:var(--accent-500)] px-4 text-sm font-semibold text-white"
+          type="button"
+          onClick={() => search(filters)}
+          disabled={loading}
+        >
+          Buscar
+        </button>
+        <button
+          className="h-11 rounded-xl border border-black/10 bg-white px-4 text-sm font-semibold text-[color:var(--ink-900)]"
+          type="button"
+          onClick={() => {
+            setFilters(EMPTY_AUDIT_FILTERS);
+            search(EMPTY_AUDIT_FILTERS);
+          }}
+        >
+          Limpar
+        </button>
+        <a
+          className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+          href={exportHref("csv")}
+        >
+          Exportar CSV
+        </a>
+        <a
+          className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+          href={exportHref("jsonl")}
+        >
+          Exportar JSONL
+        </a>
+        <button
+          className="text-xs font-semibold text-[color:var(--ink-700)] underline"
+          type="button"
+          onClick={handleVerifyChain}
+        >
+          Verificar integridade
+        </button>
+      </div>
+
+      <div className="mt-6 space-y-2">
+        {items.length === 0 && !loading ? (
+          <p className="text-sm text-[color:var(--ink-500)]">Nenhum evento encontrado.</p>
+        ) : null}
+        {items.map((item) => (
+          <div
+            key={item.id}
+            className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] px-4 py-3 text-xs"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-semibold text-[color:var(--ink-900)]">{item.action}</span>
+              <span className="text-[color:var(--ink-500)]">{formatDateTime(item.createdAt)}</span>
+            </div>
+            <p className="mt-1 text-[color:var(--ink-700)]">
+              Autor:{" "}
+              {item.actorUserId
+                ? `${item.actorEmail ?? item.actorUserId}${
+                    item.actorRole ? ` (${ROLE_LABELS[item.actorRole]})` : ""
+                  }`
+                : "Sistema"}
+              {" · "}Alvo: {item.targetType}
+              {item.targetId ? ` ${item.targetId}` : ""}
+            </p>
+            {item.meta ? (
+              <p className="mt-1 break-all font-mono text-[color:var(--ink-500)]">
+                {JSON.stringify(item.meta)}
+              </p>
+            ) : null}
+          </div>
+        ))}
+        {nextCursor ? (
+          <button
+            className="h-10 rounded-xl border border-black/10 bg-white px-4 text-xs font-semibold text-[color:var(--ink-900)]"
+            type="button"
+            onClick={() => search(applied, nextCursor)}
+            disabled={loading}
+          >
+            Carregar mais
+          </button>
+        ) : null}
+      </div>
+
+      {status ? (
+        <div className="mt-4 rounded-2xl border border-black/10 bg-[color:var(--surface-100)] px-4 py-3 text-xs text-[color:var(--ink-500)]">
+          {status}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -3,6 +3,9 @@ import { getSession } from "@/lib/auth/session";
 import { resolveHomeForUser } from "@/lib/auth/portal";
 import { prisma } from "@/lib/prisma";
 import AdminClient from "@/app/admin/AdminClient";
+import { getConfiguredLlmProviders } from "@/lib/ai/llm";
+import { ACCESS_GRANT_INCLUDE, isGrantActive } from "@/lib/access-grants";
+import { listSessionPolicies } from "@/lib/auth/session-policy";
 
 export default async function AdminPage() {
   const session = await getSession();
@@ -17,7 +20,16 @@ export default async function AdminPage() {
   }
 
   const tenantId = session.user.tenantId;
-  const [tenant, psychologists, patients, conversations] = await Promise.all([
+  const [
+    tenant,
+    psychologists,
+    patients,
+    conversations,
+    erasures,
+    auditActions,
+    grants,
+    sessionPolicies,
+  ] = await Promise.all([
     prisma.tenant.findFirst({ where: { id: tenantId } }),
     prisma.user.findMany({
       where: { tenantId, role: "PSYCHOLOGIST" },
@@ -25,17 +37,40 @@ export default async function AdminPage() {
       orderBy: { createdAt: "desc" },
     }),
     prisma.user.findMany({
-      where: { tenantId, role: "PATIENT" },
+      where: { tenantId, role: "PATIENT", erasedAt: null },
       include: { patientProfile: true },
       orderBy: { createdAt: "desc" },
     }),
     prisma.conversation.findMany({
-      where: { tenantId },
+      where: { tenantId, shreddedAt: null },
       include: { psychologist: { include: { psychologistProfile: true } } },
     }),
+    prisma.patientErasure.findMany({
+      where: { tenantId, status: "SCHEDULED" },
+      select: { patientUserId: true, scheduledFor: true },
+    }),
+    prisma.auditLog.findMany({
+      where: { tenantId },
+      distinct: ["action"],
+      select: { action: true },
+      orderBy: { action: "asc" },
+    }),
+    prisma.conversationAccessGrant.findMany({
+      where: { tenantId, status: { in: ["REQUESTED", "ACTIVE"] } },
+      include: ACCESS_GRANT_INCLUDE,
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    }),
+    listSessionPolicies(tenantId),
   ]);
+  const erasureByPatient = new Map(
+    erasures.map((erasure) => [erasure.patientUserId, erasure.scheduledFor.toISOString()]),
+  );
 
-  const patientAssignments = new Map<string, { id: string; name: string }>();
+  const patientAssignments = new Map<
+    string,
+    { id: string; name: string; conversationId: string }
+  >();
   const sorted = [...conversations].sort(
     (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
   );
@@ -43,6 +78,7 @@ export default async function AdminPage() {
     if (!patientAssignments.has(conv.patientUserId)) {
       patientAssignments.set(conv.patientUserId, {
         id: conv.psychologistUserId,
+        conversationId: conv.id,
         name:
           conv.psychologist.psychologistProfile?.displayName ??
           conv.psychologist.email ??
@@ -70,6 +106,8 @@ export default async function AdminPage() {
         ?.preferredLanguage ?? "ES",
     psychologistUserId: patientAssignments.get(user.id)?.id ?? null,
     psychologistName: patientAssignments.get(user.id)?.name ?? null,
+    conversationId: patientAssignments.get(user.id)?.conversationId ?? null,
+    erasureScheduledFor: erasureByPatient.get(user.id) ?? null,
     createdAt: user.createdAt.toISOString(),
   }));
 
@@ -88,8 +126,34 @@ export default async function AdminPage() {
         </header>
 
         <AdminClient
+          tenantId={tenantId}
+          adminEmail={session.user.email ?? null}
           initialPsychologists={mappedPsychologists}
           initialPatients={mappedPatients}
+          initialLlmSettings={{
+            llmProvider: tenant?.llmProvider ?? null,
+            llmModel: tenant?.llmModel ?? null,
+            llmAllowedProviders: tenant?.llmAllowedProviders ?? [],
+          }}
+          configuredLlmProviders={getConfiguredLlmProviders()}
+          auditActions={auditActions.map((item) => item.action)}
+          initialGrants={grants.map((grant) => ({
+            id: grant.id,
+            conversationId: grant.conversationId,
+            userEmail: grant.user.email,
+            status: grant.status,
+            active: isGrantActive(grant),
+            justification: grant.justification,
+            expiresAt: grant.expiresAt?.toISOString() ?? null,
+            createdAt: grant.createdAt.toISOString(),
+          }))}
+          initialTenantSettings={{
+            timeZone: tenant?.timeZone ?? "UTC",
+            defaultLanguage: tenant?.defaultLanguage ?? "ES",
+            weekStartDay: tenant?.weekStartDay ?? 1,
+            messageRetentionYears: tenant?.messageRetentionYears ?? null,
+          }}
+          initialSessionPolicies={sessionPolicies}
         />
       </div>
     </div>
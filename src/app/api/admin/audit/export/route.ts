@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth/session";
+import { logAuditEvent } from "@/lib/audit";
+import {
+  AUDIT_CSV_COLUMNS,
+  buildAuditWhere,
+  decodeAuditCursor,
+  findAuditPage,
+  parseAuditQuery,
+  toAuditCsvRow,
+  type AuditCursor,
+} from "@/lib/audit-log";
+
+const EXPORT_BATCH_SIZE = 1000;
+const MAX_EXPORT_ROWS = 100_000;
+
+// Streams every matching row, newest first, as CSV or JSON Lines.
+export async function GET(request: Request) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const format = url.searchParams.get("format") ?? "csv";
+  const parsed = parseAuditQuery(url);
+  if (!parsed.success || (format !== "csv" && format !== "jsonl")) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+
+  const tenantId = session.user.tenantId;
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { timeZone: true },
+  });
+  const where = await buildAuditWhere(tenantId, parsed.data, tenant?.timeZone ?? "UTC");
+
+  const total = await prisma.auditLog.count({ where });
+  if (total > MAX_EXPORT_ROWS) {
+    return NextResponse.json(
+      { error: `Too many rows (${total}); narrow the filters to ${MAX_EXPORT_ROWS} or fewer` },
+      { status: 400 },
+    );
+  }
+
+  // Logged before streaming so the export shows up in its own results.
+  await logAuditEvent({
+    tenantId,
+    actorUserId: session.user.id,
+    action: "audit.export",
+    targetType: "Tenant",
+    targetId: tenantId,
+    meta: { format, rows: total, filters: parsed.data },
+  });
+
+  const encoder = new TextEncoder();
+  let cursor: AuditCursor | null = null;
+  let headerSent = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!headerSent && format === "csv") {
+        controller.enqueue(encoder.encode(`${AUDIT_CSV_COLUMNS.join(",")}\n`));
+      }
+      headerSent = true;
+
+      const page = await findAuditPage({ where, cursor, limit: EXPORT_BATCH_SIZE });
+      const lines = page.items.map((item) =>
+        format === "csv" ? toAuditCsvRow(item) : JSON.stringify(item),
+      );
+      if (lines.length) {
+        controller.enqueue(encoder.encode(`${lines.join("\n")}\n`));
+      }
+      cursor = page.nextCursor ? decodeAuditCursor(page.nextCursor) : null;
+      if (!cursor) {
+        controller.close();
+      }
+    },
+  });
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type":
+        format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+      "Content-Disposition": `attachment; filename="audit-${stamp}.${format}"`,
+    },
+  });
+}
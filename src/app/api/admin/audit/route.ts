@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth/session";
+import { buildAuditWhere, decodeAuditCursor, findAuditPage, parseAuditQuery } from "@/lib/audit-log";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export async function GET(request: Request) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const parsed = parseAuditQuery(url);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+  const cursorRaw = url.searchParams.get("cursor");
+  const cursor = cursorRaw ? decodeAuditCursor(cursorRaw) : null;
+  if (cursorRaw && !cursor) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+  const limitRaw = Number(url.searchParams.get("limit") ?? DEFAULT_LIMIT);
+  const limit = Number.isInteger(limitRaw)
+    ? Math.min(Math.max(limitRaw, 1), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: session.user.tenantId },
+    select: { timeZone: true },
+  });
+  const where = await buildAuditWhere(
+    session.user.tenantId,
+    parsed.data,
+    tenant?.timeZone ?? "UTC",
+  );
+
+  return NextResponse.json(await findAuditPage({ where, cursor, limit }));
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { enqueueAuditChainVerification } from "@/lib/queues";
+
+// Queues a chain verification for the tenant; the outcome is written to the
+// audit log as `audit.chain.verify`.
+export async function POST() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  await enqueueAuditChainVerification({ tenantId: session.user.tenantId });
+
+  return NextResponse.json({ ok: true }, { status: 202 });
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth/session";
+import { logAuditEvent } from "@/lib/audit";
+import { getConfiguredLlmProviders } from "@/lib/ai/llm";
+
+const providerSchema = z.enum(["OPENAI", "OPENAI_COMPATIBLE", "AZURE_OPENAI", "ANTHROPIC"]);
+
+const updateSchema = z.object({
+  llmProvider: providerSchema.nullable(),
+  llmModel: z.string().trim().max(200).nullable(),
+  llmAllowedProviders: z.array(providerSchema),
+});
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: session.user.tenantId },
+  });
+  if (!tenant) {
+    return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    item: {
+      llmProvider: tenant.llmProvider,
+      llmModel: tenant.llmModel,
+      llmAllowedProviders: tenant.llmAllowedProviders,
+    },
+    configuredProviders: getConfiguredLlmProviders(),
+  });
+}
+
+export async function PATCH(request: Request) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = updateSchema.parse(await request.json());
+  const allowed = Array.from(new Set(body.llmAllowedProviders));
+  if (body.llmProvider && allowed.length > 0 && !allowed.includes(body.llmProvider)) {
+    return NextResponse.json(
+      { error: "Default provider must be in the allowed list" },
+      { status: 400 },
+    );
+  }
+
+  const tenant = await prisma.tenant.update({
+    where: { id: session.user.tenantId },
+    data: {
+      llmProvider: body.llmProvider,
+      llmModel: body.llmModel || null,
+      llmAllowedProviders: allowed,
+    },
+  });
+
+  await logAuditEvent({
+    tenantId: session.user.tenantId,
+    actorUserId: session.user.id,
+    action: "tenant.llm.update",
+    targetType: "Tenant",
+    targetId: tenant.id,
+    meta: {
+      llmProvider: tenant.llmProvider,
+      llmModel: tenant.llmModel,
+      llmAllowedProviders: tenant.llmAllowedProviders,
+    },
+  });
+
+  return NextResponse.json({
+    item: {
+      llmProvider: tenant.llmProvider,
+      llmModel: tenant.llmModel,
+      llmAllowedProviders: tenant.llmAllowedProviders,
+    },
+  });
+}
@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSession, isStepUpValid } from "@/lib/auth/session";
+import { logAuditEvent } from "@/lib/audit";
+import { ERASURE_COOLING_OFF_DAYS, toPatientErasureItem } from "@/lib/erasure";
+
+async function loadPatient(tenantId: string, id: string) {
+  return prisma.user.findFirst({
+    where: { tenantId, id, role: "PATIENT", erasedAt: null },
+  });
+}
+
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  const erasure = await prisma.patientErasure.findFirst({
+    where: { tenantId: session.user.tenantId, patientUserId: id },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json({ item: erasure ? toPatientErasureItem(erasure) : null });
+}
+
+// Schedules the erasure after the cooling-off period. Irreversible once it
+// runs, so it needs a fresh step-up.
+export async function POST(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (!isStepUpValid(session.stepUpUntil)) {
+    return NextResponse.json(
+      { error: "Step-up authentication required", stepUpRequired: true },
+      { status: 403 },
+    );
+  }
+
+  const { id } = await context.params;
+  const patient = await loadPatient(session.user.tenantId, id);
+  if (!patient) {
+    return NextResponse.json({ error: "Patient not found" }, { status: 404 });
+  }
+
+  const scheduled = await prisma.patientErasure.findFirst({
+    where: {
+      tenantId: session.user.tenantId,
+      patientUserId: patient.id,
+      status: { in: ["SCHEDULED", "RUNNING"] },
+    },
+  });
+  if (scheduled) {
+    return NextResponse.json(
+      { error: "Erasure already scheduled", item: toPatientErasureItem(scheduled) },
+      { status: 409 },
+    );
+  }
+
+  const erasure = await prisma.patientErasure.create({
+    data: {
+      tenantId: session.user.tenantId,
+      patientUserId: patient.id,
+      requestedByUserId: session.user.id,
+      scheduledFor: new Date(Date.now() + ERASURE_COOLING_OFF_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  await logAuditEvent({
+    tenantId: session.user.tenantId,
+    actorUserId: session.user.id,
+    action: "patient.erasure.schedule",
+    targetType: "User",
+    targetId: patient.id,
+    meta: { erasureId: erasure.id, scheduledFor: erasure.scheduledFor.toISOString() },
+  });
+
+  return NextResponse.json({ item: toPatientErasureItem(erasure) }, { status: 201 });
+}
+
+// Cancelling only keeps data, so it does not need step-up.
+export async function DELETE(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  // A RUNNING erasure has already started shredding and cannot be cancelled.
+  const scheduled = await prisma.patientErasure.findFirst({
+    where: { tenantId: session.user.tenantId, patientUserId: id, status: "SCHEDULED" },
+  });
+  if (!scheduled) {
+    return NextResponse.json({ error: "No scheduled erasure" }, { status: 404 });
+  }
+
+  const cancelled = await prisma.patientErasure.updateMany({
+    where: { tenantId: session.user.tenantId, id: scheduled.id, status: "SCHEDULED" },
+    data: { status: "CANCELLED", cancelledAt: new Date(), cancelledByUserId: session.user.id },
+  });
+  if (!cancelled.count) {
+    return NextResponse.json({ error: "No scheduled erasure" }, { status: 404 });
+  }
+
+  await logAuditEvent({
+    tenantId: session.user.tenantId,
+    actorUserId: session.user.id,
+    action: "patient.erasure.cancel",
+    targetType: "User",
+    targetId: id,
+    meta: { erasureId: scheduled.id },
+  });
+
+  return NextResponse.json({ ok: true });
+}
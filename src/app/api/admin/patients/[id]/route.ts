@@ -29,6 +29,14 @@ export async function PATCH(
   const { id } = await context.params;
   const body = updateSchema.parse(await request.json());
 
+  // Forgotten patients are tombstones and cannot be edited back to life.
+  const patient = await prisma.user.findFirst({
+    where: { id, tenantId: session.user.tenantId, role: "PATIENT", erasedAt: null },
+  });
+  if (!patient) {
+    return NextResponse.json({ error: "Patient not found" }, { status: 404 });
+  }
+
   if (body.email) {
     const existing = await prisma.user.findFirst({
       where: { email: body.email, NOT: { id } },
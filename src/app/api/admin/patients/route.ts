@@ -24,7 +24,7 @@ export async function GET() {
   }
 
   const patients = await prisma.user.findMany({
-    where: { tenantId: session.user.tenantId, role: "PATIENT" },
+    where: { tenantId: session.user.tenantId, role: "PATIENT", erasedAt: null },
     include: { patientProfile: true },
     orderBy: { createdAt: "desc" },
   });
@@ -81,6 +81,12 @@ export async function POST(request: Request) {
     }
   }
 
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: session.user.tenantId },
+    select: { defaultLanguage: true },
+  });
+  const preferredLanguage = body.preferredLanguage ?? tenant?.defaultLanguage ?? "ES";
+
   const patient = (await prisma.user.create({
     data: {
       tenantId: session.user.tenantId,
@@ -91,7 +97,7 @@ export async function POST(request: Request) {
         create: {
           displayName: body.displayName,
           phoneE164: body.phoneE164,
-          preferredLanguage: body.preferredLanguage ?? "ES",
+          preferredLanguage,
         },
       },
     },
@@ -117,7 +123,7 @@ export async function POST(request: Request) {
         psychologistUserId: body.psychologistUserId,
         patientUserId: patient.id,
         aiEnabled: true,
-        language: (body.preferredLanguage ?? "ES") as "PT" | "ES" | "EN",
+        language: preferredLanguage,
         encryptedDek,
       },
     });
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth/session";
+import { listSessionPolicies, sessionPolicySchema } from "@/lib/auth/session-policy";
+import { logAuditEvent } from "@/lib/audit";
+
+const updateSchema = z.object({
+  items: z
+    .array(sessionPolicySchema)
+    .min(1)
+    .refine(
+      (items) => new Set(items.map((item) => item.role)).size === items.length,
+      "Each role may appear once",
+    ),
+});
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({ items: await listSessionPolicies(session.user.tenantId) });
+}
+
+// New limits apply to sessions started afterwards; revoke sessions to make
+// them take effect right away.
+export async function PATCH(request: Request) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = updateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid payload" },
+      { status: 400 },
+    );
+  }
+
+  const tenantId = session.user.tenantId;
+  for (const item of parsed.data.items) {
+    await prisma.sessionPolicy.upsert({
+      where: { tenantId_role: { tenantId, role: item.role } },
+      create: { tenantId, ...item },
+      update: {
+        idleTimeoutMinutes: item.idleTimeoutMinutes,
+        absoluteTimeoutHours: item.absoluteTimeoutHours,
+      },
+    });
+  }
+
+  const items = await listSessionPolicies(tenantId);
+  await logAuditEvent({
+    tenantId,
+    actorUserId: session.user.id,
+    action: "tenant.session_policy.update",
+    targetType: "Tenant",
+    targetId: tenantId,
+    meta: { items },
+  });
+
+  return NextResponse.json({ items });
+}
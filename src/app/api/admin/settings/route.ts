@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import type { Tenant } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth/session";
+import { logAuditEvent } from "@/lib/audit";
+import { isValidTimeZone } from "@/lib/time-zone";
+
+const updateSchema = z.object({
+  timeZone: z.string().trim().min(1).max(100).refine(isValidTimeZone, "Invalid time zone"),
+  defaultLanguage: z.enum(["PT", "ES", "EN"]),
+  weekStartDay: z.number().int().min(0).max(6),
+  messageRetentionYears: z.number().int().min(1).max(50).nullable(),
+});
+
+const toSettingsItem = (tenant: Tenant) => ({
+  timeZone: tenant.timeZone,
+  defaultLanguage: tenant.defaultLanguage,
+  weekStartDay: tenant.weekStartDay,
+  messageRetentionYears: tenant.messageRetentionYears,
+});
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: session.user.tenantId },
+  });
+  if (!tenant) {
+    return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ item: toSettingsItem(tenant) });
+}
+
+export async function PATCH(request: Request) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = updateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid payload" },
+      { status: 400 },
+    );
+  }
+  const body = parsed.data;
+
+  const current = await prisma.tenant.findUnique({
+    where: { id: session.user.tenantId },
+  });
+  if (!current) {
+    return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+  }
+
+  const tenant = await prisma.tenant.update({
+    where: { id: current.id },
+    data: body,
+  });
+
+  // Stored summaries are keyed by their week start, so new boundaries make
+  // them unreachable. They are derived data and get regenerated on demand.
+  let summariesCleared = 0;
+  if (
+    tenant.timeZone !== current.timeZone ||
+    tenant.weekStartDay !== current.weekStartDay
+  ) {
+    const deleted = await prisma.weeklySummary.deleteMany({
+      where: { tenantId: tenant.id },
+    });
+    summariesCleared = deleted.count;
+  }
+
+  await logAuditEvent({
+    tenantId: session.user.tenantId,
+    actorUserId: session.user.id,
+    action: "tenant.settings.update",
+    targetType: "Tenant",
+    targetId: tenant.id,
+    meta: { ...toSettingsItem(tenant), summariesCleared },
+  });
+
+  return NextResponse.json({ item: toSettingsItem(tenant) });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSession, revokeSessions } from "@/lib/auth/session";
+import { logAuditEvent } from "@/lib/audit";
+
+export async function DELETE(
+  _request: Request,
+  context: { params: Promise<{ id: string; sessionId: string }> },
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id, sessionId } = await context.params;
+  const user = await prisma.user.findFirst({
+    where: { id, tenantId: session.user.tenantId, isSystemAdmin: false },
+    select: { id: true },
+  });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+  // The admin's own current session is ended by logging out, not from here.
+  if (sessionId === session.id) {
+    return NextResponse.json({ error: "Cannot revoke the current session" }, { status: 400 });
+  }
+
+  const revoked = await revokeSessions({
+    tenantId: session.tenantId,
+    userId: user.id,
+    sessionId,
+  });
+  if (!revoked.length) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  await logAuditEvent({
+    tenantId: session.tenantId,
+    actorUserId: session.userId,
+    action: "session.revoke",
+    targetType: "User",
+    targetId: user.id,
+    meta: { sessionId, by: "admin" },
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  getSession,
+  listActiveSessions,
+  revokeSessions,
+  toSessionItem,
+} from "@/lib/auth/session";
+import { logAuditEvent } from "@/lib/audit";
+
+async function loadContext(context: { params: Promise<{ id: string }> }) {
+  const session = await getSession();
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+  if (session.user.role !== "ADMIN" || session.user.isSystemAdmin) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  const { id } = await context.params;
+  const user = await prisma.user.findFirst({
+    where: { id, tenantId: session.user.tenantId, isSystemAdmin: false },
+    select: { id: true },
+  });
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  return { session, user };
+}
+
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const loaded = await loadContext(context);
+  if ("error" in loaded) {
+    return loaded.error;
+  }
+  const { session, user } = loaded;
+
+  const sessions = await listActiveSessions({ tenantId: session.tenantId, userId: user.id });
+
+  return NextResponse.json({
+    items: sessions.map((item) => toSessionItem(item, session.id)),
+  });
+}
+
+// Force-logout: every session of the user, except the admin's own when they
+// target themselves.
+export async function DELETE(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const loaded = await loadContext(context);
+  if ("error" in loaded) {
+    return loaded.error;
+  }
+  const { session, user } = loaded;
+
+  const revoked = await revokeSessions({
+    tenantId: session.tenantId,
+    userId: user.id,
+    exceptSessionId: session.id,
+  });
+
+  await logAuditEvent({
+    tenantId: session.tenantId,
+    actorUserId: session.userId,
+    action: "session.revoke_all",
+    targetType: "User",
+    targetId: user.id,
+    meta: { sessionIds: revoked, count: revoked.length, by: "admin" },
+  });
+
+  return NextResponse.json({ revoked: revoked.length });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireRole } from "@/lib/auth/guards";
+import {
+  getAllowedLlmProviders,
+  getDefaultLlmModel,
+  resolveLlmSelection,
+} from "@/lib/ai/llm";
+
+export async function GET() {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["ADMIN", "PSYCHOLOGIST"]);
+
+  const tenant = await prisma.tenant.findUnique({ where: { id: user.tenantId } });
+  if (!tenant) {
+    return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+  }
+
+  const items = getAllowedLlmProviders(tenant).map((provider) => ({
+    provider,
+    defaultModel: getDefaultLlmModel(provider),
+  }));
+  let tenantDefault: { provider: string; model: string } | null = null;
+  try {
+    tenantDefault = resolveLlmSelection({ tenant });
+  } catch {
+    tenantDefault = null;
+  }
+
+  return NextResponse.json({ items, tenantDefault });
+}
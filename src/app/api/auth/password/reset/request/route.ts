@@ -5,22 +5,13 @@ import { prisma } from "@/lib/prisma";
 import { logAuditEvent } from "@/lib/audit";
 import { sendEmail } from "@/lib/email";
 import { enforceRateLimit, RateLimitExceededError } from "@/lib/rate-limit";
-import { getClientIp } from "@/lib/request";
+import { getBaseUrl, getClientIp } from "@/lib/request";
 import crypto from "crypto";
 
 const schema = z.object({
   email: z.string().email(),
 });
 
-function getBaseUrl(request: Request) {
-  const env = process.env.APP_URL;
-  if (env) {
-    return env.replace(/\/+$/, "");
-  }
-  const url = new URL(request.url);
-  return `${url.protocol}//${url.host}`;
-}
-
 export async function POST(request: Request) {
   const body = schema.parse(await request.json());
   const email = body.email.trim().toLowerCase();
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import type { Session } from "@prisma/client";
+import { getIdleExpiresAt, getSession, touchSession } from "@/lib/auth/session";
+
+const toSessionStatus = (session: Session) => ({
+  expiresAt: session.expiresAt,
+  idleExpiresAt: getIdleExpiresAt(session),
+  idleTimeoutMinutes: session.idleTimeoutMinutes,
+});
+
+// Polled by the apps to warn before logout, so it must not count as activity.
+export async function GET() {
+  const session = await getSession({ touch: false });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return NextResponse.json({ item: toSessionStatus(session) });
+}
+
+// Keep-alive: the user is still there (clicked "stay signed in" or is
+// typing without sending anything).
+export async function POST() {
+  const session = await getSession({ touch: false });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const touched = await touchSession(session.token);
+  return NextResponse.json({ item: toSessionStatus(touched) });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { clearSession, getSession, revokeSessions } from "@/lib/auth/session";
+import { logAuditEvent } from "@/lib/audit";
+
+export async function DELETE(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  const revoked = await revokeSessions({
+    tenantId: session.tenantId,
+    userId: session.userId,
+    sessionId: id,
+  });
+  if (!revoked.length) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  const current = id === session.id;
+  await logAuditEvent({
+    tenantId: session.tenantId,
+    actorUserId: session.userId,
+    action: "session.revoke",
+    targetType: "User",
+    targetId: session.userId,
+    meta: { sessionId: id, current, by: "self" },
+  });
+
+  if (current) {
+    await clearSession();
+  }
+
+  return NextResponse.json({ ok: true, signedOut: current });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import {
+  clearSession,
+  getSession,
+  listActiveSessions,
+  revokeSessions,
+  toSessionItem,
+} from "@/lib/auth/session";
+import { logAuditEvent } from "@/lib/audit";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const sessions = await listActiveSessions({
+    tenantId: session.tenantId,
+    userId: session.userId,
+  });
+
+  return NextResponse.json({
+    items: sessions.map((item) => toSessionItem(item, session.id)),
+  });
+}
+
+// Signs out every other device; `?scope=all` includes this one too.
+export async function DELETE(request: Request) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const includeCurrent = new URL(request.url).searchParams.get("scope") === "all";
+  const revoked = await revokeSessions({
+    tenantId: session.tenantId,
+    userId: session.userId,
+    ...(includeCurrent ? {} : { exceptSessionId: session.id }),
+  });
+
+  await logAuditEvent({
+    tenantId: session.tenantId,
+    actorUserId: session.userId,
+    action: "session.revoke_all",
+    targetType: "User",
+    targetId: session.userId,
+    meta: { sessionIds: revoked, count: revoked.length, includeCurrent, by: "self" },
+  });
+
+  if (includeCurrent) {
+    await clearSession();
+  }
+
+  return NextResponse.json({ revoked: revoked.length, signedOut: includeCurrent });
+}
@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import type { Role } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireRole } from "@/lib/auth/guards";
+import { toDekRotationItem } from "@/lib/conversation-keys";
+import { enqueueDekRotation } from "@/lib/queues";
+import { logAuditEvent } from "@/lib/audit";
+
+const paramsSchema = z.object({
+  id: z.string().min(1),
+});
+
+// Rotating never reveals content, so tenant admins may trigger it without an
+// access grant (typically right after one expires).
+async function loadConversation(
+  user: { id: string; tenantId: string; role: Role },
+  conversationId: string,
+) {
+  const conversation = await prisma.conversation.findFirst({
+    where: { tenantId: user.tenantId, id: conversationId, shreddedAt: null },
+  });
+  if (!conversation) {
+    return null;
+  }
+  if (user.role === "PSYCHOLOGIST" && conversation.psychologistUserId !== user.id) {
+    return null;
+  }
+  return conversation;
+}
+
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["PSYCHOLOGIST", "ADMIN"]);
+  const params = paramsSchema.parse(await context.params);
+
+  const conversation = await loadConversation(user, params.id);
+  if (!conversation) {
+    return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  const rotations = await prisma.dekRotation.findMany({
+    where: { tenantId: user.tenantId, conversationId: conversation.id },
+    orderBy: { createdAt: "desc" },
+    take: 10,
+  });
+
+  return NextResponse.json({
+    dekVersion: conversation.dekVersion,
+    items: rotations.map(toDekRotationItem),
+  });
+}
+
+// Starts a new rotation, or resumes the last one if it did not finish.
+export async function POST(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["PSYCHOLOGIST", "ADMIN"]);
+  const params = paramsSchema.parse(await context.params);
+
+  const conversation = await loadConversation(user, params.id);
+  if (!conversation) {
+    return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  const unfinished = await prisma.dekRotation.findFirst({
+    where: {
+      tenantId: user.tenantId,
+      conversationId: conversation.id,
+      status: { not: "COMPLETED" },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  if (unfinished?.status === "RUNNING") {
+    return NextResponse.json(
+      { error: "Rotation already running", rotation: toDekRotationItem(unfinished) },
+      { status: 409 },
+    );
+  }
+  if (!unfinished && conversation.previousEncryptedDek) {
+    return NextResponse.json(
+      { error: "Previous rotation has not been cleaned up" },
+      { status: 409 },
+    );
+  }
+
+  const rotation =
+    unfinished ??
+    (await prisma.dekRotation.create({
+      data: {
+        tenantId: user.tenantId,
+        conversationId: conversation.id,
+        fromVersion: conversation.dekVersion,
+        toVersion: conversation.dekVersion + 1,
+        requestedByUserId: user.id,
+      },
+    }));
+
+  await enqueueDekRotation({ tenantId: user.tenantId, rotationId: rotation.id });
+
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: unfinished ? "conversation.dek_rotate.resume" : "conversation.dek_rotate.start",
+    targetType: "Conversation",
+    targetId: conversation.id,
+    meta: {
+      rotationId: rotation.id,
+      fromVersion: rotation.fromVersion,
+      toVersion: rotation.toVersion,
+    },
+  });
+
+  return NextResponse.json({ rotation: toDekRotationItem(rotation) }, { status: 202 });
+}
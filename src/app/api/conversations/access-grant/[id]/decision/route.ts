@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireRole } from "@/lib/auth/guards";
+import { logAuditEvent } from "@/lib/audit";
+
+const schema = z.object({
+  decision: z.enum(["approve", "deny"]),
+});
+
+// Only the conversation's psychologist decides on an admin's request.
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["PSYCHOLOGIST"]);
+
+  const parsed = schema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  const { id } = await context.params;
+  const grant = await prisma.conversationAccessGrant.findFirst({
+    where: { tenantId: user.tenantId, id, status: "REQUESTED" },
+    include: { conversation: { select: { psychologistUserId: true } } },
+  });
+  if (!grant) {
+    return NextResponse.json({ error: "Request not found" }, { status: 404 });
+  }
+  if (grant.conversation.psychologistUserId !== user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const approve = parsed.data.decision === "approve";
+  const now = new Date();
+  if (approve && grant.expiresAt && grant.expiresAt <= now) {
+    return NextResponse.json({ error: "Request has expired" }, { status: 409 });
+  }
+
+  const decided = await prisma.conversationAccessGrant.updateMany({
+    where: { tenantId: user.tenantId, id, status: "REQUESTED" },
+    data: approve
+      ? { status: "ACTIVE", grantedByUserId: user.id, decidedAt: now }
+      : { status: "DENIED", decidedAt: now },
+  });
+  if (!decided.count) {
+    return NextResponse.json({ error: "Request not found" }, { status: 404 });
+  }
+
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: approve ? "conversation.access_grant.approve" : "conversation.access_grant.deny",
+    targetType: "Conversation",
+    targetId: grant.conversationId,
+    meta: { grantId: grant.id, requestedByUserId: grant.userId },
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireRole } from "@/lib/auth/guards";
+import { logAuditEvent } from "@/lib/audit";
+
+// Ends a grant early, or withdraws a pending request. Any admin of the tenant
+// or the conversation's psychologist may do it.
+export async function DELETE(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["ADMIN", "PSYCHOLOGIST"]);
+
+  const { id } = await context.params;
+  const grant = await prisma.conversationAccessGrant.findFirst({
+    where: { tenantId: user.tenantId, id },
+    include: { conversation: { select: { psychologistUserId: true } } },
+  });
+  if (!grant) {
+    return NextResponse.json({ error: "Grant not found" }, { status: 404 });
+  }
+  if (user.role === "PSYCHOLOGIST" && grant.conversation.psychologistUserId !== user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const revoked = await prisma.conversationAccessGrant.updateMany({
+    where: { tenantId: user.tenantId, id, status: { in: ["REQUESTED", "ACTIVE"] } },
+    data: { status: "REVOKED", revokedAt: new Date(), revokedByUserId: user.id },
+  });
+  if (!revoked.count) {
+    return NextResponse.json({ error: "Grant is no longer active" }, { status: 409 });
+  }
+
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: "conversation.access_grant.revoke",
+    targetType: "Conversation",
+    targetId: grant.conversationId,
+    meta: { grantId: grant.id, previousStatus: grant.status },
+  });
+
+  return NextResponse.json({ ok: true });
+}
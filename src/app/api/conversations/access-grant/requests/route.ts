@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getConversationForAccess, requireAuth, requireRole } from "@/lib/auth/guards";
+import { logAuditEvent } from "@/lib/audit";
+import {
+  MAX_JUSTIFICATION_LENGTH,
+  MIN_JUSTIFICATION_LENGTH,
+  notifyGrantRequested,
+} from "@/lib/access-grants";
+
+const schema = z.object({
+  conversationId: z.string().min(1),
+  justification: z.string().trim().min(MIN_JUSTIFICATION_LENGTH).max(MAX_JUSTIFICATION_LENGTH),
+  expiresAt: z.string().datetime().optional(),
+});
+
+// An admin asks the conversation's psychologist for access instead of
+// granting it to themselves. Nothing opens until the psychologist approves.
+export async function POST(request: Request) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["ADMIN"]);
+  if (user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = schema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid payload" },
+      { status: 400 },
+    );
+  }
+  const body = parsed.data;
+  const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null;
+  if (expiresAt && expiresAt <= new Date()) {
+    return NextResponse.json({ error: "expiresAt must be in the future" }, { status: 400 });
+  }
+
+  const conversation = await getConversationForAccess({
+    tenantId: user.tenantId,
+    conversationId: body.conversationId,
+  });
+  if (!conversation) {
+    return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  const pending = await prisma.conversationAccessGrant.findFirst({
+    where: {
+      tenantId: user.tenantId,
+      conversationId: conversation.id,
+      userId: user.id,
+      status: "REQUESTED",
+    },
+  });
+  if (pending) {
+    return NextResponse.json(
+      { error: "A request is already pending", grantId: pending.id },
+      { status: 409 },
+    );
+  }
+
+  const grant = await prisma.conversationAccessGrant.create({
+    data: {
+      tenantId: user.tenantId,
+      conversationId: conversation.id,
+      userId: user.id,
+      status: "REQUESTED",
+      justification: body.justification,
+      expiresAt,
+    },
+  });
+
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: "conversation.access_grant.request",
+    targetType: "Conversation",
+    targetId: conversation.id,
+    meta: { grantId: grant.id },
+  });
+
+  await notifyGrantRequested({
+    tenantId: user.tenantId,
+    conversation,
+    justification: body.justification,
+  });
+
+  return NextResponse.json({ ok: true, grantId: grant.id }, { status: 201 });
+}
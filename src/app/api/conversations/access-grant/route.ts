@@ -1,33 +1,98 @@
 import { NextResponse } from "next/server";
+import type { AccessGrantStatus, Prisma } from "@prisma/client";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { requireAuth, requireRole, requireStepUp } from "@/lib/auth/guards";
+import {
+  getConversationForAccess,
+  requireAuth,
+  requireRole,
+  requireStepUp,
+} from "@/lib/auth/guards";
 import { logAuditEvent } from "@/lib/audit";
+import {
+  ACCESS_GRANT_INCLUDE,
+  MAX_JUSTIFICATION_LENGTH,
+  MIN_JUSTIFICATION_LENGTH,
+  toAccessGrantItem,
+} from "@/lib/access-grants";
 
 const schema = z.object({
   tenantId: z.string().min(1),
   conversationId: z.string().min(1),
   userId: z.string().min(1),
-  expiresAt: z.string().optional(),
+  justification: z.string().trim().min(MIN_JUSTIFICATION_LENGTH).max(MAX_JUSTIFICATION_LENGTH),
+  expiresAt: z.string().datetime().optional(),
 });
 
+const STATUSES = ["REQUESTED", "ACTIVE", "DENIED", "REVOKED"] as const;
+
+// Admins see every grant in the tenant; psychologists see the grants and
+// requests on their own conversations.
+export async function GET(request: Request) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["ADMIN", "PSYCHOLOGIST"]);
+
+  const url = new URL(request.url);
+  const conversationId = url.searchParams.get("conversationId");
+  const status = url.searchParams.get("status");
+  if (status && !STATUSES.includes(status as AccessGrantStatus)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  const where: Prisma.ConversationAccessGrantWhereInput = {
+    tenantId: user.tenantId,
+    ...(conversationId ? { conversationId } : {}),
+    ...(status ? { status: status as AccessGrantStatus } : {}),
+    ...(user.role === "PSYCHOLOGIST"
+      ? { conversation: { psychologistUserId: user.id } }
+      : {}),
+  };
+  const items = await prisma.conversationAccessGrant.findMany({
+    where,
+    include: ACCESS_GRANT_INCLUDE,
+    orderBy: { createdAt: "desc" },
+    take: 100,
+  });
+
+  return NextResponse.json({ items: items.map(toAccessGrantItem) });
+}
+
 export async function POST(request: Request) {
   const { user, session } = await requireAuth();
   requireRole(user.role, ["ADMIN"]);
   requireStepUp(session.stepUpUntil);
 
-  const body = schema.parse(await request.json());
+  const parsed = schema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid payload" },
+      { status: 400 },
+    );
+  }
+  const body = parsed.data;
   if (body.tenantId !== user.tenantId) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  const conversation = await getConversationForAccess({
+    tenantId: user.tenantId,
+    conversationId: body.conversationId,
+  });
+  if (!conversation) {
+    return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
   const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null;
+  if (expiresAt && expiresAt <= new Date()) {
+    return NextResponse.json({ error: "expiresAt must be in the future" }, { status: 400 });
+  }
   const grant = await prisma.conversationAccessGrant.create({
     data: {
       tenantId: body.tenantId,
       conversationId: body.conversationId,
       userId: body.userId,
       grantedByUserId: user.id,
+      justification: body.justification,
       expiresAt,
     },
   });
@@ -20,9 +20,10 @@ export async function GET(request: Request) {
 
   const baseWhere: {
     tenantId: string;
+    shreddedAt: null;
     psychologistUserId?: string;
     patientUserId?: string;
-  } = { tenantId: user.tenantId };
+  } = { tenantId: user.tenantId, shreddedAt: null };
 
   if (user.role === "PSYCHOLOGIST") {
     baseWhere.psychologistUserId = user.id;
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireRole } from "@/lib/auth/guards";
+import { decryptBytes, decryptDek, getMasterKek } from "@/lib/crypto";
+import {
+  formatExportPassword,
+  MAX_DATA_EXPORT_ATTEMPTS,
+  PURGED_ARCHIVE,
+  verifyExportPassword,
+} from "@/lib/data-export";
+import { encryptZip } from "@/lib/zip";
+import { logAuditEvent } from "@/lib/audit";
+
+const paramsSchema = z.object({
+  id: z.string().min(1),
+});
+
+const bodySchema = z.object({
+  password: z.string().trim().min(1).max(64),
+});
+
+// The archive is released once, encrypted with the password just checked: a
+// successful download or too many wrong passwords drops it.
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["PATIENT"]);
+  const params = paramsSchema.parse(await context.params);
+
+  const parsed = bodySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  const item = await prisma.dataExport.findFirst({
+    where: { tenantId: user.tenantId, id: params.id, patientUserId: user.id },
+  });
+  if (!item) {
+    return NextResponse.json({ error: "Export not found" }, { status: 404 });
+  }
+  if (
+    item.status !== "READY" ||
+    !item.keyEncrypted ||
+    !item.ciphertext ||
+    !item.iv ||
+    !item.authTag ||
+    (item.expiresAt && item.expiresAt < new Date())
+  ) {
+    return NextResponse.json({ error: "Export is not available" }, { status: 410 });
+  }
+
+  if (!verifyExportPassword(parsed.data.password, item.passwordHash)) {
+    const failedAttempts = item.failedAttempts + 1;
+    const locked = failedAttempts >= MAX_DATA_EXPORT_ATTEMPTS;
+    await prisma.dataExport.updateMany({
+      where: { id: item.id, tenantId: user.tenantId, status: "READY" },
+      data: locked
+        ? {
+            ...PURGED_ARCHIVE,
+            failedAttempts,
+            status: "FAILED",
+            lastError: "Too many attempts",
+            failureReason: "TOO_MANY_ATTEMPTS",
+          }
+        : { failedAttempts },
+    });
+    await logAuditEvent({
+      tenantId: user.tenantId,
+      actorUserId: user.id,
+      action: locked ? "patient.export.lock" : "patient.export.password_failed",
+      targetType: "User",
+      targetId: user.id,
+      meta: { exportId: item.id, failedAttempts },
+    });
+    return NextResponse.json({ error: "Invalid password" }, { status: 403 });
+  }
+
+  // The server only ever keeps the password's hash, so the archive can be
+  // locked with it now, while the patient is handing it over.
+  const archive = encryptZip(
+    decryptBytes(
+      item.ciphertext,
+      item.iv,
+      item.authTag,
+      decryptDek(item.keyEncrypted, getMasterKek()),
+    ),
+    formatExportPassword(parsed.data.password),
+  );
+
+  // Conditional so two concurrent downloads cannot both succeed.
+  const claimed = await prisma.dataExport.updateMany({
+    where: { id: item.id, tenantId: user.tenantId, status: "READY" },
+    data: { ...PURGED_ARCHIVE, status: "DOWNLOADED", downloadedAt: new Date() },
+  });
+  if (!claimed.count) {
+    return NextResponse.json({ error: "Export is not available" }, { status: 410 });
+  }
+
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: "patient.export.download",
+    targetType: "User",
+    targetId: user.id,
+    meta: { exportId: item.id, sizeBytes: archive.byteLength },
+  });
+
+  return new NextResponse(archive as unknown as BodyInit, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Length": archive.byteLength.toString(),
+      "Content-Disposition": `attachment; filename="psyos-export-${item.id}.zip"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireRole } from "@/lib/auth/guards";
+import {
+  DATA_EXPORT_TTL_HOURS,
+  generateExportPassword,
+  hashExportPassword,
+  PURGED_ARCHIVE,
+  toDataExportItem,
+} from "@/lib/data-export";
+import { enqueueDataExport } from "@/lib/queues";
+import { sendEmail } from "@/lib/email";
+import { getBaseUrl } from "@/lib/request";
+import { logAuditEvent } from "@/lib/audit";
+
+const createSchema = z.object({
+  patientId: z.string().min(1).optional(),
+});
+
+export async function GET() {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["PATIENT"]);
+
+  const items = await prisma.dataExport.findMany({
+    where: { tenantId: user.tenantId, patientUserId: user.id },
+    orderBy: { createdAt: "desc" },
+    take: 10,
+  });
+
+  return NextResponse.json({ items: items.map(toDataExportItem) });
+}
+
+// Patients request their own export and get the one-time password in the
+// response. Admins request one on a patient's behalf; the password then goes
+// to the patient by email, so the admin never holds what opens the archive.
+export async function POST(request: Request) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["PATIENT", "ADMIN"]);
+  if (user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = createSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  const byAdmin = user.role === "ADMIN";
+  if (byAdmin && !parsed.data.patientId) {
+    return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+  }
+  const patient = await prisma.user.findFirst({
+    where: {
+      tenantId: user.tenantId,
+      id: byAdmin ? parsed.data.patientId : user.id,
+      role: "PATIENT",
+      erasedAt: null,
+    },
+  });
+  if (!patient) {
+    return NextResponse.json({ error: "Patient not found" }, { status: 404 });
+  }
+  if (byAdmin && !patient.email) {
+    return NextResponse.json(
+      { error: "Patient has no email to receive the password" },
+      { status: 400 },
+    );
+  }
+
+  const unfinished = await prisma.dataExport.findFirst({
+    where: {
+      tenantId: user.tenantId,
+      patientUserId: patient.id,
+      status: { in: ["PENDING", "RUNNING"] },
+    },
+  });
+  if (unfinished) {
+    return NextResponse.json(
+      { error: "An export is already pending", item: toDataExportItem(unfinished) },
+      { status: 409 },
+    );
+  }
+
+  // A new request replaces an archive that is still waiting, e.g. when the
+  // password was lost.
+  const replaced = await prisma.dataExport.updateMany({
+    where: { tenantId: user.tenantId, patientUserId: patient.id, status: "READY" },
+    data: { ...PURGED_ARCHIVE, status: "EXPIRED" },
+  });
+
+  const password = generateExportPassword();
+  const item = await prisma.dataExport.create({
+    data: {
+      tenantId: user.tenantId,
+      patientUserId: patient.id,
+      requestedByUserId: user.id,
+      passwordHash: hashExportPassword(password),
+    },
+  });
+
+  await enqueueDataExport({ tenantId: user.tenantId, exportId: item.id });
+
+  if (byAdmin && patient.email) {
+    await sendEmail({
+      to: patient.email,
+      subject: "PsyOS - Exportacao dos seus dados",
+      text:
+        `A clinica solicitou a exportacao dos seus dados. Quando o arquivo estiver pronto, ` +
+        `entre em ${getBaseUrl(request)}/patient e use a senha ${password} para baixar. ` +
+        `A senha vale para um unico download e tambem abre o ZIP baixado (use o 7-Zip ` +
+        `ou outro programa compativel com ZIP AES). O arquivo fica disponivel por ` +
+        `${DATA_EXPORT_TTL_HOURS} horas.`,
+    });
+  }
+
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: "patient.export.request",
+    targetType: "User",
+    targetId: patient.id,
+    meta: { exportId: item.id, requestedBy: user.role, replaced: replaced.count },
+  });
+
+  return NextResponse.json(
+    { item: toDataExportItem(item), ...(byAdmin ? {} : { password }) },
+    { status: 202 },
+  );
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAuth, requireConversationAccess, requireRole, requireStepUp } from "@/lib/auth/guards";
+import { buildClinicalReport, MAX_REPORT_EXCERPTS, MAX_REPORT_WEEKS } from "@/lib/clinical-report";
+import { logAuditEvent } from "@/lib/audit";
+
+// Calendar dates, read in the tenant's time zone.
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const bodySchema = z.object({
+  conversationId: z.string().min(1),
+  from: z.string().regex(DATE_PATTERN),
+  to: z.string().regex(DATE_PATTERN),
+  language: z.enum(["PT", "ES", "EN"]).optional(),
+  messageIds: z.array(z.string().min(1)).max(MAX_REPORT_EXCERPTS).optional(),
+});
+
+const MAX_RANGE_DAYS = MAX_REPORT_WEEKS * 7;
+
+// A report carries records and message excerpts off the platform, so it needs
+// a fresh step-up on top of conversation access.
+export async function POST(request: Request) {
+  const { user, session } = await requireAuth();
+  requireRole(user.role, ["PSYCHOLOGIST"]);
+
+  const parsed = bodySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+  const body = parsed.data;
+  const days = (Date.parse(body.to) - Date.parse(body.from)) / (24 * 60 * 60 * 1000);
+  if (!Number.isFinite(days) || days < 0 || days >= MAX_RANGE_DAYS) {
+    return NextResponse.json(
+      { error: `Period must be at most ${MAX_REPORT_WEEKS} weeks` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    requireStepUp(session.stepUpUntil);
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message, stepUpRequired: true },
+      { status: 403 },
+    );
+  }
+
+  const conversation = await requireConversationAccess({
+    tenantId: user.tenantId,
+    conversationId: body.conversationId,
+    userId: user.id,
+    role: user.role,
+  });
+
+  const report = await buildClinicalReport({
+    conversation,
+    from: body.from,
+    to: body.to,
+    language: body.language ?? conversation.language,
+    messageIds: Array.from(new Set(body.messageIds ?? [])),
+  });
+
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: "report.export",
+    targetType: "Conversation",
+    targetId: conversation.id,
+    meta: {
+      format: "pdf",
+      from: report.from.toISOString(),
+      to: report.to.toISOString(),
+      weeks: report.weeks,
+      records: report.records,
+      excerpts: report.excerpts,
+    },
+  });
+
+  return new NextResponse(report.pdf as unknown as BodyInit, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Length": report.pdf.byteLength.toString(),
+      "Content-Disposition": `attachment; filename="clinical-report-${conversation.id}.pdf"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
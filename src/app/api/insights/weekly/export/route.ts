@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, requireConversationAccess, requireRole } from "@/lib/auth/guards";
+import { decryptJson, getConversationKeys } from "@/lib/conversation-keys";
+import { formatDateInTimeZone } from "@/lib/time-zone";
 
 const querySchema = z.object({
   conversationId: z.string().min(1),
@@ -11,6 +13,13 @@ const querySchema = z.object({
 
 const MAX_WEEKS = 8;
 
+type ExportedSummary = {
+  events?: Array<{ label: string }>;
+  dominantEmotions?: Array<{ label: string; count: number }>;
+  signalsTriggered?: Array<{ key: string; count: number }>;
+  changes?: { messages?: number; events?: number; signals?: number };
+};
+
 export async function GET(request: Request) {
   const { user } = await requireAuth();
   requireRole(user.role, ["PSYCHOLOGIST"]);
@@ -22,38 +31,39 @@ export async function GET(request: Request) {
     format: (url.searchParams.get("format") ?? undefined) as "csv" | "json" | undefined,
   });
 
-  await requireConversationAccess({
+  const conversation = await requireConversationAccess({
     tenantId: user.tenantId,
     conversationId: query.conversationId,
     userId: user.id,
     role: user.role,
   });
 
-  const count = query.weeks ?? MAX_WEEKS;
-  const prismaAny = prisma as typeof prisma & {
-    weeklySummary: {
-      findMany: (args: unknown) => Promise<
-        Array<{
-          weekStart: Date;
-          weekEnd: Date;
-          summaryJson: unknown;
-        }>
-      >;
-    };
-  };
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: user.tenantId },
+    select: { timeZone: true },
+  });
+  const timeZone = tenant?.timeZone ?? "UTC";
 
-  const summaries = await prismaAny.weeklySummary.findMany({
+  const count = query.weeks ?? MAX_WEEKS;
+  const keys = getConversationKeys(conversation);
+  const stored = await prisma.weeklySummary.findMany({
     where: { tenantId: user.tenantId, conversationId: query.conversationId },
     orderBy: { weekStart: "desc" },
     take: count,
   });
+  const summaries = stored.map((item) => ({
+    weekStart: item.weekStart,
+    weekEnd: item.weekEnd,
+    summary: decryptJson<ExportedSummary>(item, item.summaryJson, keys) ?? {},
+  }));
 
   if (query.format === "json") {
     return NextResponse.json({
+      timeZone,
       items: summaries.map((item) => ({
         weekStart: item.weekStart.toISOString(),
         weekEnd: item.weekEnd.toISOString(),
-        summary: item.summaryJson,
+        summary: item.summary,
       })),
     });
   }
@@ -72,12 +82,7 @@ export async function GET(request: Request) {
   ];
 
   summaries.forEach((item) => {
-    const summary = item.summaryJson as {
-      events?: Array<{ label: string }>;
-      dominantEmotions?: Array<{ label: string; count: number }>;
-      signalsTriggered?: Array<{ key: string; count: number }>;
-      changes?: { messages?: number; events?: number; signals?: number };
-    };
+    const { summary } = item;
     const events = (summary.events ?? []).map((e) => e.label).join(" | ");
     const emotions = (summary.dominantEmotions ?? [])
       .map((e) => `${e.label}:${e.count}`)
@@ -86,8 +91,8 @@ export async function GET(request: Request) {
       .map((s) => `${s.key}:${s.count}`)
       .join(" | ");
     rows.push([
-      item.weekStart.toISOString().slice(0, 10),
-      item.weekEnd.toISOString().slice(0, 10),
+      formatDateInTimeZone(item.weekStart, timeZone),
+      formatDateInTimeZone(item.weekEnd, timeZone),
       events,
       emotions,
       signals,
@@ -1,134 +1,29 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
+import { enqueueWeeklySummary } from "@/lib/queues";
 import { requireAuth, requireConversationAccess, requireRole } from "@/lib/auth/guards";
-import { decryptDek, decryptMessage, getMasterKek } from "@/lib/crypto";
-import { detectSignals, resolveSignalConfig, type SignalKey } from "@/lib/ai/detection";
-
-type WeeklySummary = {
-  weekStart: string;
-  weekEnd: string;
-  events: Array<{ label: string; createdAt: string }>;
-  dominantEmotions: Array<{ label: string; count: number }>;
-  signalsTriggered: Array<{ key: SignalKey; count: number }>;
-  changes: { messages: number; events: number; signals: number };
-};
+import { addDaysInTimeZone } from "@/lib/time-zone";
+import {
+  getWeekBounds,
+  loadStoredWeeklySummary,
+  loadWeeklySummaryContext,
+  type WeeklySummary,
+} from "@/lib/weekly-summaries";
 
 const querySchema = z.object({
   conversationId: z.string().min(1),
   weekStart: z.string().optional(),
   weeks: z.coerce.number().int().min(1).max(26).optional(),
-  refresh: z.coerce.boolean().optional(),
+  refresh: z.boolean().optional(),
 });
 
 const MAX_WEEKS = 8;
 
-const startOfWeek = (value: Date) => {
-  const date = new Date(value);
-  date.setHours(0, 0, 0, 0);
-  const day = (date.getDay() + 6) % 7;
-  date.setDate(date.getDate() - day);
-  return date;
-};
-
-const addDays = (value: Date, days: number) => {
-  const date = new Date(value);
-  date.setDate(date.getDate() + days);
-  return date;
-};
-
-async function loadSignalConfig(tenantId: string, userId: string) {
-  const policy = await prisma.aiPolicy.findFirst({
-    where: { tenantId, ownerUserId: userId },
-    orderBy: { updatedAt: "desc" },
-  });
-  const flags = policy?.flagsJson ?? null;
-  const config = resolveSignalConfig(
-    (flags as { signalConfig?: unknown })?.signalConfig as
-      | Partial<ReturnType<typeof resolveSignalConfig>>
-      | undefined,
-  );
-  return config;
-}
-
-async function generateWeeklySummary(params: {
-  tenantId: string;
-  conversationId: string;
-  weekStart: Date;
-  weekEnd: Date;
-  dek: Buffer;
-  signalConfig: ReturnType<typeof resolveSignalConfig>;
-}) {
-  const { tenantId, conversationId, weekStart, weekEnd, dek, signalConfig } = params;
-  const [messages, records] = await Promise.all([
-    prisma.message.findMany({
-      where: {
-        tenantId,
-        conversationId,
-        createdAt: { gte: weekStart, lte: addDays(weekEnd, 1) },
-      },
-      orderBy: { createdAt: "asc" },
-    }),
-    prisma.record.findMany({
-      where: {
-        tenantId,
-        conversationId,
-        createdAt: { gte: weekStart, lte: addDays(weekEnd, 1) },
-      },
-      orderBy: { createdAt: "asc" },
-    }),
-  ]);
-
-  const signalsMap = new Map<SignalKey, number>();
-  let messagesCount = 0;
-  messages.forEach((message) => {
-    const content = decryptMessage(message.ciphertext, message.iv, message.authTag, dek);
-    messagesCount += 1;
-    const detected = detectSignals(content, signalConfig);
-    (Object.keys(detected) as SignalKey[]).forEach((key) => {
-      if (!detected[key]) {
-        return;
-      }
-      signalsMap.set(key, (signalsMap.get(key) ?? 0) + 1);
-    });
-  });
-
-  const events = records
-    .map((record) => ({
-      label: (record.dataJson as { event?: string })?.event ?? "",
-      createdAt: record.createdAt.toISOString(),
-    }))
-    .filter((item) => item.label)
-    .slice(0, 6);
-
-  const emotionMap = new Map<string, number>();
-  records.forEach((record) => {
-    const emotion = (record.dataJson as { emotion?: string })?.emotion ?? "";
-    const key = emotion.trim().toLowerCase();
-    if (key) {
-      emotionMap.set(key, (emotionMap.get(key) ?? 0) + 1);
-    }
-  });
-
-  const dominantEmotions = Array.from(emotionMap.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 4)
-    .map(([label, count]) => ({ label, count }));
-
-  const signalsTriggered = Array.from(signalsMap.entries())
-    .map(([key, count]) => ({ key, count }))
-    .sort((a, b) => b.count - a.count);
-
-  return {
-    weekStart: weekStart.toISOString(),
-    weekEnd: weekEnd.toISOString(),
-    events,
-    dominantEmotions,
-    signalsTriggered,
-    changes: { messages: messagesCount, events: events.length, signals: signalsTriggered.reduce((sum, item) => sum + item.count, 0) },
-  };
-}
-
+// Closed weeks are normally generated ahead of time by the weekly_summary
+// worker. Anything missing or outdated is queued there instead of generated
+// here: outdated weeks are returned as stored, and every queued week is listed
+// in `pending` so the client can poll until it is done.
 export async function GET(request: Request) {
   const { user } = await requireAuth();
   requireRole(user.role, ["PSYCHOLOGIST"]);
@@ -137,6 +32,8 @@ export async function GET(request: Request) {
   const query = querySchema.parse({
     conversationId: url.searchParams.get("conversationId"),
     weekStart: url.searchParams.get("weekStart") ?? undefined,
+    weeks: url.searchParams.get("weeks") ?? undefined,
+    refresh: url.searchParams.get("refresh") === "true",
   });
 
   const conversation = await requireConversationAccess({
@@ -146,8 +43,11 @@ export async function GET(request: Request) {
     role: user.role,
   });
 
-  const dek = decryptDek(conversation.encryptedDek, getMasterKek());
-  const signalConfig = await loadSignalConfig(user.tenantId, user.id);
+  const context = await loadWeeklySummaryContext(conversation);
+  if (!context) {
+    return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+  }
+  const { week } = context;
 
   let weekStarts: Date[] = [];
   if (query.weekStart) {
@@ -155,7 +55,7 @@ export async function GET(request: Request) {
     if (Number.isNaN(parsed.getTime())) {
       return NextResponse.json({ error: "Invalid weekStart" }, { status: 400 });
     }
-    weekStarts = [startOfWeek(parsed)];
+    weekStarts = [getWeekBounds(parsed, week).weekStart];
   } else {
     const latestMessage = await prisma.message.findFirst({
       where: { tenantId: user.tenantId, conversationId: conversation.id },
@@ -173,83 +73,47 @@ export async function GET(request: Request) {
           ? latestMessage.createdAt
           : latestRecord.createdAt
         : latestMessage?.createdAt ?? latestRecord?.createdAt ?? new Date();
-    const start = startOfWeek(latest);
+    const start = getWeekBounds(latest, week).weekStart;
     const count = query.weeks ?? MAX_WEEKS;
-    weekStarts = Array.from({ length: count }, (_, idx) => addDays(start, -7 * idx));
+    weekStarts = Array.from({ length: count }, (_, idx) =>
+      addDaysInTimeZone(start, -7 * idx, week.timeZone),
+    );
   }
 
-  const summaries = [];
-  const prismaAny = prisma as typeof prisma & {
-    weeklySummary: {
-      upsert: (args: unknown) => Promise<unknown>;
-      findMany: (args: unknown) => Promise<
-        Array<{
-          weekStart: Date;
-          weekEnd: Date;
-          summaryJson: unknown;
-        }>
-      >;
-    };
-  };
-
-  for (const weekStart of weekStarts) {
-    const weekEnd = addDays(weekStart, 6);
-    if (!query.refresh) {
-      const cached = await prismaAny.weeklySummary.findMany({
-        where: {
-          tenantId: user.tenantId,
-          conversationId: conversation.id,
-          weekStart,
-        },
-        take: 1,
-      });
-      if (cached.length > 0) {
-        const cachedSummary = cached[0].summaryJson as WeeklySummary;
-        summaries.push({
-          ...cachedSummary,
-          weekStart: cached[0].weekStart.toISOString(),
-          weekEnd: cached[0].weekEnd.toISOString(),
-        });
-        continue;
-      }
-    }
-
-    const summary = await generateWeeklySummary({
-      tenantId: user.tenantId,
-      conversationId: conversation.id,
-      weekStart,
-      weekEnd,
-      dek,
-      signalConfig,
-    });
-
-    await prismaAny.weeklySummary.upsert({
+  // Marking the weeks stale keeps them pending until the worker rewrites them.
+  if (query.refresh) {
+    await prisma.weeklySummary.updateMany({
       where: {
-        conversationId_weekStart: {
-          conversationId: conversation.id,
-          weekStart,
-        },
-      },
-      update: {
-        summaryJson: summary as unknown as object,
-        weekEnd,
-        generatedAt: new Date(),
-      },
-      create: {
         tenantId: user.tenantId,
         conversationId: conversation.id,
-        weekStart,
-        weekEnd,
-        summaryJson: summary as unknown as object,
+        weekStart: { in: weekStarts },
+        staleAt: null,
       },
+      data: { staleAt: new Date() },
     });
+  }
 
-    summaries.push(summary);
+  const summaries: WeeklySummary[] = [];
+  const pending: string[] = [];
+
+  for (const weekStart of weekStarts) {
+    const stored = await loadStoredWeeklySummary(context, weekStart);
+    if (stored) {
+      summaries.push(stored.summary);
+    }
+    if (!stored?.current) {
+      await enqueueWeeklySummary({
+        tenantId: user.tenantId,
+        conversationId: conversation.id,
+        weekStart: weekStart.toISOString(),
+      });
+      pending.push(weekStart.toISOString());
+    }
   }
 
   summaries.sort(
     (a, b) => new Date(b.weekStart).getTime() - new Date(a.weekStart).getTime(),
   );
 
-  return NextResponse.json({ items: summaries });
+  return NextResponse.json({ items: summaries, pending });
 }
@@ -3,6 +3,11 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, requireConversationAccess, requireRole } from "@/lib/auth/guards";
 import { logAuditEvent } from "@/lib/audit";
+import { publishConversationEvent } from "@/lib/realtime";
+import { invalidateWeeklySummary } from "@/lib/weekly-summaries";
+import { removeMessageFromIndex } from "@/lib/search";
+import { getConversationKeys } from "@/lib/conversation-keys";
+import { erasedMessageData } from "@/lib/messages";
 
 const paramsSchema = z.object({
   messageId: z.string().min(1),
@@ -25,7 +30,7 @@ export async function DELETE(
     return NextResponse.json({ ok: true });
   }
 
-  await requireConversationAccess({
+  const conversation = await requireConversationAccess({
     tenantId: user.tenantId,
     conversationId: message.conversationId,
     userId: user.id,
@@ -54,7 +59,22 @@ export async function DELETE(
   if (!message.deletedAt) {
     await prisma.message.updateMany({
       where: { id: message.id, tenantId: user.tenantId },
-      data: { deletedAt: new Date(), deletedByUserId: user.id },
+      data: {
+        ...erasedMessageData(getConversationKeys(conversation)),
+        deletedAt: new Date(),
+        deletedByUserId: user.id,
+      },
+    });
+    await removeMessageFromIndex({ tenantId: user.tenantId, messageId: message.id });
+    await invalidateWeeklySummary({
+      tenantId: user.tenantId,
+      conversationId: message.conversationId,
+      at: message.createdAt,
+    });
+    await publishConversationEvent({
+      tenantId: user.tenantId,
+      conversationId: message.conversationId,
+      event: { type: "message.updated", messageId: message.id },
     });
   }
 
@@ -2,7 +2,10 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, requireConversationAccess, requireStepUp } from "@/lib/auth/guards";
-import { decryptDek, decryptBytes, getMasterKek } from "@/lib/crypto";
+import { decryptBytes } from "@/lib/crypto";
+import { getConversationKeys } from "@/lib/conversation-keys";
+import { getAttachmentKind } from "@/lib/attachments";
+import { notifyGrantUsed } from "@/lib/access-grants";
 
 const querySchema = z.object({
   messageId: z.string().min(1),
@@ -24,6 +27,7 @@ export async function GET(request: Request) {
   })) as unknown as {
     id: string;
     conversationId: string;
+    dekVersion: number;
     attachmentCiphertext?: string | null;
     attachmentIv?: string | null;
     attachmentAuthTag?: string | null;
@@ -40,13 +44,15 @@ export async function GET(request: Request) {
     userId: user.id,
     role: user.role,
   });
+  if (user.role === "ADMIN") {
+    await notifyGrantUsed({ tenantId: user.tenantId, conversation, adminUserId: user.id });
+  }
 
-  const dek = decryptDek(conversation.encryptedDek, getMasterKek());
   const bytes = decryptBytes(
     message.attachmentCiphertext,
     message.attachmentIv,
     message.attachmentAuthTag,
-    dek,
+    getConversationKeys(conversation).forVersion(message.dekVersion),
   );
 
   return new NextResponse(bytes as unknown as BodyInit, {
@@ -54,6 +60,9 @@ export async function GET(request: Request) {
       "Content-Type": message.attachmentMime ?? "application/octet-stream",
       "Content-Length": bytes.byteLength.toString(),
       "Cache-Control": "private, max-age=300",
+      "Content-Disposition":
+        getAttachmentKind(message.attachmentMime) === "document" ? "attachment" : "inline",
+      "X-Content-Type-Options": "nosniff",
     },
   });
 }
@@ -2,8 +2,13 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, requireConversationAccess, requireRole } from "@/lib/auth/guards";
-import { decryptDek, encryptBytes, encryptMessage, getMasterKek } from "@/lib/crypto";
+import { encryptBytes, encryptMessage } from "@/lib/crypto";
+import { getConversationKeys } from "@/lib/conversation-keys";
 import { logAuditEvent } from "@/lib/audit";
+import { queueOutboundDelivery } from "@/lib/delivery";
+import { publishConversationEvent } from "@/lib/realtime";
+import { invalidateWeeklySummary } from "@/lib/weekly-summaries";
+import { enqueueTranscription } from "@/lib/queues";
 
 const schema = z.object({
   tenantId: z.string().min(1),
@@ -58,10 +63,10 @@ export async function POST(request: Request) {
     role: user.role,
   });
 
-  const dek = decryptDek(conversation.encryptedDek, getMasterKek());
+  const keys = getConversationKeys(conversation);
   const buffer = Buffer.from(await file.arrayBuffer());
-  const encryptedAudio = encryptBytes(buffer, dek);
-  const encryptedText = encryptMessage("", dek);
+  const encryptedAudio = encryptBytes(buffer, keys.current);
+  const encryptedText = encryptMessage("", keys.current);
 
   const message = await prisma.message.create({
     data: {
@@ -72,6 +77,7 @@ export async function POST(request: Request) {
       ciphertext: encryptedText.ciphertext,
       iv: encryptedText.iv,
       authTag: encryptedText.authTag,
+      dekVersion: keys.version,
       attachmentCiphertext: encryptedAudio.ciphertext,
       attachmentIv: encryptedAudio.iv,
       attachmentAuthTag: encryptedAudio.authTag,
@@ -80,6 +86,29 @@ export async function POST(request: Request) {
     },
   });
 
+  await enqueueTranscription({
+    tenantId: user.tenantId,
+    messageId: message.id,
+  });
+  await invalidateWeeklySummary({
+    tenantId: user.tenantId,
+    conversationId: conversation.id,
+    at: message.createdAt,
+  });
+
+  if (message.direction === "OUT") {
+    await queueOutboundDelivery({
+      tenantId: user.tenantId,
+      messageId: message.id,
+    });
+  }
+
+  await publishConversationEvent({
+    tenantId: user.tenantId,
+    conversationId: conversation.id,
+    event: { type: "message.created", messageId: message.id },
+  });
+
   await logAuditEvent({
     tenantId: user.tenantId,
     actorUserId: user.id,
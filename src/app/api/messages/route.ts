@@ -1,24 +1,59 @@
 import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, requireConversationAccess, requireStepUp } from "@/lib/auth/guards";
-import { decryptDek, decryptMessage, getMasterKek } from "@/lib/crypto";
+import { getConversationKeys } from "@/lib/conversation-keys";
 import { logAuditEvent } from "@/lib/audit";
+import { notifyGrantUsed } from "@/lib/access-grants";
+import {
+  decodeMessageCursor,
+  toMessageItem,
+  type MessageCursor,
+} from "@/lib/messages";
 
-const querySchema = z.object({
-  conversationId: z.string().min(1),
-  limit: z.number().int().min(1).max(100).optional(),
-});
+const querySchema = z
+  .object({
+    conversationId: z.string().min(1),
+    limit: z.number().int().min(1).max(100).optional(),
+    before: z.string().min(1).optional(),
+    after: z.string().min(1).optional(),
+    around: z.string().min(1).optional(),
+  })
+  .refine((query) => [query.before, query.after, query.around].filter(Boolean).length <= 1, {
+    message: "Use only one of before, after or around",
+  });
+
+function cursorFilter(cursor: MessageCursor, direction: "lt" | "gt"): Prisma.MessageWhereInput {
+  return {
+    OR: [
+      { createdAt: { [direction]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, id: { [direction]: cursor.id } },
+    ],
+  };
+}
 
 export async function GET(request: Request) {
   const { user, session } = await requireAuth();
   const url = new URL(request.url);
   const limitRaw = url.searchParams.get("limit");
   const limitParsed = limitRaw ? Number(limitRaw) : undefined;
-  const query = querySchema.parse({
+  const parsed = querySchema.safeParse({
     conversationId: url.searchParams.get("conversationId"),
     limit: Number.isFinite(limitParsed) ? limitParsed : undefined,
+    before: url.searchParams.get("before") ?? undefined,
+    after: url.searchParams.get("after") ?? undefined,
+    around: url.searchParams.get("around") ?? undefined,
   });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+  const query = parsed.data;
+  const cursorRaw = query.before ?? query.after ?? query.around;
+  const cursor = cursorRaw ? decodeMessageCursor(cursorRaw) : null;
+  if (cursorRaw && !cursor) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
 
   if (user.role === "ADMIN") {
     requireStepUp(session.stepUpUntil);
@@ -30,38 +65,65 @@ export async function GET(request: Request) {
     userId: user.id,
     role: user.role,
   });
+  // Paging through history is not a new open; only the first page notifies.
+  if (user.role === "ADMIN" && !cursorRaw) {
+    await notifyGrantUsed({ tenantId: user.tenantId, conversation, adminUserId: user.id });
+  }
 
-  const messages = await prisma.message.findMany({
-    where: {
+  const limit = query.limit ?? 50;
+  const keys = getConversationKeys(conversation);
+  const loadPage = async (direction: "older" | "newer", take: number) => {
+    const order = direction === "newer" ? "asc" : "desc";
+    const rows = await prisma.message.findMany({
+      where: {
+        tenantId: user.tenantId,
+        conversationId: conversation.id,
+        ...(cursor ? cursorFilter(cursor, direction === "newer" ? "gt" : "lt") : {}),
+      },
+      orderBy: [{ createdAt: order }, { id: order }],
+      take: take + 1,
+    });
+    const page = rows.slice(0, take);
+    return {
+      hasMore: rows.length > take,
+      messages: direction === "newer" ? page : page.reverse(),
+    };
+  };
+
+  // `around` opens history at a given message (search results): half a page
+  // on each side, with `hasMore` for older and `hasNewer` for newer messages.
+  if (query.around && cursor) {
+    const half = Math.ceil(limit / 2);
+    const [target, older, newer] = await Promise.all([
+      prisma.message.findFirst({
+        where: { tenantId: user.tenantId, conversationId: conversation.id, id: cursor.id },
+      }),
+      loadPage("older", half),
+      loadPage("newer", half),
+    ]);
+    const messages = [...older.messages, ...(target ? [target] : []), ...newer.messages];
+
+    await logAuditEvent({
       tenantId: user.tenantId,
-      conversationId: conversation.id,
-    },
-    orderBy: { createdAt: "desc" },
-    take: query.limit ?? 50,
-  });
+      actorUserId: user.id,
+      action: "message.read",
+      targetType: "Conversation",
+      targetId: conversation.id,
+      meta: { page: "around" },
+    });
+
+    return NextResponse.json({
+      items: messages.map((message) => toMessageItem(message, keys)),
+      hasMore: older.hasMore,
+      hasNewer: newer.hasMore,
+    });
+  }
 
-  const dek = decryptDek(conversation.encryptedDek, getMasterKek());
-  const items = messages
-    .slice()
-    .reverse()
-    .map((message) => ({
-      id: message.id,
-      direction: message.direction,
-      authorType: message.authorType,
-      createdAt: message.createdAt,
-      deletedAt: message.deletedAt,
-      content: message.deletedAt
-        ? ""
-        : decryptMessage(message.ciphertext, message.iv, message.authTag, dek),
-      hasAttachment: message.deletedAt
-        ? false
-        : Boolean(
-            (message as { attachmentCiphertext?: string }).attachmentCiphertext,
-          ),
-      attachmentMime: message.deletedAt
-        ? null
-        : (message as { attachmentMime?: string | null }).attachmentMime ?? null,
-    }));
+  // Without a cursor we page backwards from the newest message; `after` walks
+  // forwards (used to catch up after a reconnect). Items are always oldest first.
+  const forward = Boolean(query.after);
+  const { hasMore, messages } = await loadPage(forward ? "newer" : "older", limit);
+  const items = messages.map((message) => toMessageItem(message, keys));
 
   await logAuditEvent({
     tenantId: user.tenantId,
@@ -69,7 +131,8 @@ export async function GET(request: Request) {
     action: "message.read",
     targetType: "Conversation",
     targetId: conversation.id,
+    meta: cursorRaw ? { page: forward ? "after" : "before" } : undefined,
   });
 
-  return NextResponse.json({ items });
+  return NextResponse.json({ items, hasMore });
 }
@@ -6,9 +6,14 @@ import {
   requireConversationAccess,
   requireRole,
 } from "@/lib/auth/guards";
-import { decryptDek, encryptMessage, getMasterKek } from "@/lib/crypto";
+import { encryptMessage } from "@/lib/crypto";
+import { getConversationKeys } from "@/lib/conversation-keys";
 import { logAuditEvent } from "@/lib/audit";
 import { getAiQueue } from "@/lib/queues";
+import { queueOutboundDelivery } from "@/lib/delivery";
+import { publishConversationEvent } from "@/lib/realtime";
+import { invalidateWeeklySummary } from "@/lib/weekly-summaries";
+import { indexMessageText } from "@/lib/search";
 
 const schema = z.object({
   tenantId: z.string().min(1),
@@ -32,8 +37,8 @@ export async function POST(request: Request) {
     role: user.role,
   });
 
-  const dek = decryptDek(conversation.encryptedDek, getMasterKek());
-  const encrypted = encryptMessage(body.content, dek);
+  const keys = getConversationKeys(conversation);
+  const encrypted = encryptMessage(body.content, keys.current);
 
   const message = await prisma.message.create({
     data: {
@@ -44,8 +49,21 @@ export async function POST(request: Request) {
       ciphertext: encrypted.ciphertext,
       iv: encrypted.iv,
       authTag: encrypted.authTag,
+      dekVersion: keys.version,
     },
   });
+  await indexMessageText({
+    tenantId: user.tenantId,
+    conversationId: conversation.id,
+    messageId: message.id,
+    createdAt: message.createdAt,
+    text: body.content,
+  });
+  await invalidateWeeklySummary({
+    tenantId: user.tenantId,
+    conversationId: conversation.id,
+    at: message.createdAt,
+  });
 
   if (user.role === "PATIENT" && conversation.aiEnabled) {
     await getAiQueue().add("ai_reply_generate", {
@@ -55,6 +73,19 @@ export async function POST(request: Request) {
     });
   }
 
+  if (message.direction === "OUT") {
+    await queueOutboundDelivery({
+      tenantId: user.tenantId,
+      messageId: message.id,
+    });
+  }
+
+  await publishConversationEvent({
+    tenantId: user.tenantId,
+    conversationId: conversation.id,
+    event: { type: "message.created", messageId: message.id },
+  });
+
   await logAuditEvent({
     tenantId: user.tenantId,
     actorUserId: user.id,
@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireConversationAccess, requireStepUp } from "@/lib/auth/guards";
+import { isSessionLive } from "@/lib/auth/session";
+import { getConversationKeys } from "@/lib/conversation-keys";
+import { logAuditEvent } from "@/lib/audit";
+import { findActiveAccessGrant, notifyGrantUsed } from "@/lib/access-grants";
+import { toMessageItem } from "@/lib/messages";
+import { subscribeToConversation, type ConversationEvent } from "@/lib/realtime";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  conversationId: z.string().min(1),
+});
+
+const HEARTBEAT_MS = 25_000;
+// Streams are closed periodically so EventSource reconnects and the full
+// session and access checks above run again.
+const MAX_STREAM_MS = 10 * 60_000;
+
+export async function GET(request: Request) {
+  // Reconnects are not user activity and must not keep an idle session alive.
+  const { user, session } = await requireAuth({ touch: false });
+  const url = new URL(request.url);
+  const query = querySchema.parse({
+    conversationId: url.searchParams.get("conversationId"),
+  });
+
+  if (user.role === "ADMIN") {
+    requireStepUp(session.stepUpUntil);
+  }
+
+  const conversation = await requireConversationAccess({
+    tenantId: user.tenantId,
+    conversationId: query.conversationId,
+    userId: user.id,
+    role: user.role,
+  });
+  if (user.role === "ADMIN") {
+    await notifyGrantUsed({ tenantId: user.tenantId, conversation, adminUserId: user.id });
+  }
+
+  let keys = getConversationKeys(conversation);
+
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: "message.stream",
+    targetType: "Conversation",
+    targetId: conversation.id,
+  });
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => Promise<void>) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+          );
+        }
+      };
+
+      // Access is re-checked while the stream is open, so ending the session
+      // (sign-out, revocation, timeout) or revoking a grant cuts the user off
+      // at once instead of at the next reconnect.
+      const hasAccess = async () => {
+        if (!(await isSessionLive(session.id))) {
+          return false;
+        }
+        if (user.role !== "ADMIN") {
+          return true;
+        }
+        return Boolean(
+          await findActiveAccessGrant({
+            tenantId: user.tenantId,
+            conversationId: conversation.id,
+            userId: user.id,
+          }),
+        );
+      };
+      const verifyAccess = async () => {
+        const allowed = await hasAccess().catch((error: Error) => {
+          console.error("[stream] access check failed:", error.message);
+          return false;
+        });
+        if (!allowed) {
+          await cleanup?.();
+        }
+        return allowed;
+      };
+
+      const handleEvent = async (event: ConversationEvent) => {
+        if (event.type === "episode.updated") {
+          send("episode", {});
+          return;
+        }
+        if (event.type === "record_draft.created") {
+          // Drafts are for the psychologist's review only.
+          if (user.role === "PSYCHOLOGIST") {
+            send("record_draft", {});
+          }
+          return;
+        }
+        const message = await prisma.message.findFirst({
+          where: {
+            tenantId: user.tenantId,
+            conversationId: conversation.id,
+            id: event.messageId,
+          },
+        });
+        if (message) {
+          if (!(await verifyAccess())) {
+            return;
+          }
+          if (message.dekVersion > keys.version) {
+            // The conversation DEK was rotated while this stream was open.
+            const fresh = await prisma.conversation.findFirst({
+              where: { tenantId: user.tenantId, id: conversation.id },
+            });
+            if (fresh) {
+              keys = getConversationKeys(fresh);
+            }
+          }
+          send("message", toMessageItem(message, keys));
+        }
+      };
+
+      const unsubscribe = await subscribeToConversation(
+        { tenantId: user.tenantId, conversationId: conversation.id },
+        (event) => {
+          handleEvent(event).catch((error: Error) => {
+            console.error("[stream] event failed:", error.message);
+          });
+        },
+      );
+      const heartbeat = setInterval(() => {
+        void verifyAccess().then((allowed) => {
+          if (allowed && !closed) {
+            controller.enqueue(encoder.encode(": ping\n\n"));
+          }
+        });
+      }, HEARTBEAT_MS);
+      const lifetime = setTimeout(() => {
+        void cleanup?.();
+      }, MAX_STREAM_MS);
+
+      cleanup = async () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        clearInterval(heartbeat);
+        clearTimeout(lifetime);
+        await unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client.
+        }
+      };
+
+      request.signal.addEventListener("abort", () => {
+        void cleanup?.();
+      });
+      send("ready", { conversationId: conversation.id });
+    },
+    async cancel() {
+      await cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireConversationAccess, requireRole } from "@/lib/auth/guards";
+import { encryptJson, getConversationKeys } from "@/lib/conversation-keys";
+import type { RecordData } from "@/lib/records";
+import { indexRecordData } from "@/lib/search";
+import { invalidateWeeklySummary } from "@/lib/weekly-summaries";
+import { logAuditEvent } from "@/lib/audit";
+
+// On accept the psychologist's edited fields are what gets saved, not the
+// model's original draft.
+const reviewSchema = z.discriminatedUnion("decision", [
+  z.object({
+    decision: z.literal("accept"),
+    data: z.object({
+      event: z.string().trim().min(1),
+      thought: z.string().optional(),
+      emotion: z.string().optional(),
+      body: z.string().optional(),
+      action: z.string().optional(),
+      result: z.string().optional(),
+    }),
+  }),
+  z.object({ decision: z.literal("discard") }),
+]);
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["PSYCHOLOGIST"]);
+  const { id } = await context.params;
+
+  const parsed = reviewSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+  const body = parsed.data;
+
+  const draft = await prisma.recordDraft.findFirst({
+    where: { tenantId: user.tenantId, id },
+  });
+  if (!draft) {
+    return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+  }
+  const conversation = await requireConversationAccess({
+    tenantId: user.tenantId,
+    conversationId: draft.conversationId,
+    userId: user.id,
+    role: user.role,
+  });
+
+  // Claim the draft first so a double submit cannot create two records. The
+  // drafted payload is dropped either way.
+  const claimed = await prisma.recordDraft.updateMany({
+    where: { tenantId: user.tenantId, id: draft.id, status: "PENDING" },
+    data: {
+      status: body.decision === "accept" ? "ACCEPTED" : "DISCARDED",
+      ciphertext: null,
+      iv: null,
+      authTag: null,
+      reviewedByUserId: user.id,
+      reviewedAt: new Date(),
+    },
+  });
+  if (claimed.count === 0) {
+    return NextResponse.json({ error: "Draft already reviewed" }, { status: 409 });
+  }
+
+  if (body.decision === "discard") {
+    await logAuditEvent({
+      tenantId: user.tenantId,
+      actorUserId: user.id,
+      action: "record.draft.discard",
+      targetType: "RecordDraft",
+      targetId: draft.id,
+    });
+    return NextResponse.json({ ok: true });
+  }
+
+  const data: RecordData = body.data;
+  const record = await prisma.record.create({
+    data: {
+      tenantId: user.tenantId,
+      conversationId: conversation.id,
+      createdByUserId: user.id,
+      authorType: "PSYCHOLOGIST",
+      ...encryptJson(data, getConversationKeys(conversation)),
+    },
+  });
+  await prisma.recordDraft.updateMany({
+    where: { tenantId: user.tenantId, id: draft.id },
+    data: { recordId: record.id },
+  });
+
+  await indexRecordData({
+    tenantId: user.tenantId,
+    conversationId: record.conversationId,
+    recordId: record.id,
+    createdAt: record.createdAt,
+    data,
+  });
+  await invalidateWeeklySummary({
+    tenantId: user.tenantId,
+    conversationId: record.conversationId,
+    at: record.createdAt,
+  });
+
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: "record.draft.accept",
+    targetType: "RecordDraft",
+    targetId: draft.id,
+    meta: { recordId: record.id },
+  });
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: "record.create",
+    targetType: "Record",
+    targetId: record.id,
+    meta: { authorType: record.authorType, draftId: draft.id },
+  });
+
+  return NextResponse.json({ ok: true, recordId: record.id });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireConversationAccess, requireRole } from "@/lib/auth/guards";
+import { getConversationKeys } from "@/lib/conversation-keys";
+import { toRecordDraftItem } from "@/lib/record-drafts";
+
+const querySchema = z.object({
+  conversationId: z.string().min(1),
+});
+
+export async function GET(request: Request) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["PSYCHOLOGIST"]);
+
+  const url = new URL(request.url);
+  const parsed = querySchema.safeParse({
+    conversationId: url.searchParams.get("conversationId"),
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+
+  const conversation = await requireConversationAccess({
+    tenantId: user.tenantId,
+    conversationId: parsed.data.conversationId,
+    userId: user.id,
+    role: user.role,
+  });
+  const keys = getConversationKeys(conversation);
+
+  const drafts = await prisma.recordDraft.findMany({
+    where: { tenantId: user.tenantId, conversationId: conversation.id, status: "PENDING" },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return NextResponse.json({ items: drafts.map((draft) => toRecordDraftItem(draft, keys)) });
+}
@@ -3,6 +3,10 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, requireConversationAccess, requireRole } from "@/lib/auth/guards";
 import { logAuditEvent } from "@/lib/audit";
+import { encryptJson, getConversationKeys } from "@/lib/conversation-keys";
+import { decryptRecordData, type RecordData } from "@/lib/records";
+import { indexRecordData } from "@/lib/search";
+import { invalidateWeeklySummary } from "@/lib/weekly-summaries";
 
 const schema = z.object({
   tenantId: z.string().min(1),
@@ -13,6 +17,7 @@ const schema = z.object({
   body: z.string().optional(),
   action: z.string().optional(),
   result: z.string().optional(),
+  intensity: z.number().int().min(0).max(10).optional(),
 });
 
 const querySchema = z.object({
@@ -20,9 +25,10 @@ const querySchema = z.object({
   limit: z.coerce.number().int().min(1).max(500).optional(),
 });
 
+// Patients only see their own diary entries.
 export async function GET(request: Request) {
   const { user } = await requireAuth();
-  requireRole(user.role, ["PSYCHOLOGIST"]);
+  requireRole(user.role, ["PSYCHOLOGIST", "PATIENT"]);
 
   const url = new URL(request.url);
   const query = querySchema.parse({
@@ -30,15 +36,22 @@ export async function GET(request: Request) {
     limit: url.searchParams.get("limit"),
   });
 
-  await requireConversationAccess({
+  const conversation = await requireConversationAccess({
     tenantId: user.tenantId,
     conversationId: query.conversationId,
     userId: user.id,
     role: user.role,
   });
+  const keys = getConversationKeys(conversation);
 
   const records = await prisma.record.findMany({
-    where: { tenantId: user.tenantId, conversationId: query.conversationId },
+    where: {
+      tenantId: user.tenantId,
+      conversationId: query.conversationId,
+      ...(user.role === "PATIENT"
+        ? { authorType: "PATIENT" as const, createdByUserId: user.id }
+        : {}),
+    },
     orderBy: { createdAt: "desc" },
     take: query.limit ?? 200,
   });
@@ -47,49 +60,68 @@ export async function GET(request: Request) {
     items: records.map((record) => ({
       id: record.id,
       createdAt: record.createdAt.toISOString(),
-      dataJson: record.dataJson,
+      authorType: record.authorType,
+      dataJson: decryptRecordData(record, keys),
     })),
   });
 }
 
 export async function POST(request: Request) {
   const { user } = await requireAuth();
-  requireRole(user.role, ["PSYCHOLOGIST"]);
+  requireRole(user.role, ["PSYCHOLOGIST", "PATIENT"]);
 
   const body = schema.parse(await request.json());
   if (body.tenantId !== user.tenantId) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  await requireConversationAccess({
+  const conversation = await requireConversationAccess({
     tenantId: user.tenantId,
     conversationId: body.conversationId,
     userId: user.id,
     role: user.role,
   });
 
+  const data: RecordData = {
+    event: body.event,
+    thought: body.thought,
+    emotion: body.emotion,
+    body: body.body,
+    action: body.action,
+    result: body.result,
+    intensity: body.intensity,
+  };
+  const authorType = user.role === "PATIENT" ? "PATIENT" : "PSYCHOLOGIST";
   const record = await prisma.record.create({
     data: {
       tenantId: user.tenantId,
       conversationId: body.conversationId,
       createdByUserId: user.id,
-      dataJson: {
-        event: body.event,
-        thought: body.thought,
-        emotion: body.emotion,
-        body: body.body,
-        action: body.action,
-        result: body.result,
-      },
+      authorType,
+      ...encryptJson(data, getConversationKeys(conversation)),
     },
   });
 
+  await indexRecordData({
+    tenantId: user.tenantId,
+    conversationId: record.conversationId,
+    recordId: record.id,
+    createdAt: record.createdAt,
+    data,
+  });
+  await invalidateWeeklySummary({
+    tenantId: user.tenantId,
+    conversationId: record.conversationId,
+    at: record.createdAt,
+  });
+
   await logAuditEvent({
     tenantId: user.tenantId,
     actorUserId: user.id,
     action: "record.create",
     targetType: "Record",
     targetId: record.id,
+    meta: { authorType },
   });
 
   return NextResponse.json({ ok: true, recordId: record.id }, { status: 201 });
@@ -0,0 +1,156 @@
+import { NextResponse } from "next/server";
+import type { MessageAuthorType } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, requireConversationAccess, requireRole } from "@/lib/auth/guards";
+import { decryptMessage } from "@/lib/crypto";
+import { getConversationKeys, type ConversationKeys } from "@/lib/conversation-keys";
+import { logAuditEvent } from "@/lib/audit";
+import { encodeMessageCursor } from "@/lib/messages";
+import { buildSnippet, getRecordSearchText, searchIndex } from "@/lib/search";
+import { decryptRecordData } from "@/lib/records";
+
+const querySchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  conversationId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+type SearchResultItem = {
+  type: "message" | "record";
+  id: string;
+  conversationId: string;
+  createdAt: string;
+  snippet: string;
+  authorType?: MessageAuthorType;
+  cursor?: string;
+};
+
+export async function GET(request: Request) {
+  const { user } = await requireAuth();
+  requireRole(user.role, ["PSYCHOLOGIST"]);
+
+  const url = new URL(request.url);
+  const parsed = querySchema.safeParse({
+    q: url.searchParams.get("q") ?? "",
+    conversationId: url.searchParams.get("conversationId") ?? undefined,
+    from: url.searchParams.get("from") ?? undefined,
+    to: url.searchParams.get("to") ?? undefined,
+    limit: url.searchParams.get("limit") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+  const query = parsed.data;
+
+  const conversations = query.conversationId
+    ? [
+        await requireConversationAccess({
+          tenantId: user.tenantId,
+          conversationId: query.conversationId,
+          userId: user.id,
+          role: user.role,
+        }),
+      ]
+    : await prisma.conversation.findMany({
+        where: { tenantId: user.tenantId, psychologistUserId: user.id, shreddedAt: null },
+      });
+  const conversationById = new Map(
+    conversations.map((conversation) => [conversation.id, conversation]),
+  );
+
+  const hits = await searchIndex({
+    tenantId: user.tenantId,
+    conversationIds: [...conversationById.keys()],
+    query: query.q,
+    from: query.from,
+    to: query.to,
+    limit: query.limit ?? 20,
+  });
+
+  const messageIds = hits.flatMap((hit) => (hit.messageId ? [hit.messageId] : []));
+  const recordIds = hits.flatMap((hit) => (hit.recordId ? [hit.recordId] : []));
+  const [messages, records] = await Promise.all([
+    messageIds.length
+      ? prisma.message.findMany({
+          where: { tenantId: user.tenantId, id: { in: messageIds }, deletedAt: null },
+        })
+      : [],
+    recordIds.length
+      ? prisma.record.findMany({
+          where: { tenantId: user.tenantId, id: { in: recordIds } },
+        })
+      : [],
+  ]);
+  const messageById = new Map(messages.map((message) => [message.id, message]));
+  const recordById = new Map(records.map((record) => [record.id, record]));
+
+  const keysByConversation = new Map<string, ConversationKeys>();
+  const getKeys = (conversationId: string) => {
+    let keys = keysByConversation.get(conversationId);
+    const conversation = conversationById.get(conversationId);
+    if (!keys && conversation) {
+      keys = getConversationKeys(conversation);
+      keysByConversation.set(conversationId, keys);
+    }
+    return keys;
+  };
+
+  const items = hits.flatMap<SearchResultItem>((hit) => {
+    const message = hit.messageId ? messageById.get(hit.messageId) : undefined;
+    if (message) {
+      const keys = getKeys(message.conversationId);
+      if (!keys) {
+        return [];
+      }
+      const text = decryptMessage(
+        message.ciphertext,
+        message.iv,
+        message.authTag,
+        keys.forVersion(message.dekVersion),
+      );
+      return [
+        {
+          type: "message",
+          id: message.id,
+          conversationId: message.conversationId,
+          authorType: message.authorType,
+          createdAt: message.createdAt.toISOString(),
+          cursor: encodeMessageCursor(message),
+          snippet: buildSnippet(text, query.q),
+        },
+      ];
+    }
+    const record = hit.recordId ? recordById.get(hit.recordId) : undefined;
+    if (record) {
+      const keys = getKeys(record.conversationId);
+      if (!keys) {
+        return [];
+      }
+      return [
+        {
+          type: "record",
+          id: record.id,
+          conversationId: record.conversationId,
+          createdAt: record.createdAt.toISOString(),
+          snippet: buildSnippet(getRecordSearchText(decryptRecordData(record, keys)), query.q),
+        },
+      ];
+    }
+    return [];
+  });
+
+  // The query itself is never logged; it is patient data.
+  await logAuditEvent({
+    tenantId: user.tenantId,
+    actorUserId: user.id,
+    action: "search.query",
+    targetType: query.conversationId ? "Conversation" : "User",
+    targetId: query.conversationId ?? user.id,
+    meta: { resultCount: items.length },
+  });
+
+  return NextResponse.json({ items });
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth/session";
+import { getMasterKek } from "@/lib/crypto";
+import { countStaleWrappedKeys, toKeyRotationItem } from "@/lib/kek";
+import { enqueueKekRewrap } from "@/lib/queues";
+import { logAuditEvent } from "@/lib/audit";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { currentKeyId } = getMasterKek();
+  const [rotations, stale] = await Promise.all([
+    prisma.keyRotation.findMany({ orderBy: { createdAt: "desc" }, take: 20 }),
+    countStaleWrappedKeys(currentKeyId),
+  ]);
+
+  return NextResponse.json({
+    currentKeyId,
+    stale,
+    items: rotations.map(toKeyRotationItem),
+  });
+}
+
+// Starts re-wrapping everything onto the current KEK, or resumes the last
+// unfinished run for that key.
+export async function POST() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { currentKeyId } = getMasterKek();
+  const unfinished = await prisma.keyRotation.findFirst({
+    where: { targetKeyId: currentKeyId, status: { not: "COMPLETED" } },
+    orderBy: { createdAt: "desc" },
+  });
+  const rotation =
+    unfinished ??
+    (await prisma.keyRotation.create({
+      data: { targetKeyId: currentKeyId, startedByUserId: session.user.id },
+    }));
+  if (rotation.status === "RUNNING") {
+    return NextResponse.json(
+      { error: "Rotation already running", rotation: toKeyRotationItem(rotation) },
+      { status: 409 },
+    );
+  }
+
+  await enqueueKekRewrap({ rotationId: rotation.id });
+
+  await logAuditEvent({
+    tenantId: session.user.tenantId,
+    actorUserId: session.user.id,
+    action: unfinished ? "kek.rotation.resume" : "kek.rotation.start",
+    targetType: "KeyRotation",
+    targetId: rotation.id,
+    meta: { keyId: currentKeyId },
+  });
+
+  return NextResponse.json({ rotation: toKeyRotationItem(rotation) }, { status: 202 });
+}
@@ -0,0 +1,164 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { Prisma, type WhatsAppChannel } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth/session";
+import { encryptSecret, getMasterKek } from "@/lib/crypto";
+import { generateWebhookSecret, normalizeApiBaseUrl } from "@/lib/channels";
+import { logAuditEvent } from "@/lib/audit";
+
+const upsertSchema = z.object({
+  instanceName: z.string().trim().min(1).max(100),
+  apiBaseUrl: z.string().trim().url(),
+  apiKey: z.string().min(1).optional(),
+  isActive: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+});
+
+function toChannelItem(channel: WhatsAppChannel) {
+  return {
+    id: channel.id,
+    instanceName: channel.instanceName,
+    apiBaseUrl: channel.apiBaseUrl,
+    isActive: channel.isActive,
+    updatedAt: channel.updatedAt.toISOString(),
+  };
+}
+
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  const channel = await prisma.whatsAppChannel.findFirst({
+    where: { tenantId: id },
+  });
+
+  return NextResponse.json({ channel: channel ? toChannelItem(channel) : null });
+}
+
+export async function PUT(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  const body = upsertSchema.parse(await request.json());
+
+  const tenant = await prisma.tenant.findUnique({ where: { id } });
+  if (!tenant) {
+    return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+  }
+
+  const existing = await prisma.whatsAppChannel.findFirst({
+    where: { tenantId: id },
+  });
+
+  const webhookSecret =
+    !existing || body.rotateSecret ? generateWebhookSecret() : null;
+  const apiKeyEncrypted = body.apiKey
+    ? encryptSecret(body.apiKey, getMasterKek())
+    : existing?.apiKeyEncrypted;
+  const webhookSecretHash = webhookSecret?.hash ?? existing?.webhookSecretHash;
+  if (!apiKeyEncrypted || !webhookSecretHash) {
+    return NextResponse.json({ error: "API key required" }, { status: 400 });
+  }
+
+  const data = {
+    instanceName: body.instanceName,
+    apiBaseUrl: normalizeApiBaseUrl(body.apiBaseUrl),
+    apiKeyEncrypted,
+    webhookSecretHash,
+    isActive: body.isActive ?? existing?.isActive ?? true,
+  };
+
+  let channel: WhatsAppChannel;
+  try {
+    channel = await prisma.whatsAppChannel.upsert({
+      where: { tenantId: id },
+      create: { ...data, tenantId: id },
+      update: data,
+    });
+  } catch (caught) {
+    if (
+      caught instanceof Prisma.PrismaClientKnownRequestError &&
+      caught.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "Instance already in use" },
+        { status: 400 },
+      );
+    }
+    throw caught;
+  }
+
+  await logAuditEvent({
+    tenantId: id,
+    actorUserId: session.user.id,
+    action: existing ? "whatsapp_channel.update" : "whatsapp_channel.create",
+    targetType: "WhatsAppChannel",
+    targetId: channel.id,
+    meta: {
+      instanceName: channel.instanceName,
+      isActive: channel.isActive,
+      apiKeyChanged: Boolean(body.apiKey),
+      secretRotated: Boolean(existing && webhookSecret),
+    },
+  });
+
+  return NextResponse.json({
+    channel: toChannelItem(channel),
+    webhookSecret: webhookSecret?.secret ?? null,
+  });
+}
+
+export async function DELETE(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!session.user.isSystemAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  const channel = await prisma.whatsAppChannel.findFirst({
+    where: { tenantId: id },
+  });
+  if (!channel) {
+    return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+  }
+
+  await prisma.whatsAppChannel.deleteMany({
+    where: { id: channel.id, tenantId: id },
+  });
+
+  await logAuditEvent({
+    tenantId: id,
+    actorUserId: session.user.id,
+    action: "whatsapp_channel.delete",
+    targetType: "WhatsAppChannel",
+    targetId: channel.id,
+    meta: { instanceName: channel.instanceName },
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -20,6 +20,7 @@ export async function GET() {
 
   const tenants = await prisma.tenant.findMany({
     orderBy: { createdAt: "desc" },
+    include: { whatsappChannel: true },
   });
 
   return NextResponse.json({
@@ -27,6 +28,15 @@ export async function GET() {
       id: tenant.id,
       name: tenant.name,
       createdAt: tenant.createdAt,
+      channel: tenant.whatsappChannel
+        ? {
+            id: tenant.whatsappChannel.id,
+            instanceName: tenant.whatsappChannel.instanceName,
+            apiBaseUrl: tenant.whatsappChannel.apiBaseUrl,
+            isActive: tenant.whatsappChannel.isActive,
+            updatedAt: tenant.whatsappChannel.updatedAt,
+          }
+        : null,
     })),
   });
 }
@@ -74,6 +84,7 @@ export async function POST(request: Request) {
       id: tenant.id,
       name: tenant.name,
       createdAt: tenant.createdAt.toISOString(),
+      channel: null,
     },
   });
 }
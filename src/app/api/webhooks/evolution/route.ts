@@ -1,8 +1,11 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import crypto from "crypto";
 import { getInboundQueue } from "@/lib/queues";
 import { prisma } from "@/lib/prisma";
+import { findChannelByInstance, verifyWebhookSecret } from "@/lib/channels";
+import { extractEvolutionAcks, isEvolutionStatusEvent } from "@/lib/evolution";
+import { updateDeliveryStatus } from "@/lib/delivery";
+import { getAttachmentKind, type AttachmentKind } from "@/lib/attachments";
 
 const payloadSchema = z.record(z.string(), z.unknown());
 
@@ -17,6 +20,46 @@ function extractText(payload: Record<string, unknown>) {
   );
 }
 
+const MEDIA_MESSAGE_KINDS: Record<string, AttachmentKind> = {
+  audioMessage: "audio",
+  imageMessage: "image",
+  documentMessage: "document",
+};
+
+function extractMedia(payload: Record<string, unknown>) {
+  const data = payload.data as Record<string, unknown> | undefined;
+  let message = (data?.message as Record<string, unknown> | undefined) ?? {};
+  const wrapped = message.documentWithCaptionMessage as
+    | { message?: Record<string, unknown> }
+    | undefined;
+  if (wrapped?.message) {
+    message = wrapped.message;
+  }
+  for (const [field, kind] of Object.entries(MEDIA_MESSAGE_KINDS)) {
+    const media = message[field] as Record<string, unknown> | undefined;
+    if (!media) {
+      continue;
+    }
+    const mimeType = (media.mimetype as string | undefined) ?? "";
+    if (getAttachmentKind(mimeType) !== kind) {
+      return null;
+    }
+    return {
+      kind,
+      mimeType,
+      caption: ((media.caption as string | undefined) ?? "").trim().slice(0, 4000),
+      fileName: ((media.fileName as string | undefined) ?? "").trim().slice(0, 200),
+    };
+  }
+  return null;
+}
+
+function isFromMe(payload: Record<string, unknown>) {
+  const data = payload.data as Record<string, unknown> | undefined;
+  const key = (data?.key as Record<string, unknown> | undefined) ?? {};
+  return key.fromMe === true;
+}
+
 function extractMessageId(payload: Record<string, unknown>) {
   const data = payload.data as Record<string, unknown> | undefined;
   const key = (data?.key as Record<string, unknown> | undefined) ?? {};
@@ -52,40 +95,48 @@ function getProvidedSecret(request: Request) {
   return "";
 }
 
-function isWebhookAuthorized(request: Request) {
-  const configuredSecret = process.env.EVOLUTION_WEBHOOK_SECRET;
-  if (!configuredSecret) {
-    return process.env.NODE_ENV !== "production";
+function extractInstance(payload: Record<string, unknown>) {
+  const instance = payload.instance;
+  if (typeof instance === "string") {
+    return instance.trim();
   }
-  const providedSecret = getProvidedSecret(request);
-  if (!providedSecret) {
-    return false;
+  if (instance && typeof instance === "object") {
+    const name = (instance as Record<string, unknown>).instanceName;
+    return typeof name === "string" ? name.trim() : "";
   }
-
-  const expected = Buffer.from(configuredSecret, "utf8");
-  const provided = Buffer.from(providedSecret, "utf8");
-  return (
-    expected.length === provided.length &&
-    crypto.timingSafeEqual(expected, provided)
-  );
+  return "";
 }
 
 export async function POST(request: Request) {
-  if (!isWebhookAuthorized(request)) {
+  // The secret lives on the channel named in the body, so the body is read
+  // first; anything malformed stops here, before any of it is used.
+  const parsed = payloadSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+  const raw = parsed.data;
+  const instance = extractInstance(raw);
+  const channel = instance ? await findChannelByInstance(instance) : null;
+  if (!channel || !verifyWebhookSecret(channel, getProvidedSecret(request))) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const tenantId = request.headers.get("x-tenant-id") ?? "";
-  if (!tenantId) {
-    return NextResponse.json({ error: "Missing tenant" }, { status: 400 });
+  const tenantId = channel.tenantId;
+  const event = typeof raw.event === "string" ? raw.event : "";
+  if (isEvolutionStatusEvent(event)) {
+    for (const ack of extractEvolutionAcks(raw.data)) {
+      await updateDeliveryStatus({ tenantId, ...ack });
+    }
+    return NextResponse.json({ ok: true });
   }
 
-  const raw = payloadSchema.parse(await request.json());
   const messageId = extractMessageId(raw);
-  const text = extractText(raw).trim().slice(0, 4000);
+  const media = extractMedia(raw);
+  const text = media ? media.caption : extractText(raw).trim().slice(0, 4000);
   const from = extractFrom(raw);
 
-  if (!messageId || !text || !from) {
+  // Our own outbound sends are echoed back by Evolution as upserts.
+  if (!messageId || !from || isFromMe(raw) || (!text && !media)) {
     return NextResponse.json({ ok: true });
   }
 
@@ -100,13 +151,21 @@ export async function POST(request: Request) {
     return NextResponse.json({ ok: true });
   }
 
-  await getInboundQueue().add("inbound_message_process", {
-    tenantId,
-    externalMessageId: messageId,
-    fromPhone: from,
-    text,
-    source: "whatsapp",
-  });
+  await getInboundQueue().add(
+    "inbound_message_process",
+    {
+      tenantId,
+      externalMessageId: messageId,
+      fromPhone: from,
+      text,
+      media: media
+        ? { kind: media.kind, mimeType: media.mimeType, fileName: media.fileName }
+        : undefined,
+      source: "whatsapp",
+    },
+    // Media is downloaded by the worker, so let it retry Evolution hiccups.
+    media ? { attempts: 3, backoff: { type: "exponential", delay: 5000 } } : undefined,
+  );
 
   return NextResponse.json({ ok: true });
 }
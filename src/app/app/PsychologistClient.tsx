@@ -1,7 +1,8 @@
 ﻿"use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-import { useLanguage } from "@/lib/i18n";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useLanguage, type Language } from "@/lib/i18n";
+import { formatDateInTimeZone } from "@/lib/time-zone";
 import {
   CHAT_CARD_CLASS,
   CHAT_COMPOSER_CLASS,
@@ -9,6 +10,20 @@ import {
   CHAT_SECTION_CLASS,
 } from "@/components/chat/shell";
 import { useKeyboardInset } from "@/components/chat/useKeyboardInset";
+import {
+  mergeMessage,
+  mergeMessages,
+  useConversationStream,
+} from "@/components/chat/useConversationStream";
+import {
+  DeliveryStatus,
+  type MessageDeliveryStatus,
+} from "@/components/chat/DeliveryStatus";
+import { FileAttachment } from "@/components/chat/FileAttachment";
+import { SessionList } from "@/components/account/SessionList";
+import { SessionTimeout } from "@/components/account/SessionTimeout";
+import { getAttachmentKind } from "@/lib/attachments";
+import { BACKGROUND_REQUEST_HEADER } from "@/lib/auth/activity";
 import {
   DEFAULT_SIGNAL_CONFIG,
   detectSignals,
@@ -33,17 +48,30 @@ type ConversationItem = {
 
 type MessageItem = {
   id: string;
+  cursor?: string;
   authorType: "PATIENT" | "PSYCHOLOGIST" | "AI" | "SYSTEM";
   content: string;
   createdAt: string;
   deletedAt?: string | null;
   hasAttachment?: boolean;
   attachmentMime?: string | null;
+  deliveryStatus?: MessageDeliveryStatus | null;
+};
+
+type SearchResultItem = {
+  type: "message" | "record";
+  id: string;
+  conversationId: string;
+  createdAt: string;
+  snippet: string;
+  authorType?: MessageItem["authorType"];
+  cursor?: string;
 };
 
 type RecordItem = {
   id: string;
   createdAt: string;
+  authorType: "PSYCHOLOGIST" | "PATIENT";
   dataJson: {
     event?: string;
     thought?: string;
@@ -51,9 +79,26 @@ type RecordItem = {
     body?: string;
     action?: string;
     result?: string;
+    intensity?: number;
   };
 };
 
+type RecordDraftItem = {
+  id: string;
+  createdAt: string;
+  dataJson: RecordItem["dataJson"];
+};
+
+type AccessGrantItem = {
+  id: string;
+  userEmail: string | null;
+  status: "REQUESTED" | "ACTIVE" | "DENIED" | "REVOKED";
+  active: boolean;
+  justification: string;
+  expiresAt: string | null;
+  createdAt: string;
+};
+
 type PolicyResponse = {
   item?: { policyText?: string | null; flagsJson?: Record<string, unknown> | null };
 };
@@ -73,15 +118,34 @@ type PromptResponse = {
 type Props = {
   tenantId: string;
   psychologistName: string;
+  // Used to send the step-up code before exporting a report.
+  psychologistEmail: string | null;
+  // Tenant settings: dates are shown in the clinic's zone, not the browser's.
+  timeZone: string;
+  defaultLanguage: "PT" | "ES" | "EN";
 };
 
 type WeeklySummary = {
   weekStart: string;
   weekEnd: string;
-  events: Array<{ label: string; createdAt: string }>;
+  events: Array<{
+    label: string;
+    createdAt: string;
+    authorType?: "PSYCHOLOGIST" | "PATIENT";
+    intensity?: number;
+  }>;
   dominantEmotions: Array<{ label: string; count: number }>;
   signalsTriggered: Array<{ key: SignalKey; count: number }>;
   changes: { messages: number; events: number; signals: number };
+  narrative?: {
+    themes: string[];
+    changes: string;
+    questions: string[];
+    provider: string;
+    model: string;
+    promptVersion: number;
+    generatedAt: string;
+  } | null;
 };
 
 const formatAudioTime = (value: number) => {
@@ -336,8 +400,15 @@ const SIGNAL_LABELS_BY_LANG: Record<"PT" | "ES" | "EN", Record<SignalKey, string
   },
 };
 
-const formatWeekLabel = (start: Date, end: Date) =>
-  `${start.toLocaleDateString()} - ${end.toLocaleDateString()}`;
+const formatWeekLabel = (start: Date, end: Date, formatDate: (value: Date) => string) =>
+  `${formatDate(start)} - ${formatDate(end)}`;
+
+// Mirrors MAX_REPORT_EXCERPTS on the server.
+const MAX_REPORT_EXCERPTS = 50;
+
+// Weeks the server queued are polled for at this pace, for about two minutes.
+const WEEKLY_POLL_MS = 5000;
+const WEEKLY_POLL_LIMIT = 24;
 
 const formatDelta = (value: number) => (value > 0 ? `+${value}` : `${value}`);
 
@@ -351,9 +422,11 @@ const SUMMARY_COPY: Record<
     refresh: string;
     exportCsv: string;
     autoGenerated: string;
+    pending: string;
     noData: string;
     eventsTitle: string;
     noEvents: string;
+    patientEntry: string;
     emotionsTitle: string;
     noEmotions: string;
     signalsTitle: string;
@@ -365,6 +438,12 @@ const SUMMARY_COPY: Record<
     messagesLabel: string;
     recordsLabel: string;
     signalsLabel: string;
+    narrativeTitle: string;
+    narrativeThemes: string;
+    narrativeChanges: string;
+    narrativeQuestions: string;
+    narrativeUnavailable: string;
+    narrativeModel: string;
   }
 > = {
   ES: {
@@ -384,9 +463,11 @@ const SUMMARY_COPY: Record<
     refresh: "Actualizar",
     exportCsv: "Exportar CSV",
     autoGenerated: "Generado automaticamente. Se actualiza con nuevos registros.",
+    pending: "Generando resumenes en segundo plano; apareceran aqui en breve.",
     noData: "Sin datos suficientes para resumir.",
     eventsTitle: "Eventos registrados",
     noEvents: "No hay registros estructurados esta semana.",
+    patientEntry: "Diario del paciente",
     emotionsTitle: "Emociones predominantes",
     noEmotions: "No hay emociones registradas.",
     signalsTitle: "Senales clinicas disparadas",
@@ -398,6 +479,12 @@ const SUMMARY_COPY: Record<
     messagesLabel: "Mensajes",
     recordsLabel: "Registros",
     signalsLabel: "Senales",
+    narrativeTitle: "Narrativa",
+    narrativeThemes: "Temas",
+    narrativeChanges: "Que cambio",
+    narrativeQuestions: "Preguntas para la sesion",
+    narrativeUnavailable: "Sin narrativa para esta semana. El modelo puede no estar disponible; intenta actualizar.",
+    narrativeModel: "Generado por",
   },
   PT: {
     title: "Metricas da conversa",
@@ -416,9 +503,11 @@ const SUMMARY_COPY: Record<
     refresh: "Atualizar",
     exportCsv: "Exportar CSV",
     autoGenerated: "Gerado automaticamente. Atualiza com novos registros.",
+    pending: "Gerando resumos em segundo plano; aparecem aqui em instantes.",
     noData: "Sem dados suficientes para resumir.",
     eventsTitle: "Eventos registrados",
     noEvents: "Nenhum registro estruturado nesta semana.",
+    patientEntry: "Diario do paciente",
     emotionsTitle: "Emocoes predominantes",
     noEmotions: "Nenhuma emocao registrada.",
     signalsTitle: "Sinais clinicos disparados",
@@ -430,6 +519,12 @@ const SUMMARY_COPY: Record<
     messagesLabel: "Mensagens",
     recordsLabel: "Registros",
     signalsLabel: "Sinais",
+    narrativeTitle: "Narrativa",
+    narrativeThemes: "Temas",
+    narrativeChanges: "O que mudou",
+    narrativeQuestions: "Perguntas para a sessao",
+    narrativeUnavailable: "Sem narrativa para esta semana. O modelo pode estar indisponivel; tente atualizar.",
+    narrativeModel: "Gerado por",
   },
   EN: {
     title: "Conversation metrics",
@@ -448,9 +543,11 @@ const SUMMARY_COPY: Record<
     refresh: "Refresh",
     exportCsv: "Export CSV",
     autoGenerated: "Auto-generated. Updates with new records.",
+    pending: "Generating summaries in the background; they will appear here shortly.",
     noData: "Not enough data to summarize.",
     eventsTitle: "Logged events",
     noEvents: "No structured records this week.",
+    patientEntry: "Patient diary",
     emotionsTitle: "Dominant emotions",
     noEmotions: "No emotions recorded.",
     signalsTitle: "Triggered clinical signals",
@@ -462,9 +559,22 @@ const SUMMARY_COPY: Record<
     messagesLabel: "Messages",
     recordsLabel: "Records",
     signalsLabel: "Signals",
+    narrativeTitle: "Narrative",
+    narrativeThemes: "Themes",
+    narrativeChanges: "What changed",
+    narrativeQuestions: "Questions for the session",
+    narrativeUnavailable: "No narrative for this week. The model may be unavailable; try refreshing.",
+    narrativeModel: "Written by",
   },
 };
 
+const LLM_PROVIDER_LABELS: Record<string, string> = {
+  OPENAI: "OpenAI",
+  OPENAI_COMPATIBLE: "OpenAI-compatible",
+  AZURE_OPENAI: "Azure OpenAI",
+  ANTHROPIC: "Anthropic",
+};
+
 const PSYCH_COPY: Record<
   "PT" | "ES" | "EN",
   {
@@ -472,6 +582,15 @@ const PSYCH_COPY: Record<
     conversationsTitle: string;
     selectConversation: string;
     searchPlaceholder: string;
+    contentSearchPlaceholder: string;
+    contentSearchButton: string;
+    contentSearchEmpty: string;
+    contentSearchClear: string;
+    contentSearchRecordHit: string;
+    rotateDek: string;
+    rotateDekHint: string;
+    rotateDekConfirm: string;
+    rotateDekQueued: string;
     filterLabel: string;
     filterAll: string;
     filterEnabled: string;
@@ -518,6 +637,9 @@ const PSYCH_COPY: Record<
     maxTurnsLabel: string;
     disableEpisodeLabel: string;
     temperatureLabel: string;
+    llmProviderLabel: string;
+    llmProviderDefault: string;
+    llmModelPlaceholder: string;
     resetDefaultLabel: string;
     resetButton: string;
     conversationPolicyReadOnly: string;
@@ -558,6 +680,51 @@ const PSYCH_COPY: Record<
     recordResult: string;
     recordSave: string;
     recordClose: string;
+    recordDraftsTitle: string;
+    recordDraftsHint: string;
+    recordDraftReview: string;
+    recordDraftDiscard: string;
+    recordDraftReviewing: string;
+    recordDraftDiscarded: string;
+    accessGrantsTitle: string;
+    accessGrantsHint: string;
+    accessGrantRequested: string;
+    accessGrantActive: string;
+    accessGrantUntil: string;
+    accessGrantNoExpiry: string;
+    accessGrantApprove: string;
+    accessGrantDeny: string;
+    accessGrantRevoke: string;
+    accessGrantApproved: string;
+    accessGrantDenied: string;
+    accessGrantRevoked: string;
+    sessionsTitle: string;
+    sessionsHint: string;
+    sessionCurrent: string;
+    sessionLastSeen: string;
+    sessionSignedInAt: string;
+    sessionUnknownDevice: string;
+    sessionRevoke: string;
+    sessionSignOut: string;
+    sessionRevokeAll: string;
+    sessionsEmpty: string;
+    sessionsLoading: string;
+    sessionIdleWarning: string;
+    sessionAbsoluteWarning: string;
+    sessionStay: string;
+    reportTitle: string;
+    reportHint: string;
+    reportFrom: string;
+    reportTo: string;
+    reportDownload: string;
+    reportExcerpts: string;
+    reportExcerptsClear: string;
+    reportExcerptToggle: string;
+    reportStepUpSent: string;
+    reportStepUpCode: string;
+    reportStepUpVerify: string;
+    reportStepUpUnavailable: string;
+    reportReady: string;
     sendPlaceholder: string;
     scrollBottom: string;
     closeMenuAria: string;
@@ -579,6 +746,15 @@ const PSYCH_COPY: Record<
     conversationsTitle: "Conversaciones",
     selectConversation: "Seleccione una conversacion",
     searchPlaceholder: "Buscar paciente...",
+    contentSearchPlaceholder: "Buscar en mensajes y registros",
+    contentSearchButton: "Buscar",
+    contentSearchEmpty: "Sin resultados.",
+    contentSearchClear: "Limpiar",
+    contentSearchRecordHit: "Registro",
+    rotateDek: "Rotar clave de la conversacion",
+    rotateDekHint: "Genera una nueva clave y vuelve a cifrar los mensajes en segundo plano.",
+    rotateDekConfirm: "¿Rotar la clave de esta conversacion?",
+    rotateDekQueued: "Rotacion de clave en cola.",
     filterLabel: "IA",
     filterAll: "todos",
     filterEnabled: "activada",
@@ -626,6 +802,9 @@ const PSYCH_COPY: Record<
     maxTurnsLabel: "Max turns por episodio",
     disableEpisodeLabel: "Desactivar limite de episodio",
     temperatureLabel: "Temperatura",
+    llmProviderLabel: "Proveedor de IA",
+    llmProviderDefault: "Predeterminado de la clinica",
+    llmModelPlaceholder: "Modelo (opcional)",
     resetDefaultLabel: "Restaurar por defecto",
     resetButton: "Resetear",
     conversationPolicyReadOnly: "Politica de la conversacion (solo lectura)",
@@ -667,6 +846,51 @@ const PSYCH_COPY: Record<
     recordResult: "Resultado",
     recordSave: "Guardar registro",
     recordClose: "Cerrar",
+    recordDraftsTitle: "Borradores de registro (IA)",
+    recordDraftsHint: "Generados al cerrar un episodio de IA. Revisa antes de guardar.",
+    recordDraftReview: "Revisar",
+    recordDraftDiscard: "Descartar",
+    recordDraftReviewing: "Revisando un borrador de la IA. Edita los campos y guarda para crear el registro.",
+    recordDraftDiscarded: "Borrador descartado.",
+    accessGrantsTitle: "Accesos de admin",
+    accessGrantsHint: "Un admin de la clinica pidio o tiene acceso a esta conversacion. Recibes un correo cuando la abre.",
+    accessGrantRequested: "Pedido pendiente",
+    accessGrantActive: "Acceso activo",
+    accessGrantUntil: "hasta",
+    accessGrantNoExpiry: "sin plazo",
+    accessGrantApprove: "Aprobar",
+    accessGrantDeny: "Negar",
+    accessGrantRevoke: "Revocar",
+    accessGrantApproved: "Acceso aprobado.",
+    accessGrantDenied: "Pedido negado.",
+    accessGrantRevoked: "Acceso revocado.",
+    sessionsTitle: "Sesiones abiertas",
+    sessionsHint: "Dispositivos conectados a tu cuenta. Cierra los que no reconozcas.",
+    sessionCurrent: "Este dispositivo",
+    sessionLastSeen: "Ultimo uso",
+    sessionSignedInAt: "Inicio sesion el",
+    sessionUnknownDevice: "Dispositivo desconocido",
+    sessionRevoke: "Cerrar",
+    sessionSignOut: "Salir",
+    sessionRevokeAll: "Cerrar las demas sesiones",
+    sessionsEmpty: "No hay sesiones activas.",
+    sessionsLoading: "Cargando...",
+    sessionIdleWarning: "Tu sesion se cerrara por inactividad en",
+    sessionAbsoluteWarning: "Tu sesion llego al tiempo maximo y se cerrara en",
+    sessionStay: "Seguir conectado",
+    reportTitle: "Informe clinico (PDF)",
+    reportHint: "Resumenes semanales, registros y senales del periodo. Marca mensajes con el alfiler para incluir fragmentos. Requiere confirmar tu identidad con un codigo.",
+    reportFrom: "Desde",
+    reportTo: "Hasta",
+    reportDownload: "Descargar PDF",
+    reportExcerpts: "Fragmentos seleccionados",
+    reportExcerptsClear: "Limpiar",
+    reportExcerptToggle: "Incluir en el informe",
+    reportStepUpSent: "Te enviamos un codigo por correo para confirmar tu identidad.",
+    reportStepUpCode: "Codigo",
+    reportStepUpVerify: "Confirmar y descargar",
+    reportStepUpUnavailable: "Tu cuenta no tiene correo para enviar el codigo de confirmacion.",
+    reportReady: "Informe descargado.",
     sendPlaceholder: "Escriba una respuesta...",
     scrollBottom: "Ir al final",
     closeMenuAria: "Cerrar menu",
@@ -687,6 +911,15 @@ const PSYCH_COPY: Record<
     conversationsTitle: "Conversas",
     selectConversation: "Selecione uma conversa",
     searchPlaceholder: "Buscar paciente...",
+    contentSearchPlaceholder: "Buscar em mensagens e registros",
+    contentSearchButton: "Buscar",
+    contentSearchEmpty: "Nenhum resultado.",
+    contentSearchClear: "Limpar",
+    contentSearchRecordHit: "Registro",
+    rotateDek: "Rotacionar chave da conversa",
+    rotateDekHint: "Gera uma nova chave e recriptografa as mensagens em segundo plano.",
+    rotateDekConfirm: "Rotacionar a chave desta conversa?",
+    rotateDekQueued: "Rotacao de chave enfileirada.",
     filterLabel: "IA",
     filterAll: "todos",
     filterEnabled: "ligada",
@@ -734,6 +967,9 @@ const PSYCH_COPY: Record<
     maxTurnsLabel: "Max turns por episodio",
     disableEpisodeLabel: "Desativar limite de episodio",
     temperatureLabel: "Temperatura",
+    llmProviderLabel: "Provedor de IA",
+    llmProviderDefault: "Padrao da clinica",
+    llmModelPlaceholder: "Modelo (opcional)",
     resetDefaultLabel: "Restaurar padrao",
     resetButton: "Resetar",
     conversationPolicyReadOnly: "Policy da conversa (somente leitura)",
@@ -775,6 +1011,51 @@ const PSYCH_COPY: Record<
     recordResult: "Resultado",
     recordSave: "Salvar registro",
     recordClose: "Fechar",
+    recordDraftsTitle: "Rascunhos de registro (IA)",
+    recordDraftsHint: "Gerados quando um episodio de IA fecha. Revise antes de salvar.",
+    recordDraftReview: "Revisar",
+    recordDraftDiscard: "Descartar",
+    recordDraftReviewing: "Revisando um rascunho da IA. Edite os campos e salve para criar o registro.",
+    recordDraftDiscarded: "Rascunho descartado.",
+    accessGrantsTitle: "Acessos de admin",
+    accessGrantsHint: "Um admin da clinica pediu ou tem acesso a esta conversa. Voce recebe um e-mail quando ela e aberta.",
+    accessGrantRequested: "Pedido pendente",
+    accessGrantActive: "Acesso ativo",
+    accessGrantUntil: "ate",
+    accessGrantNoExpiry: "sem prazo",
+    accessGrantApprove: "Aprovar",
+    accessGrantDeny: "Negar",
+    accessGrantRevoke: "Revogar",
+    accessGrantApproved: "Acesso aprovado.",
+    accessGrantDenied: "Pedido negado.",
+    accessGrantRevoked: "Acesso revogado.",
+    sessionsTitle: "Sessoes abertas",
+    sessionsHint: "Dispositivos conectados a sua conta. Encerre os que voce nao reconhecer.",
+    sessionCurrent: "Este dispositivo",
+    sessionLastSeen: "Ultimo uso",
+    sessionSignedInAt: "Entrou em",
+    sessionUnknownDevice: "Dispositivo desconhecido",
+    sessionRevoke: "Encerrar",
+    sessionSignOut: "Sair",
+    sessionRevokeAll: "Encerrar as outras sessoes",
+    sessionsEmpty: "Nenhuma sessao ativa.",
+    sessionsLoading: "Carregando...",
+    sessionIdleWarning: "Sua sessao sera encerrada por inatividade em",
+    sessionAbsoluteWarning: "Sua sessao atingiu o tempo maximo e sera encerrada em",
+    sessionStay: "Continuar conectado",
+    reportTitle: "Relatorio clinico (PDF)",
+    reportHint: "Resumos semanais, registros e sinais do periodo. Marque mensagens com o alfinete para incluir trechos. Exige confirmar sua identidade com um codigo.",
+    reportFrom: "De",
+    reportTo: "Ate",
+    reportDownload: "Baixar PDF",
+    reportExcerpts: "Trechos selecionados",
+    reportExcerptsClear: "Limpar",
+    reportExcerptToggle: "Incluir no relatorio",
+    reportStepUpSent: "Enviamos um codigo para o seu e-mail para confirmar sua identidade.",
+    reportStepUpCode: "Codigo",
+    reportStepUpVerify: "Confirmar e baixar",
+    reportStepUpUnavailable: "Sua conta nao tem e-mail para enviar o codigo de confirmacao.",
+    reportReady: "Relatorio baixado.",
     sendPlaceholder: "Escreva uma resposta...",
     scrollBottom: "Ir para o fim",
     closeMenuAria: "Fechar menu",
@@ -795,6 +1076,15 @@ const PSYCH_COPY: Record<
     conversationsTitle: "Conversations",
     selectConversation: "Select a conversation",
     searchPlaceholder: "Search patient...",
+    contentSearchPlaceholder: "Search messages and records",
+    contentSearchButton: "Search",
+    contentSearchEmpty: "No results.",
+    contentSearchClear: "Clear",
+    contentSearchRecordHit: "Record",
+    rotateDek: "Rotate conversation key",
+    rotateDekHint: "Generates a new key and re-encrypts messages in the background.",
+    rotateDekConfirm: "Rotate this conversation key?",
+    rotateDekQueued: "Key rotation queued.",
     filterLabel: "AI",
     filterAll: "all",
     filterEnabled: "enabled",
@@ -842,6 +1132,9 @@ const PSYCH_COPY: Record<
     maxTurnsLabel: "Max turns per episode",
     disableEpisodeLabel: "Disable episode limit",
     temperatureLabel: "Temperature",
+    llmProviderLabel: "AI provider",
+    llmProviderDefault: "Clinic default",
+    llmModelPlaceholder: "Model (optional)",
     resetDefaultLabel: "Restore default",
     resetButton: "Reset",
     conversationPolicyReadOnly: "Conversation policy (read only)",
@@ -883,6 +1176,51 @@ const PSYCH_COPY: Record<
     recordResult: "Outcome",
     recordSave: "Save record",
     recordClose: "Close",
+    recordDraftsTitle: "AI record drafts",
+    recordDraftsHint: "Drafted when an AI episode closes. Review before saving.",
+    recordDraftReview: "Review",
+    recordDraftDiscard: "Discard",
+    recordDraftReviewing: "Reviewing an AI draft. Edit the fields and save to create the record.",
+    recordDraftDiscarded: "Draft discarded.",
+    accessGrantsTitle: "Admin access",
+    accessGrantsHint: "A clinic admin asked for or holds access to this conversation. You get an email when they open it.",
+    accessGrantRequested: "Pending request",
+    accessGrantActive: "Active access",
+    accessGrantUntil: "until",
+    accessGrantNoExpiry: "no expiry",
+    accessGrantApprove: "Approve",
+    accessGrantDeny: "Deny",
+    accessGrantRevoke: "Revoke",
+    accessGrantApproved: "Access approved.",
+    accessGrantDenied: "Request denied.",
+    accessGrantRevoked: "Access revoked.",
+    sessionsTitle: "Open sessions",
+    sessionsHint: "Devices signed in to your account. End any you don't recognize.",
+    sessionCurrent: "This device",
+    sessionLastSeen: "Last used",
+    sessionSignedInAt: "Signed in",
+    sessionUnknownDevice: "Unknown device",
+    sessionRevoke: "End",
+    sessionSignOut: "Sign out",
+    sessionRevokeAll: "End all other sessions",
+    sessionsEmpty: "No active sessions.",
+    sessionsLoading: "Loading...",
+    sessionIdleWarning: "You will be signed out for inactivity in",
+    sessionAbsoluteWarning: "Your session reached its time limit and ends in",
+    sessionStay: "Stay signed in",
+    reportTitle: "Clinical report (PDF)",
+    reportHint: "Weekly summaries, records and signals for the period. Mark messages with the pin to include excerpts. Requires confirming your identity with a code.",
+    reportFrom: "From",
+    reportTo: "To",
+    reportDownload: "Download PDF",
+    reportExcerpts: "Selected excerpts",
+    reportExcerptsClear: "Clear",
+    reportExcerptToggle: "Include in report",
+    reportStepUpSent: "We emailed you a code to confirm your identity.",
+    reportStepUpCode: "Code",
+    reportStepUpVerify: "Confirm and download",
+    reportStepUpUnavailable: "No email on your account to send the confirmation code.",
+    reportReady: "Report downloaded.",
     sendPlaceholder: "Write a reply...",
     scrollBottom: "Go to bottom",
     closeMenuAria: "Close menu",
@@ -942,8 +1280,11 @@ const LANGUAGE_DIRECTIVE: Record<"PT" | "ES" | "EN", string> = {
   EN: "Respond in English.",
 };
 
-async function getJson<T>(url: string) {
-  const response = await fetch(url, { method: "GET" });
+async function getJson<T>(url: string, options?: { background?: boolean }) {
+  const response = await fetch(url, {
+    method: "GET",
+    headers: options?.background ? { [BACKGROUND_REQUEST_HEADER]: "1" } : undefined,
+  });
   const data = (await response.json().catch(() => ({}))) as T & {
     error?: string;
   };
@@ -972,12 +1313,38 @@ async function sendJson<T>(
   return data;
 }
 
-export default function PsychologistClient({ tenantId, psychologistName }: Props) {
-  const { t, language } = useLanguage();
+export default function PsychologistClient({
+  tenantId,
+  psychologistName,
+  psychologistEmail,
+  timeZone,
+  defaultLanguage,
+}: Props) {
+  const { t, language } = useLanguage(defaultLanguage.toLowerCase() as Language);
+  const deliveryLabels = useMemo(
+    () => ({
+      QUEUED: t.deliveryQueued,
+      SENT: t.deliverySent,
+      DELIVERED: t.deliveryDelivered,
+      READ: t.deliveryRead,
+      FAILED: t.deliveryFailed,
+    }),
+    [t],
+  );
   const keyboardInset = useKeyboardInset();
   const [conversations, setConversations] = useState<ConversationItem[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [messages, setMessages] = useState<MessageItem[]>([]);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  const pendingJumpRef = useRef<{
+    conversationId: string;
+    messageId: string;
+    cursor: string;
+  } | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [, setRecords] = useState<RecordItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [status, setStatus] = useState("");
@@ -1020,8 +1387,16 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
   const [aiMaxTokens, setAiMaxTokens] = useState(300);
   const [aiMaxTurns, setAiMaxTurns] = useState(3);
   const [aiTemperature, setAiTemperature] = useState(0.4);
+  const [aiProvider, setAiProvider] = useState("");
+  const [aiModel, setAiModel] = useState("");
+  const [llmProviderOptions, setLlmProviderOptions] = useState<
+    Array<{ provider: string; defaultModel: string }>
+  >([]);
   const [disableEpisodeLimit, setDisableEpisodeLimit] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
+  const [contentQuery, setContentQuery] = useState("");
+  const [contentResults, setContentResults] = useState<SearchResultItem[] | null>(null);
+  const [contentSearching, setContentSearching] = useState(false);
   const [filterAi, setFilterAi] = useState<"all" | "enabled" | "disabled">("all");
   const [sortBy, setSortBy] = useState<"recent" | "name">("recent");
   const [showInsights, setShowInsights] = useState(false);
@@ -1030,6 +1405,8 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
   >("summary");
   const [selectedWeek, setSelectedWeek] = useState<string | null>(null);
   const [weeklySummaries, setWeeklySummaries] = useState<WeeklySummary[]>([]);
+  const [pendingWeeks, setPendingWeeks] = useState<string[]>([]);
+  const weeklyPollRef = useRef(0);
   const [weeksCount, setWeeksCount] = useState(8);
   const [typingId, setTypingId] = useState<string | null>(null);
   const [typingText, setTypingText] = useState("");
@@ -1043,13 +1420,23 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
   const [recordBody, setRecordBody] = useState("");
   const [recordAction, setRecordAction] = useState("");
   const [recordResult, setRecordResult] = useState("");
+  const [recordDrafts, setRecordDrafts] = useState<RecordDraftItem[]>([]);
+  const [accessGrants, setAccessGrants] = useState<AccessGrantItem[]>([]);
+  const [reviewingDraftId, setReviewingDraftId] = useState<string | null>(null);
+  const [reportFrom, setReportFrom] = useState("");
+  const [reportTo, setReportTo] = useState("");
+  const [reportExcerptIds, setReportExcerptIds] = useState<string[]>([]);
+  const [reportChallengeId, setReportChallengeId] = useState<string | null>(null);
+  const [reportOtpCode, setReportOtpCode] = useState("");
+  const [reportBusy, setReportBusy] = useState(false);
+  const [reportStatus, setReportStatus] = useState("");
 
   const selectedConversation = useMemo(
     () => conversations.find((conv) => conv.id === selectedId) ?? null,
     [conversations, selectedId],
   );
   const summaryLanguage =
-    selectedConversation?.patient.patientProfile?.preferredLanguage ?? "ES";
+    selectedConversation?.patient.patientProfile?.preferredLanguage ?? defaultLanguage;
   const uiLanguage =
     (language?.toUpperCase() as "PT" | "ES" | "EN" | undefined) ?? "ES";
   const psychCopy = PSYCH_COPY[uiLanguage] ?? PSYCH_COPY.ES;
@@ -1059,16 +1446,23 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
   const locale = uiLanguage === "PT" ? "pt-BR" : uiLanguage === "ES" ? "es-ES" : "en-US";
   const formatTime = (value: string) =>
     new Intl.DateTimeFormat(locale, {
+      timeZone,
       hour: "2-digit",
       minute: "2-digit",
     }).format(new Date(value));
+  const formatDate = (value: string | Date) =>
+    new Intl.DateTimeFormat(locale, { timeZone, dateStyle: "short" }).format(new Date(value));
+  const formatDateTime = (value: string | Date) =>
+    new Intl.DateTimeFormat(locale, {
+      timeZone,
+      dateStyle: "short",
+      timeStyle: "short",
+    }).format(new Date(value));
+  const dayKey = (value: string | Date) => formatDateInTimeZone(new Date(value), timeZone);
   const formatDayLabel = (value: string) => {
     const date = new Date(value);
-    const now = new Date();
-    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const startOfDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
     const diffDays =
-      (startOfToday.getTime() - startOfDate.getTime()) / (24 * 60 * 60 * 1000);
+      (Date.parse(dayKey(new Date())) - Date.parse(dayKey(date))) / (24 * 60 * 60 * 1000);
     if (diffDays === 0) {
       return psychCopy.chatToday;
     }
@@ -1076,6 +1470,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
       return psychCopy.chatYesterday;
     }
     return new Intl.DateTimeFormat(locale, {
+      timeZone,
       day: "2-digit",
       month: "short",
       year: "numeric",
@@ -1229,6 +1624,18 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [weeksCount]);
 
+  useEffect(() => {
+    if (!selectedId || pendingWeeks.length === 0 || weeklyPollRef.current >= WEEKLY_POLL_LIMIT) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      weeklyPollRef.current += 1;
+      loadWeeklySummaries(selectedId, { poll: true });
+    }, WEEKLY_POLL_MS);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingWeeks, selectedId]);
+
   const loadConversations = async () => {
     setLoading(true);
     try {
@@ -1256,10 +1663,12 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
 
   const loadMessages = async (
     conversationId: string,
-    options?: { silent?: boolean; forceBottom?: boolean },
+    options?: { silent?: boolean; forceBottom?: boolean; background?: boolean },
   ) => {
     if (conversationId === DEMO_CONVERSATION_ID) {
       setMessages(demoMessages);
+      setHasOlderMessages(false);
+      setHasNewerMessages(false);
       setRecords([]);
       if (options?.forceBottom) {
         requestAnimationFrame(() => {
@@ -1274,15 +1683,44 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
       }
       return;
     }
+    // A search result opens history around the matched message instead of at
+    // the bottom; newer pages then load as the psychologist scrolls down.
+    const jump =
+      pendingJumpRef.current?.conversationId === conversationId
+        ? pendingJumpRef.current
+        : null;
+    pendingJumpRef.current = null;
     if (!options?.silent) {
       setLoading(true);
     }
     try {
-      const data = await getJson<{ items: MessageItem[] }>(
-        `/api/messages?conversationId=${conversationId}`,
+      const data = await getJson<{
+        items: MessageItem[];
+        hasMore: boolean;
+        hasNewer?: boolean;
+      }>(
+        jump
+          ? `/api/messages?conversationId=${conversationId}&around=${encodeURIComponent(
+              jump.cursor,
+            )}&limit=60`
+          : `/api/messages?conversationId=${conversationId}`,
+        { background: options?.background },
       );
+      if (jump) {
+        shouldAutoScrollRef.current = false;
+      }
       setMessages(data.items ?? []);
-      if (options?.forceBottom) {
+      setHasOlderMessages(data.hasMore);
+      setHasNewerMessages(Boolean(data.hasNewer));
+      if (jump) {
+        setHighlightedMessageId(jump.messageId);
+        requestAnimationFrame(() => {
+          document
+            .getElementById(`message-${jump.messageId}`)
+            ?.scrollIntoView({ block: "center" });
+          setShowScrollToBottom(true);
+        });
+      } else if (options?.forceBottom) {
         requestAnimationFrame(() => {
           const container = messageListRef.current;
           if (!container) {
@@ -1303,10 +1741,142 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     }
   };
 
+  // Pulls in whatever arrived after the newest message we hold, keeping any
+  // older history the psychologist has already scrolled back through.
+  const refreshMessages = async (
+    conversationId: string,
+    options?: { forceBottom?: boolean; background?: boolean },
+  ) => {
+    if (hasNewerMessages) {
+      // Viewing older history from a search result; only jump to the end
+      // when the psychologist just sent something.
+      if (options?.forceBottom) {
+        await loadMessages(conversationId, { silent: true, ...options });
+      }
+      return;
+    }
+    const newest = [...messages].reverse().find((message) => message.cursor);
+    if (conversationId === DEMO_CONVERSATION_ID || !newest?.cursor) {
+      await loadMessages(conversationId, { silent: true, ...options });
+      return;
+    }
+    try {
+      const data = await getJson<{ items: MessageItem[]; hasMore: boolean }>(
+        `/api/messages?conversationId=${conversationId}&after=${encodeURIComponent(
+          newest.cursor,
+        )}&limit=100`,
+        { background: options?.background },
+      );
+      if (data.hasMore) {
+        await loadMessages(conversationId, { silent: true, ...options });
+        return;
+      }
+      setMessages((current) => mergeMessages(current, data.items ?? []));
+      if (options?.forceBottom) {
+        shouldAutoScrollRef.current = true;
+      }
+      setStatus("");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    const oldest = messages.find((message) => message.cursor);
+    if (!selectedId || !oldest?.cursor || !hasOlderMessages || loadingOlder) {
+      return;
+    }
+    setLoadingOlder(true);
+    try {
+      const data = await getJson<{ items: MessageItem[]; hasMore: boolean }>(
+        `/api/messages?conversationId=${selectedId}&before=${encodeURIComponent(
+          oldest.cursor,
+        )}&limit=100`,
+      );
+      const container = messageListRef.current;
+      if (container) {
+        scrollRestoreRef.current = {
+          height: container.scrollHeight,
+          top: container.scrollTop,
+        };
+      }
+      setMessages((current) => mergeMessages(current, data.items ?? []));
+      setHasOlderMessages(data.hasMore);
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const loadNewerMessages = async () => {
+    const newest = [...messages].reverse().find((message) => message.cursor);
+    if (!selectedId || !newest?.cursor || !hasNewerMessages || loadingOlder) {
+      return;
+    }
+    setLoadingOlder(true);
+    try {
+      const data = await getJson<{ items: MessageItem[]; hasMore: boolean }>(
+        `/api/messages?conversationId=${selectedId}&after=${encodeURIComponent(
+          newest.cursor,
+        )}&limit=100`,
+      );
+      setMessages((current) => mergeMessages(current, data.items ?? []));
+      setHasNewerMessages(data.hasMore);
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleContentSearch = async () => {
+    const query = contentQuery.trim();
+    if (query.length < 2) {
+      setContentResults(null);
+      return;
+    }
+    setContentSearching(true);
+    try {
+      const data = await getJson<{ items: SearchResultItem[] }>(
+        `/api/search?q=${encodeURIComponent(query)}`,
+      );
+      setContentResults(data.items ?? []);
+      setStatus("");
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setContentSearching(false);
+    }
+  };
+
+  const handleOpenSearchResult = async (result: SearchResultItem) => {
+    setIsMobileMenuOpen(false);
+    if (result.type === "record" || !result.cursor) {
+      if (result.conversationId !== selectedId) {
+        await handleSelectConversation(result.conversationId);
+      }
+      setShowInsights(true);
+      return;
+    }
+    pendingJumpRef.current = {
+      conversationId: result.conversationId,
+      messageId: result.id,
+      cursor: result.cursor,
+    };
+    if (result.conversationId !== selectedId) {
+      // The selectedId effect loads messages and picks up the pending jump.
+      setSelectedId(result.conversationId);
+      return;
+    }
+    await loadMessages(result.conversationId);
+  };
+
   const loadRecords = async (conversationId: string) => {
     if (conversationId === DEMO_CONVERSATION_ID) {
       setRecords([]);
       setWeeklySummaries([]);
+      setPendingWeeks([]);
       return;
     }
     try {
@@ -1328,12 +1898,16 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
 
   const loadWeeklySummaries = async (
     conversationId: string,
-    options?: { refresh?: boolean; weeks?: number },
+    options?: { refresh?: boolean; weeks?: number; poll?: boolean },
   ) => {
     if (conversationId === DEMO_CONVERSATION_ID) {
       setWeeklySummaries([]);
+      setPendingWeeks([]);
       return;
     }
+    if (!options?.poll) {
+      weeklyPollRef.current = 0;
+    }
     try {
       const params = new URLSearchParams({
         conversationId,
@@ -1342,10 +1916,12 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
       if (options?.refresh) {
         params.set("refresh", "true");
       }
-      const data = await getJson<{ items: WeeklySummary[] }>(
+      const data = await getJson<{ items: WeeklySummary[]; pending: string[] }>(
         `/api/insights/weekly?${params.toString()}`,
+        { background: options?.poll },
       );
       setWeeklySummaries(data.items ?? []);
+      setPendingWeeks(data.pending ?? []);
     } catch (error) {
       console.error(error);
     }
@@ -1384,12 +1960,21 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
       );
       setSignalConfig(config);
       const settings = (psychFlags as { aiSettings?: unknown })?.aiSettings as
-        | { maxTokens?: number; maxTurns?: number; temperature?: number; disableEpisodeLimit?: boolean }
+        | {
+            maxTokens?: number;
+            maxTurns?: number;
+            temperature?: number;
+            disableEpisodeLimit?: boolean;
+            provider?: string | null;
+            model?: string | null;
+          }
         | undefined;
       setAiMaxTokens(settings?.maxTokens ?? 300);
       setAiMaxTurns(settings?.maxTurns ?? 3);
       setAiTemperature(settings?.temperature ?? 0.4);
       setDisableEpisodeLimit(Boolean(settings?.disableEpisodeLimit));
+      setAiProvider(settings?.provider ?? "");
+      setAiModel(settings?.model ?? "");
       const flags = convo.item?.flagsJson ?? null;
       const presetIds = Array.isArray((flags as { presetIds?: unknown })?.presetIds)
         ? ((flags as { presetIds?: unknown }).presetIds as string[])
@@ -1405,7 +1990,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     }
   };
 
-  const loadEpisode = async (conversationId: string) => {
+  const loadEpisode = async (conversationId: string, options?: { background?: boolean }) => {
     if (conversationId === DEMO_CONVERSATION_ID) {
       setAiTurnsUsed(1);
       setEpisodeOpen(true);
@@ -1414,6 +1999,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     try {
       const data = await getJson<EpisodeResponse>(
         `/api/ai/episode?conversationId=${conversationId}`,
+        options,
       );
       setAiTurnsUsed(data.item?.aiTurnsUsed ?? 0);
       setEpisodeOpen(Boolean(data.item?.isOpen));
@@ -1422,10 +2008,50 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     }
   };
 
+  const loadRecordDrafts = async (
+    conversationId: string,
+    options?: { background?: boolean },
+  ) => {
+    if (conversationId === DEMO_CONVERSATION_ID) {
+      setRecordDrafts([]);
+      return;
+    }
+    try {
+      const data = await getJson<{ items: RecordDraftItem[] }>(
+        `/api/records/drafts?conversationId=${conversationId}`,
+        options,
+      );
+      setRecordDrafts(data.items ?? []);
+    } catch {
+      setRecordDrafts([]);
+    }
+  };
+
+  const loadAccessGrants = async (conversationId: string) => {
+    if (conversationId === DEMO_CONVERSATION_ID) {
+      setAccessGrants([]);
+      return;
+    }
+    try {
+      const data = await getJson<{ items: AccessGrantItem[] }>(
+        `/api/conversations/access-grant?conversationId=${conversationId}`,
+      );
+      setAccessGrants(
+        (data.items ?? []).filter((item) => item.status === "REQUESTED" || item.active),
+      );
+    } catch {
+      setAccessGrants([]);
+    }
+  };
+
   const handleSelectConversation = async (conversationId: string) => {
     setSelectedId(conversationId);
     setShowConversationPolicy(false);
     setShowRecord(false);
+    setReviewingDraftId(null);
+    setReportExcerptIds([]);
+    setReportChallengeId(null);
+    setReportStatus("");
     shouldAutoScrollRef.current = true;
     setShowScrollToBottom(false);
     setIsMobileMenuOpen(false);
@@ -1437,6 +2063,8 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
       loadPolicies(conversationId),
       loadEpisode(conversationId),
       loadRecords(conversationId),
+      loadRecordDrafts(conversationId),
+      loadAccessGrants(conversationId),
       loadWeeklySummaries(conversationId),
     ]);
   };
@@ -1458,7 +2086,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
       });
       setMessageDraft("");
       await Promise.all([
-        loadMessages(selectedId, { forceBottom: true }),
+        refreshMessages(selectedId, { forceBottom: true }),
         loadEpisode(selectedId),
       ]);
     } catch (error) {
@@ -1516,7 +2144,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
         throw new Error(data.error ?? "Request failed");
       }
       await Promise.all([
-        loadMessages(selectedId, { forceBottom: true }),
+        refreshMessages(selectedId, { forceBottom: true }),
         loadEpisode(selectedId),
       ]);
     } catch (error) {
@@ -1659,6 +2287,8 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                     maxTurns: aiMaxTurns,
                     temperature: aiTemperature,
                     disableEpisodeLimit,
+                    provider: aiProvider || null,
+                    model: aiProvider ? aiModel.trim() || null : null,
                   },
                 }
               : undefined,
@@ -1692,7 +2322,15 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     }, 500);
     return () => window.clearTimeout(timeout);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [aiMaxTokens, aiMaxTurns, aiTemperature, disableEpisodeLimit, signalConfig]);
+  }, [
+    aiMaxTokens,
+    aiMaxTurns,
+    aiTemperature,
+    disableEpisodeLimit,
+    aiProvider,
+    aiModel,
+    signalConfig,
+  ]);
 
   const handleToggleAi = async () => {
     if (!selectedId || selectedId === DEMO_CONVERSATION_ID) {
@@ -1719,6 +2357,62 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     }
   };
 
+  const handleRotateDek = async () => {
+    if (!selectedId || selectedId === DEMO_CONVERSATION_ID) {
+      setStatus(psychCopy.demoSendDisabled);
+      return;
+    }
+    if (!window.confirm(psychCopy.rotateDekConfirm)) {
+      return;
+    }
+    try {
+      setLoading(true);
+      await sendJson(`/api/conversations/${selectedId}/dek-rotation`, {});
+      setStatus(psychCopy.rotateDekQueued);
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccessGrantAction = async (
+    grantId: string,
+    action: "approve" | "deny" | "revoke",
+  ) => {
+    if (!selectedId) {
+      return;
+    }
+    try {
+      setLoading(true);
+      if (action === "revoke") {
+        const response = await fetch(`/api/conversations/access-grant/${grantId}`, {
+          method: "DELETE",
+        });
+        const data = (await response.json().catch(() => ({}))) as { error?: string };
+        if (!response.ok) {
+          throw new Error(data.error ?? "Request failed");
+        }
+      } else {
+        await sendJson(`/api/conversations/access-grant/${grantId}/decision`, {
+          decision: action,
+        });
+      }
+      await loadAccessGrants(selectedId);
+      setStatus(
+        action === "approve"
+          ? psychCopy.accessGrantApproved
+          : action === "deny"
+            ? psychCopy.accessGrantDenied
+            : psychCopy.accessGrantRevoked,
+      );
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSaveRecord = async () => {
     if (!selectedId || !recordEvent.trim()) {
       setStatus(psychCopy.recordMissingEvent);
@@ -1728,18 +2422,31 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
       setStatus(psychCopy.demoRecordDisabled);
       return;
     }
+    const fields = {
+      event: recordEvent.trim(),
+      thought: recordThought.trim(),
+      emotion: recordEmotion.trim(),
+      body: recordBody.trim(),
+      action: recordAction.trim(),
+      result: recordResult.trim(),
+    };
     try {
       setLoading(true);
-      await sendJson("/api/records", {
-        tenantId,
-        conversationId: selectedId,
-        event: recordEvent.trim(),
-        thought: recordThought.trim(),
-        emotion: recordEmotion.trim(),
-        body: recordBody.trim(),
-        action: recordAction.trim(),
-        result: recordResult.trim(),
-      });
+      if (reviewingDraftId) {
+        await sendJson(
+          `/api/records/drafts/${reviewingDraftId}`,
+          { decision: "accept", data: fields },
+          "PATCH",
+        );
+        setReviewingDraftId(null);
+        await loadRecordDrafts(selectedId);
+      } else {
+        await sendJson("/api/records", {
+          tenantId,
+          conversationId: selectedId,
+          ...fields,
+        });
+      }
       setRecordEvent("");
       setRecordThought("");
       setRecordEmotion("");
@@ -1756,6 +2463,141 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     }
   };
 
+  const handleReviewDraft = (draft: RecordDraftItem) => {
+    setReviewingDraftId(draft.id);
+    setRecordEvent(draft.dataJson.event ?? "");
+    setRecordThought(draft.dataJson.thought ?? "");
+    setRecordEmotion(draft.dataJson.emotion ?? "");
+    setRecordBody(draft.dataJson.body ?? "");
+    setRecordAction(draft.dataJson.action ?? "");
+    setRecordResult(draft.dataJson.result ?? "");
+    setShowRecord(true);
+  };
+
+  const handleCloseRecord = () => {
+    setShowRecord(false);
+    if (reviewingDraftId) {
+      setReviewingDraftId(null);
+      setRecordEvent("");
+      setRecordThought("");
+      setRecordEmotion("");
+      setRecordBody("");
+      setRecordAction("");
+      setRecordResult("");
+    }
+  };
+
+  const handleDiscardDraft = async (draftId: string) => {
+    if (!selectedId) {
+      return;
+    }
+    try {
+      setLoading(true);
+      await sendJson(`/api/records/drafts/${draftId}`, { decision: "discard" }, "PATCH");
+      if (reviewingDraftId === draftId) {
+        handleCloseRecord();
+      }
+      await loadRecordDrafts(selectedId);
+      setStatus(psychCopy.recordDraftDiscarded);
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleReportExcerpt = (messageId: string) => {
+    setReportExcerptIds((current) =>
+      current.includes(messageId)
+        ? current.filter((id) => id !== messageId)
+        : [...current, messageId].slice(-MAX_REPORT_EXCERPTS),
+    );
+  };
+
+  const requestReportStepUp = async () => {
+    if (!psychologistEmail) {
+      setReportStatus(psychCopy.reportStepUpUnavailable);
+      return;
+    }
+    const data = await sendJson<{ challengeId?: string }>("/api/auth/otp/request", {
+      tenantId,
+      email: psychologistEmail,
+      purpose: "stepup",
+    });
+    if (!data.challengeId) {
+      throw new Error("Request failed");
+    }
+    setReportChallengeId(data.challengeId);
+    setReportOtpCode("");
+    setReportStatus(psychCopy.reportStepUpSent);
+  };
+
+  const handleDownloadReport = async () => {
+    if (!selectedId || !reportFrom || !reportTo) {
+      return;
+    }
+    try {
+      setReportBusy(true);
+      setReportStatus("");
+      const response = await fetch("/api/insights/report", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          conversationId: selectedId,
+          from: reportFrom,
+          to: reportTo,
+          language: uiLanguage,
+          messageIds: reportExcerptIds,
+        }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as {
+          error?: string;
+          stepUpRequired?: boolean;
+        };
+        if (data.stepUpRequired) {
+          await requestReportStepUp();
+          return;
+        }
+        throw new Error(data.error ?? "Request failed");
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `report-${reportFrom}-${reportTo}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setReportStatus(psychCopy.reportReady);
+    } catch (error) {
+      setReportStatus((error as Error).message);
+    } finally {
+      setReportBusy(false);
+    }
+  };
+
+  const handleVerifyReportStepUp = async () => {
+    if (!reportChallengeId || !reportOtpCode.trim()) {
+      return;
+    }
+    try {
+      setReportBusy(true);
+      await sendJson("/api/auth/otp/verify", {
+        tenantId,
+        challengeId: reportChallengeId,
+        code: reportOtpCode.trim(),
+        purpose: "stepup",
+      });
+      setReportChallengeId(null);
+      setReportOtpCode("");
+    } catch (error) {
+      setReportStatus((error as Error).message);
+      return;
+    } finally {
+      setReportBusy(false);
+    }
+    await handleDownloadReport();
+  };
+
   const handleOpenPsychPolicy = () => {
     setShowPsychPolicy(true);
     setIsMobileMenuOpen(false);
@@ -1832,6 +2674,14 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    getJson<{ items: Array<{ provider: string; defaultModel: string }> }>(
+      "/api/ai/providers",
+    )
+      .then((data) => setLlmProviderOptions(data.items))
+      .catch(() => setLlmProviderOptions([]));
+  }, []);
+
   useEffect(() => {
     if (selectedId) {
       shouldAutoScrollRef.current = true;
@@ -1840,27 +2690,71 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
       loadPolicies(selectedId);
       setShowConversationPolicy(false);
       setShowRecord(false);
+      setReviewingDraftId(null);
       shouldAutoScrollRef.current = true;
       setShowScrollToBottom(false);
       setShowPsychPolicy(false);
       setShowInsights(false);
       loadEpisode(selectedId);
       loadRecords(selectedId);
+      loadRecordDrafts(selectedId);
+      loadAccessGrants(selectedId);
       loadWeeklySummaries(selectedId);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedId]);
 
+  useConversationStream<MessageItem>(
+    selectedId && selectedId !== DEMO_CONVERSATION_ID ? selectedId : null,
+    {
+      onMessage: (item) =>
+        setMessages((current) =>
+          // New messages would leave a gap while newer history is unloaded.
+          hasNewerMessages && !current.some((message) => message.id === item.id)
+            ? current
+            : mergeMessage(current, item),
+        ),
+      // Reads triggered by the stream are not the psychologist's activity,
+      // so they must not hold the session open.
+      onEpisode: () => {
+        if (selectedId) {
+          loadEpisode(selectedId, { background: true });
+        }
+      },
+      onRecordDraft: () => {
+        if (selectedId) {
+          loadRecordDrafts(selectedId, { background: true });
+        }
+      },
+      onReconnect: () => {
+        if (selectedId) {
+          refreshMessages(selectedId, { background: true });
+          loadEpisode(selectedId, { background: true });
+          loadRecordDrafts(selectedId, { background: true });
+        }
+      },
+    },
+  );
+
+  // Keep the viewport anchored on the message being read when older history
+  // is prepended above it.
+  useLayoutEffect(() => {
+    const container = messageListRef.current;
+    const restore = scrollRestoreRef.current;
+    if (!container || !restore) {
+      return;
+    }
+    container.scrollTop = container.scrollHeight - restore.height + restore.top;
+    scrollRestoreRef.current = null;
+  }, [messages]);
+
   useEffect(() => {
-    if (!selectedId || selectedId === DEMO_CONVERSATION_ID) {
+    if (!highlightedMessageId) {
       return;
     }
-    const interval = setInterval(() => {
-      loadMessages(selectedId, { silent: true });
-      loadEpisode(selectedId);
-    }, 5000);
-    return () => clearInterval(interval);
-  }, [selectedId]);
+    const timer = window.setTimeout(() => setHighlightedMessageId(null), 4000);
+    return () => window.clearTimeout(timer);
+  }, [highlightedMessageId]);
 
   useEffect(() => {
     const container = messageListRef.current;
@@ -1890,8 +2784,14 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     const isNearBottom =
       container.scrollHeight - container.scrollTop - container.clientHeight <
       threshold;
-    shouldAutoScrollRef.current = isNearBottom;
-    setShowScrollToBottom(!isNearBottom);
+    shouldAutoScrollRef.current = isNearBottom && !hasNewerMessages;
+    setShowScrollToBottom(!isNearBottom || hasNewerMessages);
+    if (container.scrollTop < threshold) {
+      loadOlderMessages();
+    }
+    if (isNearBottom && hasNewerMessages) {
+      loadNewerMessages();
+    }
   };
 
   const asideContent = (
@@ -1975,8 +2875,76 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
               </select>
             </label>
           </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleContentSearch();
+            }}
+          >
+            <input
+              className="h-10 min-w-0 flex-1 rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+              placeholder={psychCopy.contentSearchPlaceholder}
+              value={contentQuery}
+              onChange={(event) => setContentQuery(event.target.value)}
+            />
+            {contentResults ? (
+              <button
+                type="button"
+                className="h-10 rounded-xl border border-black/10 px-3 text-xs font-semibold text-[color:var(--ink-900)]"
+                onClick={() => {
+                  setContentQuery("");
+                  setContentResults(null);
+                }}
+              >
+                {psychCopy.contentSearchClear}
+              </button>
+            ) : null}
+            <button
+              type="submit"
+              className="h-10 rounded-xl bg-[color:var(--accent-500)] px-3 text-xs font-semibold text-white disabled:opacity-60"
+              disabled={contentSearching || contentQuery.trim().length < 2}
+            >
+              {contentSearching ? t.loading : psychCopy.contentSearchButton}
+            </button>
+          </form>
         </div>
 
+        {contentResults ? (
+          <div className="mt-6 flex-1 min-h-0 space-y-3 overflow-y-auto px-2 pb-2 pt-1">
+            {contentResults.map((result) => {
+              const conv = conversations.find((item) => item.id === result.conversationId);
+              const name =
+                conv?.patient.patientProfile?.displayName ??
+                conv?.patient.email ??
+                "Paciente";
+              return (
+                <button
+                  key={`${result.type}-${result.id}`}
+                  type="button"
+                  className="w-full rounded-2xl border border-black/10 bg-[color:var(--surface-100)] px-4 py-3 text-left"
+                  onClick={() => handleOpenSearchResult(result)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-semibold text-[color:var(--ink-900)]">{name}</p>
+                    <span className="text-[11px] text-[color:var(--ink-500)]">
+                      {result.type === "record"
+                        ? `${psychCopy.contentSearchRecordHit} · `
+                        : ""}
+                      {formatDate(result.createdAt)}
+                    </span>
+                  </div>
+                  <p className="mt-2 text-xs text-[color:var(--ink-700)]">{result.snippet}</p>
+                </button>
+              );
+            })}
+            {contentResults.length === 0 ? (
+              <div className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] p-4 text-xs text-[color:var(--ink-500)]">
+                {psychCopy.contentSearchEmpty}
+              </div>
+            ) : null}
+          </div>
+        ) : (
         <div className="mt-6 flex-1 min-h-0 space-y-3 overflow-y-auto px-2 pb-2 pt-1">
           {filteredConversations.map((conv) => {
             const name =
@@ -2007,7 +2975,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                   />
                 </div>
                 <p className="mt-2 text-xs text-[color:var(--ink-500)]">
-                  {new Date(conv.updatedAt).toLocaleString()}
+                  {formatDateTime(conv.updatedAt)}
                 </p>
               </button>
             );
@@ -2018,11 +2986,41 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
             </div>
           ) : null}
         </div>
+        )}
       </div>
+
+      <details className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+        <summary className="cursor-pointer text-xs uppercase tracking-[0.25em] text-[color:var(--ink-500)]">
+          {psychCopy.sessionsTitle}
+        </summary>
+        <p className="mt-2 text-xs text-[color:var(--ink-500)]">{psychCopy.sessionsHint}</p>
+        <div className="mt-3">
+          <SessionList
+            endpoint="/api/auth/sessions"
+            labels={{
+              current: psychCopy.sessionCurrent,
+              lastSeen: psychCopy.sessionLastSeen,
+              signedInAt: psychCopy.sessionSignedInAt,
+              unknownDevice: psychCopy.sessionUnknownDevice,
+              revoke: psychCopy.sessionRevoke,
+              signOut: psychCopy.sessionSignOut,
+              revokeAll: psychCopy.sessionRevokeAll,
+              empty: psychCopy.sessionsEmpty,
+              loading: psychCopy.sessionsLoading,
+            }}
+            formatDateTime={formatDateTime}
+            canSignOutCurrent
+          />
+        </div>
+      </details>
     </div>
   );
 
   const scrollToBottom = () => {
+    if (hasNewerMessages && selectedId) {
+      loadMessages(selectedId, { forceBottom: true });
+      return;
+    }
     const container = messageListRef.current;
     if (!container) {
       return;
@@ -2097,6 +3095,8 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
     setAiMaxTokens(300);
     setAiMaxTurns(3);
     setAiTemperature(0.4);
+    setAiProvider("");
+    setAiModel("");
   };
 
   const adjustTextareaHeight = (element: HTMLTextAreaElement | null) => {
@@ -2359,6 +3359,131 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                   {psychCopy.close}
                 </button>
               </div>
+              <div className="mt-4 flex flex-wrap items-center gap-3 border-t border-black/10 pt-3">
+                <button
+                  className="h-9 rounded-xl border border-black/10 px-4 text-xs font-semibold text-[color:var(--ink-900)]"
+                  type="button"
+                  onClick={handleRotateDek}
+                  disabled={!selectedId || selectedId === DEMO_CONVERSATION_ID}
+                >
+                  {psychCopy.rotateDek}
+                </button>
+                <span className="text-xs text-[color:var(--ink-500)]">
+                  {psychCopy.rotateDekHint}
+                </span>
+              </div>
+            </div>
+          ) : null}
+
+          {accessGrants.length > 0 ? (
+            <div className="mt-6 rounded-2xl border border-amber-300/60 bg-amber-50/80 p-4">
+              <h3 className="text-sm font-semibold text-[color:var(--ink-900)]">
+                {psychCopy.accessGrantsTitle}
+              </h3>
+              <p className="mt-1 text-xs text-[color:var(--ink-500)]">
+                {psychCopy.accessGrantsHint}
+              </p>
+              <div className="mt-3 space-y-2">
+                {accessGrants.map((grant) => (
+                  <div
+                    key={grant.id}
+                    className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-black/10 bg-white px-3 py-2 text-xs"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold text-[color:var(--ink-900)]">
+                        {grant.status === "REQUESTED"
+                          ? psychCopy.accessGrantRequested
+                          : psychCopy.accessGrantActive}
+                        {" · "}
+                        {grant.userEmail ?? "Admin"}
+                      </p>
+                      <p className="text-[color:var(--ink-700)]">{grant.justification || "-"}</p>
+                      <p className="text-[11px] text-[color:var(--ink-500)]">
+                        {grant.expiresAt
+                          ? `${psychCopy.accessGrantUntil} ${formatDateTime(grant.expiresAt)}`
+                          : psychCopy.accessGrantNoExpiry}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {grant.status === "REQUESTED" ? (
+                        <>
+                          <button
+                            className="rounded-full bg-[color:var(--accent-500)] px-3 py-1 font-semibold text-white"
+                            type="button"
+                            onClick={() => handleAccessGrantAction(grant.id, "approve")}
+                            disabled={loading}
+                          >
+                            {psychCopy.accessGrantApprove}
+                          </button>
+                          <button
+                            className="rounded-full border border-black/10 px-3 py-1 font-semibold text-[color:var(--ink-900)]"
+                            type="button"
+                            onClick={() => handleAccessGrantAction(grant.id, "deny")}
+                            disabled={loading}
+                          >
+                            {psychCopy.accessGrantDeny}
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          className="rounded-full border border-black/10 px-3 py-1 font-semibold text-[color:var(--ink-900)]"
+                          type="button"
+                          onClick={() => handleAccessGrantAction(grant.id, "revoke")}
+                          disabled={loading}
+                        >
+                          {psychCopy.accessGrantRevoke}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {recordDrafts.length > 0 ? (
+            <div className="mt-6 rounded-2xl border border-amber-300/60 bg-amber-50/80 p-4">
+              <h3 className="text-sm font-semibold text-[color:var(--ink-900)]">
+                {psychCopy.recordDraftsTitle}
+              </h3>
+              <p className="mt-1 text-xs text-[color:var(--ink-500)]">
+                {psychCopy.recordDraftsHint}
+              </p>
+              <div className="mt-3 space-y-2">
+                {recordDrafts.map((draft) => (
+                  <div
+                    key={draft.id}
+                    className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-black/10 bg-white px-3 py-2 text-xs"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-semibold text-[color:var(--ink-900)]">
+                        {draft.dataJson.event}
+                      </p>
+                      <p className="text-[11px] text-[color:var(--ink-500)]">
+                        {formatDateTime(draft.createdAt)}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        className="rounded-full bg-[color:var(--accent-500)] px-3 py-1 font-semibold text-white"
+                        type="button"
+                        onClick={() => handleReviewDraft(draft)}
+                        disabled={loading}
+                      >
+                        {psychCopy.recordDraftReview}
+                      </button>
+                      <button
+                        className="rounded-full border border-black/10 px-3 py-1 font-semibold text-[color:var(--ink-900)]"
+                        type="button"
+                        onClick={() => handleDiscardDraft(draft.id)}
+                        disabled={loading}
+                      >
+                        {psychCopy.recordDraftDiscard}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
             </div>
           ) : null}
 
@@ -2371,13 +3496,13 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                 <button
                   className="text-xs text-[color:var(--ink-500)]"
                   type="button"
-                  onClick={() => setShowRecord(false)}
+                  onClick={handleCloseRecord}
                 >
                   {psychCopy.recordClose}
                 </button>
               </div>
               <p className="mt-2 text-xs text-[color:var(--ink-500)]">
-                {psychCopy.recordSubtitle}
+                {reviewingDraftId ? psychCopy.recordDraftReviewing : psychCopy.recordSubtitle}
               </p>
               <div className="mt-4 grid gap-3 md:grid-cols-2">
                 <input
@@ -2434,14 +3559,30 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                 onScroll={handleMessageScroll}
                 className="h-full space-y-4 overflow-y-auto overscroll-contain px-2 pb-28 pt-1 sm:pb-2"
               >
+              {hasOlderMessages ? (
+                <div className="flex justify-center">
+                  <button
+                    type="button"
+                    className="rounded-full border border-black/10 bg-white/80 px-3 py-1 text-[11px] font-semibold text-[color:var(--ink-500)] shadow-[0_8px_18px_var(--shadow-color)] disabled:opacity-60"
+                    onClick={loadOlderMessages}
+                    disabled={loadingOlder}
+                  >
+                    {loadingOlder ? t.loadingOlderMessages : t.loadOlderMessages}
+                  </button>
+                </div>
+              ) : messages.length ? (
+                <p className="text-center text-[11px] text-[color:var(--ink-500)]">
+                  {t.historyStart}
+                </p>
+              ) : null}
               {messages.map((message, index) => {
                 const previous = messages[index - 1];
                 const showDayLabel =
                   !previous ||
-                  new Date(previous.createdAt).toDateString() !==
-                    new Date(message.createdAt).toDateString();
+                  dayKey(previous.createdAt) !== dayKey(message.createdAt);
+                const attachmentKind = getAttachmentKind(message.attachmentMime);
                 return (
-                  <div key={message.id} className="space-y-3">
+                  <div key={message.id} id={`message-${message.id}`} className="space-y-3">
                     {showDayLabel ? (
                       <div className="flex justify-center">
                         <span className="rounded-full border border-black/10 bg-white/80 px-3 py-1 text-[11px] font-semibold text-[color:var(--ink-500)] shadow-[0_8px_18px_var(--shadow-color)]">
@@ -2458,6 +3599,10 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                     >
                       <div
                         className={`group relative max-w-[90%] rounded-2xl px-4 py-3 text-sm shadow-[0_14px_30px_var(--shadow-color)] ring-1 ring-black/5 ${
+                          message.id === highlightedMessageId
+                            ? "outline outline-2 outline-offset-2 outline-amber-400"
+                            : ""
+                        } ${
                           message.authorType === "PSYCHOLOGIST"
                             ? "bg-[color:var(--accent-500)] text-white"
                             : message.authorType === "AI"
@@ -2465,6 +3610,34 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                               : "bg-[color:var(--surface-100)] text-[color:var(--ink-900)]"
                         }`}
                       >
+                        {!message.deletedAt && message.content ? (
+                          <button
+                            type="button"
+                            onClick={() => toggleReportExcerpt(message.id)}
+                            className={`absolute left-2 top-2 rounded-full border border-black/10 p-1 transition focus:opacity-100 group-hover:opacity-100 group-focus-within:opacity-100 ${
+                              reportExcerptIds.includes(message.id)
+                                ? "bg-amber-300 text-[color:var(--ink-900)] opacity-100"
+                                : "bg-white/80 text-[color:var(--ink-700)] opacity-0 hover:bg-white"
+                            }`}
+                            aria-label={psychCopy.reportExcerptToggle}
+                            aria-pressed={reportExcerptIds.includes(message.id)}
+                            title={psychCopy.reportExcerptToggle}
+                          >
+                            <svg
+                              aria-hidden="true"
+                              viewBox="0 0 24 24"
+                              className="h-3.5 w-3.5"
+                              fill="none"
+                              stroke="currentColor"
+                              strokeWidth="1.6"
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                            >
+                              <path d="M12 17v5" />
+                              <path d="M9 3h6l-1 7 4 4H6l4-4-1-7z" />
+                            </svg>
+                          </button>
+                        ) : null}
                         {message.authorType !== "AI" &&
                         message.authorType !== "SYSTEM" &&
                         !message.deletedAt ? (
@@ -2504,7 +3677,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                         <div className={message.authorType !== "PATIENT" ? "mt-2" : ""}>
                           {message.deletedAt ? (
                             <p className="italic opacity-70">{t.messageDeleted}</p>
-                          ) : (
+                          ) : attachmentKind === "audio" ? null : (
                             renderFormattedContent(
                               message.authorType === "AI" && typingId === message.id
                                 ? message.content.slice(0, typingIndex)
@@ -2514,13 +3687,39 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                         </div>
                         {message.hasAttachment && !message.deletedAt ? (
                           <div className="mt-3">
-                            <AudioMessage
-                              src={`/api/messages/attachment?messageId=${message.id}`}
-                            />
+                            {attachmentKind === "image" || attachmentKind === "document" ? (
+                              <FileAttachment
+                                src={`/api/messages/attachment?messageId=${message.id}`}
+                                kind={attachmentKind}
+                                label={
+                                  attachmentKind === "image"
+                                    ? t.attachmentImage
+                                    : t.attachmentDocument
+                                }
+                              />
+                            ) : (
+                              <AudioMessage
+                                src={`/api/messages/attachment?messageId=${message.id}`}
+                              />
+                            )}
+                            {attachmentKind === "audio" && message.content ? (
+                              <p className="mt-2 text-xs italic opacity-80">
+                                <span className="not-italic font-semibold">
+                                  {t.audioTranscript}:
+                                </span>{" "}
+                                {message.content}
+                              </p>
+                            ) : null}
                           </div>
                         ) : null}
-                        <div className="mt-2 text-[10px] text-right text-[color:var(--ink-500)]">
+                        <div className="mt-2 flex items-center justify-end gap-1 text-[10px] text-[color:var(--ink-500)]">
                           {formatTime(message.createdAt)}
+                          {message.deliveryStatus && !message.deletedAt ? (
+                            <DeliveryStatus
+                              status={message.deliveryStatus}
+                              labels={deliveryLabels}
+                            />
+                          ) : null}
                         </div>
                       </div>
                     </div>
@@ -2747,7 +3946,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                 <p className="text-sm text-[color:var(--ink-900)]">
                   {promptSnapshot?.model ?? "preview"} Â·{" "}
                   {promptSnapshot?.createdAt
-                    ? new Date(promptSnapshot.createdAt).toLocaleString()
+                    ? formatDateTime(promptSnapshot.createdAt)
                     : "sem timestamp"}
                 </p>
               </div>
@@ -2908,6 +4107,40 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                           className="mt-2 w-full"
                         />
                       </div>
+                      {llmProviderOptions.length > 0 ? (
+                        <div className="grid gap-2">
+                          <label className="text-[11px] text-[color:var(--ink-500)]">
+                            {psychCopy.llmProviderLabel}
+                          </label>
+                          <select
+                            value={aiProvider}
+                            onChange={(event) => {
+                              setAiProvider(event.target.value);
+                              setAiModel("");
+                            }}
+                            className="h-9 rounded-lg border border-black/10 bg-white/90 px-2 text-xs"
+                          >
+                            <option value="">{psychCopy.llmProviderDefault}</option>
+                            {llmProviderOptions.map((option) => (
+                              <option key={option.provider} value={option.provider}>
+                                {LLM_PROVIDER_LABELS[option.provider] ?? option.provider}
+                              </option>
+                            ))}
+                          </select>
+                          {aiProvider ? (
+                            <input
+                              value={aiModel}
+                              onChange={(event) => setAiModel(event.target.value)}
+                              placeholder={
+                                llmProviderOptions.find(
+                                  (option) => option.provider === aiProvider,
+                                )?.defaultModel ?? psychCopy.llmModelPlaceholder
+                              }
+                              className="h-9 rounded-lg border border-black/10 bg-white/90 px-2 text-xs"
+                            />
+                          ) : null}
+                        </div>
+                      ) : null}
                       <div className="flex items-center justify-between">
                         <span className="text-[11px] text-[color:var(--ink-500)]">
                           {psychCopy.resetDefaultLabel}
@@ -3190,6 +4423,76 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
               </button>
             </div>
 
+            <div className="mt-5 rounded-2xl border border-black/10 bg-white/90 p-4">
+              <p className="text-xs uppercase tracking-[0.2em] text-[color:var(--ink-500)]">
+                {psychCopy.reportTitle}
+              </p>
+              <p className="mt-2 text-xs text-[color:var(--ink-500)]">{psychCopy.reportHint}</p>
+              <div className="mt-3 flex flex-wrap items-end gap-2 text-xs">
+                <label className="flex flex-col gap-1">
+                  {psychCopy.reportFrom}
+                  <input
+                    type="date"
+                    className="h-9 rounded-xl border border-black/10 bg-white px-3"
+                    value={reportFrom}
+                    onChange={(event) => setReportFrom(event.target.value)}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  {psychCopy.reportTo}
+                  <input
+                    type="date"
+                    className="h-9 rounded-xl border border-black/10 bg-white px-3"
+                    value={reportTo}
+                    onChange={(event) => setReportTo(event.target.value)}
+                  />
+                </label>
+                <button
+                  type="button"
+                  className="h-9 rounded-xl bg-[color:var(--accent-500)] px-3 font-semibold text-white"
+                  onClick={handleDownloadReport}
+                  disabled={!selectedId || !reportFrom || !reportTo || reportBusy}
+                >
+                  {psychCopy.reportDownload}
+                </button>
+              </div>
+              <p className="mt-2 text-xs text-[color:var(--ink-500)]">
+                {psychCopy.reportExcerpts}: {reportExcerptIds.length}
+                {reportExcerptIds.length > 0 ? (
+                  <button
+                    type="button"
+                    className="ml-2 font-semibold text-[color:var(--ink-900)]"
+                    onClick={() => setReportExcerptIds([])}
+                  >
+                    {psychCopy.reportExcerptsClear}
+                  </button>
+                ) : null}
+              </p>
+              {reportChallengeId ? (
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                  <input
+                    className="h-9 w-32 rounded-xl border border-black/10 bg-white px-3"
+                    placeholder={psychCopy.reportStepUpCode}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={reportOtpCode}
+                    onChange={(event) => setReportOtpCode(event.target.value)}
+                  />
+                  <button
+                    type="button"
+                    className="h-9 rounded-xl border border-black/10 px-3 font-semibold text-[color:var(--ink-900)]"
+                    onClick={handleVerifyReportStepUp}
+                    disabled={!reportOtpCode.trim() || reportBusy}
+                  >
+                    {psychCopy.reportStepUpVerify}
+                  </button>
+                </div>
+              ) : null}
+              {reportStatus ? (
+                <p className="mt-2 text-xs text-[color:var(--ink-700)]">{reportStatus}</p>
+              ) : null}
+            </div>
+
             {insightTab === "summary" ? (
               <div className="mt-5 space-y-4">
                 <div className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] p-4">
@@ -3249,7 +4552,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                         const end = new Date(item.weekEnd);
                         return (
                           <option key={item.weekStart} value={item.weekStart}>
-                            {formatWeekLabel(start, end)}
+                            {formatWeekLabel(start, end, formatDate)}
                           </option>
                         );
                       })}
@@ -3263,11 +4566,60 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                         {summaryCopy.noData}
                       </p>
                     )}
+                    {pendingWeeks.length > 0 ? (
+                      <p className="text-xs text-[color:var(--ink-500)]">
+                        {summaryCopy.pending}
+                      </p>
+                    ) : null}
                   </div>
                 </div>
 
                 {selectedSummary ? (
                   <>
+                    {selectedSummary.narrative ? (
+                      <div className="rounded-2xl border border-black/10 bg-white/90 p-4">
+                        <p className="text-xs uppercase tracking-[0.2em] text-[color:var(--ink-500)]">
+                          {summaryCopy.narrativeTitle}
+                        </p>
+                        <div className="mt-3 space-y-3 text-xs text-[color:var(--ink-900)]">
+                          {selectedSummary.narrative.themes.length > 0 ? (
+                            <div>
+                              <p className="font-semibold">{summaryCopy.narrativeThemes}</p>
+                              <ul className="mt-1 list-disc space-y-1 pl-4">
+                                {selectedSummary.narrative.themes.map((theme) => (
+                                  <li key={theme}>{theme}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          ) : null}
+                          {selectedSummary.narrative.changes ? (
+                            <div>
+                              <p className="font-semibold">{summaryCopy.narrativeChanges}</p>
+                              <p className="mt-1">{selectedSummary.narrative.changes}</p>
+                            </div>
+                          ) : null}
+                          {selectedSummary.narrative.questions.length > 0 ? (
+                            <div>
+                              <p className="font-semibold">{summaryCopy.narrativeQuestions}</p>
+                              <ul className="mt-1 list-disc space-y-1 pl-4">
+                                {selectedSummary.narrative.questions.map((question) => (
+                                  <li key={question}>{question}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          ) : null}
+                          <p className="text-[11px] text-[color:var(--ink-500)]">
+                            {summaryCopy.narrativeModel} {selectedSummary.narrative.model} ·{" "}
+                            {formatDateTime(selectedSummary.narrative.generatedAt)}
+                          </p>
+                        </div>
+                      </div>
+                    ) : selectedSummary.changes.messages > 0 ? (
+                      <p className="rounded-2xl border border-dashed border-black/10 px-4 py-3 text-xs text-[color:var(--ink-500)]">
+                        {summaryCopy.narrativeUnavailable}
+                      </p>
+                    ) : null}
+
                     <div className="rounded-2xl border border-black/10 bg-white/90 p-4">
                       <p className="text-xs uppercase tracking-[0.2em] text-[color:var(--ink-500)]">
                         {summaryCopy.eventsTitle}
@@ -3282,7 +4634,13 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                             <div key={event.createdAt} className="rounded-xl border border-black/10 bg-white px-3 py-2 text-xs">
                               <p className="font-semibold">{event.label}</p>
                               <p className="text-[11px] text-[color:var(--ink-500)]">
-                                {new Date(event.createdAt).toLocaleString()}
+                                {formatDateTime(event.createdAt)}
+                                {event.authorType === "PATIENT"
+                                  ? ` · ${summaryCopy.patientEntry}`
+                                  : ""}
+                                {typeof event.intensity === "number"
+                                  ? ` · ${event.intensity}/10`
+                                  : ""}
                               </p>
                             </div>
                           ))
@@ -3410,7 +4768,7 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
                       {previousSummary ? (
                         <p className="mt-3 text-[11px] text-[color:var(--ink-500)]">
                           {summaryCopy.compareHint}{" "}
-                          {new Date(previousSummary.weekStart).toLocaleDateString()}.
+                          {formatDate(previousSummary.weekStart)}.
                         </p>
                       ) : (
                         <p className="mt-3 text-[11px] text-[color:var(--ink-500)]">
@@ -3425,6 +4783,14 @@ export default function PsychologistClient({ tenantId, psychologistName }: Props
           </div>
         </div>
       ) : null}
+
+      <SessionTimeout
+        labels={{
+          idleWarning: psychCopy.sessionIdleWarning,
+          absoluteWarning: psychCopy.sessionAbsoluteWarning,
+          stay: psychCopy.sessionStay,
+        }}
+      />
     </div>
   );
 }
@@ -16,15 +16,21 @@ export default async function PsychologistPage() {
     redirect(resolveHomeForUser(session.user));
   }
 
-  const profile = await prisma.psychologistProfile.findUnique({
-    where: { userId: session.user.id },
-  });
+  const [profile, tenant] = await Promise.all([
+    prisma.psychologistProfile.findUnique({
+      where: { userId: session.user.id },
+    }),
+    prisma.tenant.findUnique({ where: { id: session.user.tenantId } }),
+  ]);
 
   return (
     <div className="h-dvh overflow-hidden px-0 pb-0 pt-0 sm:h-auto sm:min-h-dvh sm:overflow-visible sm:px-6 sm:pb-12 sm:pt-10">
       <PsychologistClient
         tenantId={session.user.tenantId}
         psychologistName={profile?.displayName ?? session.user.email ?? "Psicologo"}
+        psychologistEmail={session.user.email ?? null}
+        timeZone={tenant?.timeZone ?? "UTC"}
+        defaultLanguage={tenant?.defaultLanguage ?? "ES"}
       />
     </div>
   );
@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-import { LANGUAGE_OPTIONS, useLanguage } from "@/lib/i18n";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { LANGUAGE_OPTIONS, useLanguage, type Language } from "@/lib/i18n";
+import { formatDateInTimeZone } from "@/lib/time-zone";
 import {
   CHAT_CARD_CLASS,
   CHAT_COMPOSER_CLASS,
@@ -9,6 +10,20 @@ import {
   CHAT_SECTION_CLASS,
 } from "@/components/chat/shell";
 import { useKeyboardInset } from "@/components/chat/useKeyboardInset";
+import {
+  mergeMessage,
+  mergeMessages,
+  useConversationStream,
+} from "@/components/chat/useConversationStream";
+import {
+  DeliveryStatus,
+  type MessageDeliveryStatus,
+} from "@/components/chat/DeliveryStatus";
+import { FileAttachment } from "@/components/chat/FileAttachment";
+import { SessionList } from "@/components/account/SessionList";
+import { SessionTimeout } from "@/components/account/SessionTimeout";
+import { getAttachmentKind } from "@/lib/attachments";
+import { BACKGROUND_REQUEST_HEADER } from "@/lib/auth/activity";
 
 type ConversationItem = {
   id: string;
@@ -23,16 +38,51 @@ type ConversationItem = {
 
 type MessageItem = {
   id: string;
+  cursor?: string;
   authorType: "PATIENT" | "PSYCHOLOGIST" | "AI" | "SYSTEM";
   content: string;
   createdAt: string;
   deletedAt?: string | null;
   hasAttachment?: boolean;
   attachmentMime?: string | null;
+  deliveryStatus?: MessageDeliveryStatus | null;
+};
+
+type DiaryField = "event" | "thought" | "emotion" | "body" | "action" | "result";
+
+type DiaryEntry = {
+  id: string;
+  createdAt: string;
+  dataJson: Partial<Record<DiaryField, string>> & { intensity?: number };
+};
+
+type DiaryDraft = Record<DiaryField, string> & { intensity: number };
+
+type DataExportItem = {
+  id: string;
+  status: "PENDING" | "RUNNING" | "READY" | "DOWNLOADED" | "EXPIRED" | "FAILED";
+  expiresAt: string | null;
+  tooLarge: boolean;
+  createdAt: string;
+};
+
+const DIARY_FIELDS: DiaryField[] = ["event", "thought", "emotion", "body", "action", "result"];
+
+const EMPTY_DIARY_DRAFT: DiaryDraft = {
+  event: "",
+  thought: "",
+  emotion: "",
+  body: "",
+  action: "",
+  result: "",
+  intensity: 5,
 };
 
 type Props = {
   tenantId: string;
+  // Tenant settings: dates are shown in the clinic's zone, not the browser's.
+  timeZone: string;
+  defaultLanguage: "PT" | "ES" | "EN";
 };
 
 const formatAudioTime = (value: number) => {
@@ -223,8 +273,11 @@ function AudioMessage({ src }: { src: string }) {
   );
 }
 
-async function getJson<T>(url: string) {
-  const response = await fetch(url, { method: "GET" });
+async function getJson<T>(url: string, options?: { background?: boolean }) {
+  const response = await fetch(url, {
+    method: "GET",
+    headers: options?.background ? { [BACKGROUND_REQUEST_HEADER]: "1" } : undefined,
+  });
   const data = (await response.json().catch(() => ({}))) as T & {
     error?: string;
   };
@@ -249,12 +302,25 @@ async function postJson<T>(url: string, payload: Record<string, unknown>) {
   return data;
 }
 
-export default function PatientClient({ tenantId }: Props) {
-  const { language, setLanguage, t } = useLanguage();
+export default function PatientClient({ tenantId, timeZone, defaultLanguage }: Props) {
+  const { language, setLanguage, t } = useLanguage(defaultLanguage.toLowerCase() as Language);
+  const deliveryLabels = useMemo(
+    () => ({
+      QUEUED: t.deliveryQueued,
+      SENT: t.deliverySent,
+      DELIVERED: t.deliveryDelivered,
+      READ: t.deliveryRead,
+      FAILED: t.deliveryFailed,
+    }),
+    [t],
+  );
   const keyboardInset = useKeyboardInset();
   const [conversations, setConversations] = useState<ConversationItem[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [messages, setMessages] = useState<MessageItem[]>([]);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
   const [typingId, setTypingId] = useState<string | null>(null);
   const [typingText, setTypingText] = useState("");
   const [typingIndex, setTypingIndex] = useState(0);
@@ -276,6 +342,20 @@ export default function PatientClient({ tenantId }: Props) {
   const [pendingAudioBlob, setPendingAudioBlob] = useState<Blob | null>(null);
   const MAX_RECORD_SECONDS = 120;
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [showDiary, setShowDiary] = useState(false);
+  const [diaryDraft, setDiaryDraft] = useState<DiaryDraft>(EMPTY_DIARY_DRAFT);
+  const [diaryEntries, setDiaryEntries] = useState<DiaryEntry[]>([]);
+  const [dataExports, setDataExports] = useState<DataExportItem[]>([]);
+  const [exportPassword, setExportPassword] = useState("");
+  const [issuedExportPassword, setIssuedExportPassword] = useState<string | null>(null);
+  const diaryLabels: Record<DiaryField, string> = {
+    event: t.patientDiaryEvent,
+    thought: t.patientDiaryThought,
+    emotion: t.patientDiaryEmotion,
+    body: t.patientDiaryBody,
+    action: t.patientDiaryAction,
+    result: t.patientDiaryResult,
+  };
 
   const selectedConversation = useMemo(
     () => conversations.find((conv) => conv.id === selectedId) ?? null,
@@ -284,16 +364,21 @@ export default function PatientClient({ tenantId }: Props) {
   const locale = language === "pt" ? "pt-BR" : language === "es" ? "es-ES" : "en-US";
   const formatTime = (value: string) =>
     new Intl.DateTimeFormat(locale, {
+      timeZone,
       hour: "2-digit",
       minute: "2-digit",
     }).format(new Date(value));
+  const formatDateTime = (value: string) =>
+    new Intl.DateTimeFormat(locale, {
+      timeZone,
+      dateStyle: "short",
+      timeStyle: "short",
+    }).format(new Date(value));
+  const dayKey = (value: string | Date) => formatDateInTimeZone(new Date(value), timeZone);
   const formatDayLabel = (value: string) => {
     const date = new Date(value);
-    const now = new Date();
-    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const startOfDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
     const diffDays =
-      (startOfToday.getTime() - startOfDate.getTime()) / (24 * 60 * 60 * 1000);
+      (Date.parse(dayKey(new Date())) - Date.parse(dayKey(date))) / (24 * 60 * 60 * 1000);
     if (diffDays === 0) {
       return t.chatToday;
     }
@@ -301,6 +386,7 @@ export default function PatientClient({ tenantId }: Props) {
       return t.chatYesterday;
     }
     return new Intl.DateTimeFormat(locale, {
+      timeZone,
       day: "2-digit",
       month: "short",
       year: "numeric",
@@ -390,16 +476,18 @@ export default function PatientClient({ tenantId }: Props) {
 
   const loadMessages = async (
     conversationId: string,
-    options?: { silent?: boolean; forceBottom?: boolean },
+    options?: { silent?: boolean; forceBottom?: boolean; background?: boolean },
   ) => {
     if (!options?.silent) {
       setLoading(true);
     }
     try {
-      const data = await getJson<{ items: MessageItem[] }>(
+      const data = await getJson<{ items: MessageItem[]; hasMore: boolean }>(
         `/api/messages?conversationId=${conversationId}`,
+        { background: options?.background },
       );
       setMessages(data.items ?? []);
+      setHasOlderMessages(data.hasMore);
       if (options?.forceBottom) {
         requestAnimationFrame(() => {
           const container = messageListRef.current;
@@ -421,6 +509,190 @@ export default function PatientClient({ tenantId }: Props) {
     }
   };
 
+  // Pulls in whatever arrived after the newest message we hold, keeping any
+  // older history the patient has already scrolled back through.
+  const refreshMessages = async (
+    conversationId: string,
+    options?: { forceBottom?: boolean; background?: boolean },
+  ) => {
+    const newest = [...messages].reverse().find((message) => message.cursor);
+    if (!newest?.cursor) {
+      await loadMessages(conversationId, { silent: true, ...options });
+      return;
+    }
+    try {
+      const data = await getJson<{ items: MessageItem[]; hasMore: boolean }>(
+        `/api/messages?conversationId=${conversationId}&after=${encodeURIComponent(
+          newest.cursor,
+        )}&limit=100`,
+        { background: options?.background },
+      );
+      if (data.hasMore) {
+        await loadMessages(conversationId, { silent: true, ...options });
+        return;
+      }
+      setMessages((current) =>
+        mergeMessages(
+          current.filter((message) => !message.id.startsWith("temp-")),
+          data.items ?? [],
+        ),
+      );
+      if (options?.forceBottom) {
+        shouldAutoScrollRef.current = true;
+      }
+      setStatus("");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    const oldest = messages.find((message) => message.cursor);
+    if (!selectedId || !oldest?.cursor || !hasOlderMessages || loadingOlder) {
+      return;
+    }
+    setLoadingOlder(true);
+    try {
+      const data = await getJson<{ items: MessageItem[]; hasMore: boolean }>(
+        `/api/messages?conversationId=${selectedId}&before=${encodeURIComponent(
+          oldest.cursor,
+        )}`,
+      );
+      const container = messageListRef.current;
+      if (container) {
+        scrollRestoreRef.current = {
+          height: container.scrollHeight,
+          top: container.scrollTop,
+        };
+      }
+      setMessages((current) => mergeMessages(current, data.items ?? []));
+      setHasOlderMessages(data.hasMore);
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const loadDiaryEntries = async (conversationId: string) => {
+    try {
+      const data = await getJson<{ items: DiaryEntry[] }>(
+        `/api/records?conversationId=${conversationId}&limit=5`,
+      );
+      setDiaryEntries(data.items ?? []);
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    if (!showDiary || !selectedId) {
+      return;
+    }
+    void loadDiaryEntries(selectedId);
+  }, [showDiary, selectedId]);
+
+  const handleSaveDiaryEntry = async () => {
+    if (!selectedId) {
+      return;
+    }
+    if (!diaryDraft.event.trim()) {
+      setStatus(t.patientDiaryEventRequired);
+      return;
+    }
+    const optional = (value: string) => value.trim() || undefined;
+    try {
+      setLoading(true);
+      await postJson("/api/records", {
+        tenantId,
+        conversationId: selectedId,
+        event: diaryDraft.event.trim(),
+        thought: optional(diaryDraft.thought),
+        emotion: optional(diaryDraft.emotion),
+        body: optional(diaryDraft.body),
+        action: optional(diaryDraft.action),
+        result: optional(diaryDraft.result),
+        intensity: diaryDraft.intensity,
+      });
+      setDiaryDraft(EMPTY_DIARY_DRAFT);
+      setStatus(t.patientDiarySaved);
+      await loadDiaryEntries(selectedId);
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDataExports = async (options?: { background?: boolean }) => {
+    try {
+      const data = await getJson<{ items: DataExportItem[] }>("/api/exports", options);
+      setDataExports(data.items ?? []);
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    void loadDataExports();
+  }, []);
+
+  // Pending exports are built by the worker; poll until they settle.
+  const hasPendingExport = dataExports.some(
+    (item) => item.status === "PENDING" || item.status === "RUNNING",
+  );
+  useEffect(() => {
+    if (!hasPendingExport) {
+      return;
+    }
+    const timer = window.setInterval(
+      () => void loadDataExports({ background: true }),
+      10000,
+    );
+    return () => window.clearInterval(timer);
+  }, [hasPendingExport]);
+
+  const handleRequestExport = async () => {
+    try {
+      setLoading(true);
+      const data = await postJson<{ password: string }>("/api/exports", {});
+      setIssuedExportPassword(data.password);
+      await loadDataExports();
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownloadExport = async (exportId: string) => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/exports/${exportId}/download`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password: exportPassword }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data.error ?? "Request failed");
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `psyos-export-${exportId}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setExportPassword("");
+      setIssuedExportPassword(null);
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setLoading(false);
+      await loadDataExports();
+    }
+  };
+
   const handleSelectConversation = async (conversationId: string) => {
     setSelectedId(conversationId);
     shouldAutoScrollRef.current = true;
@@ -454,7 +726,7 @@ export default function PatientClient({ tenantId }: Props) {
         content: trimmed,
       });
       setMessageDraft("");
-      await loadMessages(selectedId, { silent: true, forceBottom: true });
+      await refreshMessages(selectedId, { forceBottom: true });
     } catch (error) {
       setMessages(previousMessages);
       setStatus((error as Error).message);
@@ -508,7 +780,7 @@ export default function PatientClient({ tenantId }: Props) {
       if (!response.ok) {
         throw new Error(data.error ?? "Request failed");
       }
-      await loadMessages(selectedId, { forceBottom: true });
+      await refreshMessages(selectedId, { forceBottom: true });
     } catch (error) {
       setStatus((error as Error).message);
     } finally {
@@ -628,15 +900,27 @@ export default function PatientClient({ tenantId }: Props) {
     }
   }, [selectedId]);
 
-  useEffect(() => {
-    if (!selectedId) {
+  useConversationStream<MessageItem>(selectedId, {
+    onMessage: (item) => setMessages((current) => mergeMessage(current, item)),
+    // Catching up after a reconnect is not the patient's activity.
+    onReconnect: () => {
+      if (selectedId) {
+        refreshMessages(selectedId, { background: true });
+      }
+    },
+  });
+
+  // Keep the viewport anchored on the message the patient was reading when
+  // older history is prepended above it.
+  useLayoutEffect(() => {
+    const container = messageListRef.current;
+    const restore = scrollRestoreRef.current;
+    if (!container || !restore) {
       return;
     }
-    const interval = setInterval(() => {
-      loadMessages(selectedId, { silent: true });
-    }, 5000);
-    return () => clearInterval(interval);
-  }, [selectedId]);
+    container.scrollTop = container.scrollHeight - restore.height + restore.top;
+    scrollRestoreRef.current = null;
+  }, [messages]);
 
   useEffect(() => {
     const container = messageListRef.current;
@@ -668,6 +952,9 @@ export default function PatientClient({ tenantId }: Props) {
       threshold;
     shouldAutoScrollRef.current = isNearBottom;
     setShowScrollToBottom(!isNearBottom);
+    if (container.scrollTop < threshold) {
+      loadOlderMessages();
+    }
   };
 
   const asideContent = (
@@ -734,7 +1021,7 @@ export default function PatientClient({ tenantId }: Props) {
                   />
                 </div>
                 <p className="mt-2 text-xs text-[color:var(--ink-500)]">
-                  {new Date(conv.updatedAt).toLocaleString()}
+                  {formatDateTime(conv.updatedAt)}
                 </p>
               </button>
             );
@@ -742,6 +1029,196 @@ export default function PatientClient({ tenantId }: Props) {
         </div>
       </div>
 
+      <div className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-[0.25em] text-[color:var(--ink-500)]">
+              {t.patientDiaryTitle}
+            </p>
+            <p className="mt-2 text-xs text-[color:var(--ink-500)]">{t.patientDiaryHint}</p>
+          </div>
+          <button
+            type="button"
+            className="shrink-0 rounded-full border border-black/10 px-3 py-1 text-xs font-semibold text-[color:var(--ink-900)] disabled:opacity-60"
+            onClick={() => setShowDiary((current) => !current)}
+            disabled={!selectedId}
+          >
+            {showDiary ? t.commonClose : t.patientDiaryNew}
+          </button>
+        </div>
+
+        {showDiary ? (
+          <div className="mt-4 space-y-3">
+            {DIARY_FIELDS.map((field) => (
+              <textarea
+                key={field}
+                className="min-h-[44px] w-full rounded-2xl border border-black/10 bg-white/90 px-3 py-2 text-sm"
+                placeholder={diaryLabels[field]}
+                value={diaryDraft[field]}
+                onChange={(event) =>
+                  setDiaryDraft((current) => ({ ...current, [field]: event.target.value }))
+                }
+                rows={field === "event" ? 2 : 1}
+              />
+            ))}
+            <label className="block text-xs text-[color:var(--ink-500)]">
+              {t.patientDiaryIntensity}: {diaryDraft.intensity}/10
+              <input
+                className="mt-1 w-full accent-[color:var(--accent-500)]"
+                type="range"
+                min={0}
+                max={10}
+                step={1}
+                value={diaryDraft.intensity}
+                onChange={(event) =>
+                  setDiaryDraft((current) => ({
+                    ...current,
+                    intensity: Number(event.target.value),
+                  }))
+                }
+              />
+            </label>
+            <button
+              type="button"
+              className="h-10 w-full rounded-xl bg-[color:var(--accent-500)] text-xs font-semibold text-white disabled:opacity-60"
+              onClick={handleSaveDiaryEntry}
+              disabled={loading || !diaryDraft.event.trim()}
+            >
+              {t.patientDiarySave}
+            </button>
+
+            <div className="pt-2">
+              <p className="text-xs uppercase tracking-[0.2em] text-[color:var(--ink-500)]">
+                {t.patientDiaryRecent}
+              </p>
+              {diaryEntries.length === 0 ? (
+                <p className="mt-2 text-xs text-[color:var(--ink-500)]">{t.patientDiaryEmpty}</p>
+              ) : (
+                <div className="mt-2 space-y-2">
+                  {diaryEntries.map((entry) => (
+                    <div
+                      key={entry.id}
+                      className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] px-3 py-2 text-xs"
+                    >
+                      <p className="font-semibold text-[color:var(--ink-900)]">
+                        {entry.dataJson.event}
+                      </p>
+                      <p className="mt-1 text-[11px] text-[color:var(--ink-500)]">
+                        {formatDateTime(entry.createdAt)}
+                        {typeof entry.dataJson.intensity === "number"
+                          ? ` · ${entry.dataJson.intensity}/10`
+                          : ""}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-[0.25em] text-[color:var(--ink-500)]">
+              {t.patientExportTitle}
+            </p>
+            <p className="mt-2 text-xs text-[color:var(--ink-500)]">{t.patientExportHint}</p>
+          </div>
+          <button
+            type="button"
+            className="shrink-0 rounded-full border border-black/10 px-3 py-1 text-xs font-semibold text-[color:var(--ink-900)] disabled:opacity-60"
+            onClick={handleRequestExport}
+            disabled={
+              loading ||
+              hasPendingExport
+            }
+          >
+            {t.patientExportRequest}
+          </button>
+        </div>
+        {issuedExportPassword ? (
+          <div className="mt-4 rounded-2xl border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-[color:var(--ink-700)]">
+            <p>{t.patientExportPasswordOnce}</p>
+            <p className="mt-1 font-mono text-sm font-semibold tracking-[0.15em] text-[color:var(--ink-900)]">
+              {issuedExportPassword}
+            </p>
+          </div>
+        ) : null}
+        {dataExports.length === 0 ? (
+          <p className="mt-3 text-xs text-[color:var(--ink-500)]">{t.patientExportEmpty}</p>
+        ) : (
+          <div className="mt-3 space-y-2">
+            {dataExports.slice(0, 3).map((item) => (
+              <div
+                key={item.id}
+                className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] px-3 py-2 text-xs"
+              >
+                <p className="text-[color:var(--ink-900)]">
+                  {formatDateTime(item.createdAt)} ·{" "}
+                  {item.status === "READY" && item.expiresAt
+                    ? `${t.patientExportReady} ${formatDateTime(item.expiresAt)}`
+                    : item.status === "DOWNLOADED"
+                      ? t.patientExportDownloaded
+                      : item.status === "EXPIRED"
+                        ? t.patientExportExpired
+                        : item.status === "FAILED"
+                          ? item.tooLarge
+                            ? t.patientExportTooLarge
+                            : t.patientExportFailed
+                          : t.patientExportPending}
+                </p>
+                {item.status === "READY" ? (
+                  <div className="mt-2 flex gap-2">
+                    <input
+                      className="h-9 min-w-0 flex-1 rounded-xl border border-black/10 bg-white px-3"
+                      placeholder={t.patientExportPassword}
+                      autoComplete="off"
+                      value={exportPassword}
+                      onChange={(event) => setExportPassword(event.target.value)}
+                    />
+                    <button
+                      type="button"
+                      className="h-9 rounded-xl bg-[color:var(--accent-500)] px-3 font-semibold text-white disabled:opacity-60"
+                      onClick={() => handleDownloadExport(item.id)}
+                      disabled={loading || !exportPassword.trim()}
+                    >
+                      {t.patientExportDownload}
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-[28px] border border-black/10 bg-white/80 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+        <p className="text-xs uppercase tracking-[0.25em] text-[color:var(--ink-500)]">
+          {t.sessionsTitle}
+        </p>
+        <p className="mt-2 text-xs text-[color:var(--ink-500)]">{t.sessionsHint}</p>
+        <div className="mt-3">
+          <SessionList
+            endpoint="/api/auth/sessions"
+            labels={{
+              current: t.sessionCurrent,
+              lastSeen: t.sessionLastSeen,
+              signedInAt: t.sessionSignedInAt,
+              unknownDevice: t.sessionUnknownDevice,
+              revoke: t.sessionRevoke,
+              signOut: t.sessionSignOut,
+              revokeAll: t.sessionRevokeAll,
+              empty: t.sessionsEmpty,
+              loading: t.loading,
+            }}
+            formatDateTime={formatDateTime}
+            canSignOutCurrent
+          />
+        </div>
+      </div>
+
       <div className="rounded-[28px] border border-black/10 bg-white/80 p-6 text-sm text-[color:var(--ink-500)]">
         {t.patientWhatsAppHint}
       </div>
@@ -865,12 +1342,28 @@ export default function PatientClient({ tenantId }: Props) {
               onScroll={handleMessageScroll}
               className="h-full space-y-4 overflow-y-auto overscroll-contain px-2 pb-28 pt-1 sm:pb-2"
             >
+              {hasOlderMessages ? (
+                <div className="flex justify-center">
+                  <button
+                    type="button"
+                    className="rounded-full border border-black/10 bg-white/80 px-3 py-1 text-[11px] font-semibold text-[color:var(--ink-500)] shadow-[0_8px_18px_var(--shadow-color)] disabled:opacity-60"
+                    onClick={loadOlderMessages}
+                    disabled={loadingOlder}
+                  >
+                    {loadingOlder ? t.loadingOlderMessages : t.loadOlderMessages}
+                  </button>
+                </div>
+              ) : messages.length ? (
+                <p className="text-center text-[11px] text-[color:var(--ink-500)]">
+                  {t.historyStart}
+                </p>
+              ) : null}
               {messages.map((message, index) => {
                 const previous = messages[index - 1];
                 const showDayLabel =
                   !previous ||
-                  new Date(previous.createdAt).toDateString() !==
-                    new Date(message.createdAt).toDateString();
+                  dayKey(previous.createdAt) !== dayKey(message.createdAt);
+                const attachmentKind = getAttachmentKind(message.attachmentMime);
                 return (
                   <div key={message.id} className="space-y-3">
                     {showDayLabel ? (
@@ -935,7 +1428,7 @@ export default function PatientClient({ tenantId }: Props) {
                         <div className={message.authorType !== "PATIENT" ? "mt-2" : ""}>
                           {message.deletedAt ? (
                             <p className="italic opacity-70">{t.messageDeleted}</p>
-                          ) : (
+                          ) : attachmentKind === "audio" ? null : (
                             renderFormattedContent(
                               message.authorType === "AI" && typingId === message.id
                                 ? message.content.slice(0, typingIndex)
@@ -945,13 +1438,39 @@ export default function PatientClient({ tenantId }: Props) {
                         </div>
                         {message.hasAttachment && !message.deletedAt ? (
                           <div className="mt-3">
-                            <AudioMessage
-                              src={`/api/messages/attachment?messageId=${message.id}`}
-                            />
+                            {attachmentKind === "image" || attachmentKind === "document" ? (
+                              <FileAttachment
+                                src={`/api/messages/attachment?messageId=${message.id}`}
+                                kind={attachmentKind}
+                                label={
+                                  attachmentKind === "image"
+                                    ? t.attachmentImage
+                                    : t.attachmentDocument
+                                }
+                              />
+                            ) : (
+                              <AudioMessage
+                                src={`/api/messages/attachment?messageId=${message.id}`}
+                              />
+                            )}
+                            {attachmentKind === "audio" && message.content ? (
+                              <p className="mt-2 text-xs italic opacity-80">
+                                <span className="not-italic font-semibold">
+                                  {t.audioTranscript}:
+                                </span>{" "}
+                                {message.content}
+                              </p>
+                            ) : null}
                           </div>
                         ) : null}
-                        <div className="mt-2 text-[10px] text-right text-[color:var(--ink-500)]">
+                        <div className="mt-2 flex items-center justify-end gap-1 text-[10px] text-[color:var(--ink-500)]">
                           {formatTime(message.createdAt)}
+                          {message.deliveryStatus && !message.deletedAt ? (
+                            <DeliveryStatus
+                              status={message.deliveryStatus}
+                              labels={deliveryLabels}
+                            />
+                          ) : null}
                         </div>
                       </div>
                     </div>
@@ -1162,6 +1681,14 @@ export default function PatientClient({ tenantId }: Props) {
           </div>
         ) : null}
       </section>
+
+      <SessionTimeout
+        labels={{
+          idleWarning: t.sessionIdleWarning,
+          absoluteWarning: t.sessionAbsoluteWarning,
+          stay: t.sessionStay,
+        }}
+      />
     </div>
   );
 }
@@ -2,6 +2,7 @@ import { redirect } from "next/navigation";
 import { getSession } from "@/lib/auth/session";
 import { resolveHomeForUser } from "@/lib/auth/portal";
 import PatientClient from "@/app/patient/PatientClient";
+import { prisma } from "@/lib/prisma";
 
 export default async function PatientPage() {
   const session = await getSession();
@@ -15,9 +16,17 @@ export default async function PatientPage() {
     redirect(resolveHomeForUser(session.user));
   }
 
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: session.user.tenantId },
+  });
+
   return (
     <div className="h-dvh overflow-hidden px-0 pb-0 pt-0 sm:h-auto sm:min-h-dvh sm:overflow-visible sm:px-6 sm:pb-12 sm:pt-10">
-      <PatientClient tenantId={session.user.tenantId} />
+      <PatientClient
+        tenantId={session.user.tenantId}
+        timeZone={tenant?.timeZone ?? "UTC"}
+        defaultLanguage={tenant?.defaultLanguage ?? "ES"}
+      />
     </div>
   );
 }
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+
+type Rotation = {
+  id: string;
+  targetKeyId: string;
+  status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+  rewrappedCount: number;
+  lastError: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+};
+
+type Props = {
+  currentKeyId: string;
+  initialStale: Record<string, number>;
+  initialRotations: Rotation[];
+};
+
+const STATUS_LABELS: Record<Rotation["status"], string> = {
+  PENDING: "Na fila",
+  RUNNING: "Em andamento",
+  COMPLETED: "Concluida",
+  FAILED: "Falhou",
+};
+
+const STALE_LABELS: Record<string, string> = {
+  conversationDek: "DEKs de conversa",
+  previousConversationDek: "DEKs anteriores (rotacao em curso)",
+  whatsappApiKey: "API keys de WhatsApp",
+  tenantSearchKey: "Chaves de busca",
+};
+
+export default function KeyRotationClient({
+  currentKeyId,
+  initialStale,
+  initialRotations,
+}: Props) {
+  const [stale, setStale] = useState(initialStale);
+  const [rotations, setRotations] = useState(initialRotations);
+  const [status, setStatus] = useState("");
+
+  const staleTotal = Object.values(stale).reduce((sum, value) => sum + value, 0);
+
+  const refresh = async () => {
+    const response = await fetch("/api/system/kek/rotations");
+    const data = (await response.json().catch(() => ({}))) as {
+      stale?: Record<string, number>;
+      items?: Rotation[];
+      error?: string;
+    };
+    if (!response.ok) {
+      setStatus(data.error ?? "Erro ao carregar rotacoes.");
+      return;
+    }
+    setStale(data.stale ?? {});
+    setRotations(data.items ?? []);
+    setStatus("");
+  };
+
+  const handleStart = async () => {
+    if (
+      !window.confirm(
+        `Re-embrulhar todas as chaves com a KEK ${currentKeyId}? O worker precisa estar rodando com a mesma configuracao.`,
+      )
+    ) {
+      return;
+    }
+    setStatus("Enfileirando...");
+    const response = await fetch("/api/system/kek/rotations", { method: "POST" });
+    const data = (await response.json().catch(() => ({}))) as { error?: string };
+    if (!response.ok) {
+      setStatus(data.error ?? "Erro ao iniciar rotacao.");
+      return;
+    }
+    await refresh();
+    setStatus("Rotacao enfileirada.");
+  };
+
+  return (
+    <div className="rounded-[24px] border border-black/10 bg-white/85 p-6 shadow-[0_18px_40px_var(--shadow-color)]">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl text-[color:var(--ink-900)]">Chave mestra (KEK)</h2>
+          <p className="mt-1 text-xs text-[color:var(--ink-500)]">
+            KEK atual: <span className="font-mono">{currentKeyId}</span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            className="h-10 rounded-xl border border-black/10 bg-white/80 px-4 text-xs font-semibold text-[color:var(--ink-900)]"
+            type="button"
+            onClick={refresh}
+          >
+            Atualizar
+          </button>
+          <button
+            className="h-10 rounded-xl bg-[color:var(--accent-500)] px-4 text-xs font-semibold text-white disabled:opacity-60"
+            type="button"
+            onClick={handleStart}
+            disabled={staleTotal === 0}
+          >
+            Re-embrulhar chaves
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2 text-xs text-[color:var(--ink-700)]">
+        {Object.entries(stale).map(([name, count]) => (
+          <span
+            key={name}
+            className="rounded-full border border-black/10 bg-[color:var(--surface-100)] px-3 py-1"
+          >
+            {STALE_LABELS[name] ?? name}: {count} pendente(s)
+          </span>
+        ))}
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {rotations.map((rotation) => (
+          <div
+            key={rotation.id}
+            className="rounded-2xl border border-black/10 bg-[color:var(--surface-100)] px-4 py-3 text-xs text-[color:var(--ink-700)]"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-semibold text-[color:var(--ink-900)]">
+                {rotation.targetKeyId} · {STATUS_LABELS[rotation.status]}
+              </p>
+              <p>{new Date(rotation.createdAt).toLocaleString()}</p>
+            </div>
+            <p className="mt-1">
+              {rotation.rewrappedCount} chave(s) re-embrulhada(s)
+              {rotation.completedAt
+                ? ` · concluida em ${new Date(rotation.completedAt).toLocaleString()}`
+                : ""}
+            </p>
+            {rotation.lastError ? (
+              <p className="mt-1 text-red-700">{rotation.lastError}</p>
+            ) : null}
+          </div>
+        ))}
+        {rotations.length === 0 ? (
+          <p className="text-xs text-[color:var(--ink-500)]">Nenhuma rotacao registrada.</p>
+        ) : null}
+      </div>
+
+      {status ? <p className="mt-3 text-xs text-[color:var(--ink-500)]">{status}</p> : null}
+    </div>
+  );
+}
@@ -2,10 +2,26 @@
 
 import { useState } from "react";
 
+type Channel = {
+  id: string;
+  instanceName: string;
+  apiBaseUrl: string;
+  isActive: boolean;
+  updatedAt: string;
+};
+
 type Tenant = {
   id: string;
   name: string;
   createdAt: string;
+  channel: Channel | null;
+};
+
+const EMPTY_CHANNEL_FORM = {
+  instanceName: "",
+  apiBaseUrl: "",
+  apiKey: "",
+  isActive: true,
 };
 
 type Props = {
@@ -17,6 +33,92 @@ export default function TenantsClient({ initialTenants }: Props) {
   const [name, setName] = useState("");
   const [adminEmail, setAdminEmail] = useState("");
   const [status, setStatus] = useState("");
+  const [editingTenantId, setEditingTenantId] = useState<string | null>(null);
+  const [channelForm, setChannelForm] = useState(EMPTY_CHANNEL_FORM);
+  const [channelStatus, setChannelStatus] = useState("");
+  const [webhookSecret, setWebhookSecret] = useState("");
+
+  const updateTenantChannel = (tenantId: string, channel: Channel | null) => {
+    setTenants((current) =>
+      current.map((tenant) =>
+        tenant.id === tenantId ? { ...tenant, channel } : tenant,
+      ),
+    );
+  };
+
+  const openChannelEditor = (tenant: Tenant) => {
+    setEditingTenantId(tenant.id);
+    setChannelForm(
+      tenant.channel
+        ? {
+            instanceName: tenant.channel.instanceName,
+            apiBaseUrl: tenant.channel.apiBaseUrl,
+            apiKey: "",
+            isActive: tenant.channel.isActive,
+          }
+        : EMPTY_CHANNEL_FORM,
+    );
+    setChannelStatus("");
+    setWebhookSecret("");
+  };
+
+  const handleSaveChannel = async (tenant: Tenant, rotateSecret = false) => {
+    if (!channelForm.instanceName.trim() || !channelForm.apiBaseUrl.trim()) {
+      setChannelStatus("Informe a instancia e a URL da API.");
+      return;
+    }
+    if (!tenant.channel && !channelForm.apiKey.trim()) {
+      setChannelStatus("Informe a API key da instancia.");
+      return;
+    }
+    setChannelStatus("Salvando...");
+    const response = await fetch(`/api/system/tenants/${tenant.id}/channel`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        instanceName: channelForm.instanceName,
+        apiBaseUrl: channelForm.apiBaseUrl,
+        apiKey: channelForm.apiKey || undefined,
+        isActive: channelForm.isActive,
+        rotateSecret,
+      }),
+    });
+    const data = (await response.json().catch(() => ({}))) as {
+      channel?: Channel;
+      webhookSecret?: string | null;
+      error?: string;
+    };
+    if (!response.ok || !data.channel) {
+      setChannelStatus(data.error ?? "Erro ao salvar canal.");
+      return;
+    }
+    updateTenantChannel(tenant.id, data.channel);
+    setChannelForm((current) => ({ ...current, apiKey: "" }));
+    setWebhookSecret(data.webhookSecret ?? "");
+    setChannelStatus(
+      data.webhookSecret
+        ? "Canal salvo. Copie o segredo do webhook agora; ele nao sera exibido novamente."
+        : "Canal salvo.",
+    );
+  };
+
+  const handleDeleteChannel = async (tenant: Tenant) => {
+    if (!window.confirm("Remover o canal de WhatsApp deste tenant?")) {
+      return;
+    }
+    setChannelStatus("Removendo...");
+    const response = await fetch(`/api/system/tenants/${tenant.id}/channel`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setChannelStatus("Erro ao remover canal.");
+      return;
+    }
+    updateTenantChannel(tenant.id, null);
+    setChannelForm(EMPTY_CHANNEL_FORM);
+    setWebhookSecret("");
+    setChannelStatus("Canal removido.");
+  };
 
   const handleCreate = async () => {
     if (!name.trim()) {
@@ -90,6 +192,103 @@ export default function TenantsClient({ initialTenants }: Props) {
                 {tenant.name}
               </p>
               <p className="text-xs text-[color:var(--ink-500)]">{tenant.id}</p>
+              <div className="mt-3 flex items-center justify-between gap-3">
+                <p className="text-xs text-[color:var(--ink-700)]">
+                  {tenant.channel
+                    ? `WhatsApp: ${tenant.channel.instanceName}${
+                        tenant.channel.isActive ? "" : " (inativo)"
+                      }`
+                    : "WhatsApp nao configurado"}
+                </p>
+                <button
+                  className="rounded-full border border-black/10 bg-white/80 px-3 py-1 text-xs font-semibold text-[color:var(--ink-900)]"
+                  type="button"
+                  onClick={() =>
+                    editingTenantId === tenant.id
+                      ? setEditingTenantId(null)
+                      : openChannelEditor(tenant)
+                  }
+                >
+                  {editingTenantId === tenant.id ? "Fechar" : "Configurar"}
+                </button>
+              </div>
+              {editingTenantId === tenant.id ? (
+                <div className="mt-3 space-y-2">
+                  <input
+                    className="h-10 w-full rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+                    placeholder="Nome da instancia"
+                    value={channelForm.instanceName}
+                    onChange={(event) =>
+                      setChannelForm({ ...channelForm, instanceName: event.target.value })
+                    }
+                  />
+                  <input
+                    className="h-10 w-full rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+                    placeholder="URL da Evolution API"
+                    value={channelForm.apiBaseUrl}
+                    onChange={(event) =>
+                      setChannelForm({ ...channelForm, apiBaseUrl: event.target.value })
+                    }
+                  />
+                  <input
+                    className="h-10 w-full rounded-xl border border-black/10 bg-white/90 px-3 text-sm"
+                    placeholder={
+                      tenant.channel ? "API key (manter atual)" : "API key da instancia"
+                    }
+                    type="password"
+                    autoComplete="off"
+                    value={channelForm.apiKey}
+                    onChange={(event) =>
+                      setChannelForm({ ...channelForm, apiKey: event.target.value })
+                    }
+                  />
+                  <label className="flex items-center gap-2 text-xs text-[color:var(--ink-700)]">
+                    <input
+                      type="checkbox"
+                      checked={channelForm.isActive}
+                      onChange={(event) =>
+                        setChannelForm({ ...channelForm, isActive: event.target.checked })
+                      }
+                    />
+                    Canal ativo
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      className="h-10 rounded-xl bg-[color:var(--accent-500)] px-4 text-xs font-semibold text-white"
+                      type="button"
+                      onClick={() => handleSaveChannel(tenant)}
+                    >
+                      Salvar
+                    </button>
+                    {tenant.channel ? (
+                      <>
+                        <button
+                          className="h-10 rounded-xl border border-black/10 bg-white/80 px-4 text-xs font-semibold text-[color:var(--ink-900)]"
+                          type="button"
+                          onClick={() => handleSaveChannel(tenant, true)}
+                        >
+                          Gerar novo segredo
+                        </button>
+                        <button
+                          className="h-10 rounded-xl border border-black/10 bg-white/80 px-4 text-xs font-semibold text-[color:var(--ink-900)]"
+                          type="button"
+                          onClick={() => handleDeleteChannel(tenant)}
+                        >
+                          Remover
+                        </button>
+                      </>
+                    ) : null}
+                  </div>
+                  {webhookSecret ? (
+                    <p className="break-all rounded-xl border border-black/10 bg-white/90 px-3 py-2 font-mono text-xs text-[color:var(--ink-900)]">
+                      {webhookSecret}
+                    </p>
+                  ) : null}
+                  {channelStatus ? (
+                    <p className="text-xs text-[color:var(--ink-500)]">{channelStatus}</p>
+                  ) : null}
+                </div>
+              ) : null}
             </div>
           ))}
         </div>
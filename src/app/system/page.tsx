@@ -2,7 +2,10 @@ import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { getSession } from "@/lib/auth/session";
 import { resolveHomeForUser } from "@/lib/auth/portal";
+import { getMasterKek } from "@/lib/crypto";
+import { countStaleWrappedKeys, toKeyRotationItem } from "@/lib/kek";
 import TenantsClient from "@/app/system/TenantsClient";
+import KeyRotationClient from "@/app/system/KeyRotationClient";
 
 export default async function SystemPage() {
   const session = await getSession();
@@ -15,12 +18,28 @@ export default async function SystemPage() {
 
   const tenants = await prisma.tenant.findMany({
     orderBy: { createdAt: "desc" },
+    include: { whatsappChannel: true },
   });
 
+  const { currentKeyId } = getMasterKek();
+  const [rotations, stale] = await Promise.all([
+    prisma.keyRotation.findMany({ orderBy: { createdAt: "desc" }, take: 20 }),
+    countStaleWrappedKeys(currentKeyId),
+  ]);
+
   const items = tenants.map((tenant) => ({
     id: tenant.id,
     name: tenant.name,
     createdAt: tenant.createdAt.toISOString(),
+    channel: tenant.whatsappChannel
+      ? {
+          id: tenant.whatsappChannel.id,
+          instanceName: tenant.whatsappChannel.instanceName,
+          apiBaseUrl: tenant.whatsappChannel.apiBaseUrl,
+          isActive: tenant.whatsappChannel.isActive,
+          updatedAt: tenant.whatsappChannel.updatedAt.toISOString(),
+        }
+      : null,
   }));
 
   return (
@@ -34,11 +53,17 @@ export default async function SystemPage() {
             Gestao de tenants
           </h1>
           <p className="mt-3 text-sm text-[color:var(--ink-700)]">
-            Crie e acompanhe clinicas e organizacoes.
+            Crie e acompanhe clinicas, organizacoes e seus canais de WhatsApp.
           </p>
         </header>
 
         <TenantsClient initialTenants={items} />
+
+        <KeyRotationClient
+          currentKeyId={currentKeyId}
+          initialStale={stale}
+          initialRotations={rotations.map(toKeyRotationItem)}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type SessionItem = {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+export type SessionListLabels = {
+  current: string;
+  lastSeen: string;
+  signedInAt: string;
+  unknownDevice: string;
+  revoke: string;
+  signOut: string;
+  revokeAll: string;
+  empty: string;
+  loading: string;
+};
+
+type Props = {
+  // `/api/auth/sessions` for the signed-in user, or the admin route for
+  // someone else's; both take DELETE on `${endpoint}/${id}` and `endpoint`.
+  endpoint: string;
+  labels: SessionListLabels;
+  formatDateTime: (value: string) => string;
+  // Only the owner may end the session they are using from here.
+  canSignOutCurrent?: boolean;
+};
+
+export function SessionList({ endpoint, labels, formatDateTime, canSignOutCurrent }: Props) {
+  const [items, setItems] = useState<SessionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const load = async () => {
+    const response = await fetch(endpoint);
+    const data = (await response.json().catch(() => ({}))) as {
+      items?: SessionItem[];
+      error?: string;
+    };
+    setLoading(false);
+    if (!response.ok) {
+      setError(data.error ?? "Request failed");
+      return;
+    }
+    setItems(data.items ?? []);
+    setError("");
+  };
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const revoke = async (url: string, signsOut: boolean) => {
+    setLoading(true);
+    const response = await fetch(url, { method: "DELETE" });
+    const data = (await response.json().catch(() => ({}))) as { error?: string };
+    if (!response.ok) {
+      setLoading(false);
+      setError(data.error ?? "Request failed");
+      return;
+    }
+    if (signsOut) {
+      window.location.href = "/login";
+      return;
+    }
+    await load();
+  };
+
+  const hasOthers = items.some((item) => !item.current);
+
+  return (
+    <div className="space-y-2 text-xs">
+      {loading && items.length === 0 ? (
+        <p className="text-[color:var(--ink-500)]">{labels.loading}</p>
+      ) : null}
+      {!loading && items.length === 0 ? (
+        <p className="text-[color:var(--ink-500)]">{labels.empty}</p>
+      ) : null}
+      {items.map((item) => (
+        <div
+          key={item.id}
+          className="flex items-start justify-between gap-3 rounded-2xl border border-black/10 bg-[color:var(--surface-100)] px-3 py-2"
+        >
+          <div className="min-w-0 space-y-1">
+            <p
+              className="truncate font-semibold text-[color:var(--ink-900)]"
+              title={item.userAgent ?? ""}
+            >
+              {item.userAgent ?? labels.unknownDevice}
+            </p>
+            <p className="text-[color:var(--ink-500)]">
+              {item.current ? `${labels.current} · ` : ""}
+              {item.ip ? `${item.ip} · ` : ""}
+              {labels.lastSeen} {formatDateTime(item.lastSeenAt)}
+            </p>
+            <p className="text-[color:var(--ink-500)]">
+              {labels.signedInAt} {formatDateTime(item.createdAt)}
+            </p>
+          </div>
+          {!item.current || canSignOutCurrent ? (
+            <button
+              type="button"
+              className="shrink-0 font-semibold text-[color:var(--ink-700)] underline disabled:opacity-60"
+              onClick={() => revoke(`${endpoint}/${item.id}`, item.current)}
+              disabled={loading}
+            >
+              {item.current ? labels.signOut : labels.revoke}
+            </button>
+          ) : null}
+        </div>
+      ))}
+      {hasOthers ? (
+        <button
+          type="button"
+          className="font-semibold text-red-700 underline disabled:opacity-60"
+          onClick={() => revoke(endpoint, false)}
+          disabled={loading}
+        >
+          {labels.revokeAll}
+        </button>
+      ) : null}
+      {error ? <p className="text-red-700">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+type SessionStatus = {
+  expiresAt: string;
+  idleExpiresAt: string | null;
+};
+
+export type SessionTimeoutLabels = {
+  idleWarning: string;
+  absoluteWarning: string;
+  stay: string;
+};
+
+type Props = {
+  labels: SessionTimeoutLabels;
+};
+
+const WARNING_MS = 2 * 60 * 1000;
+const REFRESH_MS = 60 * 1000;
+// Local activity (typing, scrolling) pings the server at most this often, so
+// writing a long note without sending it does not count as idle.
+const ACTIVITY_PING_MS = 60 * 1000;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll", "touchstart"] as const;
+
+const getDeadline = (status: SessionStatus) => {
+  const expiresAt = new Date(status.expiresAt).getTime();
+  if (!status.idleExpiresAt) {
+    return expiresAt;
+  }
+  return Math.min(expiresAt, new Date(status.idleExpiresAt).getTime());
+};
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Watches the idle and absolute deadlines of the current session, warns
+// shortly before either and sends the user to the login page when one passes.
+export function SessionTimeout({ labels }: Props) {
+  const [status, setStatus] = useState<SessionStatus | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const statusRef = useRef<SessionStatus | null>(null);
+  const lastPingRef = useRef(0);
+  const checkingRef = useRef(false);
+
+  const request = async (method: "GET" | "POST") => {
+    const response = await fetch("/api/auth/session", { method });
+    if (response.status === 401) {
+      window.location.href = "/login";
+      return;
+    }
+    const data = (await response.json().catch(() => ({}))) as { item?: SessionStatus };
+    if (response.ok && data.item) {
+      statusRef.current = data.item;
+      setStatus(data.item);
+    }
+  };
+
+  const keepAlive = () => {
+    lastPingRef.current = Date.now();
+    void request("POST");
+  };
+
+  useEffect(() => {
+    void request("GET");
+    const refresh = window.setInterval(() => void request("GET"), REFRESH_MS);
+    const tick = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      // Another tab may have kept the session alive, so ask the server
+      // before leaving; a 401 there is what redirects.
+      const latest = statusRef.current;
+      if (latest && getDeadline(latest) <= current && !checkingRef.current) {
+        checkingRef.current = true;
+        void request("GET").finally(() => {
+          checkingRef.current = false;
+        });
+      }
+    }, 1000);
+    const onActivity = () => {
+      if (Date.now() - lastPingRef.current >= ACTIVITY_PING_MS) {
+        keepAlive();
+      }
+    };
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, onActivity, { passive: true });
+    }
+    return () => {
+      window.clearInterval(refresh);
+      window.clearInterval(tick);
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, onActivity);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  if (!status) {
+    return null;
+  }
+  const deadline = getDeadline(status);
+  const remaining = deadline - now;
+  if (remaining > WARNING_MS) {
+    return null;
+  }
+  const idleBound =
+    status.idleExpiresAt !== null && new Date(status.idleExpiresAt).getTime() === deadline;
+
+  return (
+    <div
+      role="alert"
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md flex-wrap items-center justify-between gap-3 rounded-2xl border border-amber-300 bg-amber-50 px-4 py-3 text-xs text-[color:var(--ink-700)] shadow-[0_18px_40px_var(--shadow-color)]"
+    >
+      <p>
+        {idleBound ? labels.idleWarning : labels.absoluteWarning}{" "}
+        <span className="font-mono font-semibold text-[color:var(--ink-900)]">
+          {formatRemaining(remaining)}
+        </span>
+      </p>
+      {idleBound ? (
+        <button
+          type="button"
+          className="h-9 rounded-xl bg-[color:var(--accent-500)] px-3 font-semibold text-white"
+          onClick={keepAlive}
+        >
+          {labels.stay}
+        </button>
+      ) : null}
+    </div>
+  );
+}
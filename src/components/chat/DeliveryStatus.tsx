@@ -0,0 +1,52 @@
+export type MessageDeliveryStatus = "QUEUED" | "SENT" | "DELIVERED" | "READ" | "FAILED";
+
+type Props = {
+  status: MessageDeliveryStatus;
+  labels: Record<MessageDeliveryStatus, string>;
+};
+
+export function DeliveryStatus({ status, labels }: Props) {
+  const label = labels[status];
+
+  if (status === "FAILED") {
+    return (
+      <span
+        role="img"
+        aria-label={label}
+        title={label}
+        className="inline-flex h-3.5 w-3.5 items-center justify-center rounded-full bg-red-500 text-[9px] font-semibold leading-none text-white"
+      >
+        !
+      </span>
+    );
+  }
+
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      viewBox="0 0 24 24"
+      className={`h-3.5 w-3.5 ${status === "READ" ? "text-sky-500" : ""}`}
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <title>{label}</title>
+      {status === "QUEUED" ? (
+        <>
+          <circle cx="12" cy="12" r="8" />
+          <path d="M12 8v4l2.5 2" />
+        </>
+      ) : status === "SENT" ? (
+        <path d="M5 12.5l4.5 4.5L19 7.5" />
+      ) : (
+        <>
+          <path d="M2 12.5l4.5 4.5L16 7.5" />
+          <path d="M11 16l1 1 9.5-9.5" />
+        </>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,45 @@
+type Props = {
+  src: string;
+  kind: "image" | "document";
+  label: string;
+};
+
+export function FileAttachment({ src, kind, label }: Props) {
+  if (kind === "image") {
+    return (
+      <a href={src} target="_blank" rel="noreferrer" className="block">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={src}
+          alt={label}
+          loading="lazy"
+          className="max-h-64 w-auto rounded-2xl border border-black/10 object-contain"
+        />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={src}
+      className="inline-flex items-center gap-2 rounded-full border border-black/10 bg-white/70 px-3 py-1.5 text-xs font-medium text-[color:var(--ink-900)] transition hover:bg-white"
+    >
+      <svg
+        aria-hidden="true"
+        viewBox="0 0 24 24"
+        className="h-4 w-4"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="1.6"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        <path d="M14 3H6v18h12V7z" />
+        <path d="M14 3v4h4" />
+        <path d="M9 13h6" />
+        <path d="M9 17h6" />
+      </svg>
+      {label}
+    </a>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+type StreamHandlers<T> = {
+  onMessage: (item: T) => void;
+  onEpisode?: () => void;
+  onRecordDraft?: () => void;
+  onReconnect?: () => void;
+};
+
+export function mergeMessage<T extends { id: string; createdAt: string }>(
+  current: T[],
+  item: T,
+) {
+  const index = current.findIndex((message) => message.id === item.id);
+  if (index >= 0) {
+    const next = current.slice();
+    next[index] = item;
+    return next;
+  }
+  return [...current, item].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  );
+}
+
+export function mergeMessages<T extends { id: string; createdAt: string }>(
+  current: T[],
+  items: T[],
+) {
+  return items.reduce((merged, item) => mergeMessage(merged, item), current);
+}
+
+export function useConversationStream<T>(
+  conversationId: string | null,
+  handlers: StreamHandlers<T>,
+) {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!conversationId || typeof EventSource === "undefined") {
+      return;
+    }
+
+    const source = new EventSource(
+      `/api/messages/stream?conversationId=${encodeURIComponent(conversationId)}`,
+    );
+    let connected = false;
+
+    // Anything published while we were reconnecting is lost, so catch up.
+    source.addEventListener("ready", () => {
+      if (connected) {
+        handlersRef.current.onReconnect?.();
+      }
+      connected = true;
+    });
+    source.addEventListener("message", (event) => {
+      handlersRef.current.onMessage(JSON.parse((event as MessageEvent<string>).data) as T);
+    });
+    source.addEventListener("episode", () => {
+      handlersRef.current.onEpisode?.();
+    });
+    source.addEventListener("record_draft", () => {
+      handlersRef.current.onRecordDraft?.();
+    });
+
+    return () => source.close();
+  }, [conversationId]);
+}
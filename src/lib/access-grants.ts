@@ -0,0 +1,174 @@
+import type { ConversationAccessGrant, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/email";
+import { enqueueGrantNotification } from "@/lib/queues";
+
+export const MIN_JUSTIFICATION_LENGTH = 10;
+export const MAX_JUSTIFICATION_LENGTH = 1000;
+
+// The psychologist is emailed at most once per grant in this window, so a
+// stream that reconnects every few minutes does not flood their inbox; opens
+// in between are counted and reported together once it passes.
+const GRANT_NOTIFY_INTERVAL_MS = 60 * 60 * 1000;
+
+const getNotifyNotBefore = (lastNotifiedAt: Date | null) =>
+  lastNotifiedAt ? lastNotifiedAt.getTime() + GRANT_NOTIFY_INTERVAL_MS : 0;
+
+export function isGrantActive(grant: ConversationAccessGrant, now = new Date()) {
+  return grant.status === "ACTIVE" && (!grant.expiresAt || grant.expiresAt > now);
+}
+
+export async function findActiveAccessGrant(params: {
+  tenantId: string;
+  conversationId: string;
+  userId: string;
+}) {
+  return prisma.conversationAccessGrant.findFirst({
+    where: {
+      tenantId: params.tenantId,
+      conversationId: params.conversationId,
+      userId: params.userId,
+      status: "ACTIVE",
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+type GrantWithUsers = ConversationAccessGrant & {
+  user: { email: string | null };
+  grantedBy: { email: string | null } | null;
+};
+
+export function toAccessGrantItem(grant: GrantWithUsers) {
+  return {
+    id: grant.id,
+    conversationId: grant.conversationId,
+    userId: grant.userId,
+    userEmail: grant.user.email,
+    grantedByUserId: grant.grantedByUserId,
+    grantedByEmail: grant.grantedBy?.email ?? null,
+    status: grant.status,
+    active: isGrantActive(grant),
+    justification: grant.justification,
+    expiresAt: grant.expiresAt,
+    decidedAt: grant.decidedAt,
+    revokedAt: grant.revokedAt,
+    createdAt: grant.createdAt,
+  };
+}
+
+export const ACCESS_GRANT_INCLUDE = {
+  user: { select: { email: true } },
+  grantedBy: { select: { email: true } },
+} satisfies Prisma.ConversationAccessGrantInclude;
+
+async function emailPsychologist(params: {
+  tenantId: string;
+  psychologistUserId: string;
+  text: string;
+}) {
+  const psychologist = await prisma.user.findFirst({
+    where: { tenantId: params.tenantId, id: params.psychologistUserId },
+    select: { email: true },
+  });
+  if (!psychologist?.email) {
+    return;
+  }
+  await sendEmail({
+    to: psychologist.email,
+    subject: "PsyOS - Acesso de admin a uma conversa",
+    text: params.text,
+  });
+}
+
+// Counts an admin opening the conversation under a grant and queues the
+// email to its psychologist. Failing to queue never blocks the read: the open
+// stays counted and goes out with the next one.
+export async function notifyGrantUsed(params: {
+  tenantId: string;
+  conversation: { id: string; psychologistUserId: string };
+  adminUserId: string;
+}) {
+  const grant = await findActiveAccessGrant({
+    tenantId: params.tenantId,
+    conversationId: params.conversation.id,
+    userId: params.adminUserId,
+  });
+  if (!grant) {
+    return;
+  }
+  try {
+    // Counting before reading the window means a send finishing meanwhile
+    // either includes this open or leaves a window this open queues into.
+    const counted = await prisma.conversationAccessGrant.update({
+      where: { id: grant.id, tenantId: params.tenantId },
+      data: { unnotifiedUses: { increment: 1 } },
+      select: { lastNotifiedAt: true },
+    });
+    await enqueueGrantNotification({
+      tenantId: params.tenantId,
+      grantId: grant.id,
+      notBefore: getNotifyNotBefore(counted.lastNotifiedAt),
+    });
+  } catch (error) {
+    console.error(`[access-grant] notify for ${grant.id} failed:`, (error as Error).message);
+  }
+}
+
+// Run by the grant_notify worker. Emails the opens counted so far and only
+// then marks them notified; a failed send throws so the job is retried.
+export async function sendGrantUseNotice(params: { tenantId: string; grantId: string }) {
+  const grant = await prisma.conversationAccessGrant.findFirst({
+    where: { tenantId: params.tenantId, id: params.grantId },
+    include: { conversation: { select: { id: true, psychologistUserId: true } } },
+  });
+  if (!grant || grant.unnotifiedUses <= 0) {
+    return;
+  }
+  const uses = grant.unnotifiedUses;
+  await emailPsychologist({
+    tenantId: params.tenantId,
+    psychologistUserId: grant.conversation.psychologistUserId,
+    text:
+      `Um admin da clinica abriu a conversa ${grant.conversation.id} usando um acesso ` +
+      `concedido (${uses === 1 ? "1 vez" : `${uses} vezes`}` +
+      `${grant.lastNotifiedAt ? " desde o ultimo aviso" : ""}). ` +
+      `Justificativa: ${grant.justification || "-"}. ` +
+      `Os acessos ficam em Acessos de admin, no app.`,
+  });
+  const updated = await prisma.conversationAccessGrant.update({
+    where: { id: grant.id, tenantId: params.tenantId },
+    data: { unnotifiedUses: { decrement: uses }, lastNotifiedAt: new Date() },
+    select: { unnotifiedUses: true, lastNotifiedAt: true },
+  });
+  // Opens counted while the email was going out wait for the next window.
+  if (updated.unnotifiedUses > 0) {
+    await enqueueGrantNotification({
+      tenantId: params.tenantId,
+      grantId: grant.id,
+      notBefore: getNotifyNotBefore(updated.lastNotifiedAt),
+    });
+  }
+}
+
+export async function notifyGrantRequested(params: {
+  tenantId: string;
+  conversation: { id: string; psychologistUserId: string };
+  justification: string;
+}) {
+  try {
+    await emailPsychologist({
+      tenantId: params.tenantId,
+      psychologistUserId: params.conversation.psychologistUserId,
+      text:
+        `Um admin da clinica pediu acesso a conversa ${params.conversation.id}. ` +
+        `Justificativa: ${params.justification}. Aprove ou negue em Acessos de admin, no app.`,
+    });
+  } catch (error) {
+    console.error(
+      `[access-grant] request notice for ${params.conversation.id} failed:`,
+      (error as Error).message,
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import type { ChatMessage, ChatParams } from "@/lib/ai/openai";
+
+type AnthropicMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+// The Messages API takes the system prompt separately and requires turns to
+// alternate starting with the user, so merge runs of the same role.
+function toAnthropicMessages(messages: ChatMessage[]) {
+  const system = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+  const turns: AnthropicMessage[] = [];
+  for (const message of messages) {
+    if (message.role === "system" || !message.content.trim()) {
+      continue;
+    }
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content = `${last.content}\n\n${message.content}`;
+    } else if (turns.length > 0 || message.role === "user") {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+  return { system, turns };
+}
+
+export async function callAnthropic(params: ChatParams & { model: string }) {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY is not configured");
+  }
+  const baseUrl = (process.env.ANTHROPIC_BASE_URL ?? "https://api.anthropic.com").replace(
+    /\/+$/,
+    "",
+  );
+  const { system, turns } = toAnthropicMessages(params.messages);
+  if (turns.length === 0) {
+    throw new Error("Anthropic request has no user message");
+  }
+
+  const response = await fetch(`${baseUrl}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "x-api-key": apiKey,
+      "anthropic-version": "2023-06-01",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: params.model,
+      system: system || undefined,
+      messages: turns,
+      max_tokens: params.maxTokens ?? 300,
+      temperature: params.temperature ?? 0.4,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    console.error(
+      `[anthropic] ${response.status} ${response.statusText} ${errorText || "no body"}`,
+    );
+    throw new Error(
+      `Anthropic request failed (${response.status}): ${errorText || "no body"}`,
+    );
+  }
+
+  const data = (await response.json()) as {
+    content?: Array<{ type?: string; text?: string }>;
+    stop_reason?: string;
+  };
+  const content = (data.content ?? [])
+    .filter((block) => block.type === "text")
+    .map((block) => block.text ?? "")
+    .join("")
+    .trim();
+  if (!content) {
+    console.error("[anthropic] empty content response", {
+      stopReason: data.stop_reason,
+    });
+    throw new Error("Anthropic returned empty content");
+  }
+  return content;
+}
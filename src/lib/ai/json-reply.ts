@@ -0,0 +1,14 @@
+// Models wrap JSON in prose or code fences often enough that we take the
+// outermost object and ignore the rest. Null when there is no valid object.
+export function extractJsonObject(reply: string): unknown {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    return null;
+  }
+  try {
+    return JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,144 @@
+import type { LlmProvider } from "@prisma/client";
+import { callAnthropic } from "@/lib/ai/anthropic";
+import { callChatCompletions, callOpenAi, type ChatParams } from "@/lib/ai/openai";
+
+export const LLM_PROVIDERS: LlmProvider[] = [
+  "OPENAI",
+  "OPENAI_COMPATIBLE",
+  "AZURE_OPENAI",
+  "ANTHROPIC",
+];
+
+export type LlmSelection = {
+  provider: LlmProvider;
+  model: string;
+};
+
+type ProviderDefinition = {
+  isConfigured: () => boolean;
+  defaultModel: () => string;
+  complete: (model: string, params: ChatParams) => Promise<string>;
+};
+
+const PROVIDERS: Record<LlmProvider, ProviderDefinition> = {
+  OPENAI: {
+    isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+    defaultModel: () => process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+    complete: (model, params) => callOpenAi({ ...params, model }),
+  },
+  OPENAI_COMPATIBLE: {
+    isConfigured: () => Boolean(process.env.OPENAI_COMPATIBLE_BASE_URL),
+    defaultModel: () => process.env.OPENAI_COMPATIBLE_MODEL ?? "llama3.1",
+    complete: (model, params) => {
+      const baseUrl = (process.env.OPENAI_COMPATIBLE_BASE_URL ?? "").replace(/\/+$/, "");
+      const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+      return callChatCompletions(
+        {
+          label: "openai-compatible",
+          url: `${baseUrl}/chat/completions`,
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+          model,
+        },
+        params,
+      );
+    },
+  },
+  AZURE_OPENAI: {
+    isConfigured: () =>
+      Boolean(process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY),
+    defaultModel: () => process.env.AZURE_OPENAI_DEPLOYMENT ?? "gpt-4o-mini",
+    // On Azure the "model" is the deployment name.
+    complete: (model, params) => {
+      const endpoint = (process.env.AZURE_OPENAI_ENDPOINT ?? "").replace(/\/+$/, "");
+      const apiVersion = process.env.AZURE_OPENAI_API_VERSION ?? "2024-10-21";
+      return callChatCompletions(
+        {
+          label: "azure-openai",
+          url: `${endpoint}/openai/deployments/${encodeURIComponent(
+            model,
+          )}/chat/completions?api-version=${apiVersion}`,
+          headers: { "api-key": process.env.AZURE_OPENAI_API_KEY ?? "" },
+          model,
+        },
+        params,
+      );
+    },
+  },
+  ANTHROPIC: {
+    isConfigured: () => Boolean(process.env.ANTHROPIC_API_KEY),
+    defaultModel: () => process.env.ANTHROPIC_MODEL ?? "claude-sonnet-4-5",
+    complete: (model, params) => callAnthropic({ ...params, model }),
+  },
+};
+
+function getDefaultProvider(): LlmProvider {
+  const fromEnv = (process.env.LLM_PROVIDER ?? "").trim().toUpperCase();
+  return LLM_PROVIDERS.find((provider) => provider === fromEnv) ?? "OPENAI";
+}
+
+export function getConfiguredLlmProviders() {
+  return LLM_PROVIDERS.filter((provider) => PROVIDERS[provider].isConfigured());
+}
+
+export function getDefaultLlmModel(provider: LlmProvider) {
+  return PROVIDERS[provider].defaultModel();
+}
+
+export function getAllowedLlmProviders(tenant: {
+  llmAllowedProviders: LlmProvider[];
+}) {
+  const configured = getConfiguredLlmProviders();
+  return tenant.llmAllowedProviders.length > 0
+    ? configured.filter((provider) => tenant.llmAllowedProviders.includes(provider))
+    : configured;
+}
+
+// The tenant's allow-list always wins: a psychologist can only pick among the
+// providers the clinic cleared, and nothing falls back to a provider outside it.
+export function resolveLlmSelection(params: {
+  tenant: {
+    llmProvider: LlmProvider | null;
+    llmModel: string | null;
+    llmAllowedProviders: LlmProvider[];
+  };
+  requested?: { provider?: string | null; model?: string | null };
+}): LlmSelection {
+  const { tenant, requested } = params;
+  const allowed = getAllowedLlmProviders(tenant);
+  const requestedProvider = allowed.find(
+    (provider) => provider === requested?.provider,
+  );
+  if (requestedProvider) {
+    return {
+      provider: requestedProvider,
+      model: requested?.model?.trim() || getDefaultLlmModel(requestedProvider),
+    };
+  }
+
+  // A provider the clinic picked is binding: if it is not available, fail
+  // rather than send data to another one.
+  if (tenant.llmProvider) {
+    if (!allowed.includes(tenant.llmProvider)) {
+      throw new Error(`LLM provider ${tenant.llmProvider} is not available for this tenant`);
+    }
+    return {
+      provider: tenant.llmProvider,
+      model: tenant.llmModel?.trim() || getDefaultLlmModel(tenant.llmProvider),
+    };
+  }
+
+  const defaultProvider = getDefaultProvider();
+  if (allowed.includes(defaultProvider)) {
+    return { provider: defaultProvider, model: getDefaultLlmModel(defaultProvider) };
+  }
+
+  const fallback = allowed[0];
+  if (!fallback) {
+    throw new Error("No LLM provider is configured for this tenant");
+  }
+  return { provider: fallback, model: getDefaultLlmModel(fallback) };
+}
+
+export async function completeChat(selection: LlmSelection, params: ChatParams) {
+  return PROVIDERS[selection.provider].complete(selection.model, params);
+}
@@ -1,18 +1,25 @@
-type ChatMessage = {
+export type ChatMessage = {
   role: "system" | "user" | "assistant";
   content: string;
 };
 
-export async function callOpenAi(params: {
+export type ChatParams = {
   messages: ChatMessage[];
   maxTokens?: number;
   temperature?: number;
-}) {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-  const model = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+};
+
+type ChatEndpoint = {
+  label: string;
+  url: string;
+  headers: Record<string, string>;
+  model: string;
+};
+
+// Speaks the /chat/completions wire format shared by OpenAI, Azure OpenAI and
+// self-hosted servers (Ollama, vLLM, LM Studio).
+export async function callChatCompletions(endpoint: ChatEndpoint, params: ChatParams) {
+  const { model } = endpoint;
   const useMaxCompletionTokens =
     model.startsWith("gpt-5") || model.startsWith("o1");
   const requestedMax = params.maxTokens ?? 300;
@@ -20,10 +27,10 @@ export async function callOpenAi(params: {
     useMaxCompletionTokens && model.startsWith("gpt-5")
       ? Math.max(requestedMax, 600)
       : requestedMax;
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+  const response = await fetch(endpoint.url, {
     method: "POST",
     headers: {
-      Authorization: `Bearer ${apiKey}`,
+      ...endpoint.headers,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
@@ -40,10 +47,10 @@ export async function callOpenAi(params: {
   if (!response.ok) {
     const errorText = await response.text().catch(() => "");
     console.error(
-      `[openai] ${response.status} ${response.statusText} ${errorText || "no body"}`,
+      `[${endpoint.label}] ${response.status} ${response.statusText} ${errorText || "no body"}`,
     );
     throw new Error(
-      `OpenAI request failed (${response.status}): ${errorText || "no body"}`,
+      `${endpoint.label} request failed (${response.status}): ${errorText || "no body"}`,
     );
   }
 
@@ -53,11 +60,27 @@ export async function callOpenAi(params: {
   };
   const content = data.choices?.[0]?.message?.content?.trim() ?? "";
   if (!content) {
-    console.error("[openai] empty content response", {
+    console.error(`[${endpoint.label}] empty content response`, {
       finishReason: data.choices?.[0]?.finish_reason,
       usage: data.usage,
     });
-    throw new Error("OpenAI returned empty content");
+    throw new Error(`${endpoint.label} returned empty content`);
   }
   return content;
 }
+
+export async function callOpenAi(params: ChatParams & { model?: string }) {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY is not configured");
+  }
+  return callChatCompletions(
+    {
+      label: "openai",
+      url: "https://api.openai.com/v1/chat/completions",
+      headers: { Authorization: `Bearer ${apiKey}` },
+      model: params.model ?? process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+    },
+    params,
+  );
+}
@@ -0,0 +1,88 @@
+export type TranscriptionInput = {
+  audio: Buffer;
+  mimeType: string;
+  language?: string;
+};
+
+export type TranscriptionProvider = {
+  name: string;
+  transcribe(input: TranscriptionInput): Promise<string>;
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/mp4": "m4a",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+};
+
+function createStubProvider(): TranscriptionProvider {
+  return {
+    name: "stub",
+    async transcribe(input) {
+      return (
+        process.env.TRANSCRIPTION_STUB_TEXT ??
+        `[stub transcript: ${input.audio.byteLength} bytes of ${input.mimeType}]`
+      );
+    },
+  };
+}
+
+// Works with OpenAI and any server exposing the same /audio/transcriptions API
+// (faster-whisper-server, whisper.cpp server, LocalAI).
+function createWhisperProvider(): TranscriptionProvider {
+  const baseUrl = (
+    process.env.TRANSCRIPTION_API_URL ?? "https://api.openai.com/v1"
+  ).replace(/\/+$/, "");
+  const apiKey = process.env.TRANSCRIPTION_API_KEY ?? process.env.OPENAI_API_KEY;
+  const model = process.env.TRANSCRIPTION_MODEL ?? "whisper-1";
+
+  return {
+    name: "whisper",
+    async transcribe(input) {
+      const baseMime = input.mimeType.split(";")[0] ?? input.mimeType;
+      const extension = MIME_EXTENSIONS[baseMime] ?? "webm";
+      const form = new FormData();
+      form.append(
+        "file",
+        new Blob([new Uint8Array(input.audio)], { type: baseMime }),
+        `audio.${extension}`,
+      );
+      form.append("model", model);
+      form.append("response_format", "json");
+      if (input.language) {
+        form.append("language", input.language);
+      }
+
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body: form,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        throw new Error(
+          `Transcription request failed (${response.status}): ${errorText || "no body"}`,
+        );
+      }
+
+      const data = (await response.json()) as { text?: string };
+      return data.text?.trim() ?? "";
+    },
+  };
+}
+
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  const provider = (process.env.TRANSCRIPTION_PROVIDER ?? "").trim().toLowerCase();
+  if (provider === "stub") {
+    return createStubProvider();
+  }
+  if (provider === "whisper") {
+    return createWhisperProvider();
+  }
+  return null;
+}
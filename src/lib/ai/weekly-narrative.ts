@@ -0,0 +1,127 @@
+import type { Language, LlmProvider } from "@prisma/client";
+import { z } from "zod";
+import { completeChat, type LlmSelection } from "@/lib/ai/llm";
+import type { RecordData } from "@/lib/records";
+import { extractJsonObject } from "@/lib/ai/json-reply";
+
+// Bump when the prompt changes so cached narratives written with the old one
+// are regenerated.
+export const WEEKLY_NARRATIVE_PROMPT_VERSION = 1;
+
+const MAX_TRANSCRIPT_CHARS = 12000;
+const MAX_ITEMS = 5;
+const MAX_ITEM_LENGTH = 300;
+
+export type WeeklyNarrative = {
+  themes: string[];
+  changes: string;
+  questions: string[];
+  provider: LlmProvider;
+  model: string;
+  promptVersion: number;
+  generatedAt: string;
+};
+
+const NARRATIVE_LANGUAGE: Record<Language, string> = {
+  PT: "Portuguese",
+  ES: "Spanish",
+  EN: "English",
+};
+
+const narrativeSchema = z.object({
+  themes: z.array(z.string()).optional(),
+  changes: z.string().optional(),
+  questions: z.array(z.string()).optional(),
+});
+
+function buildNarrativePrompt(language: Language) {
+  return [
+    "You help a psychologist prepare for the next session with a patient.",
+    "You get one week of chat messages between the patient, the psychologist and an assistant, plus the records written that week.",
+    "Summarize only what is in the material. Do not diagnose and do not give advice to the patient.",
+    'Reply with a single JSON object with the keys "themes" (array of strings), "changes" (string) and "questions" (array of strings).',
+    "themes: the main topics the patient brought up. changes: what changed compared to the start of the week, or an empty string if nothing did.",
+    "questions: open questions the psychologist could bring to the session.",
+    `Use at most ${MAX_ITEMS} themes and ${MAX_ITEMS} questions. Write in ${NARRATIVE_LANGUAGE[language]}.`,
+  ].join("\n");
+}
+
+function formatRecord(data: RecordData) {
+  const fields = (["event", "thought", "emotion", "body", "action", "result"] as const)
+    .map((key) => (data[key] ? `${key}: ${data[key]}` : ""))
+    .filter(Boolean);
+  if (typeof data.intensity === "number") {
+    fields.push(`intensity: ${data.intensity}/10`);
+  }
+  return fields.join("; ");
+}
+
+function cleanList(values: string[] | undefined) {
+  return (values ?? [])
+    .map((value) => value.trim().slice(0, MAX_ITEM_LENGTH))
+    .filter(Boolean)
+    .slice(0, MAX_ITEMS);
+}
+
+function parseNarrative(reply: string) {
+  const parsed = narrativeSchema.safeParse(extractJsonObject(reply));
+  if (!parsed.success) {
+    return null;
+  }
+  const themes = cleanList(parsed.data.themes);
+  const questions = cleanList(parsed.data.questions);
+  const changes = (parsed.data.changes ?? "").trim().slice(0, MAX_ITEM_LENGTH * 2);
+  return { themes, changes, questions };
+}
+
+// Returns null when the week has nothing to narrate or the model found
+// nothing to say. Provider errors and replies that can't be parsed are thrown
+// for the caller to handle.
+export async function generateWeeklyNarrative(params: {
+  llm: LlmSelection;
+  language: Language;
+  messages: Array<{ label: string; content: string }>;
+  records: RecordData[];
+}): Promise<WeeklyNarrative | null> {
+  const { llm, language, messages, records } = params;
+  const recordLines = records.map(formatRecord).filter(Boolean);
+  if (!messages.length && !recordLines.length) {
+    return null;
+  }
+
+  // Keep the end of the week when the transcript is too long.
+  let transcript = messages.map((message) => `${message.label}: ${message.content}`).join("\n");
+  if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+    transcript = transcript.slice(-MAX_TRANSCRIPT_CHARS);
+  }
+  const content = [
+    "Messages:",
+    transcript || "(none)",
+    "",
+    "Records:",
+    recordLines.length ? recordLines.map((line) => `- ${line}`).join("\n") : "(none)",
+  ].join("\n");
+
+  const reply = await completeChat(llm, {
+    messages: [
+      { role: "system", content: buildNarrativePrompt(language) },
+      { role: "user", content },
+    ],
+    maxTokens: 700,
+    temperature: 0.2,
+  });
+  const narrative = parseNarrative(reply);
+  if (!narrative) {
+    throw new Error("Narrative reply could not be parsed");
+  }
+  if (!narrative.themes.length && !narrative.questions.length && !narrative.changes) {
+    return null;
+  }
+  return {
+    ...narrative,
+    provider: llm.provider,
+    model: llm.model,
+    promptVersion: WEEKLY_NARRATIVE_PROMPT_VERSION,
+    generatedAt: new Date().toISOString(),
+  };
+}
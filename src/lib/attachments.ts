@@ -0,0 +1,59 @@
+export type AttachmentKind = "audio" | "image" | "document";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const IMAGE_MIME_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/gif"]);
+
+const DOCUMENT_MIME_TYPES = new Set([
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "text/plain",
+]);
+
+export function normalizeMime(mime: string) {
+  return mime.trim().toLowerCase().replace(/\s+/g, "");
+}
+
+export function getAttachmentKind(mime: string | null | undefined): AttachmentKind | null {
+  if (!mime) {
+    return null;
+  }
+  const base = normalizeMime(mime).split(";")[0] ?? "";
+  if (base.startsWith("audio/")) {
+    return "audio";
+  }
+  if (IMAGE_MIME_TYPES.has(base)) {
+    return "image";
+  }
+  if (DOCUMENT_MIME_TYPES.has(base)) {
+    return "document";
+  }
+  return null;
+}
+
+const ATTACHMENT_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "application/pdf": "pdf",
+  "application/msword": "doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.ms-excel": "xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "text/plain": "txt",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/ogg": "ogg",
+  "audio/webm": "webm",
+  "audio/wav": "wav",
+};
+
+// File extension for saving an attachment, e.g. in a data export.
+export function getAttachmentExtension(mime: string | null | undefined) {
+  const base = normalizeMime(mime ?? "").split(";")[0] ?? "";
+  return ATTACHMENT_EXTENSIONS[base] ?? "bin";
+}
@@ -0,0 +1,122 @@
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+
+const VERIFY_BATCH_SIZE = 1000;
+
+export type AuditChainEntry = {
+  tenantId: string;
+  sequence: number;
+  prevHash: string | null;
+  createdAt: Date;
+  actorUserId: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  meta: unknown;
+};
+
+// jsonb does not keep key order, so meta is hashed with sorted keys after a
+// JSON round-trip (which also drops undefined the way storage does).
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+export function computeAuditHash(entry: AuditChainEntry) {
+  const meta = entry.meta == null ? null : canonicalize(JSON.parse(JSON.stringify(entry.meta)));
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        entry.tenantId,
+        entry.sequence,
+        entry.prevHash,
+        entry.createdAt.toISOString(),
+        entry.actorUserId,
+        entry.action,
+        entry.targetType,
+        entry.targetId,
+        meta,
+      ]),
+    )
+    .digest("hex");
+}
+
+// - missing: a sequence number has no row (deleted);
+// - relinked: the row does not point at the hash of the one before it;
+// - edited: the row's content no longer matches its hash;
+// - head: the last row is not the head recorded on the tenant.
+export type AuditChainBreak = {
+  sequence: number;
+  auditLogId: string | null;
+  reason: "missing" | "relinked" | "edited" | "head";
+};
+
+// Walks the tenant's chain from the first sequence up to the head read at
+// the start, so entries appended meanwhile are left for the next run.
+export async function verifyAuditChain(tenantId: string) {
+  const head = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { auditSequence: true, auditHeadHash: true },
+  });
+  const headSequence = head?.auditSequence ?? 0;
+
+  let expected = 1;
+  let prevHash: string | null = null;
+  let broken: AuditChainBreak | null = null;
+
+  while (!broken && expected <= headSequence) {
+    const rows = await prisma.auditLog.findMany({
+      where: { tenantId, sequence: { gte: expected, lte: headSequence } },
+      orderBy: { sequence: "asc" },
+      take: VERIFY_BATCH_SIZE,
+    });
+    if (!rows.length) {
+      break;
+    }
+    for (const row of rows) {
+      if (row.sequence !== expected) {
+        broken = { sequence: expected, auditLogId: null, reason: "missing" };
+        break;
+      }
+      if (row.prevHash !== prevHash) {
+        broken = { sequence: expected, auditLogId: row.id, reason: "relinked" };
+        break;
+      }
+      const hash = computeAuditHash({
+        tenantId,
+        sequence: row.sequence,
+        prevHash: row.prevHash,
+        createdAt: row.createdAt,
+        actorUserId: row.actorUserId,
+        action: row.action,
+        targetType: row.targetType,
+        targetId: row.targetId,
+        meta: row.metaJson,
+      });
+      if (row.hash !== hash) {
+        broken = { sequence: expected, auditLogId: row.id, reason: "edited" };
+        break;
+      }
+      prevHash = hash;
+      expected += 1;
+    }
+  }
+
+  if (!broken && expected <= headSequence) {
+    broken = { sequence: expected, auditLogId: null, reason: "missing" };
+  }
+  if (!broken && prevHash !== (head?.auditHeadHash ?? null)) {
+    broken = { sequence: headSequence, auditLogId: null, reason: "head" };
+  }
+
+  return { ok: !broken, checked: expected - 1, headSequence, broken };
+}
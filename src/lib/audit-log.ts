@@ -0,0 +1,202 @@
+import type { AuditLog, Prisma, Role } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { addDaysInTimeZone, parseDateInTimeZone } from "@/lib/time-zone";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const auditQuerySchema = z.object({
+  actorUserId: z.string().min(1).optional(),
+  // Comma-separated; an entry ending in "." matches every action under it,
+  // e.g. "patient.export." or "message.read,message.stream".
+  action: z.string().min(1).max(200).optional(),
+  targetType: z.string().min(1).max(50).optional(),
+  targetId: z.string().min(1).optional(),
+  // Events whose target is the patient or one of their conversations.
+  patientId: z.string().min(1).optional(),
+  // Calendar dates in the tenant time zone, both inclusive.
+  from: z.string().regex(DATE_PATTERN).optional(),
+  to: z.string().regex(DATE_PATTERN).optional(),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export function parseAuditQuery(url: URL) {
+  const value = (key: keyof AuditQuery) => url.searchParams.get(key)?.trim() || undefined;
+  return auditQuerySchema.safeParse({
+    actorUserId: value("actorUserId"),
+    action: value("action"),
+    targetType: value("targetType"),
+    targetId: value("targetId"),
+    patientId: value("patientId"),
+    from: value("from"),
+    to: value("to"),
+  });
+}
+
+export async function buildAuditWhere(
+  tenantId: string,
+  query: AuditQuery,
+  timeZone: string,
+): Promise<Prisma.AuditLogWhereInput> {
+  const and: Prisma.AuditLogWhereInput[] = [];
+
+  if (query.action) {
+    const actions = query.action
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+    and.push({
+      OR: actions.map((action) =>
+        action.endsWith(".") ? { action: { startsWith: action } } : { action },
+      ),
+    });
+  }
+
+  if (query.patientId) {
+    const conversations = await prisma.conversation.findMany({
+      where: { tenantId, patientUserId: query.patientId },
+      select: { id: true },
+    });
+    and.push({
+      OR: [
+        { targetType: "User", targetId: query.patientId },
+        {
+          targetType: "Conversation",
+          targetId: { in: conversations.map((conversation) => conversation.id) },
+        },
+      ],
+    });
+  }
+
+  const createdAt: Prisma.DateTimeFilter = {};
+  if (query.from) {
+    createdAt.gte = parseDateInTimeZone(query.from, timeZone);
+  }
+  if (query.to) {
+    createdAt.lt = addDaysInTimeZone(parseDateInTimeZone(query.to, timeZone), 1, timeZone);
+  }
+
+  return {
+    tenantId,
+    ...(query.actorUserId ? { actorUserId: query.actorUserId } : {}),
+    ...(query.targetType ? { targetType: query.targetType } : {}),
+    ...(query.targetId ? { targetId: query.targetId } : {}),
+    ...(query.from || query.to ? { createdAt } : {}),
+    ...(and.length ? { AND: and } : {}),
+  };
+}
+
+export type AuditCursor = {
+  createdAt: Date;
+  id: string;
+};
+
+// Same shape as the message cursor: newest first, ties broken by id.
+export function encodeAuditCursor(log: AuditCursor) {
+  return Buffer.from(`${log.createdAt.toISOString()}|${log.id}`).toString("base64url");
+}
+
+export function decodeAuditCursor(cursor: string): AuditCursor | null {
+  const [createdAtRaw, id] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  const createdAt = new Date(createdAtRaw ?? "");
+  if (!id || Number.isNaN(createdAt.getTime())) {
+    return null;
+  }
+  return { createdAt, id };
+}
+
+type AuditLogWithActor = AuditLog & {
+  actor: { email: string | null; role: Role } | null;
+};
+
+export function toAuditLogItem(log: AuditLogWithActor) {
+  return {
+    id: log.id,
+    createdAt: log.createdAt.toISOString(),
+    actorUserId: log.actorUserId,
+    actorEmail: log.actor?.email ?? null,
+    actorRole: log.actor?.role ?? null,
+    action: log.action,
+    targetType: log.targetType,
+    targetId: log.targetId,
+    meta: log.metaJson ?? null,
+    sequence: log.sequence,
+    prevHash: log.prevHash,
+    hash: log.hash,
+  };
+}
+
+export type AuditLogItem = ReturnType<typeof toAuditLogItem>;
+
+// One page, newest first. `nextCursor` is null on the last page.
+export async function findAuditPage(params: {
+  where: Prisma.AuditLogWhereInput;
+  cursor: AuditCursor | null;
+  limit: number;
+}) {
+  const { where, cursor, limit } = params;
+  const rows = await prisma.auditLog.findMany({
+    where: cursor
+      ? {
+          ...where,
+          AND: [
+            ...((where.AND as Prisma.AuditLogWhereInput[] | undefined) ?? []),
+            {
+              OR: [
+                { createdAt: { lt: cursor.createdAt } },
+                { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+              ],
+            },
+          ],
+        }
+      : where,
+    include: { actor: { select: { email: true, role: true } } },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+  });
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    items: page.map(toAuditLogItem),
+    nextCursor: rows.length > limit && last ? encodeAuditCursor(last) : null,
+  };
+}
+
+export const AUDIT_CSV_COLUMNS = [
+  "created_at",
+  "actor_user_id",
+  "actor_email",
+  "actor_role",
+  "action",
+  "target_type",
+  "target_id",
+  "meta",
+  "sequence",
+  "prev_hash",
+  "hash",
+];
+
+// Quotes every cell and defuses values a spreadsheet would run as a formula.
+function toCsvCell(value: string) {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function toAuditCsvRow(item: AuditLogItem) {
+  return [
+    item.createdAt,
+    item.actorUserId ?? "",
+    item.actorEmail ?? "",
+    item.actorRole ?? "",
+    item.action,
+    item.targetType,
+    item.targetId ?? "",
+    item.meta ? JSON.stringify(item.meta) : "",
+    item.sequence?.toString() ?? "",
+    item.prevHash ?? "",
+    item.hash ?? "",
+  ]
+    .map(toCsvCell)
+    .join(",");
+}
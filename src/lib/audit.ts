@@ -1,7 +1,10 @@
 import { prisma } from "@/lib/prisma";
+import { computeAuditHash } from "@/lib/audit-chain";
 
 type AuditMeta = Record<string, unknown>;
 
+// Appends to the tenant's hash chain: each row stores the previous row's hash
+// and its own, and the tenant keeps the head. See verifyAuditChain.
 export async function logAuditEvent(params: {
   tenantId: string;
   actorUserId?: string | null;
@@ -11,14 +14,46 @@ export async function logAuditEvent(params: {
   meta?: AuditMeta;
 }) {
   const { tenantId, actorUserId, action, targetType, targetId, meta } = params;
-  await prisma.auditLog.create({
-    data: {
+  const createdAt = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    // Bumping the sequence locks the tenant row, so writers for the same
+    // tenant append one at a time and each one sees the latest head.
+    const head = await tx.tenant.update({
+      where: { id: tenantId },
+      data: { auditSequence: { increment: 1 } },
+      select: { auditSequence: true, auditHeadHash: true },
+    });
+    const entry = {
       tenantId,
+      sequence: head.auditSequence,
+      prevHash: head.auditHeadHash,
+      createdAt,
       actorUserId: actorUserId ?? null,
       action,
       targetType,
       targetId: targetId ?? null,
-      metaJson: meta,
-    },
+      meta: meta ?? null,
+    };
+    const hash = computeAuditHash(entry);
+
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        actorUserId: entry.actorUserId,
+        action,
+        targetType,
+        targetId: entry.targetId,
+        metaJson: meta,
+        sequence: entry.sequence,
+        prevHash: entry.prevHash,
+        hash,
+        createdAt,
+      },
+    });
+    await tx.tenant.update({
+      where: { id: tenantId },
+      data: { auditHeadHash: hash },
+    });
   });
 }
@@ -0,0 +1,4 @@
+// Sent by the apps on requests they make on their own (stream catch-up,
+// polling) rather than on the user's behalf; the session guard does not
+// count those as activity towards the idle timeout.
+export const BACKGROUND_REQUEST_HEADER = "x-background-request";
@@ -1,9 +1,10 @@
 import { Role } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { isStepUpValid, requireSession } from "@/lib/auth/session";
+import { findActiveAccessGrant } from "@/lib/access-grants";
 
-export async function requireAuth() {
-  const session = await requireSession();
+export async function requireAuth(options: { touch?: boolean } = {}) {
+  const session = await requireSession(options);
   return {
     session,
     user: session.user,
@@ -30,6 +31,7 @@ export async function getConversationForAccess(params: {
     where: {
       tenantId: params.tenantId,
       id: params.conversationId,
+      shreddedAt: null,
     },
   });
 }
@@ -61,16 +63,12 @@ export async function requireConversationAccess(params: {
   }
 
   if (params.role === "ADMIN") {
-    const accessGrant = await prisma.conversationAccessGrant.findFirst({
-      where: {
-        tenantId: params.tenantId,
-        conversationId: conversation.id,
-        userId: params.userId,
-      },
+    const accessGrant = await findActiveAccessGrant({
+      tenantId: params.tenantId,
+      conversationId: conversation.id,
+      userId: params.userId,
     });
-    const canAccess =
-      accessGrant && (!accessGrant.expiresAt || accessGrant.expiresAt > new Date());
-    if (!canAccess) {
+    if (!accessGrant) {
       throw new Error("Admin access requires explicit grant");
     }
   }
@@ -4,13 +4,13 @@ import { enforceRateLimit } from "@/lib/rate-limit";
 
 const OTP_TTL_MINUTES = 10;
 
-function hashOtp(code: string, salt?: Buffer) {
+export function hashOtp(code: string, salt?: Buffer) {
   const actualSalt = salt ?? randomBytes(16);
   const derived = scryptSync(code, actualSalt, 32);
   return `${actualSalt.toString("base64")}.${derived.toString("base64")}`;
 }
 
-function verifyOtp(code: string, storedHash: string) {
+export function verifyOtp(code: string, storedHash: string) {
   const [saltB64, hashB64] = storedHash.split(".");
   if (!saltB64 || !hashB64) {
     return false;
@@ -0,0 +1,59 @@
+import type { Role } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+
+export type SessionPolicyValues = {
+  idleTimeoutMinutes: number | null;
+  absoluteTimeoutHours: number;
+};
+
+// Staff share front-desk computers, so their sessions idle out; patients sign
+// in from their own phones and only hit the absolute limit.
+export const DEFAULT_SESSION_POLICIES: Record<Role, SessionPolicyValues> = {
+  ADMIN: { idleTimeoutMinutes: 30, absoluteTimeoutHours: 12 },
+  PSYCHOLOGIST: { idleTimeoutMinutes: 30, absoluteTimeoutHours: 12 },
+  PATIENT: { idleTimeoutMinutes: null, absoluteTimeoutHours: 12 },
+};
+
+export const SESSION_POLICY_ROLES: Role[] = ["ADMIN", "PSYCHOLOGIST", "PATIENT"];
+
+// The lower bound keeps the idle window well above the lastSeenAt write
+// throttle in session.ts.
+export const sessionPolicySchema = z.object({
+  role: z.enum(["ADMIN", "PSYCHOLOGIST", "PATIENT"]),
+  idleTimeoutMinutes: z.number().int().min(5).max(24 * 60).nullable(),
+  absoluteTimeoutHours: z.number().int().min(1).max(30 * 24),
+});
+
+export async function getSessionPolicy(params: {
+  tenantId: string;
+  role: Role;
+}): Promise<SessionPolicyValues> {
+  const policy = await prisma.sessionPolicy.findFirst({
+    where: { tenantId: params.tenantId, role: params.role },
+  });
+  if (!policy) {
+    return DEFAULT_SESSION_POLICIES[params.role];
+  }
+  return {
+    idleTimeoutMinutes: policy.idleTimeoutMinutes,
+    absoluteTimeoutHours: policy.absoluteTimeoutHours,
+  };
+}
+
+// One entry per role, falling back to the defaults for roles never saved.
+export async function listSessionPolicies(tenantId: string) {
+  const policies = await prisma.sessionPolicy.findMany({ where: { tenantId } });
+  const byRole = new Map(policies.map((policy) => [policy.role, policy]));
+  return SESSION_POLICY_ROLES.map((role) => {
+    const policy = byRole.get(role);
+    return {
+      role,
+      idleTimeoutMinutes: policy
+        ? policy.idleTimeoutMinutes
+        : DEFAULT_SESSION_POLICIES[role].idleTimeoutMinutes,
+      absoluteTimeoutHours:
+        policy?.absoluteTimeoutHours ?? DEFAULT_SESSION_POLICIES[role].absoluteTimeoutHours,
+    };
+  });
+}
@@ -1,10 +1,14 @@
 import { cookies, headers } from "next/headers";
 import { randomBytes } from "crypto";
+import type { Session } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import { getSessionPolicy } from "@/lib/auth/session-policy";
+import { BACKGROUND_REQUEST_HEADER } from "@/lib/auth/activity";
 
 const SESSION_COOKIE = "psyos_session";
-const SESSION_TTL_HOURS = 12;
 const STEP_UP_MINUTES = 15;
+// lastSeenAt is written at most this often; idle expiry is only as precise.
+const LAST_SEEN_WRITE_INTERVAL_MS = 60 * 1000;
 
 function createToken() {
   return randomBytes(32).toString("base64url");
@@ -25,7 +29,15 @@ export async function createSession(params: {
 }) {
   const token = createToken();
   const issuedAt = now();
-  const expiresAt = new Date(issuedAt.getTime() + SESSION_TTL_HOURS * 3600 * 1000);
+  const user = await prisma.user.findFirst({
+    where: { tenantId: params.tenantId, id: params.userId },
+    select: { role: true },
+  });
+  if (!user) {
+    throw new Error("User not found");
+  }
+  const policy = await getSessionPolicy({ tenantId: params.tenantId, role: user.role });
+  const expiresAt = new Date(issuedAt.getTime() + policy.absoluteTimeoutHours * 3600 * 1000);
   const stepUpUntil = params.stepUp
     ? new Date(issuedAt.getTime() + STEP_UP_MINUTES * 60 * 1000)
     : null;
@@ -44,6 +56,7 @@ export async function createSession(params: {
       expiresAt,
       lastSeenAt: issuedAt,
       stepUpUntil,
+      idleTimeoutMinutes: policy.idleTimeoutMinutes,
       ip,
       userAgent,
     },
@@ -76,7 +89,18 @@ export async function clearSession() {
   });
 }
 
-export async function getSession() {
+// When the session ends for lack of activity, or null without an idle timeout.
+export function getIdleExpiresAt(session: Session) {
+  if (!session.idleTimeoutMinutes) {
+    return null;
+  }
+  return new Date(session.lastSeenAt.getTime() + session.idleTimeoutMinutes * 60 * 1000);
+}
+
+// `touch: false` reads the session without counting the request as activity,
+// for background traffic such as streams and the expiry check itself; the
+// background header does the same for reads the apps make on their own.
+export async function getSession(options: { touch?: boolean } = {}) {
   const cookieStore = await cookies();
   const token = cookieStore.get(SESSION_COOKIE)?.value;
   if (!token) {
@@ -97,21 +121,46 @@ export async function getSession() {
     return null;
   }
 
-  if (session.expiresAt < now()) {
+  const current = now();
+  const idleExpiresAt = getIdleExpiresAt(session);
+  if (session.expiresAt < current || (idleExpiresAt && idleExpiresAt < current)) {
     await prisma.session.delete({ where: { token } }).catch(() => undefined);
     return null;
   }
 
-  await prisma.session.update({
-    where: { token },
-    data: { lastSeenAt: now() },
-  });
+  const background = (await headers()).get(BACKGROUND_REQUEST_HEADER) === "1";
+  if (
+    options.touch !== false &&
+    !background &&
+    current.getTime() - session.lastSeenAt.getTime() >= LAST_SEEN_WRITE_INTERVAL_MS
+  ) {
+    await prisma.session.update({
+      where: { token },
+      data: { lastSeenAt: current },
+    });
+    session.lastSeenAt = current;
+  }
 
   return session;
 }
 
-export async function requireSession() {
-  const session = await getSession();
+// For long-lived responses such as streams: whether the session they were
+// opened with still exists and is within both of its limits. Never touches it.
+export async function isSessionLive(sessionId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { user: { select: { isActive: true } } },
+  });
+  if (!session || !session.user.isActive) {
+    return false;
+  }
+  const current = now();
+  const idleExpiresAt = getIdleExpiresAt(session);
+  return session.expiresAt > current && (!idleExpiresAt || idleExpiresAt > current);
+}
+
+export async function requireSession(options: { touch?: boolean } = {}) {
+  const session = await getSession(options);
   if (!session) {
     throw new Error("Unauthorized");
   }
@@ -125,6 +174,15 @@ export function isStepUpValid(stepUpUntil: Date | null) {
   return stepUpUntil > now();
 }
 
+// Explicit keep-alive from the client; skips the write throttle so the
+// extended deadline is exact.
+export async function touchSession(token: string) {
+  return prisma.session.update({
+    where: { token },
+    data: { lastSeenAt: now() },
+  });
+}
+
 export async function markStepUp(token: string) {
   const until = new Date(now().getTime() + STEP_UP_MINUTES * 60 * 1000);
   await prisma.session.update({
@@ -132,3 +190,52 @@ export async function markStepUp(token: string) {
     data: { stepUpUntil: until },
   });
 }
+
+// What a user (or an admin) sees of a session; the token never leaves the server.
+export function toSessionItem(session: Session, currentSessionId: string | null) {
+  return {
+    id: session.id,
+    ip: session.ip,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    idleExpiresAt: getIdleExpiresAt(session),
+    current: session.id === currentSessionId,
+  };
+}
+
+export async function listActiveSessions(params: { tenantId: string; userId: string }) {
+  const current = now();
+  const sessions = await prisma.session.findMany({
+    where: { tenantId: params.tenantId, userId: params.userId, expiresAt: { gt: current } },
+    orderBy: { lastSeenAt: "desc" },
+  });
+  return sessions.filter((session) => {
+    const idleExpiresAt = getIdleExpiresAt(session);
+    return !idleExpiresAt || idleExpiresAt > current;
+  });
+}
+
+// Revoking is deleting: the next request with that cookie finds no session.
+// Returns the ids actually removed so callers can audit them.
+export async function revokeSessions(params: {
+  tenantId: string;
+  userId: string;
+  sessionId?: string;
+  exceptSessionId?: string;
+}) {
+  const where = {
+    tenantId: params.tenantId,
+    userId: params.userId,
+    ...(params.sessionId ? { id: params.sessionId } : {}),
+    ...(params.exceptSessionId ? { NOT: { id: params.exceptSessionId } } : {}),
+  };
+  const sessions = await prisma.session.findMany({ where, select: { id: true } });
+  if (!sessions.length) {
+    return [];
+  }
+  const ids = sessions.map((session) => session.id);
+  await prisma.session.deleteMany({ where: { ...where, id: { in: ids } } });
+  return ids;
+}
@@ -0,0 +1,49 @@
+import crypto from "crypto";
+import type { Prisma, WhatsAppChannel } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { decryptSecret, getMasterKek } from "@/lib/crypto";
+import type { EvolutionConfig } from "@/lib/evolution";
+
+export function hashWebhookSecret(secret: string) {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+export function generateWebhookSecret() {
+  const secret = crypto.randomBytes(32).toString("base64url");
+  return { secret, hash: hashWebhookSecret(secret) };
+}
+
+export function verifyWebhookSecret(channel: WhatsAppChannel, provided: string) {
+  if (!provided) {
+    return false;
+  }
+  const expected = Buffer.from(channel.webhookSecretHash, "hex");
+  const actual = Buffer.from(hashWebhookSecret(provided), "hex");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function normalizeApiBaseUrl(url: string) {
+  return url.trim().replace(/\/+$/, "");
+}
+
+// The webhook has no session, so the instance name is the only way in.
+export async function findChannelByInstance(instanceName: string) {
+  return prisma.whatsAppChannel.findFirst({
+    where: { instanceName, isActive: true },
+    __allowMissingTenant: true,
+  } as Prisma.WhatsAppChannelFindFirstArgs & { __allowMissingTenant?: boolean });
+}
+
+export async function getEvolutionConfig(tenantId: string): Promise<EvolutionConfig | null> {
+  const channel = await prisma.whatsAppChannel.findFirst({
+    where: { tenantId, isActive: true },
+  });
+  if (!channel) {
+    return null;
+  }
+  return {
+    baseUrl: channel.apiBaseUrl,
+    apiKey: decryptSecret(channel.apiKeyEncrypted, getMasterKek()),
+    instance: channel.instanceName,
+  };
+}
@@ -0,0 +1,379 @@
+import type { Conversation, Language } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { decryptMessage } from "@/lib/crypto";
+import { decryptRecordData, type RecordData } from "@/lib/records";
+import { addDaysInTimeZone, parseDateInTimeZone } from "@/lib/time-zone";
+import type { SignalKey } from "@/lib/ai/detection";
+import { renderPdf, type PdfBlock } from "@/lib/pdf";
+import {
+  getWeekBounds,
+  loadWeeklySummaryContext,
+  readWeeklySummary,
+  refreshWeeklySummary,
+  type WeeklySummary,
+} from "@/lib/weekly-summaries";
+
+export const MAX_REPORT_WEEKS = 26;
+export const MAX_REPORT_EXCERPTS = 50;
+
+type ReportCopy = {
+  title: string;
+  confidential: string;
+  patient: string;
+  psychologist: string;
+  period: string;
+  generatedAt: string;
+  timeZone: string;
+  weeksTitle: string;
+  week: string;
+  counts: (messages: number, records: number, signals: number) => string;
+  emotions: string;
+  events: string;
+  narrative: string;
+  themes: string;
+  changes: string;
+  questions: string;
+  recordsTitle: string;
+  noRecords: string;
+  patientEntry: string;
+  fields: Record<Exclude<keyof RecordData, "intensity">, string>;
+  intensity: string;
+  signalsTitle: string;
+  noSignals: string;
+  signals: Record<SignalKey, string>;
+  excerptsTitle: string;
+  authors: { PATIENT: string; PSYCHOLOGIST: string; AI: string; SYSTEM: string };
+};
+
+const REPORT_COPY: Record<Language, ReportCopy> = {
+  PT: {
+    title: "Relatorio clinico",
+    confidential: "Confidencial. Contem dados de saude do paciente.",
+    patient: "Paciente",
+    psychologist: "Psicologo(a)",
+    period: "Periodo",
+    generatedAt: "Gerado em",
+    timeZone: "Fuso horario",
+    weeksTitle: "Resumos semanais",
+    week: "Semana",
+    counts: (messages, records, signals) =>
+      `Mensagens: ${messages} | Registros: ${records} | Sinais: ${signals}`,
+    emotions: "Emocoes predominantes",
+    events: "Eventos",
+    narrative: "Narrativa",
+    themes: "Temas",
+    changes: "O que mudou",
+    questions: "Perguntas para a sessao",
+    recordsTitle: "Registros",
+    noRecords: "Nenhum registro no periodo.",
+    patientEntry: "diario do paciente",
+    fields: {
+      event: "Evento",
+      thought: "Pensamento",
+      emotion: "Emocao",
+      body: "Corpo",
+      action: "Acao",
+      result: "Resultado",
+    },
+    intensity: "Intensidade",
+    signalsTitle: "Linha do tempo de sinais",
+    noSignals: "sem sinais",
+    signals: {
+      anger: "Ira/discussao",
+      disconnect: "Desconexao",
+      rumination: "Ruminacao",
+      highRisk: "Risco alto",
+    },
+    excerptsTitle: "Trechos de mensagens selecionados",
+    authors: { PATIENT: "Paciente", PSYCHOLOGIST: "Psicologo(a)", AI: "IA", SYSTEM: "Sistema" },
+  },
+  ES: {
+    title: "Informe clinico",
+    confidential: "Confidencial. Contiene datos de salud del paciente.",
+    patient: "Paciente",
+    psychologist: "Psicologo(a)",
+    period: "Periodo",
+    generatedAt: "Generado el",
+    timeZone: "Zona horaria",
+    weeksTitle: "Resumenes semanales",
+    week: "Semana",
+    counts: (messages, records, signals) =>
+      `Mensajes: ${messages} | Registros: ${records} | Senales: ${signals}`,
+    emotions: "Emociones predominantes",
+    events: "Eventos",
+    narrative: "Narrativa",
+    themes: "Temas",
+    changes: "Que cambio",
+    questions: "Preguntas para la sesion",
+    recordsTitle: "Registros",
+    noRecords: "Sin registros en el periodo.",
+    patientEntry: "diario del paciente",
+    fields: {
+      event: "Evento",
+      thought: "Pensamiento",
+      emotion: "Emocion",
+      body: "Cuerpo",
+      action: "Accion",
+      result: "Resultado",
+    },
+    intensity: "Intensidad",
+    signalsTitle: "Linea de tiempo de senales",
+    noSignals: "sin senales",
+    signals: {
+      anger: "Ira/discusion",
+      disconnect: "Desconexion",
+      rumination: "Rumiacion",
+      highRisk: "Riesgo alto",
+    },
+    excerptsTitle: "Fragmentos de mensajes seleccionados",
+    authors: { PATIENT: "Paciente", PSYCHOLOGIST: "Psicologo(a)", AI: "IA", SYSTEM: "Sistema" },
+  },
+  EN: {
+    title: "Clinical report",
+    confidential: "Confidential. Contains patient health information.",
+    patient: "Patient",
+    psychologist: "Psychologist",
+    period: "Period",
+    generatedAt: "Generated at",
+    timeZone: "Time zone",
+    weeksTitle: "Weekly summaries",
+    week: "Week",
+    counts: (messages, records, signals) =>
+      `Messages: ${messages} | Records: ${records} | Signals: ${signals}`,
+    emotions: "Dominant emotions",
+    events: "Events",
+    narrative: "Narrative",
+    themes: "Themes",
+    changes: "What changed",
+    questions: "Questions for the session",
+    recordsTitle: "Records",
+    noRecords: "No records in this period.",
+    patientEntry: "patient diary",
+    fields: {
+      event: "Event",
+      thought: "Thought",
+      emotion: "Emotion",
+      body: "Body",
+      action: "Action",
+      result: "Result",
+    },
+    intensity: "Intensity",
+    signalsTitle: "Signal timeline",
+    noSignals: "no signals",
+    signals: {
+      anger: "Anger/discussion",
+      disconnect: "Disconnection",
+      rumination: "Rumination",
+      highRisk: "High risk",
+    },
+    excerptsTitle: "Selected message excerpts",
+    authors: { PATIENT: "Patient", PSYCHOLOGIST: "Psychologist", AI: "AI", SYSTEM: "System" },
+  },
+};
+
+const LOCALES: Record<Language, string> = { PT: "pt-BR", ES: "es-ES", EN: "en-US" };
+
+const section = (text: string): PdfBlock => ({ text, size: 13, bold: true, spaceBefore: 14 });
+
+function weekBlocks(summary: WeeklySummary, copy: ReportCopy, formatDate: (value: string) => string) {
+  const blocks: PdfBlock[] = [
+    {
+      text: `${copy.week} ${formatDate(summary.weekStart)} - ${formatDate(summary.weekEnd)}`,
+      size: 11,
+      bold: true,
+      spaceBefore: 8,
+    },
+    {
+      text: copy.counts(
+        summary.changes.messages,
+        summary.changes.events,
+        summary.changes.signals,
+      ),
+      gray: true,
+    },
+  ];
+  if (summary.dominantEmotions.length) {
+    blocks.push({
+      text: `${copy.emotions}: ${summary.dominantEmotions
+        .map((item) => `${item.label} (${item.count})`)
+        .join(", ")}`,
+    });
+  }
+  if (summary.events.length) {
+    blocks.push({ text: `${copy.events}:` });
+    summary.events.forEach((event) =>
+      blocks.push({ text: `- ${formatDate(event.createdAt)}: ${event.label}`, indent: 12 }),
+    );
+  }
+  const narrative = summary.narrative;
+  if (narrative) {
+    blocks.push({ text: `${copy.narrative} (${narrative.model})`, bold: true, spaceBefore: 4 });
+    if (narrative.themes.length) {
+      blocks.push({ text: `${copy.themes}: ${narrative.themes.join("; ")}`, indent: 12 });
+    }
+    if (narrative.changes) {
+      blocks.push({ text: `${copy.changes}: ${narrative.changes}`, indent: 12 });
+    }
+    if (narrative.questions.length) {
+      blocks.push({ text: `${copy.questions}:`, indent: 12 });
+      narrative.questions.forEach((question) =>
+        blocks.push({ text: `- ${question}`, indent: 24 }),
+      );
+    }
+  }
+  return blocks;
+}
+
+// Builds the PDF for one conversation between the calendar dates `from` and
+// `to` (YYYY-MM-DD, widened to whole weeks in the tenant's calendar). Missing
+// or stale weekly summaries are generated on the way.
+export async function buildClinicalReport(params: {
+  conversation: Conversation;
+  from: string;
+  to: string;
+  language: Language;
+  messageIds: string[];
+}) {
+  const { conversation, from, to, language, messageIds } = params;
+  const context = await loadWeeklySummaryContext(conversation);
+  if (!context) {
+    throw new Error("Tenant not found");
+  }
+  const { keys, week } = context;
+  const copy = REPORT_COPY[language];
+  const locale = LOCALES[language];
+  const formatDate = (value: string | Date) =>
+    new Intl.DateTimeFormat(locale, { timeZone: week.timeZone, dateStyle: "short" }).format(
+      new Date(value),
+    );
+  const formatDateTime = (value: string | Date) =>
+    new Intl.DateTimeFormat(locale, {
+      timeZone: week.timeZone,
+      dateStyle: "short",
+      timeStyle: "short",
+    }).format(new Date(value));
+
+  const firstWeek = getWeekBounds(parseDateInTimeZone(from, week.timeZone), week).weekStart;
+  const lastWeek = getWeekBounds(parseDateInTimeZone(to, week.timeZone), week).weekStart;
+  const rangeEnd = addDaysInTimeZone(lastWeek, 7, week.timeZone);
+  const weekStarts: Date[] = [];
+  for (
+    let weekStart = firstWeek;
+    weekStart <= lastWeek && weekStarts.length < MAX_REPORT_WEEKS;
+    weekStart = addDaysInTimeZone(weekStart, 7, week.timeZone)
+  ) {
+    weekStarts.push(weekStart);
+  }
+
+  const summaries: WeeklySummary[] = [];
+  for (const weekStart of weekStarts) {
+    summaries.push(
+      (await readWeeklySummary(context, weekStart)) ??
+        (await refreshWeeklySummary(context, weekStart)),
+    );
+  }
+
+  const [patient, psychologist, records, messages] = await Promise.all([
+    prisma.patientProfile.findUnique({ where: { userId: conversation.patientUserId } }),
+    prisma.psychologistProfile.findUnique({
+      where: { userId: conversation.psychologistUserId },
+    }),
+    prisma.record.findMany({
+      where: {
+        tenantId: conversation.tenantId,
+        conversationId: conversation.id,
+        createdAt: { gte: firstWeek, lt: rangeEnd },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    messageIds.length
+      ? prisma.message.findMany({
+          where: {
+            tenantId: conversation.tenantId,
+            conversationId: conversation.id,
+            id: { in: messageIds.slice(0, MAX_REPORT_EXCERPTS) },
+            deletedAt: null,
+          },
+          orderBy: { createdAt: "asc" },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const blocks: PdfBlock[] = [
+    { text: copy.title, size: 18, bold: true },
+    { text: copy.confidential, size: 9, gray: true, spaceBefore: 2 },
+    { text: `${copy.patient}: ${patient?.displayName ?? "-"}`, spaceBefore: 10 },
+    { text: `${copy.psychologist}: ${psychologist?.displayName ?? "-"}` },
+    {
+      text: `${copy.period}: ${formatDate(firstWeek)} - ${formatDate(
+        addDaysInTimeZone(rangeEnd, -1, week.timeZone),
+      )}`,
+    },
+    { text: `${copy.generatedAt}: ${formatDateTime(new Date())}` },
+    { text: `${copy.timeZone}: ${week.timeZone}`, gray: true },
+  ];
+
+  blocks.push(section(copy.weeksTitle));
+  summaries.forEach((summary) => blocks.push(...weekBlocks(summary, copy, formatDate)));
+
+  blocks.push(section(copy.recordsTitle));
+  if (!records.length) {
+    blocks.push({ text: copy.noRecords, gray: true });
+  }
+  records.forEach((record) => {
+    const data = decryptRecordData(record, keys);
+    const meta = [
+      formatDateTime(record.createdAt),
+      record.authorType === "PATIENT" ? copy.patientEntry : null,
+      typeof data.intensity === "number" ? `${copy.intensity} ${data.intensity}/10` : null,
+    ].filter(Boolean);
+    blocks.push({ text: meta.join(" | "), bold: true, size: 10, spaceBefore: 6 });
+    (Object.keys(copy.fields) as Array<keyof ReportCopy["fields"]>).forEach((key) => {
+      if (data[key]) {
+        blocks.push({ text: `${copy.fields[key]}: ${data[key]}`, indent: 12 });
+      }
+    });
+  });
+
+  blocks.push(section(copy.signalsTitle));
+  summaries.forEach((summary) => {
+    const signals = summary.signalsTriggered.length
+      ? summary.signalsTriggered
+          .map((item) => `${copy.signals[item.key]} ${item.count}`)
+          .join(", ")
+      : copy.noSignals;
+    blocks.push({ text: `${formatDate(summary.weekStart)}: ${signals}` });
+  });
+
+  if (messages.length) {
+    blocks.push(section(copy.excerptsTitle));
+    messages.forEach((message) => {
+      const content = decryptMessage(
+        message.ciphertext,
+        message.iv,
+        message.authTag,
+        keys.forVersion(message.dekVersion),
+      ).trim();
+      blocks.push({
+        text: `${formatDateTime(message.createdAt)} - ${copy.authors[message.authorType]}`,
+        bold: true,
+        spaceBefore: 6,
+      });
+      blocks.push({ text: content || "-", indent: 12 });
+    });
+  }
+
+  const pdf = renderPdf({
+    title: `${copy.title} - ${patient?.displayName ?? conversation.id}`,
+    footer: `${copy.title} - ${copy.confidential}`,
+    blocks,
+  });
+  return {
+    pdf,
+    weeks: summaries.length,
+    records: records.length,
+    excerpts: messages.length,
+    from: firstWeek,
+    to: rangeEnd,
+  };
+}
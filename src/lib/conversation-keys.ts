@@ -0,0 +1,91 @@
+import type { Conversation, DekRotation, Prisma } from "@prisma/client";
+import { decryptDek, decryptMessage, encryptMessage, getMasterKek } from "@/lib/crypto";
+
+type KeyedConversation = Pick<
+  Conversation,
+  "id" | "encryptedDek" | "previousEncryptedDek" | "dekVersion"
+>;
+
+// encryptedDek left on a conversation after a patient erasure destroyed it.
+export const SHREDDED_DEK = "";
+
+export type ConversationKeys = {
+  version: number;
+  current: Buffer;
+  forVersion: (dekVersion: number) => Buffer;
+};
+
+// New data is always written with `current` and stamped with `version`.
+// While a DEK rotation is running, rows that still carry the previous version
+// are read with the previous DEK.
+export function getConversationKeys(conversation: KeyedConversation): ConversationKeys {
+  if (conversation.encryptedDek === SHREDDED_DEK) {
+    throw new Error(`Conversation ${conversation.id} has been shredded`);
+  }
+  const keyring = getMasterKek();
+  const current = decryptDek(conversation.encryptedDek, keyring);
+  let previous: Buffer | null = null;
+  return {
+    version: conversation.dekVersion,
+    current,
+    forVersion: (dekVersion) => {
+      if (dekVersion === conversation.dekVersion) {
+        return current;
+      }
+      if (dekVersion === conversation.dekVersion - 1 && conversation.previousEncryptedDek) {
+        previous ??= decryptDek(conversation.previousEncryptedDek, keyring);
+        return previous;
+      }
+      throw new Error(
+        `No DEK version ${dekVersion} for conversation ${conversation.id}`,
+      );
+    },
+  };
+}
+
+type EncryptedPayload = {
+  ciphertext: string | null;
+  iv: string | null;
+  authTag: string | null;
+  dekVersion: number;
+};
+
+// JSON payloads (records, weekly summaries) use the same DEK and layout as
+// message bodies.
+export function encryptJson(value: unknown, keys: ConversationKeys) {
+  const encrypted = encryptMessage(JSON.stringify(value), keys.current);
+  return {
+    ciphertext: encrypted.ciphertext,
+    iv: encrypted.iv,
+    authTag: encrypted.authTag,
+    dekVersion: keys.version,
+  };
+}
+
+// Rows written before payloads were encrypted still hold plaintext JSON.
+export function decryptJson<T>(
+  row: EncryptedPayload,
+  plaintext: Prisma.JsonValue | null,
+  keys: ConversationKeys,
+): T | null {
+  if (row.ciphertext && row.iv && row.authTag) {
+    return JSON.parse(
+      decryptMessage(row.ciphertext, row.iv, row.authTag, keys.forVersion(row.dekVersion)),
+    ) as T;
+  }
+  return (plaintext as T | null) ?? null;
+}
+
+export function toDekRotationItem(rotation: DekRotation) {
+  return {
+    id: rotation.id,
+    fromVersion: rotation.fromVersion,
+    toVersion: rotation.toVersion,
+    status: rotation.status,
+    reencryptedCount: rotation.reencryptedCount,
+    lastError: rotation.lastError,
+    createdAt: rotation.createdAt.toISOString(),
+    startedAt: rotation.startedAt?.toISOString() ?? null,
+    completedAt: rotation.completedAt?.toISOString() ?? null,
+  };
+}
@@ -10,32 +10,93 @@ function fromBase64(input: string): Buffer {
   return Buffer.from(input, "base64");
 }
 
-export function getMasterKek(): Buffer {
+// Wrapped keys are stored as "<keyId>:<iv>.<tag>.<ciphertext>". Values written
+// before key ids existed have no prefix and belong to LEGACY_KEK_ID.
+export const LEGACY_KEK_ID = "v1";
+const KEY_ID_SEPARATOR = ":";
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export type MasterKeyring = {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+};
+
+function parseKek(encoded: string, name: string): Buffer {
+  const key = Buffer.from(encoded, "base64");
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes base64`);
+  }
+  return key;
+}
+
+function parseKeyId(keyId: string, name: string) {
+  if (!KEY_ID_PATTERN.test(keyId)) {
+    throw new Error(`${name} must match ${KEY_ID_PATTERN}`);
+  }
+  return keyId;
+}
+
+// MASTER_KEK_B64/MASTER_KEK_ID is the key new values are wrapped with.
+// MASTER_KEK_PREVIOUS ("v1:<base64>,v2:<base64>") keeps retired keys around
+// for decryption until the rewrap job has moved everything off them.
+export function getMasterKek(): MasterKeyring {
   const encoded = process.env.MASTER_KEK_B64;
   if (!encoded) {
     throw new Error("MASTER_KEK_B64 is not configured");
   }
-  const key = Buffer.from(encoded, "base64");
-  if (key.length !== 32) {
-    throw new Error("MASTER_KEK_B64 must be 32 bytes base64");
+  const currentKeyId = parseKeyId(process.env.MASTER_KEK_ID || LEGACY_KEK_ID, "MASTER_KEK_ID");
+  const keys = new Map<string, Buffer>();
+  for (const entry of (process.env.MASTER_KEK_PREVIOUS ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+    const separator = trimmed.indexOf(KEY_ID_SEPARATOR);
+    if (separator <= 0) {
+      throw new Error("MASTER_KEK_PREVIOUS entries must be <keyId>:<base64>");
+    }
+    const keyId = parseKeyId(trimmed.slice(0, separator), "MASTER_KEK_PREVIOUS key id");
+    keys.set(keyId, parseKek(trimmed.slice(separator + 1), `MASTER_KEK_PREVIOUS[${keyId}]`));
   }
-  return key;
+  keys.set(currentKeyId, parseKek(encoded, "MASTER_KEK_B64"));
+  return { currentKeyId, keys };
+}
+
+export function getWrappedKeyId(packed: string): string {
+  const separator = packed.indexOf(KEY_ID_SEPARATOR);
+  return separator > 0 ? packed.slice(0, separator) : LEGACY_KEK_ID;
 }
 
 export function generateDek(): Buffer {
   return randomBytes(32);
 }
 
-export function encryptDek(dek: Buffer, masterKey: Buffer): string {
+export function encryptDek(dek: Buffer, keyring: MasterKeyring): string {
+  const masterKey = keyring.keys.get(keyring.currentKeyId);
+  if (!masterKey) {
+    throw new Error(`Master KEK ${keyring.currentKeyId} is not configured`);
+  }
   const iv = randomBytes(12);
   const cipher = createCipheriv("aes-256-gcm", masterKey, iv);
   const ciphertext = Buffer.concat([cipher.update(dek), cipher.final()]);
   const authTag = cipher.getAuthTag();
-  return [toBase64(iv), toBase64(authTag), toBase64(ciphertext)].join(DELIMITER);
+  return `${keyring.currentKeyId}${KEY_ID_SEPARATOR}${[
+    toBase64(iv),
+    toBase64(authTag),
+    toBase64(ciphertext),
+  ].join(DELIMITER)}`;
 }
 
-export function decryptDek(packed: string, masterKey: Buffer): Buffer {
-  const [ivB64, tagB64, cipherB64] = packed.split(DELIMITER);
+export function decryptDek(packed: string, keyring: MasterKeyring): Buffer {
+  const keyId = getWrappedKeyId(packed);
+  const masterKey = keyring.keys.get(keyId);
+  if (!masterKey) {
+    throw new Error(`Master KEK ${keyId} is not configured`);
+  }
+  const body = packed.includes(KEY_ID_SEPARATOR)
+    ? packed.slice(packed.indexOf(KEY_ID_SEPARATOR) + 1)
+    : packed;
+  const [ivB64, tagB64, cipherB64] = body.split(DELIMITER);
   if (!ivB64 || !tagB64 || !cipherB64) {
     throw new Error("Invalid encrypted DEK format");
   }
@@ -47,6 +108,19 @@ export function decryptDek(packed: string, masterKey: Buffer): Buffer {
   return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
 }
 
+// Re-encrypts a wrapped value under the current KEK without exposing it.
+export function rewrapDek(packed: string, keyring: MasterKeyring): string {
+  return encryptDek(decryptDek(packed, keyring), keyring);
+}
+
+export function encryptSecret(secret: string, keyring: MasterKeyring): string {
+  return encryptDek(Buffer.from(secret, "utf8"), keyring);
+}
+
+export function decryptSecret(packed: string, keyring: MasterKeyring): string {
+  return decryptDek(packed, keyring).toString("utf8");
+}
+
 export function encryptMessage(plaintext: string, dek: Buffer) {
   const iv = randomBytes(12);
   const cipher = createCipheriv("aes-256-gcm", dek, iv);
@@ -0,0 +1,264 @@
+import { randomInt } from "crypto";
+import type { DataExport } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { decryptBytes, decryptMessage } from "@/lib/crypto";
+import { decryptJson, getConversationKeys } from "@/lib/conversation-keys";
+import { decryptRecordData } from "@/lib/records";
+import type { WeeklySummary } from "@/lib/weekly-summaries";
+import { getAttachmentExtension } from "@/lib/attachments";
+import { hashOtp, verifyOtp } from "@/lib/auth/otp";
+import { createZip, type ZipEntry } from "@/lib/zip";
+
+// How long a finished archive can be downloaded before it is dropped.
+export const DATA_EXPORT_TTL_HOURS = 72;
+export const MAX_DATA_EXPORT_ATTEMPTS = 5;
+// Uncompressed content per archive. The worker and the download route each
+// hold a few copies of the archive in memory and it is kept in a single
+// column until downloaded, so larger exports fail instead.
+export const MAX_DATA_EXPORT_BYTES = 20 * 1024 * 1024;
+
+export class DataExportTooLargeError extends Error {
+  constructor() {
+    super(`Export exceeds ${MAX_DATA_EXPORT_BYTES / (1024 * 1024)} MB`);
+    this.name = "DataExportTooLargeError";
+  }
+}
+
+const MESSAGE_BATCH_SIZE = 200;
+
+// No 0/O or 1/I so the password survives being read out or copied by hand.
+const PASSWORD_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export function generateExportPassword() {
+  const groups = Array.from({ length: 3 }, () =>
+    Array.from({ length: 4 }, () => PASSWORD_ALPHABET[randomInt(PASSWORD_ALPHABET.length)]).join(
+      "",
+    ),
+  );
+  return groups.join("-");
+}
+
+function normalizeExportPassword(password: string) {
+  return password.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// The password as issued (XXXX-XXXX-XXXX), whatever case or separators were
+// typed; the downloaded archive is encrypted with exactly this string.
+export function formatExportPassword(password: string) {
+  return normalizeExportPassword(password).match(/.{1,4}/g)?.join("-") ?? "";
+}
+
+export function hashExportPassword(password: string) {
+  return hashOtp(normalizeExportPassword(password));
+}
+
+export function verifyExportPassword(password: string, passwordHash: string) {
+  return verifyOtp(normalizeExportPassword(password), passwordHash);
+}
+
+// Clears everything needed to decrypt the archive.
+export const PURGED_ARCHIVE = {
+  keyEncrypted: null,
+  ciphertext: null,
+  iv: null,
+  authTag: null,
+};
+
+export function toDataExportItem(item: DataExport) {
+  return {
+    id: item.id,
+    status: item.status,
+    requestedByPatient: item.requestedByUserId === item.patientUserId,
+    sizeBytes: item.sizeBytes,
+    tooLarge: item.status === "FAILED" && item.failureReason === "TOO_LARGE",
+    readyAt: item.readyAt,
+    expiresAt: item.expiresAt,
+    downloadedAt: item.downloadedAt,
+    createdAt: item.createdAt,
+  };
+}
+
+const toJson = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+// Gathers everything stored about the patient across their conversations,
+// decrypted, as a plain ZIP: profile.json, then per conversation its messages,
+// attachments, records and weekly summaries. Throws DataExportTooLargeError
+// as soon as the content passes MAX_DATA_EXPORT_BYTES.
+export async function buildPatientArchive(params: { tenantId: string; patientUserId: string }) {
+  const { tenantId, patientUserId } = params;
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  const user = await prisma.user.findFirst({
+    where: { tenantId, id: patientUserId, role: "PATIENT" },
+  });
+  if (!tenant || !user) {
+    throw new Error(`Patient ${patientUserId} not found`);
+  }
+  const profile = await prisma.patientProfile.findUnique({ where: { userId: user.id } });
+
+  const exportedAt = new Date();
+  const entries: ZipEntry[] = [];
+  const counts = { conversations: 0, messages: 0, attachments: 0, records: 0, summaries: 0 };
+  let totalBytes = 0;
+  const addEntry = (entry: ZipEntry, position: "end" | "start" = "end") => {
+    totalBytes +=
+      typeof entry.data === "string" ? Buffer.byteLength(entry.data, "utf8") : entry.data.length;
+    if (totalBytes > MAX_DATA_EXPORT_BYTES) {
+      throw new DataExportTooLargeError();
+    }
+    if (position === "start") {
+      entries.unshift(entry);
+    } else {
+      entries.push(entry);
+    }
+  };
+
+  addEntry({
+    name: "profile.json",
+    data: toJson({
+      id: user.id,
+      email: user.email,
+      phone: user.phone,
+      displayName: profile?.displayName ?? null,
+      phoneE164: profile?.phoneE164 ?? null,
+      preferredLanguage: profile?.preferredLanguage ?? null,
+      createdAt: user.createdAt,
+    }),
+    modifiedAt: exportedAt,
+  });
+
+  const conversations = await prisma.conversation.findMany({
+    where: { tenantId, patientUserId: user.id },
+    include: {
+      psychologist: {
+        select: { email: true, psychologistProfile: { select: { displayName: true } } },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  for (const conversation of conversations) {
+    const keys = getConversationKeys(conversation);
+    const folder = `conversations/${conversation.id}`;
+    counts.conversations += 1;
+
+    addEntry({
+      name: `${folder}/conversation.json`,
+      data: toJson({
+        id: conversation.id,
+        psychologist:
+          conversation.psychologist.psychologistProfile?.displayName ??
+          conversation.psychologist.email,
+        status: conversation.status,
+        language: conversation.language,
+        createdAt: conversation.createdAt,
+      }),
+      modifiedAt: conversation.updatedAt,
+    });
+
+    const messages: Array<Record<string, unknown> & { createdAt: Date; id: string }> = [];
+    let afterId = "";
+    for (;;) {
+      const batch = await prisma.message.findMany({
+        where: { tenantId, conversationId: conversation.id, id: { gt: afterId } },
+        orderBy: { id: "asc" },
+        take: MESSAGE_BATCH_SIZE,
+      });
+      if (!batch.length) {
+        break;
+      }
+      for (const message of batch) {
+        const dek = keys.forVersion(message.dekVersion);
+        let attachment: string | null = null;
+        if (
+          !message.deletedAt &&
+          message.attachmentCiphertext &&
+          message.attachmentIv &&
+          message.attachmentAuthTag
+        ) {
+          attachment = `attachments/${message.id}.${getAttachmentExtension(message.attachmentMime)}`;
+          addEntry({
+            name: `${folder}/${attachment}`,
+            data: decryptBytes(
+              message.attachmentCiphertext,
+              message.attachmentIv,
+              message.attachmentAuthTag,
+              dek,
+            ),
+            modifiedAt: message.createdAt,
+          });
+          counts.attachments += 1;
+        }
+        messages.push({
+          id: message.id,
+          createdAt: message.createdAt,
+          direction: message.direction,
+          authorType: message.authorType,
+          content: message.deletedAt
+            ? ""
+            : decryptMessage(message.ciphertext, message.iv, message.authTag, dek),
+          deletedAt: message.deletedAt,
+          attachment,
+          attachmentMime: attachment ? message.attachmentMime : null,
+        });
+      }
+      afterId = batch[batch.length - 1].id;
+    }
+    messages.sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id),
+    );
+    counts.messages += messages.length;
+    addEntry({ name: `${folder}/messages.json`, data: toJson(messages), modifiedAt: exportedAt });
+
+    const records = await prisma.record.findMany({
+      where: { tenantId, conversationId: conversation.id },
+      orderBy: { createdAt: "asc" },
+    });
+    counts.records += records.length;
+    addEntry({
+      name: `${folder}/records.json`,
+      data: toJson(
+        records.map((record) => ({
+          id: record.id,
+          createdAt: record.createdAt,
+          authorType: record.authorType,
+          ...decryptRecordData(record, keys),
+        })),
+      ),
+      modifiedAt: exportedAt,
+    });
+
+    const summaries = await prisma.weeklySummary.findMany({
+      where: { tenantId, conversationId: conversation.id },
+      orderBy: { weekStart: "asc" },
+    });
+    counts.summaries += summaries.length;
+    addEntry({
+      name: `${folder}/weekly-summaries.json`,
+      data: toJson(
+        summaries.map((summary) => ({
+          weekStart: summary.weekStart,
+          weekEnd: summary.weekEnd,
+          generatedAt: summary.generatedAt,
+          summary: decryptJson<WeeklySummary>(summary, summary.summaryJson, keys),
+        })),
+      ),
+      modifiedAt: exportedAt,
+    });
+  }
+
+  addEntry(
+    {
+      name: "manifest.json",
+      data: toJson({
+        patientId: user.id,
+        exportedAt,
+        timeZone: tenant.timeZone,
+        counts,
+      }),
+      modifiedAt: exportedAt,
+    },
+    "start",
+  );
+
+  return { archive: createZip(entries), counts };
+}
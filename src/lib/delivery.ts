@@ -0,0 +1,122 @@
+import type { MessageDeliveryStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getEvolutionConfig } from "@/lib/channels";
+import { enqueueOutboundMessage } from "@/lib/queues";
+import { publishConversationEvent } from "@/lib/realtime";
+import { getRedis } from "@/lib/redis";
+
+const DELIVERY_ORDER: MessageDeliveryStatus[] = ["QUEUED", "SENT", "DELIVERED", "READ"];
+
+// Evolution can ack a message before the outbound job has stored its id;
+// such acks wait this long in Redis for the id to show up.
+const PENDING_ACK_TTL_SECONDS = 10 * 60;
+
+function pendingAckKey(tenantId: string, externalMessageId: string) {
+  return `psyos:delivery:pending-ack:${tenantId}:${externalMessageId}`;
+}
+
+// Acks can arrive out of order; only move forward, and never mark a message
+// as failed once the patient's device has acknowledged it.
+function statusesBelow(status: MessageDeliveryStatus): MessageDeliveryStatus[] {
+  if (status === "FAILED") {
+    return ["QUEUED", "SENT"];
+  }
+  const index = DELIVERY_ORDER.indexOf(status);
+  return [...DELIVERY_ORDER.slice(0, index), "FAILED"];
+}
+
+async function findOutboundMessage(params: {
+  tenantId: string;
+  messageId?: string;
+  externalMessageId?: string;
+}) {
+  return prisma.message.findFirst({
+    where: {
+      tenantId: params.tenantId,
+      direction: "OUT",
+      ...(params.messageId
+        ? { id: params.messageId }
+        : { externalMessageId: params.externalMessageId }),
+    },
+    select: { id: true, conversationId: true },
+  });
+}
+
+export async function updateDeliveryStatus(params: {
+  tenantId: string;
+  status: MessageDeliveryStatus;
+  messageId?: string;
+  externalMessageId?: string;
+}) {
+  const { tenantId, status, messageId, externalMessageId } = params;
+  if (!messageId && !externalMessageId) {
+    return 0;
+  }
+  const message = await findOutboundMessage({ tenantId, messageId, externalMessageId });
+  if (!message) {
+    if (!messageId && externalMessageId) {
+      await bufferPendingAck({ tenantId, externalMessageId, status });
+    }
+    return 0;
+  }
+  const result = await prisma.message.updateMany({
+    where: {
+      tenantId,
+      id: message.id,
+      OR: [{ deliveryStatus: null }, { deliveryStatus: { in: statusesBelow(status) } }],
+    },
+    data: { deliveryStatus: status, deliveryUpdatedAt: new Date() },
+  });
+  if (result.count > 0) {
+    await publishConversationEvent({
+      tenantId,
+      conversationId: message.conversationId,
+      event: { type: "message.updated", messageId: message.id },
+    });
+  }
+  return result.count;
+}
+
+async function bufferPendingAck(params: {
+  tenantId: string;
+  externalMessageId: string;
+  status: MessageDeliveryStatus;
+}) {
+  const key = pendingAckKey(params.tenantId, params.externalMessageId);
+  await getRedis().multi().rpush(key, params.status).expire(key, PENDING_ACK_TTL_SECONDS).exec();
+  // The outbound job may have stored the id between the lookup and the push
+  // and already drained the buffer; look again so the ack is not stranded.
+  const message = await findOutboundMessage(params);
+  if (message) {
+    await applyPendingAcks({ ...params, messageId: message.id });
+  }
+}
+
+// Called once the outbound job has stored the id Evolution returned.
+export async function applyPendingAcks(params: {
+  tenantId: string;
+  messageId: string;
+  externalMessageId: string;
+}) {
+  const key = pendingAckKey(params.tenantId, params.externalMessageId);
+  const result = await getRedis().multi().lrange(key, 0, -1).del(key).exec();
+  const statuses = (result?.[0]?.[1] as string[] | undefined) ?? [];
+  for (const status of statuses) {
+    await updateDeliveryStatus({
+      tenantId: params.tenantId,
+      messageId: params.messageId,
+      status: status as MessageDeliveryStatus,
+    });
+  }
+}
+
+export async function queueOutboundDelivery(params: {
+  tenantId: string;
+  messageId: string;
+}) {
+  if (!(await getEvolutionConfig(params.tenantId))) {
+    return;
+  }
+  await updateDeliveryStatus({ ...params, status: "QUEUED" });
+  await enqueueOutboundMessage(params);
+}
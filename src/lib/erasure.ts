@@ -0,0 +1,87 @@
+import { Prisma, type PatientErasure } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { SHREDDED_DEK } from "@/lib/conversation-keys";
+import { PURGED_ARCHIVE } from "@/lib/data-export";
+
+// Time an admin has to cancel a scheduled erasure before it runs.
+export const ERASURE_COOLING_OFF_DAYS = 7;
+
+export function toPatientErasureItem(erasure: PatientErasure) {
+  return {
+    id: erasure.id,
+    patientUserId: erasure.patientUserId,
+    status: erasure.status,
+    scheduledFor: erasure.scheduledFor,
+    cancelledAt: erasure.cancelledAt,
+    completedAt: erasure.completedAt,
+    lastError: erasure.lastError,
+    createdAt: erasure.createdAt,
+  };
+}
+
+// Forgets a patient. Every step is idempotent so a failed run can simply be
+// retried:
+// - each conversation's DEK is destroyed, which leaves messages, attachments,
+//   records and drafts as undecryptable ciphertext;
+// - what is not under the DEK goes: search tokens, weekly summaries, the
+//   conversation's AI policy, access grants and legacy plaintext payloads;
+// - the profile, credentials, sessions and export archives are removed and
+//   the User row is kept only as a tombstone with no PII.
+export async function erasePatient(erasure: PatientErasure) {
+  const { tenantId, patientUserId } = erasure;
+  const now = new Date();
+
+  const conversations = await prisma.conversation.findMany({
+    where: { tenantId, patientUserId },
+    select: { id: true },
+  });
+  for (const { id: conversationId } of conversations) {
+    const scope = { tenantId, conversationId };
+    await prisma.searchToken.deleteMany({ where: scope });
+    await prisma.weeklySummary.deleteMany({ where: scope });
+    await prisma.aiPolicy.deleteMany({ where: scope });
+    await prisma.conversationAccessGrant.deleteMany({ where: scope });
+    await prisma.record.updateMany({
+      where: { ...scope, dataJson: { not: Prisma.DbNull } },
+      data: { dataJson: Prisma.DbNull },
+    });
+    await prisma.recordDraft.updateMany({
+      where: { ...scope, status: "PENDING" },
+      data: { status: "DISCARDED", ciphertext: null, iv: null, authTag: null },
+    });
+    await prisma.conversation.updateMany({
+      where: { tenantId, id: conversationId },
+      data: {
+        encryptedDek: SHREDDED_DEK,
+        previousEncryptedDek: null,
+        status: "CLOSED",
+        aiEnabled: false,
+        shreddedAt: now,
+      },
+    });
+  }
+
+  await prisma.dataExport.updateMany({
+    where: { tenantId, patientUserId, status: { in: ["PENDING", "RUNNING", "READY"] } },
+    data: { ...PURGED_ARCHIVE, status: "EXPIRED" },
+  });
+  await prisma.session.deleteMany({ where: { tenantId, userId: patientUserId } });
+  await prisma.mfaChallenge.deleteMany({ where: { tenantId, userId: patientUserId } });
+  await prisma.webAuthnCredential.deleteMany({ where: { tenantId, userId: patientUserId } });
+  await prisma.patientProfile.deleteMany({ where: { userId: patientUserId } });
+  await prisma.user.updateMany({
+    where: { tenantId, id: patientUserId },
+    data: {
+      email: null,
+      phone: null,
+      passwordHash: null,
+      webauthnEnabled: false,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      isActive: false,
+      erasedAt: now,
+    },
+  });
+
+  return { conversations: conversations.length };
+}
@@ -0,0 +1,168 @@
+import type { MessageDeliveryStatus } from "@prisma/client";
+
+export type EvolutionConfig = {
+  baseUrl: string;
+  apiKey: string;
+  instance: string;
+};
+
+type EvolutionSendResponse = {
+  key?: { id?: string; remoteJid?: string; fromMe?: boolean };
+  status?: string;
+};
+
+type EvolutionMediaResponse = {
+  base64?: string;
+  mimetype?: string;
+  fileName?: string;
+};
+
+function toEvolutionNumber(phoneE164: string) {
+  return phoneE164.replace(/[^\d]/g, "");
+}
+
+async function callEvolution<T>(
+  config: EvolutionConfig,
+  path: string,
+  payload: Record<string, unknown>,
+) {
+  const response = await fetch(
+    `${config.baseUrl}${path}/${encodeURIComponent(config.instance)}`,
+    {
+      method: "POST",
+      headers: {
+        apikey: config.apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    },
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new Error(
+      `Evolution request failed (${response.status}): ${errorText || "no body"}`,
+    );
+  }
+
+  return (await response.json().catch(() => ({}))) as T;
+}
+
+async function postEvolution(
+  config: EvolutionConfig,
+  path: string,
+  payload: Record<string, unknown>,
+) {
+  const data = await callEvolution<EvolutionSendResponse>(config, path, payload);
+  const externalId = data.key?.id;
+  if (!externalId) {
+    throw new Error("Evolution response missing message id");
+  }
+  return externalId;
+}
+
+export async function sendEvolutionText(
+  config: EvolutionConfig,
+  params: { phoneE164: string; text: string },
+) {
+  return postEvolution(config, "/message/sendText", {
+    number: toEvolutionNumber(params.phoneE164),
+    text: params.text,
+  });
+}
+
+export async function sendEvolutionAudio(
+  config: EvolutionConfig,
+  params: { phoneE164: string; audio: Buffer },
+) {
+  return postEvolution(config, "/message/sendWhatsAppAudio", {
+    number: toEvolutionNumber(params.phoneE164),
+    audio: params.audio.toString("base64"),
+  });
+}
+
+export async function downloadEvolutionMedia(
+  config: EvolutionConfig,
+  externalMessageId: string,
+) {
+  const data = await callEvolution<EvolutionMediaResponse>(
+    config,
+    "/chat/getBase64FromMediaMessage",
+    { message: { key: { id: externalMessageId } }, convertToMp4: false },
+  );
+  if (!data.base64) {
+    throw new Error("Evolution response missing media");
+  }
+  return {
+    bytes: Buffer.from(data.base64, "base64"),
+    mimeType: data.mimetype ?? null,
+    fileName: data.fileName ?? null,
+  };
+}
+
+const NUMERIC_ACK_STATUS: Record<number, MessageDeliveryStatus> = {
+  0: "FAILED",
+  1: "QUEUED",
+  2: "SENT",
+  3: "DELIVERED",
+  4: "READ",
+  5: "READ",
+};
+
+const NAMED_ACK_STATUS: Record<string, MessageDeliveryStatus> = {
+  ERROR: "FAILED",
+  FAILED: "FAILED",
+  PENDING: "QUEUED",
+  SERVER_ACK: "SENT",
+  SENT: "SENT",
+  DELIVERY_ACK: "DELIVERED",
+  DELIVERED: "DELIVERED",
+  READ: "READ",
+  PLAYED: "READ",
+};
+
+export function mapEvolutionAck(raw: unknown): MessageDeliveryStatus | null {
+  if (typeof raw === "number") {
+    return NUMERIC_ACK_STATUS[raw] ?? null;
+  }
+  if (typeof raw === "string") {
+    const numeric = Number(raw);
+    if (raw.trim() && Number.isInteger(numeric)) {
+      return NUMERIC_ACK_STATUS[numeric] ?? null;
+    }
+    return NAMED_ACK_STATUS[raw.trim().toUpperCase()] ?? null;
+  }
+  return null;
+}
+
+export function isEvolutionStatusEvent(event: string) {
+  const normalized = event.trim().toLowerCase().replace(/_/g, ".");
+  return (
+    normalized === "messages.update" ||
+    normalized === "message.ack" ||
+    normalized === "ack"
+  );
+}
+
+export function extractEvolutionAcks(data: unknown) {
+  const items = Array.isArray(data) ? data : data ? [data] : [];
+  const acks: Array<{ externalMessageId: string; status: MessageDeliveryStatus }> = [];
+  for (const item of items) {
+    if (!item || typeof item !== "object") {
+      continue;
+    }
+    const record = item as Record<string, unknown>;
+    const key = (record.key as Record<string, unknown> | undefined) ?? {};
+    const update = (record.update as Record<string, unknown> | undefined) ?? {};
+    const externalMessageId =
+      (record.keyId as string | undefined) ||
+      (key.id as string | undefined) ||
+      (record.id as string | undefined) ||
+      "";
+    const status = mapEvolutionAck(record.status ?? update.status ?? record.ack);
+    if (externalMessageId && status) {
+      acks.push({ externalMessageId, status });
+    }
+  }
+  return acks;
+}
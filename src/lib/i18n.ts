@@ -98,6 +98,58 @@ const translations = {
     assistantLabel: "Asistente",
     messageDeleted: "Mensaje eliminado",
     deleteMessage: "Eliminar mensaje",
+    deliveryQueued: "En cola",
+    deliverySent: "Enviado",
+    deliveryDelivered: "Entregado",
+    deliveryRead: "Leído",
+    deliveryFailed: "No se pudo entregar",
+    attachmentImage: "Imagen",
+    audioTranscript: "Transcripción",
+    loadOlderMessages: "Cargar mensajes anteriores",
+    loadingOlderMessages: "Cargando mensajes anteriores...",
+    historyStart: "Inicio de la conversación",
+    patientDiaryTitle: "Mi diario",
+    patientDiaryHint: "Registra lo que pasó para conversarlo en la sesión.",
+    patientDiaryNew: "Nueva entrada",
+    patientDiaryEvent: "¿Qué pasó?",
+    patientDiaryThought: "¿Qué pensaste?",
+    patientDiaryEmotion: "¿Qué sentiste?",
+    patientDiaryBody: "¿Cómo reaccionó tu cuerpo?",
+    patientDiaryAction: "¿Qué hiciste?",
+    patientDiaryResult: "¿Qué pasó después?",
+    patientDiaryIntensity: "Intensidad",
+    patientDiarySave: "Guardar entrada",
+    patientDiarySaved: "Entrada guardada.",
+    patientDiaryEventRequired: "Describe qué pasó.",
+    patientDiaryRecent: "Entradas recientes",
+    patientDiaryEmpty: "Todavía no hay entradas.",
+    patientExportTitle: "Mis datos",
+    patientExportHint: "Descarga una copia de tus conversaciones, adjuntos, registros y resúmenes.",
+    patientExportRequest: "Solicitar exportación",
+    patientExportPasswordOnce: "Guarda esta contraseña: se muestra una sola vez, sirve para una única descarga y abre el ZIP descargado (con 7-Zip u otro programa compatible con ZIP AES).",
+    patientExportPassword: "Contraseña",
+    patientExportDownload: "Descargar",
+    patientExportEmpty: "Aún no hay exportaciones.",
+    patientExportPending: "Preparando",
+    patientExportReady: "Disponible hasta",
+    patientExportDownloaded: "Descargado",
+    patientExportExpired: "Expirado",
+    patientExportFailed: "No disponible",
+    patientExportTooLarge: "Demasiado grande para exportar; pide la copia a tu clínica",
+    sessionsTitle: "Sesiones abiertas",
+    sessionsHint: "Dispositivos conectados a tu cuenta. Cierra los que no reconozcas.",
+    sessionCurrent: "Este dispositivo",
+    sessionLastSeen: "Último uso",
+    sessionSignedInAt: "Inició sesión el",
+    sessionUnknownDevice: "Dispositivo desconocido",
+    sessionRevoke: "Cerrar",
+    sessionSignOut: "Salir",
+    sessionRevokeAll: "Cerrar las demás sesiones",
+    sessionsEmpty: "No hay sesiones activas.",
+    sessionIdleWarning: "Tu sesión se cerrará por inactividad en",
+    sessionAbsoluteWarning: "Tu sesión llegó al tiempo máximo y se cerrará en",
+    sessionStay: "Seguir conectado",
+    attachmentDocument: "Abrir documento",
     chatToday: "Hoy",
     chatYesterday: "Ayer",
     loading: "Cargando...",
@@ -194,6 +246,58 @@ const translations = {
     assistantLabel: "Assistente",
     messageDeleted: "Mensagem removida",
     deleteMessage: "Apagar mensagem",
+    deliveryQueued: "Na fila",
+    deliverySent: "Enviada",
+    deliveryDelivered: "Entregue",
+    deliveryRead: "Lida",
+    deliveryFailed: "Falha na entrega",
+    attachmentImage: "Imagem",
+    audioTranscript: "Transcrição",
+    loadOlderMessages: "Carregar mensagens anteriores",
+    loadingOlderMessages: "Carregando mensagens anteriores...",
+    historyStart: "Início da conversa",
+    patientDiaryTitle: "Meu diário",
+    patientDiaryHint: "Registre o que aconteceu para conversar na sessão.",
+    patientDiaryNew: "Nova entrada",
+    patientDiaryEvent: "O que aconteceu?",
+    patientDiaryThought: "O que você pensou?",
+    patientDiaryEmotion: "O que você sentiu?",
+    patientDiaryBody: "Como o corpo reagiu?",
+    patientDiaryAction: "O que você fez?",
+    patientDiaryResult: "O que aconteceu depois?",
+    patientDiaryIntensity: "Intensidade",
+    patientDiarySave: "Salvar entrada",
+    patientDiarySaved: "Entrada salva.",
+    patientDiaryEventRequired: "Descreva o que aconteceu.",
+    patientDiaryRecent: "Entradas recentes",
+    patientDiaryEmpty: "Ainda não há entradas.",
+    patientExportTitle: "Meus dados",
+    patientExportHint: "Baixe uma cópia das suas conversas, anexos, registros e resumos.",
+    patientExportRequest: "Solicitar exportação",
+    patientExportPasswordOnce: "Guarde esta senha: ela aparece só uma vez, vale para um único download e abre o ZIP baixado (com 7-Zip ou outro programa compatível com ZIP AES).",
+    patientExportPassword: "Senha",
+    patientExportDownload: "Baixar",
+    patientExportEmpty: "Nenhuma exportação ainda.",
+    patientExportPending: "Preparando",
+    patientExportReady: "Disponível até",
+    patientExportDownloaded: "Baixado",
+    patientExportExpired: "Expirado",
+    patientExportFailed: "Indisponível",
+    patientExportTooLarge: "Grande demais para exportar; peça a cópia à sua clínica",
+    sessionsTitle: "Sessões abertas",
+    sessionsHint: "Dispositivos conectados à sua conta. Encerre os que você não reconhecer.",
+    sessionCurrent: "Este dispositivo",
+    sessionLastSeen: "Último uso",
+    sessionSignedInAt: "Entrou em",
+    sessionUnknownDevice: "Dispositivo desconhecido",
+    sessionRevoke: "Encerrar",
+    sessionSignOut: "Sair",
+    sessionRevokeAll: "Encerrar as outras sessões",
+    sessionsEmpty: "Nenhuma sessão ativa.",
+    sessionIdleWarning: "Sua sessão será encerrada por inatividade em",
+    sessionAbsoluteWarning: "Sua sessão atingiu o tempo máximo e será encerrada em",
+    sessionStay: "Continuar conectado",
+    attachmentDocument: "Abrir documento",
     chatToday: "Hoje",
     chatYesterday: "Ontem",
     loading: "Carregando...",
@@ -291,6 +395,58 @@ const translations = {
     assistantLabel: "Assistant",
     messageDeleted: "Message deleted",
     deleteMessage: "Delete message",
+    deliveryQueued: "Queued",
+    deliverySent: "Sent",
+    deliveryDelivered: "Delivered",
+    deliveryRead: "Read",
+    deliveryFailed: "Delivery failed",
+    attachmentImage: "Image",
+    audioTranscript: "Transcript",
+    loadOlderMessages: "Load earlier messages",
+    loadingOlderMessages: "Loading earlier messages...",
+    historyStart: "Start of conversation",
+    patientDiaryTitle: "My diary",
+    patientDiaryHint: "Write down what happened to talk about it in session.",
+    patientDiaryNew: "New entry",
+    patientDiaryEvent: "What happened?",
+    patientDiaryThought: "What did you think?",
+    patientDiaryEmotion: "What did you feel?",
+    patientDiaryBody: "How did your body react?",
+    patientDiaryAction: "What did you do?",
+    patientDiaryResult: "What happened next?",
+    patientDiaryIntensity: "Intensity",
+    patientDiarySave: "Save entry",
+    patientDiarySaved: "Entry saved.",
+    patientDiaryEventRequired: "Describe what happened.",
+    patientDiaryRecent: "Recent entries",
+    patientDiaryEmpty: "No entries yet.",
+    patientExportTitle: "My data",
+    patientExportHint: "Download a copy of your conversations, attachments, records and summaries.",
+    patientExportRequest: "Request export",
+    patientExportPasswordOnce: "Keep this password: it is shown only once, works for a single download and opens the downloaded ZIP (with 7-Zip or another archiver that supports AES ZIP).",
+    patientExportPassword: "Password",
+    patientExportDownload: "Download",
+    patientExportEmpty: "No exports yet.",
+    patientExportPending: "Preparing",
+    patientExportReady: "Available until",
+    patientExportDownloaded: "Downloaded",
+    patientExportExpired: "Expired",
+    patientExportFailed: "Unavailable",
+    patientExportTooLarge: "Too large to export; ask your clinic for the copy",
+    sessionsTitle: "Open sessions",
+    sessionsHint: "Devices signed in to your account. End any you don't recognize.",
+    sessionCurrent: "This device",
+    sessionLastSeen: "Last used",
+    sessionSignedInAt: "Signed in",
+    sessionUnknownDevice: "Unknown device",
+    sessionRevoke: "End",
+    sessionSignOut: "Sign out",
+    sessionRevokeAll: "End all other sessions",
+    sessionsEmpty: "No active sessions.",
+    sessionIdleWarning: "You will be signed out for inactivity in",
+    sessionAbsoluteWarning: "Your session reached its time limit and ends in",
+    sessionStay: "Stay signed in",
+    attachmentDocument: "Open document",
     chatToday: "Today",
     chatYesterday: "Yesterday",
     loading: "Loading...",
@@ -304,16 +460,17 @@ const translations = {
   },
 };
 
-export function useLanguage() {
+// `fallback` is the tenant's default language, used until the user picks one.
+export function useLanguage(fallback: Language = DEFAULT_LANGUAGE) {
   const [language, setLanguage] = useState<Language>(() => {
     if (typeof window === "undefined") {
-      return DEFAULT_LANGUAGE;
+      return fallback;
     }
     const stored = localStorage.getItem(STORAGE_KEY) as Language | null;
     if (stored && ["es", "pt", "en"].includes(stored)) {
       return stored;
     }
-    return DEFAULT_LANGUAGE;
+    return fallback;
   });
 
   useEffect(() => {
@@ -0,0 +1,234 @@
+import type { KeyRotation, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { rewrapDek, type MasterKeyring } from "@/lib/crypto";
+
+const REWRAP_BATCH_SIZE = 100;
+
+type WrappedRow = { id: string; tenantId: string; wrapped: string };
+
+// Every column holding a value encrypted with the master KEK. A row is stale
+// when its key id prefix is not the target key.
+type WrappedKeyTarget = {
+  name: string;
+  count: (prefix: string) => Promise<number>;
+  findStale: (prefix: string, afterId: string) => Promise<WrappedRow[]>;
+  replace: (row: WrappedRow, wrapped: string) => Promise<number>;
+};
+
+const WRAPPED_KEY_TARGETS: WrappedKeyTarget[] = [
+  {
+    name: "conversationDek",
+    count: (prefix) =>
+      prisma.conversation.count({
+        where: { shreddedAt: null, NOT: { encryptedDek: { startsWith: prefix } } },
+      }),
+    findStale: async (prefix, afterId) => {
+      const rows = await prisma.conversation.findMany({
+        where: {
+          id: { gt: afterId },
+          shreddedAt: null,
+          NOT: { encryptedDek: { startsWith: prefix } },
+        },
+        select: { id: true, tenantId: true, encryptedDek: true },
+        orderBy: { id: "asc" },
+        take: REWRAP_BATCH_SIZE,
+        __allowMissingTenant: true,
+      } as Prisma.ConversationFindManyArgs & { __allowMissingTenant?: boolean });
+      return rows.map((row) => ({
+        id: row.id,
+        tenantId: row.tenantId,
+        wrapped: row.encryptedDek,
+      }));
+    },
+    replace: async (row, wrapped) =>
+      (
+        await prisma.conversation.updateMany({
+          where: { id: row.id, tenantId: row.tenantId, encryptedDek: row.wrapped },
+          data: { encryptedDek: wrapped },
+        })
+      ).count,
+  },
+  {
+    name: "previousConversationDek",
+    count: (prefix) =>
+      prisma.conversation.count({
+        where: {
+          previousEncryptedDek: { not: null },
+          NOT: { previousEncryptedDek: { startsWith: prefix } },
+        },
+      }),
+    findStale: async (prefix, afterId) => {
+      const rows = await prisma.conversation.findMany({
+        where: {
+          id: { gt: afterId },
+          previousEncryptedDek: { not: null },
+          NOT: { previousEncryptedDek: { startsWith: prefix } },
+        },
+        select: { id: true, tenantId: true, previousEncryptedDek: true },
+        orderBy: { id: "asc" },
+        take: REWRAP_BATCH_SIZE,
+        __allowMissingTenant: true,
+      } as Prisma.ConversationFindManyArgs & { __allowMissingTenant?: boolean });
+      return rows.flatMap((row) =>
+        row.previousEncryptedDek
+          ? [{ id: row.id, tenantId: row.tenantId, wrapped: row.previousEncryptedDek }]
+          : [],
+      );
+    },
+    replace: async (row, wrapped) =>
+      (
+        await prisma.conversation.updateMany({
+          where: { id: row.id, tenantId: row.tenantId, previousEncryptedDek: row.wrapped },
+          data: { previousEncryptedDek: wrapped },
+        })
+      ).count,
+  },
+  {
+    name: "whatsappApiKey",
+    count: (prefix) =>
+      prisma.whatsAppChannel.count({
+        where: { NOT: { apiKeyEncrypted: { startsWith: prefix } } },
+      }),
+    findStale: async (prefix, afterId) => {
+      const rows = await prisma.whatsAppChannel.findMany({
+        where: { id: { gt: afterId }, NOT: { apiKeyEncrypted: { startsWith: prefix } } },
+        select: { id: true, tenantId: true, apiKeyEncrypted: true },
+        orderBy: { id: "asc" },
+        take: REWRAP_BATCH_SIZE,
+        __allowMissingTenant: true,
+      } as Prisma.WhatsAppChannelFindManyArgs & { __allowMissingTenant?: boolean });
+      return rows.map((row) => ({
+        id: row.id,
+        tenantId: row.tenantId,
+        wrapped: row.apiKeyEncrypted,
+      }));
+    },
+    replace: async (row, wrapped) =>
+      (
+        await prisma.whatsAppChannel.updateMany({
+          where: { id: row.id, tenantId: row.tenantId, apiKeyEncrypted: row.wrapped },
+          data: { apiKeyEncrypted: wrapped },
+        })
+      ).count,
+  },
+  {
+    name: "tenantSearchKey",
+    count: (prefix) =>
+      prisma.tenant.count({
+        where: {
+          searchKeyEncrypted: { not: null },
+          NOT: { searchKeyEncrypted: { startsWith: prefix } },
+        },
+      }),
+    findStale: async (prefix, afterId) => {
+      const rows = await prisma.tenant.findMany({
+        where: {
+          id: { gt: afterId },
+          searchKeyEncrypted: { not: null },
+          NOT: { searchKeyEncrypted: { startsWith: prefix } },
+        },
+        select: { id: true, searchKeyEncrypted: true },
+        orderBy: { id: "asc" },
+        take: REWRAP_BATCH_SIZE,
+      });
+      return rows.flatMap((row) =>
+        row.searchKeyEncrypted
+          ? [{ id: row.id, tenantId: row.id, wrapped: row.searchKeyEncrypted }]
+          : [],
+      );
+    },
+    replace: async (row, wrapped) =>
+      (
+        await prisma.tenant.updateMany({
+          where: { id: row.id, searchKeyEncrypted: row.wrapped },
+          data: { searchKeyEncrypted: wrapped },
+        })
+      ).count,
+  },
+  {
+    name: "dataExportKey",
+    count: (prefix) =>
+      prisma.dataExport.count({
+        where: {
+          keyEncrypted: { not: null },
+          NOT: { keyEncrypted: { startsWith: prefix } },
+        },
+      }),
+    findStale: async (prefix, afterId) => {
+      const rows = await prisma.dataExport.findMany({
+        where: {
+          id: { gt: afterId },
+          keyEncrypted: { not: null },
+          NOT: { keyEncrypted: { startsWith: prefix } },
+        },
+        select: { id: true, tenantId: true, keyEncrypted: true },
+        orderBy: { id: "asc" },
+        take: REWRAP_BATCH_SIZE,
+        __allowMissingTenant: true,
+      } as Prisma.DataExportFindManyArgs & { __allowMissingTenant?: boolean });
+      return rows.flatMap((row) =>
+        row.keyEncrypted
+          ? [{ id: row.id, tenantId: row.tenantId, wrapped: row.keyEncrypted }]
+          : [],
+      );
+    },
+    replace: async (row, wrapped) =>
+      (
+        await prisma.dataExport.updateMany({
+          where: { id: row.id, tenantId: row.tenantId, keyEncrypted: row.wrapped },
+          data: { keyEncrypted: wrapped },
+        })
+      ).count,
+  },
+];
+
+function keyPrefix(keyId: string) {
+  return `${keyId}:`;
+}
+
+export async function countStaleWrappedKeys(keyId: string) {
+  const counts: Record<string, number> = {};
+  for (const target of WRAPPED_KEY_TARGETS) {
+    counts[target.name] = await target.count(keyPrefix(keyId));
+  }
+  return counts;
+}
+
+// Safe to run again after a crash: rows already under the current key are
+// skipped, and a row changed concurrently is left for the next run.
+export async function rewrapStaleKeys(
+  keyring: MasterKeyring,
+  onBatch: (rewrapped: Array<{ tenantId: string; target: string }>) => Promise<void>,
+) {
+  const prefix = keyPrefix(keyring.currentKeyId);
+  for (const target of WRAPPED_KEY_TARGETS) {
+    let afterId = "";
+    for (;;) {
+      const rows = await target.findStale(prefix, afterId);
+      if (!rows.length) {
+        break;
+      }
+      const rewrapped: Array<{ tenantId: string; target: string }> = [];
+      for (const row of rows) {
+        if (await target.replace(row, rewrapDek(row.wrapped, keyring))) {
+          rewrapped.push({ tenantId: row.tenantId, target: target.name });
+        }
+      }
+      afterId = rows[rows.length - 1].id;
+      await onBatch(rewrapped);
+    }
+  }
+}
+
+export function toKeyRotationItem(rotation: KeyRotation) {
+  return {
+    id: rotation.id,
+    targetKeyId: rotation.targetKeyId,
+    status: rotation.status,
+    rewrappedCount: rotation.rewrappedCount,
+    lastError: rotation.lastError,
+    createdAt: rotation.createdAt.toISOString(),
+    startedAt: rotation.startedAt?.toISOString() ?? null,
+    completedAt: rotation.completedAt?.toISOString() ?? null,
+  };
+}
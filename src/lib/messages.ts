@@ -0,0 +1,61 @@
+import type { Message } from "@prisma/client";
+import { decryptMessage, encryptMessage } from "@/lib/crypto";
+import type { ConversationKeys } from "@/lib/conversation-keys";
+
+export function toMessageItem(message: Message, keys: ConversationKeys) {
+  const dek = keys.forVersion(message.dekVersion);
+  return {
+    id: message.id,
+    cursor: encodeMessageCursor(message),
+    direction: message.direction,
+    authorType: message.authorType,
+    createdAt: message.createdAt,
+    deletedAt: message.deletedAt,
+    deliveryStatus: message.deliveryStatus,
+    content: message.deletedAt
+      ? ""
+      : decryptMessage(message.ciphertext, message.iv, message.authTag, dek),
+    hasAttachment: message.deletedAt ? false : Boolean(message.attachmentCiphertext),
+    attachmentMime: message.deletedAt ? null : message.attachmentMime ?? null,
+  };
+}
+
+// Update data for a deleted message: the body becomes an empty string under
+// the current DEK and the attachment is dropped, so only the row's metadata
+// outlives the deletion.
+export function erasedMessageData(keys: ConversationKeys) {
+  const empty = encryptMessage("", keys.current);
+  return {
+    ciphertext: empty.ciphertext,
+    iv: empty.iv,
+    authTag: empty.authTag,
+    dekVersion: keys.version,
+    attachmentCiphertext: null,
+    attachmentIv: null,
+    attachmentAuthTag: null,
+    attachmentMime: null,
+    attachmentSize: null,
+  };
+}
+
+export type MessageCursor = {
+  createdAt: Date;
+  id: string;
+};
+
+// Opaque to clients; ties on createdAt are broken by id so pages never
+// skip or repeat messages written in the same millisecond.
+export function encodeMessageCursor(message: MessageCursor) {
+  return Buffer.from(`${message.createdAt.toISOString()}|${message.id}`).toString(
+    "base64url",
+  );
+}
+
+export function decodeMessageCursor(cursor: string): MessageCursor | null {
+  const [createdAtRaw, id] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  const createdAt = new Date(createdAtRaw ?? "");
+  if (!id || Number.isNaN(createdAt.getTime())) {
+    return null;
+  }
+  return { createdAt, id };
+}
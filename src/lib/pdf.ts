@@ -0,0 +1,213 @@
+// Minimal text-only PDF writer: A4 pages, the built-in Helvetica fonts and
+// WinAnsi text, so reports can be rendered in-process without a browser or
+// any network service. Characters outside WinAnsi are replaced with "?".
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_SIZE = 8;
+const CONTENT_BOTTOM = MARGIN + 24;
+
+export type PdfBlock = {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  gray?: boolean;
+  indent?: number;
+  spaceBefore?: number;
+};
+
+type PdfLine = {
+  text: string;
+  size: number;
+  bold: boolean;
+  gray: boolean;
+  x: number;
+  y: number;
+};
+
+// Code points that WinAnsi places in 0x80-0x9F.
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80,
+  0x2026: 0x85,
+  0x2018: 0x91,
+  0x2019: 0x92,
+  0x201c: 0x93,
+  0x201d: 0x94,
+  0x2022: 0x95,
+  0x2013: 0x96,
+  0x2014: 0x97,
+};
+
+function toWinAnsi(text: string) {
+  let out = "";
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (WIN_ANSI_EXTRAS[code]) {
+      out += String.fromCharCode(WIN_ANSI_EXTRAS[code]);
+    } else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      out += char;
+    } else if (code === 0x09) {
+      out += " ";
+    } else {
+      out += "?";
+    }
+  }
+  return out;
+}
+
+function escapePdfString(text: string) {
+  return text.replace(/[\\()]/g, (match) => `\\${match}`);
+}
+
+// Rough Helvetica advance widths in em units; wrapping only needs to avoid
+// overflowing the margin, not to match the font metrics exactly.
+function charWidth(char: string) {
+  if (" ijl.,:;'|!()[]".includes(char)) {
+    return 0.28;
+  }
+  if ("frtI-".includes(char)) {
+    return 0.35;
+  }
+  if ("mwMW@".includes(char)) {
+    return 0.88;
+  }
+  if (char >= "A" && char <= "Z") {
+    return 0.68;
+  }
+  return 0.56;
+}
+
+function textWidth(text: string, size: number, bold: boolean) {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char);
+  }
+  return width * size * (bold ? 1.06 : 1);
+}
+
+function wrapText(text: string, maxWidth: number, size: number, bold: boolean) {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let current = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) {
+        lines.push(current);
+      }
+      // Split words that do not fit on a line of their own.
+      let rest = word;
+      while (textWidth(rest, size, bold) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), size, bold) > maxWidth) {
+          cut -= 1;
+        }
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      current = rest;
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+function layout(blocks: PdfBlock[]) {
+  const pages: PdfLine[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const size = block.size ?? 10;
+    const bold = block.bold ?? false;
+    const indent = block.indent ?? 0;
+    const lineHeight = size * 1.35;
+    y -= block.spaceBefore ?? 0;
+
+    const lines = wrapText(toWinAnsi(block.text), PAGE_WIDTH - 2 * MARGIN - indent, size, bold);
+    for (const text of lines) {
+      if (y - lineHeight < CONTENT_BOTTOM) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      pages[pages.length - 1].push({
+        text,
+        size,
+        bold,
+        gray: block.gray ?? false,
+        x: MARGIN + indent,
+        y,
+      });
+    }
+  }
+  return pages;
+}
+
+function renderPage(lines: PdfLine[], footer: string) {
+  const ops = lines
+    .filter((line) => line.text)
+    .map(
+      (line) =>
+        `BT /${line.bold ? "F2" : "F1"} ${line.size} Tf ${line.gray ? "0.45" : "0"} g ` +
+        `${line.x.toFixed(2)} ${line.y.toFixed(2)} Td (${escapePdfString(line.text)}) Tj ET`,
+    );
+  ops.push(
+    `BT /F1 ${FOOTER_SIZE} Tf 0.45 g ${MARGIN} ${MARGIN - FOOTER_SIZE} Td ` +
+      `(${escapePdfString(toWinAnsi(footer))}) Tj ET`,
+  );
+  return ops.join("\n");
+}
+
+function formatPdfDate(value: Date) {
+  const iso = value.toISOString();
+  return `D:${iso.slice(0, 19).replace(/[-:T]/g, "")}Z`;
+}
+
+export function renderPdf(params: { title: string; blocks: PdfBlock[]; footer?: string }) {
+  const pages = layout(params.blocks);
+  const objects: string[] = [];
+  const fontObjects = [
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content
+  // stream for each page.
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+  );
+  objects.push(...fontObjects);
+  objects.push(
+    `<< /Title (${escapePdfString(toWinAnsi(params.title))}) /Producer (PsyOS) ` +
+      `/CreationDate (${formatPdfDate(new Date())}) >>`,
+  );
+  pages.forEach((lines, index) => {
+    const footer = `${params.footer ?? params.title} - ${index + 1}/${pages.length}`;
+    const content = renderPage(lines, footer);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(output, "latin1"));
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(output, "latin1");
+}
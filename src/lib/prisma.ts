@@ -11,6 +11,13 @@ const tenantScopedModels = new Set([
   "MfaChallenge",
   "WebAuthnCredential",
   "ConversationAccessGrant",
+  "WhatsAppChannel",
+  "SearchToken",
+  "DekRotation",
+  "RecordDraft",
+  "DataExport",
+  "PatientErasure",
+  "SessionPolicy",
 ]);
 
 const hasTenantScope = (where: unknown): boolean => {
@@ -3,6 +3,16 @@ import { getRedisConnectionOptions } from "@/lib/redis";
 
 let inboundQueue: Queue | null = null;
 let aiQueue: Queue | null = null;
+let outboundQueue: Queue | null = null;
+let transcriptionQueue: Queue | null = null;
+let kekRewrapQueue: Queue | null = null;
+let dekRotationQueue: Queue | null = null;
+let recordDraftQueue: Queue | null = null;
+let weeklySummaryQueue: Queue | null = null;
+let dataExportQueue: Queue | null = null;
+let retentionQueue: Queue | null = null;
+let auditChainQueue: Queue | null = null;
+let grantNotifyQueue: Queue | null = null;
 
 export function getInboundQueue() {
   if (!inboundQueue) {
@@ -21,3 +31,231 @@ export function getAiQueue() {
   }
   return aiQueue;
 }
+
+export function getOutboundQueue() {
+  if (!outboundQueue) {
+    outboundQueue = new Queue("outbound_send_retry", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        attempts: 6,
+        backoff: { type: "exponential", delay: 5000 },
+        removeOnComplete: 1000,
+        removeOnFail: 5000,
+      },
+    });
+  }
+  return outboundQueue;
+}
+
+export async function enqueueOutboundMessage(params: {
+  tenantId: string;
+  messageId: string;
+}) {
+  await getOutboundQueue().add("outbound_send_retry", params, {
+    jobId: `outbound-${params.messageId}`,
+  });
+}
+
+export function getTranscriptionQueue() {
+  if (!transcriptionQueue) {
+    transcriptionQueue = new Queue("audio_transcribe", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 10000 },
+        removeOnComplete: 1000,
+        removeOnFail: 5000,
+      },
+    });
+  }
+  return transcriptionQueue;
+}
+
+export async function enqueueTranscription(params: {
+  tenantId: string;
+  messageId: string;
+}) {
+  await getTranscriptionQueue().add("audio_transcribe", params, {
+    jobId: `transcribe-${params.messageId}`,
+  });
+}
+
+export function getKekRewrapQueue() {
+  if (!kekRewrapQueue) {
+    kekRewrapQueue = new Queue("kek_rewrap", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 30000 },
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    });
+  }
+  return kekRewrapQueue;
+}
+
+export async function enqueueKekRewrap(params: { rotationId: string }) {
+  // Unique per attempt so a failed rotation can be resumed with a new job.
+  await getKekRewrapQueue().add("kek_rewrap", params, {
+    jobId: `kek-rewrap-${params.rotationId}-${Date.now()}`,
+  });
+}
+
+export function getDekRotationQueue() {
+  if (!dekRotationQueue) {
+    dekRotationQueue = new Queue("dek_rotate", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 30000 },
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    });
+  }
+  return dekRotationQueue;
+}
+
+export async function enqueueDekRotation(params: { tenantId: string; rotationId: string }) {
+  await getDekRotationQueue().add("dek_rotate", params, {
+    jobId: `dek-rotate-${params.rotationId}-${Date.now()}`,
+  });
+}
+
+export function getRecordDraftQueue() {
+  if (!recordDraftQueue) {
+    recordDraftQueue = new Queue("record_draft_generate", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 15000 },
+        removeOnComplete: 1000,
+        removeOnFail: 5000,
+      },
+    });
+  }
+  return recordDraftQueue;
+}
+
+export async function enqueueRecordDraft(params: { tenantId: string; episodeId: string }) {
+  await getRecordDraftQueue().add("record_draft_generate", params, {
+    jobId: `record-draft-${params.episodeId}`,
+  });
+}
+
+export function getWeeklySummaryQueue() {
+  if (!weeklySummaryQueue) {
+    weeklySummaryQueue = new Queue("weekly_summary", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 60000 },
+        // Finished jobs are dropped so the same week can be queued again once
+        // it goes stale; the jobId only dedupes jobs still waiting to run.
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    });
+  }
+  return weeklySummaryQueue;
+}
+
+export async function enqueueWeeklySummary(params: {
+  tenantId: string;
+  conversationId: string;
+  weekStart: string;
+}) {
+  await getWeeklySummaryQueue().add("weekly_summary_generate", params, {
+    jobId: `weekly-summary-${params.conversationId}-${new Date(params.weekStart).getTime()}`,
+  });
+}
+
+export function getDataExportQueue() {
+  if (!dataExportQueue) {
+    dataExportQueue = new Queue("data_export", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 30000 },
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    });
+  }
+  return dataExportQueue;
+}
+
+export async function enqueueDataExport(params: { tenantId: string; exportId: string }) {
+  await getDataExportQueue().add("data_export_generate", params, {
+    jobId: `data-export-${params.exportId}`,
+  });
+}
+
+// Only runs scheduled jobs: the retention purge and due patient erasures.
+export function getRetentionQueue() {
+  if (!retentionQueue) {
+    retentionQueue = new Queue("data_retention", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    });
+  }
+  return retentionQueue;
+}
+
+export function getAuditChainQueue() {
+  if (!auditChainQueue) {
+    auditChainQueue = new Queue("audit_chain", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    });
+  }
+  return auditChainQueue;
+}
+
+// On-demand run for one tenant; the daily scheduler covers every tenant.
+export async function enqueueAuditChainVerification(params: { tenantId: string }) {
+  await getAuditChainQueue().add("audit_chain_verify", params, {
+    jobId: `audit-chain-verify-${params.tenantId}-${Date.now()}`,
+  });
+}
+
+export function getGrantNotifyQueue() {
+  if (!grantNotifyQueue) {
+    grantNotifyQueue = new Queue("grant_notify", {
+      connection: getRedisConnectionOptions(),
+      defaultJobOptions: {
+        attempts: 5,
+        backoff: { type: "exponential", delay: 60000 },
+        // Unsent opens stay counted on the grant, so a dropped job only
+        // means the next open queues a new one.
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    });
+  }
+  return grantNotifyQueue;
+}
+
+// One job per grant and notification window: opens while it waits are
+// picked up by the same email.
+export async function enqueueGrantNotification(params: {
+  tenantId: string;
+  grantId: string;
+  notBefore: number;
+}) {
+  await getGrantNotifyQueue().add(
+    "grant_notify_send",
+    { tenantId: params.tenantId, grantId: params.grantId },
+    {
+      jobId: `grant-notify-${params.grantId}-${params.notBefore}`,
+      delay: Math.max(0, params.notBefore - Date.now()),
+    },
+  );
+}
@@ -0,0 +1,96 @@
+import type Redis from "ioredis";
+import { getRedis } from "@/lib/redis";
+
+// Events only carry ids: plaintext never goes through Redis. Subscribers load
+// and decrypt the message themselves after their own access check.
+export type ConversationEvent =
+  | { type: "message.created" | "message.updated"; messageId: string }
+  | { type: "episode.updated" }
+  | { type: "record_draft.created" };
+
+type Listener = (event: ConversationEvent) => void;
+
+const CHANNEL_PREFIX = "psyos:conversation:";
+
+function conversationChannel(tenantId: string, conversationId: string) {
+  return `${CHANNEL_PREFIX}${tenantId}:${conversationId}`;
+}
+
+export async function publishConversationEvent(params: {
+  tenantId: string;
+  conversationId: string;
+  event: ConversationEvent;
+}) {
+  try {
+    await getRedis().publish(
+      conversationChannel(params.tenantId, params.conversationId),
+      JSON.stringify(params.event),
+    );
+  } catch (error) {
+    console.error("[realtime] publish failed:", (error as Error).message);
+  }
+}
+
+type SubscriberState = {
+  subscriber: Redis;
+  listeners: Map<string, Set<Listener>>;
+};
+
+const globalForRealtime = globalThis as unknown as {
+  realtimeSubscriber?: SubscriberState;
+};
+
+// One subscriber connection per process, fanned out to every open stream.
+function getSubscriber(): SubscriberState {
+  if (globalForRealtime.realtimeSubscriber) {
+    return globalForRealtime.realtimeSubscriber;
+  }
+
+  const listeners = new Map<string, Set<Listener>>();
+  const subscriber = getRedis().duplicate();
+  subscriber.on("message", (channel: string, payload: string) => {
+    const channelListeners = listeners.get(channel);
+    if (!channelListeners) {
+      return;
+    }
+    let event: ConversationEvent;
+    try {
+      event = JSON.parse(payload) as ConversationEvent;
+    } catch {
+      return;
+    }
+    for (const listener of channelListeners) {
+      listener(event);
+    }
+  });
+
+  globalForRealtime.realtimeSubscriber = { subscriber, listeners };
+  return globalForRealtime.realtimeSubscriber;
+}
+
+export async function subscribeToConversation(
+  params: { tenantId: string; conversationId: string },
+  listener: Listener,
+) {
+  const { subscriber, listeners } = getSubscriber();
+  const channel = conversationChannel(params.tenantId, params.conversationId);
+  let channelListeners = listeners.get(channel);
+  if (!channelListeners) {
+    channelListeners = new Set();
+    listeners.set(channel, channelListeners);
+    await subscriber.subscribe(channel);
+  }
+  channelListeners.add(listener);
+
+  return async () => {
+    const current = listeners.get(channel);
+    if (!current) {
+      return;
+    }
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(channel);
+      await subscriber.unsubscribe(channel).catch(() => undefined);
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import type { RecordDraft } from "@prisma/client";
+import { z } from "zod";
+import { decryptJson, type ConversationKeys } from "@/lib/conversation-keys";
+import type { RecordData } from "@/lib/records";
+import { extractJsonObject } from "@/lib/ai/json-reply";
+
+const MAX_FIELD_LENGTH = 500;
+
+const draftFieldsSchema = z.object({
+  event: z.string().optional(),
+  thought: z.string().optional(),
+  emotion: z.string().optional(),
+  body: z.string().optional(),
+  action: z.string().optional(),
+  result: z.string().optional(),
+});
+
+export function parseRecordDraft(reply: string): RecordData | null {
+  const parsed = draftFieldsSchema.safeParse(extractJsonObject(reply));
+  if (!parsed.success) {
+    return null;
+  }
+  const data: RecordData = {};
+  for (const [key, value] of Object.entries(parsed.data)) {
+    const trimmed = value?.trim().slice(0, MAX_FIELD_LENGTH);
+    if (trimmed) {
+      data[key as keyof typeof parsed.data] = trimmed;
+    }
+  }
+  return data.event ? data : null;
+}
+
+export function toRecordDraftItem(draft: RecordDraft, keys: ConversationKeys) {
+  return {
+    id: draft.id,
+    episodeId: draft.episodeId,
+    status: draft.status,
+    provider: draft.provider,
+    model: draft.model,
+    createdAt: draft.createdAt.toISOString(),
+    dataJson: decryptJson<RecordData>(draft, null, keys) ?? {},
+  };
+}
@@ -0,0 +1,17 @@
+import type { Record as ClinicalRecord } from "@prisma/client";
+import { decryptJson, type ConversationKeys } from "@/lib/conversation-keys";
+
+export type RecordData = {
+  event?: string;
+  thought?: string;
+  emotion?: string;
+  body?: string;
+  action?: string;
+  result?: string;
+  // 0-10, self-reported on patient diary entries.
+  intensity?: number;
+};
+
+export function decryptRecordData(record: ClinicalRecord, keys: ConversationKeys) {
+  return decryptJson<RecordData>(record, record.dataJson, keys) ?? {};
+}
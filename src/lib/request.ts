@@ -8,3 +8,13 @@ export function getClientIp(request: Request) {
   }
   return request.headers.get("x-real-ip") ?? "unknown";
 }
+
+// Origin for links sent by email; APP_URL wins over the request host.
+export function getBaseUrl(request: Request) {
+  const env = process.env.APP_URL;
+  if (env) {
+    return env.replace(/\/+$/, "");
+  }
+  const url = new URL(request.url);
+  return `${url.protocol}//${url.host}`;
+}
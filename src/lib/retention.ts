@@ -0,0 +1,40 @@
+import { prisma } from "@/lib/prisma";
+
+const PURGE_BATCH_SIZE = 500;
+
+// Oldest instant a message may have under the tenant's retention policy.
+export function getRetentionCutoff(retentionYears: number, now = new Date()) {
+  const cutoff = new Date(now);
+  cutoff.setUTCFullYear(cutoff.getUTCFullYear() - retentionYears);
+  return cutoff;
+}
+
+// Hard-deletes messages (their search tokens cascade) and the weekly
+// summaries derived from them once they fall outside the retention window.
+export async function purgeExpiredMessages(params: {
+  tenantId: string;
+  retentionYears: number;
+}) {
+  const cutoff = getRetentionCutoff(params.retentionYears);
+  let messages = 0;
+  for (;;) {
+    const batch = await prisma.message.findMany({
+      where: { tenantId: params.tenantId, createdAt: { lt: cutoff } },
+      select: { id: true },
+      take: PURGE_BATCH_SIZE,
+    });
+    if (!batch.length) {
+      break;
+    }
+    const deleted = await prisma.message.deleteMany({
+      where: { tenantId: params.tenantId, id: { in: batch.map((message) => message.id) } },
+    });
+    messages += deleted.count;
+  }
+
+  const summaries = await prisma.weeklySummary.deleteMany({
+    where: { tenantId: params.tenantId, weekEnd: { lte: cutoff } },
+  });
+
+  return { cutoff, messages, summaries: summaries.count };
+}
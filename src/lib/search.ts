@@ -0,0 +1,245 @@
+import crypto from "crypto";
+import { prisma } from "@/lib/prisma";
+import {
+  decryptDek,
+  decryptMessage,
+  encryptDek,
+  generateDek,
+  getMasterKek,
+} from "@/lib/crypto";
+import { getConversationKeys } from "@/lib/conversation-keys";
+import { decryptRecordData, type RecordData } from "@/lib/records";
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 40;
+export const MAX_QUERY_TOKENS = 8;
+
+export type SearchHit = {
+  conversationId: string;
+  messageId: string | null;
+  recordId: string | null;
+  createdAt: Date;
+};
+
+function normalizeWord(word: string) {
+  return word
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase();
+}
+
+export function tokenizeSearchText(text: string) {
+  const tokens = new Set<string>();
+  for (const word of text.split(/[^\p{L}\p{N}]+/u)) {
+    const token = normalizeWord(word);
+    if (token.length >= MIN_TOKEN_LENGTH && token.length <= MAX_TOKEN_LENGTH) {
+      tokens.add(token);
+    }
+  }
+  return [...tokens];
+}
+
+// Each tenant gets its own random search key wrapped by the master KEK, so
+// token hashes cannot be correlated across tenants.
+async function getTenantSearchKey(tenantId: string) {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { searchKeyEncrypted: true },
+  });
+  if (!tenant) {
+    throw new Error("Tenant not found");
+  }
+  if (tenant.searchKeyEncrypted) {
+    return decryptDek(tenant.searchKeyEncrypted, getMasterKek());
+  }
+
+  await prisma.tenant.updateMany({
+    where: { id: tenantId, searchKeyEncrypted: null },
+    data: { searchKeyEncrypted: encryptDek(generateDek(), getMasterKek()) },
+  });
+  // Another writer may have won the race; always use the stored key.
+  const stored = await prisma.tenant.findUniqueOrThrow({
+    where: { id: tenantId },
+    select: { searchKeyEncrypted: true },
+  });
+  if (!stored.searchKeyEncrypted) {
+    throw new Error("Search key missing");
+  }
+  return decryptDek(stored.searchKeyEncrypted, getMasterKek());
+}
+
+function hashToken(token: string, key: Buffer) {
+  return crypto.createHmac("sha256", key).update(token).digest("base64url");
+}
+
+async function replaceTokens(params: {
+  tenantId: string;
+  conversationId: string;
+  target: { messageId: string } | { recordId: string };
+  createdAt: Date;
+  text: string;
+}) {
+  const tokens = tokenizeSearchText(params.text);
+  const key = tokens.length ? await getTenantSearchKey(params.tenantId) : null;
+  await prisma.$transaction([
+    prisma.searchToken.deleteMany({
+      where: { tenantId: params.tenantId, ...params.target },
+    }),
+    prisma.searchToken.createMany({
+      data: key
+        ? tokens.map((token) => ({
+            tenantId: params.tenantId,
+            conversationId: params.conversationId,
+            ...params.target,
+            tokenHash: hashToken(token, key),
+            targetCreatedAt: params.createdAt,
+          }))
+        : [],
+    }),
+  ]);
+}
+
+export async function indexMessageText(params: {
+  tenantId: string;
+  conversationId: string;
+  messageId: string;
+  createdAt: Date;
+  text: string;
+}) {
+  await replaceTokens({
+    tenantId: params.tenantId,
+    conversationId: params.conversationId,
+    target: { messageId: params.messageId },
+    createdAt: params.createdAt,
+    text: params.text,
+  });
+}
+
+export function getRecordSearchText(data: RecordData) {
+  return Object.values(data)
+    .filter((value): value is string => typeof value === "string")
+    .join("\n");
+}
+
+export async function indexRecordData(params: {
+  tenantId: string;
+  conversationId: string;
+  recordId: string;
+  createdAt: Date;
+  data: RecordData;
+}) {
+  await replaceTokens({
+    tenantId: params.tenantId,
+    conversationId: params.conversationId,
+    target: { recordId: params.recordId },
+    createdAt: params.createdAt,
+    text: getRecordSearchText(params.data),
+  });
+}
+
+export async function removeMessageFromIndex(params: {
+  tenantId: string;
+  messageId: string;
+}) {
+  await prisma.searchToken.deleteMany({
+    where: { tenantId: params.tenantId, messageId: params.messageId },
+  });
+}
+
+// Rebuilds the index for data written before search existed (or after the
+// tokenizer changes). Decrypts in memory only.
+export async function reindexConversation(params: {
+  tenantId: string;
+  conversationId: string;
+}) {
+  const conversation = await prisma.conversation.findFirst({
+    where: { tenantId: params.tenantId, id: params.conversationId },
+  });
+  if (!conversation) {
+    return { messages: 0, records: 0 };
+  }
+  const keys = getConversationKeys(conversation);
+  const messages = await prisma.message.findMany({
+    where: { tenantId: params.tenantId, conversationId: conversation.id, deletedAt: null },
+  });
+  for (const message of messages) {
+    await indexMessageText({
+      tenantId: params.tenantId,
+      conversationId: conversation.id,
+      messageId: message.id,
+      createdAt: message.createdAt,
+      text: decryptMessage(
+        message.ciphertext,
+        message.iv,
+        message.authTag,
+        keys.forVersion(message.dekVersion),
+      ),
+    });
+  }
+  const records = await prisma.record.findMany({
+    where: { tenantId: params.tenantId, conversationId: conversation.id },
+  });
+  for (const record of records) {
+    await indexRecordData({
+      tenantId: params.tenantId,
+      conversationId: conversation.id,
+      recordId: record.id,
+      createdAt: record.createdAt,
+      data: decryptRecordData(record, keys),
+    });
+  }
+  return { messages: messages.length, records: records.length };
+}
+
+// Every query word must match (AND). Matching is on whole words after
+// lowercasing and stripping accents; there is no prefix or fuzzy matching.
+export async function searchIndex(params: {
+  tenantId: string;
+  conversationIds: string[];
+  query: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}): Promise<SearchHit[]> {
+  const tokens = tokenizeSearchText(params.query).slice(0, MAX_QUERY_TOKENS);
+  if (!tokens.length || !params.conversationIds.length) {
+    return [];
+  }
+  const key = await getTenantSearchKey(params.tenantId);
+  const groups = await prisma.searchToken.groupBy({
+    by: ["conversationId", "messageId", "recordId", "targetCreatedAt"],
+    where: {
+      tenantId: params.tenantId,
+      conversationId: { in: params.conversationIds },
+      tokenHash: { in: tokens.map((token) => hashToken(token, key)) },
+      ...(params.from || params.to
+        ? { targetCreatedAt: { gte: params.from, lte: params.to } }
+        : {}),
+    },
+    having: { tokenHash: { _count: { equals: tokens.length } } },
+    orderBy: { targetCreatedAt: "desc" },
+    take: params.limit,
+  });
+  return groups.map((group) => ({
+    conversationId: group.conversationId,
+    messageId: group.messageId,
+    recordId: group.recordId,
+    createdAt: group.targetCreatedAt,
+  }));
+}
+
+export function buildSnippet(text: string, query: string, radius = 60) {
+  const tokens = new Set(tokenizeSearchText(query));
+  const pattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (tokens.has(normalizeWord(match[0]))) {
+      const start = Math.max(0, match.index - radius);
+      const end = Math.min(text.length, match.index + match[0].length + radius);
+      return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${
+        end < text.length ? "…" : ""
+      }`;
+    }
+  }
+  return text.length > radius * 2 ? `${text.slice(0, radius * 2).trim()}…` : text;
+}
@@ -0,0 +1,101 @@
+// Calendar math in an IANA time zone using only Intl, so week boundaries do
+// not depend on the zone the server runs in.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getZonedParts(value: Date, timeZone: string) {
+  const parts = getFormatter(timeZone).formatToParts(value);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+function getOffsetMs(value: Date, timeZone: string) {
+  const parts = getZonedParts(value, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(value.getTime() / 1000) * 1000;
+}
+
+// Days may overflow the month; Date.UTC normalizes them. The second pass
+// corrects the offset when a DST change falls between the guess and midnight.
+function zonedMidnight(year: number, month: number, day: number, timeZone: string) {
+  const guess = Date.UTC(year, month - 1, day);
+  const first = guess - getOffsetMs(new Date(guess), timeZone);
+  return new Date(guess - getOffsetMs(new Date(first), timeZone));
+}
+
+// Midnight in the zone of a calendar date given as YYYY-MM-DD.
+export function parseDateInTimeZone(value: string, timeZone: string) {
+  const [year, month, day] = value.split("-").map(Number);
+  return zonedMidnight(year, month, day, timeZone);
+}
+
+export function startOfDayInTimeZone(value: Date, timeZone: string) {
+  const parts = getZonedParts(value, timeZone);
+  return zonedMidnight(parts.year, parts.month, parts.day, timeZone);
+}
+
+// Midnight of the local day `days` after the one containing `value`.
+export function addDaysInTimeZone(value: Date, days: number, timeZone: string) {
+  const parts = getZonedParts(value, timeZone);
+  return zonedMidnight(parts.year, parts.month, parts.day + days, timeZone);
+}
+
+// weekStartDay follows Date#getDay: 0 = Sunday, 1 = Monday.
+export function startOfWeekInTimeZone(value: Date, timeZone: string, weekStartDay = 1) {
+  const parts = getZonedParts(value, timeZone);
+  const weekday = new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+  const back = (weekday - weekStartDay + 7) % 7;
+  return zonedMidnight(parts.year, parts.month, parts.day - back, timeZone);
+}
+
+// Calendar date (YYYY-MM-DD) of `value` in the zone, for exports.
+export function formatDateInTimeZone(value: Date, timeZone: string) {
+  const parts = getZonedParts(value, timeZone);
+  return [
+    parts.year.toString().padStart(4, "0"),
+    parts.month.toString().padStart(2, "0"),
+    parts.day.toString().padStart(2, "0"),
+  ].join("-");
+}
@@ -0,0 +1,380 @@
+import {
+  Prisma,
+  type Conversation,
+  type Language,
+  type RecordAuthorType,
+  type Tenant,
+  type WeeklyNarrativeStatus,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { decryptMessage } from "@/lib/crypto";
+import {
+  decryptJson,
+  encryptJson,
+  getConversationKeys,
+  type ConversationKeys,
+} from "@/lib/conversation-keys";
+import { decryptRecordData } from "@/lib/records";
+import { addDaysInTimeZone, startOfWeekInTimeZone } from "@/lib/time-zone";
+import { detectSignals, resolveSignalConfig, type SignalKey } from "@/lib/ai/detection";
+import { resolveLlmSelection, type LlmSelection } from "@/lib/ai/llm";
+import {
+  generateWeeklyNarrative,
+  WEEKLY_NARRATIVE_PROMPT_VERSION,
+  type WeeklyNarrative,
+} from "@/lib/ai/weekly-narrative";
+
+export type WeeklySummary = {
+  weekStart: string;
+  weekEnd: string;
+  events: Array<{
+    label: string;
+    createdAt: string;
+    authorType?: RecordAuthorType;
+    intensity?: number;
+  }>;
+  dominantEmotions: Array<{ label: string; count: number }>;
+  signalsTriggered: Array<{ key: SignalKey; count: number }>;
+  changes: { messages: number; events: number; signals: number };
+  // Null unless the narrative status on the row is READY.
+  narrative?: WeeklyNarrative | null;
+};
+
+// A failed or provider-less narrative is tried again after this long, by the
+// scheduler or by the next read.
+export const NARRATIVE_RETRY_MS = 60 * 60 * 1000;
+
+// Everything needed to summarize any week of one conversation, loaded once.
+export type WeeklySummaryContext = {
+  conversation: Conversation;
+  keys: ConversationKeys;
+  week: WeekSettings;
+  language: Language;
+  signalConfig: ReturnType<typeof resolveSignalConfig>;
+  llm: LlmSelection | null;
+};
+
+const MESSAGE_LABELS = {
+  PATIENT: "Patient",
+  PSYCHOLOGIST: "Psychologist",
+  AI: "Assistant",
+  SYSTEM: "System",
+} as const;
+
+export type WeekSettings = { timeZone: string; weekStartDay: number };
+
+// weekEnd is the start of the last day, as stored on WeeklySummary.
+export function getWeekBounds(value: Date, { timeZone, weekStartDay }: WeekSettings) {
+  const weekStart = startOfWeekInTimeZone(value, timeZone, weekStartDay);
+  return {
+    weekStart,
+    weekEnd: addDaysInTimeZone(weekStart, 6, timeZone),
+    nextWeekStart: addDaysInTimeZone(weekStart, 7, timeZone),
+  };
+}
+
+async function loadSignalConfig(tenantId: string, userId: string) {
+  const policy = await prisma.aiPolicy.findFirst({
+    where: { tenantId, ownerUserId: userId },
+    orderBy: { updatedAt: "desc" },
+  });
+  const flags = policy?.flagsJson ?? null;
+  const config = resolveSignalConfig(
+    (flags as { signalConfig?: unknown })?.signalConfig as
+      | Partial<ReturnType<typeof resolveSignalConfig>>
+      | undefined,
+  );
+  return config;
+}
+
+// Same model the psychologist uses for the assistant; null when no provider
+// is configured, in which case summaries are written without a narrative.
+async function loadLlmSelection(tenant: Tenant, userId: string) {
+  const policy = await prisma.aiPolicy.findFirst({
+    where: { tenantId: tenant.id, ownerUserId: userId, conversationId: null },
+  });
+  const settings = (policy?.flagsJson as {
+    aiSettings?: { provider?: string | null; model?: string | null };
+  })?.aiSettings;
+  try {
+    return resolveLlmSelection({
+      tenant,
+      requested: { provider: settings?.provider, model: settings?.model },
+    });
+  } catch (error) {
+    console.error("[weekly-summary] no LLM provider:", (error as Error).message);
+    return null;
+  }
+}
+
+export async function loadWeeklySummaryContext(
+  conversation: Conversation,
+): Promise<WeeklySummaryContext | null> {
+  const [tenant, patientProfile] = await Promise.all([
+    prisma.tenant.findUnique({ where: { id: conversation.tenantId } }),
+    prisma.patientProfile.findUnique({
+      where: { userId: conversation.patientUserId },
+      select: { preferredLanguage: true },
+    }),
+  ]);
+  if (!tenant) {
+    return null;
+  }
+  const [signalConfig, llm] = await Promise.all([
+    loadSignalConfig(tenant.id, conversation.psychologistUserId),
+    loadLlmSelection(tenant, conversation.psychologistUserId),
+  ]);
+  return {
+    conversation,
+    keys: getConversationKeys(conversation),
+    week: { timeZone: tenant.timeZone, weekStartDay: tenant.weekStartDay },
+    language: patientProfile?.preferredLanguage ?? tenant.defaultLanguage,
+    signalConfig,
+    llm,
+  };
+}
+
+async function buildWeeklySummary(
+  context: WeeklySummaryContext,
+  weekStart: Date,
+): Promise<{ summary: WeeklySummary; narrativeStatus: WeeklyNarrativeStatus }> {
+  const { conversation, keys, signalConfig, llm, language } = context;
+  const { weekEnd, nextWeekStart } = getWeekBounds(weekStart, context.week);
+  const range = { gte: weekStart, lt: nextWeekStart };
+  const [messages, records] = await Promise.all([
+    prisma.message.findMany({
+      where: { tenantId: conversation.tenantId, conversationId: conversation.id, createdAt: range },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.record.findMany({
+      where: { tenantId: conversation.tenantId, conversationId: conversation.id, createdAt: range },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const signalsMap = new Map<SignalKey, number>();
+  let messagesCount = 0;
+  const transcript: Array<{ label: string; content: string }> = [];
+  messages.forEach((message) => {
+    const content = decryptMessage(
+      message.ciphertext,
+      message.iv,
+      message.authTag,
+      keys.forVersion(message.dekVersion),
+    );
+    messagesCount += 1;
+    if (!message.deletedAt && content.trim()) {
+      transcript.push({ label: MESSAGE_LABELS[message.authorType], content: content.trim() });
+    }
+    const detected = detectSignals(content, signalConfig);
+    (Object.keys(detected) as SignalKey[]).forEach((key) => {
+      if (!detected[key]) {
+        return;
+      }
+      signalsMap.set(key, (signalsMap.get(key) ?? 0) + 1);
+    });
+  });
+
+  // Patient diary entries count the same as records from the psychologist.
+  const recordData = records.map((record) => ({
+    createdAt: record.createdAt,
+    authorType: record.authorType,
+    data: decryptRecordData(record, keys),
+  }));
+
+  const events = recordData
+    .map((record) => ({
+      label: record.data.event ?? "",
+      createdAt: record.createdAt.toISOString(),
+      authorType: record.authorType,
+      intensity: record.data.intensity,
+    }))
+    .filter((item) => item.label)
+    .slice(0, 6);
+
+  const emotionMap = new Map<string, number>();
+  recordData.forEach((record) => {
+    const emotion = record.data.emotion ?? "";
+    const key = emotion.trim().toLowerCase();
+    if (key) {
+      emotionMap.set(key, (emotionMap.get(key) ?? 0) + 1);
+    }
+  });
+
+  const dominantEmotions = Array.from(emotionMap.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 4)
+    .map(([label, count]) => ({ label, count }));
+
+  const signalsTriggered = Array.from(signalsMap.entries())
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count);
+
+  let narrative: WeeklyNarrative | null = null;
+  let narrativeStatus: WeeklyNarrativeStatus = "UNAVAILABLE";
+  if (llm) {
+    try {
+      narrative = await generateWeeklyNarrative({
+        llm,
+        language,
+        messages: transcript,
+        records: recordData.map((record) => record.data),
+      });
+      narrativeStatus = narrative ? "READY" : "EMPTY";
+    } catch (error) {
+      narrativeStatus = "FAILED";
+      console.error("[weekly-summary] narrative failed:", (error as Error).message);
+    }
+  }
+
+  return {
+    summary: {
+      weekStart: weekStart.toISOString(),
+      weekEnd: weekEnd.toISOString(),
+      events,
+      dominantEmotions,
+      signalsTriggered,
+      changes: {
+        messages: messagesCount,
+        events: events.length,
+        signals: signalsTriggered.reduce((sum, item) => sum + item.count, 0),
+      },
+      narrative,
+    },
+    narrativeStatus,
+  };
+}
+
+// Generates and stores the week starting at `weekStart`, clearing the stale
+// mark left by late writes. A write that lands while the week is being built
+// marks it again, and that newer mark is kept so the week is rebuilt.
+export async function refreshWeeklySummary(context: WeeklySummaryContext, weekStart: Date) {
+  const { conversation, keys } = context;
+  const scope = { tenantId: conversation.tenantId, conversationId: conversation.id, weekStart };
+  const existing = await prisma.weeklySummary.findFirst({
+    where: scope,
+    select: { staleAt: true },
+  });
+  const { summary, narrativeStatus } = await buildWeeklySummary(context, weekStart);
+  const weekEnd = new Date(summary.weekEnd);
+  const encryptedSummary = encryptJson(summary, keys);
+  const data = {
+    ...encryptedSummary,
+    summaryJson: Prisma.DbNull,
+    weekEnd,
+    generatedAt: new Date(),
+    narrativeStatus,
+    narrativeAttemptedAt: new Date(),
+  };
+  if (existing) {
+    const cleared = await prisma.weeklySummary.updateMany({
+      where: { ...scope, staleAt: existing.staleAt },
+      data: { ...data, staleAt: null },
+    });
+    if (!cleared.count) {
+      await prisma.weeklySummary.updateMany({ where: scope, data });
+    }
+    return summary;
+  }
+  await prisma.weeklySummary.upsert({
+    where: {
+      conversationId_weekStart: {
+        conversationId: conversation.id,
+        weekStart,
+      },
+    },
+    // Another build may have created the row meanwhile; keep its mark.
+    update: data,
+    create: {
+      ...scope,
+      weekEnd,
+      ...encryptedSummary,
+      narrativeStatus,
+      narrativeAttemptedAt: data.narrativeAttemptedAt,
+    },
+  });
+  return summary;
+}
+
+// With a provider at hand: retry at once when there was none before, after a
+// pause when the model failed, and once for summaries from before the status
+// was recorded that have no narrative.
+function narrativeNeedsRetry(
+  row: { narrativeStatus: WeeklyNarrativeStatus | null; narrativeAttemptedAt: Date | null },
+  summary: WeeklySummary,
+) {
+  switch (row.narrativeStatus) {
+    case "UNAVAILABLE":
+      return true;
+    case "FAILED":
+      return (
+        !row.narrativeAttemptedAt ||
+        Date.now() - row.narrativeAttemptedAt.getTime() >= NARRATIVE_RETRY_MS
+      );
+    case null:
+      return !summary.narrative;
+    default:
+      return false;
+  }
+}
+
+// The stored summary of the week, if any, and whether it is current. An
+// outdated one (stale, from an older narrative prompt or with a narrative to
+// retry) is still returned so callers can show it while it is regenerated.
+export async function loadStoredWeeklySummary(context: WeeklySummaryContext, weekStart: Date) {
+  const { conversation, keys } = context;
+  const cached = await prisma.weeklySummary.findMany({
+    where: {
+      tenantId: conversation.tenantId,
+      conversationId: conversation.id,
+      weekStart,
+    },
+    take: 1,
+  });
+  if (!cached.length) {
+    return null;
+  }
+  const summary = decryptJson<WeeklySummary>(cached[0], cached[0].summaryJson, keys);
+  if (!summary) {
+    return null;
+  }
+  const current =
+    !cached[0].staleAt &&
+    // Narratives from an older prompt are regenerated along with the week.
+    (!summary.narrative || summary.narrative.promptVersion === WEEKLY_NARRATIVE_PROMPT_VERSION) &&
+    !(context.llm && narrativeNeedsRetry(cached[0], summary));
+  return {
+    summary: {
+      ...summary,
+      weekStart: cached[0].weekStart.toISOString(),
+      weekEnd: cached[0].weekEnd.toISOString(),
+    },
+    current,
+  };
+}
+
+// Null when the week has no stored summary or it has to be regenerated.
+export async function readWeeklySummary(context: WeeklySummaryContext, weekStart: Date) {
+  const stored = await loadStoredWeeklySummary(context, weekStart);
+  return stored?.current ? stored.summary : null;
+}
+
+// Called whenever a message or record is written or changed. Marks the week
+// containing `at` stale so the next read or the scheduled job regenerates it;
+// a no-op when that week was never summarized. An existing mark is moved
+// forward so a build already running does not clear it.
+export async function invalidateWeeklySummary(params: {
+  tenantId: string;
+  conversationId: string;
+  at: Date;
+}) {
+  const weekAgo = new Date(params.at.getTime() - 7 * 24 * 60 * 60 * 1000);
+  await prisma.weeklySummary.updateMany({
+    where: {
+      tenantId: params.tenantId,
+      conversationId: params.conversationId,
+      weekStart: { lte: params.at, gt: weekAgo },
+    },
+    data: { staleAt: new Date() },
+  });
+}
@@ -0,0 +1,230 @@
+import { createCipheriv, createHmac, pbkdf2Sync, randomBytes } from "crypto";
+import { deflateRawSync } from "zlib";
+
+// Minimal ZIP writer (deflate, no ZIP64) for building export archives in
+// memory. Entry names are stored as UTF-8. Archives can be password-protected
+// afterwards with WinZip AES-256 (AE-2), which 7-Zip and most archivers open.
+
+export type ZipEntry = {
+  name: string;
+  data: Buffer | string;
+  modifiedAt?: Date;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// DOS date/time in local fields; ZIP has no time zone, so UTC is written.
+function toDosDateTime(value: Date) {
+  const year = Math.max(value.getUTCFullYear(), 1980);
+  return {
+    time:
+      (value.getUTCHours() << 11) |
+      (value.getUTCMinutes() << 5) |
+      Math.floor(value.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getUTCMonth() + 1) << 5) | value.getUTCDate(),
+  };
+}
+
+// An entry ready to be written: `body` is what goes after the local header.
+type WrittenEntry = {
+  name: Buffer;
+  body: Buffer;
+  method: number;
+  flags: number;
+  versionNeeded: number;
+  crc: number;
+  size: number;
+  time: number;
+  date: number;
+  extra: Buffer;
+};
+
+const UTF8_FLAG = 0x0800;
+const ENCRYPTED_FLAG = 0x0001;
+const AES_METHOD = 99;
+const AES_VERSION_NEEDED = 51;
+// AES-256: 16-byte salt, 32-byte keys.
+const AES_SALT_LENGTH = 16;
+const AES_KEY_LENGTH = 32;
+const AES_PBKDF2_ITERATIONS = 1000;
+const AES_MAC_LENGTH = 10;
+
+function writeZip(entries: WrittenEntry[]) {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.versionNeeded, 4);
+    local.writeUInt16LE(entry.flags, 6);
+    local.writeUInt16LE(entry.method, 8);
+    local.writeUInt16LE(entry.time, 10);
+    local.writeUInt16LE(entry.date, 12);
+    local.writeUInt32LE(entry.crc, 14);
+    local.writeUInt32LE(entry.body.length, 18);
+    local.writeUInt32LE(entry.size, 22);
+    local.writeUInt16LE(entry.name.length, 26);
+    local.writeUInt16LE(entry.extra.length, 28);
+    localParts.push(local, entry.name, entry.extra, entry.body);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(entry.versionNeeded, 6);
+    central.writeUInt16LE(entry.flags, 8);
+    central.writeUInt16LE(entry.method, 10);
+    central.writeUInt16LE(entry.time, 12);
+    central.writeUInt16LE(entry.date, 14);
+    central.writeUInt32LE(entry.crc, 16);
+    central.writeUInt32LE(entry.body.length, 20);
+    central.writeUInt32LE(entry.size, 24);
+    central.writeUInt16LE(entry.name.length, 28);
+    central.writeUInt16LE(entry.extra.length, 30);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, entry.name, entry.extra);
+
+    offset += local.length + entry.name.length + entry.extra.length + entry.body.length;
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+}
+
+export function createZip(entries: ZipEntry[]) {
+  return writeZip(
+    entries.map((entry) => {
+      const raw = typeof entry.data === "string" ? Buffer.from(entry.data, "utf8") : entry.data;
+      const deflated = deflateRawSync(raw);
+      // Already-compressed payloads (images, audio) are stored as they are.
+      const stored = deflated.length >= raw.length;
+      return {
+        name: Buffer.from(entry.name, "utf8"),
+        body: stored ? raw : deflated,
+        method: stored ? 0 : 8,
+        flags: UTF8_FLAG,
+        versionNeeded: 20,
+        crc: crc32(raw),
+        size: raw.length,
+        ...toDosDateTime(entry.modifiedAt ?? new Date()),
+        extra: Buffer.alloc(0),
+      };
+    }),
+  );
+}
+
+// WinZip AES: CTR mode with a little-endian counter starting at 1, then an
+// HMAC-SHA1 over the ciphertext truncated to 10 bytes.
+function encryptAesEntry(body: Buffer, password: string) {
+  const salt = randomBytes(AES_SALT_LENGTH);
+  const derived = pbkdf2Sync(
+    Buffer.from(password, "utf8"),
+    salt,
+    AES_PBKDF2_ITERATIONS,
+    AES_KEY_LENGTH * 2 + 2,
+    "sha1",
+  );
+  const key = derived.subarray(0, AES_KEY_LENGTH);
+  const macKey = derived.subarray(AES_KEY_LENGTH, AES_KEY_LENGTH * 2);
+  const verifier = derived.subarray(AES_KEY_LENGTH * 2);
+
+  const blocks = Math.ceil(body.length / 16);
+  const counters = Buffer.alloc(blocks * 16);
+  for (let block = 0; block < blocks; block += 1) {
+    counters.writeUInt32LE(block + 1, block * 16);
+  }
+  const cipher = createCipheriv("aes-256-ecb", key, null);
+  cipher.setAutoPadding(false);
+  const keystream = Buffer.concat([cipher.update(counters), cipher.final()]);
+  const encrypted = Buffer.alloc(body.length);
+  for (let index = 0; index < body.length; index += 1) {
+    encrypted[index] = body[index] ^ keystream[index];
+  }
+  const mac = createHmac("sha1", macKey).update(encrypted).digest().subarray(0, AES_MAC_LENGTH);
+  return Buffer.concat([salt, verifier, encrypted, mac]);
+}
+
+// Extra field 0x9901: AE-2, vendor "AE", AES-256, then the real method.
+function aesExtraField(method: number) {
+  const extra = Buffer.alloc(11);
+  extra.writeUInt16LE(0x9901, 0);
+  extra.writeUInt16LE(7, 2);
+  extra.writeUInt16LE(2, 4);
+  extra.write("AE", 6, "ascii");
+  extra.writeUInt8(3, 8);
+  extra.writeUInt16LE(method, 9);
+  return extra;
+}
+
+// Re-writes an archive made by createZip with every entry encrypted under
+// `password`. Entries keep their compression; AE-2 leaves the CRC out, the
+// MAC covers integrity instead.
+export function encryptZip(archive: Buffer, password: string) {
+  const end = archive.length - 22;
+  if (end < 0 || archive.readUInt32LE(end) !== 0x06054b50) {
+    throw new Error("Not an archive written by createZip");
+  }
+  const count = archive.readUInt16LE(end + 10);
+  let cursor = archive.readUInt32LE(end + 16);
+  const entries: WrittenEntry[] = [];
+
+  for (let index = 0; index < count; index += 1) {
+    if (archive.readUInt32LE(cursor) !== 0x02014b50) {
+      throw new Error("Not an archive written by createZip");
+    }
+    const method = archive.readUInt16LE(cursor + 10);
+    const time = archive.readUInt16LE(cursor + 12);
+    const date = archive.readUInt16LE(cursor + 14);
+    const compressedSize = archive.readUInt32LE(cursor + 20);
+    const size = archive.readUInt32LE(cursor + 24);
+    const nameLength = archive.readUInt16LE(cursor + 28);
+    const extraLength = archive.readUInt16LE(cursor + 30);
+    const commentLength = archive.readUInt16LE(cursor + 32);
+    const localOffset = archive.readUInt32LE(cursor + 42);
+    const name = archive.subarray(cursor + 46, cursor + 46 + nameLength);
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    const bodyStart =
+      localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    entries.push({
+      name,
+      body: encryptAesEntry(archive.subarray(bodyStart, bodyStart + compressedSize), password),
+      method: AES_METHOD,
+      flags: UTF8_FLAG | ENCRYPTED_FLAG,
+      versionNeeded: AES_VERSION_NEEDED,
+      crc: 0,
+      size,
+      time,
+      date,
+      extra: aesExtraField(method),
+    });
+  }
+
+  return writeZip(entries);
+}
@@ -1,15 +1,21 @@
 import { prisma } from "@/lib/prisma";
-import { decryptDek, decryptMessage, encryptMessage, getMasterKek } from "@/lib/crypto";
+import { decryptMessage, encryptMessage } from "@/lib/crypto";
+import { getConversationKeys } from "@/lib/conversation-keys";
 import { mergePolicies } from "@/lib/ai/policy";
 import {
   detectSignals,
   resolveSignalConfig,
   type SignalConfig,
 } from "@/lib/ai/detection";
-import { callOpenAi } from "@/lib/ai/openai";
+import { completeChat, resolveLlmSelection, type LlmSelection } from "@/lib/ai/llm";
 import { storePromptSnapshot } from "@/lib/ai/debug";
 import { getOrCreateEpisode } from "@/lib/ai/episode";
 import { logAuditEvent } from "@/lib/audit";
+import { publishConversationEvent } from "@/lib/realtime";
+import { indexMessageText } from "@/lib/search";
+import { invalidateWeeklySummary } from "@/lib/weekly-summaries";
+import { queueOutboundDelivery } from "@/lib/delivery";
+import { enqueueRecordDraft } from "@/lib/queues";
 
 type AiJob = {
   tenantId: string;
@@ -111,7 +117,6 @@ export async function processAi(job: AiJob) {
     conversationId: job.conversationId,
     tenantId: job.tenantId,
     triggerMessageId: job.triggerMessageId,
-    model: process.env.OPENAI_MODEL ?? "gpt-4o-mini",
   });
   const conversation = await prisma.conversation.findFirst({
     where: { tenantId: job.tenantId, id: job.conversationId },
@@ -122,7 +127,7 @@ export async function processAi(job: AiJob) {
     return;
   }
 
-  const dek = decryptDek(conversation.encryptedDek, getMasterKek());
+  const keys = getConversationKeys(conversation);
 
   const [psychologistPolicy, conversationPolicy] = await Promise.all([
     prisma.aiPolicy.findFirst({
@@ -148,7 +153,12 @@ export async function processAi(job: AiJob) {
     .reverse()
     .map((message) => ({
       ...message,
-      content: decryptMessage(message.ciphertext, message.iv, message.authTag, dek),
+      content: decryptMessage(
+        message.ciphertext,
+        message.iv,
+        message.authTag,
+        keys.forVersion(message.dekVersion),
+      ),
     }));
 
   const lastPatient = [...decrypted]
@@ -167,6 +177,8 @@ export async function processAi(job: AiJob) {
       maxTurns?: number;
       temperature?: number;
       disableEpisodeLimit?: boolean;
+      provider?: string | null;
+      model?: string | null;
     };
   })?.aiSettings;
   const disableEpisodeLimit = Boolean(settings?.disableEpisodeLimit);
@@ -227,13 +239,25 @@ export async function processAi(job: AiJob) {
     return { role: "assistant" as const, content: message.content };
   });
 
+  const tenant = await prisma.tenant.findUnique({ where: { id: job.tenantId } });
+  let llm: LlmSelection | null = null;
+  try {
+    llm = tenant
+      ? resolveLlmSelection({
+          tenant,
+          requested: { provider: settings?.provider, model: settings?.model },
+        })
+      : null;
+  } catch (error) {
+    console.error("[ai] no LLM provider:", (error as Error).message);
+  }
+
   try {
-    const model = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
     await storePromptSnapshot({
       tenantId: job.tenantId,
       conversationId: conversation.id,
       createdAt: new Date().toISOString(),
-      model,
+      model: llm ? `${llm.provider}:${llm.model}` : "unavailable",
       messages: [{ role: "system", content: prompt }, ...context],
     });
   } catch (error) {
@@ -248,21 +272,25 @@ export async function processAi(job: AiJob) {
     closeEpisode = true;
   } else {
     try {
-      console.log("[ai] calling OpenAI", {
-        model: process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+      if (!llm) {
+        throw new Error("No LLM provider available");
+      }
+      console.log("[ai] calling LLM", {
+        provider: llm.provider,
+        model: llm.model,
         maxTokens,
         temperature,
         messages: context.length,
       });
-      reply = await callOpenAi({
+      reply = await completeChat(llm, {
         messages: [{ role: "system", content: prompt }, ...context],
         maxTokens,
         temperature,
       });
-      console.log("[ai] OpenAI reply length", reply?.length ?? 0);
+      console.log("[ai] LLM reply length", reply?.length ?? 0);
     } catch (error) {
-      console.error("[ai] OpenAI error:", (error as Error).message);
-      console.error("[ai] OpenAI error stack:", (error as Error).stack ?? "no stack");
+      console.error("[ai] LLM error:", (error as Error).message);
+      console.error("[ai] LLM error stack:", (error as Error).stack ?? "no stack");
       reply = buildUnavailableReply(workerLanguage);
       closeEpisode = !disableEpisodeLimit;
     }
@@ -272,10 +300,11 @@ export async function processAi(job: AiJob) {
         reply = buildClosingReply(workerLanguage);
         closeEpisode = true;
       }
-      console.error("[ai] Empty reply after OpenAI call; using fallback", {
+      console.error("[ai] Empty reply after LLM call; using fallback", {
         disableEpisodeLimit,
         remainingTurns,
-        model: process.env.OPENAI_MODEL,
+        provider: llm?.provider,
+        model: llm?.model,
       });
     } else if (!disableEpisodeLimit && remainingTurns === 1) {
       reply = `${reply} ${buildClosingReply(workerLanguage)}`.trim();
@@ -283,7 +312,7 @@ export async function processAi(job: AiJob) {
     }
   }
 
-  const encryptedReply = encryptMessage(reply, dek);
+  const encryptedReply = encryptMessage(reply, keys.current);
   const aiMessage = await prisma.message.create({
     data: {
       tenantId: job.tenantId,
@@ -293,8 +322,32 @@ export async function processAi(job: AiJob) {
       ciphertext: encryptedReply.ciphertext,
       iv: encryptedReply.iv,
       authTag: encryptedReply.authTag,
+      dekVersion: keys.version,
     },
   });
+  await indexMessageText({
+    tenantId: job.tenantId,
+    conversationId: conversation.id,
+    messageId: aiMessage.id,
+    createdAt: aiMessage.createdAt,
+    text: reply,
+  });
+  await invalidateWeeklySummary({
+    tenantId: job.tenantId,
+    conversationId: conversation.id,
+    at: aiMessage.createdAt,
+  });
+
+  await publishConversationEvent({
+    tenantId: job.tenantId,
+    conversationId: conversation.id,
+    event: { type: "message.created", messageId: aiMessage.id },
+  });
+
+  await queueOutboundDelivery({
+    tenantId: job.tenantId,
+    messageId: aiMessage.id,
+  });
 
   const updatedTurns = Math.min(episode.aiTurnsUsed + 1, maxTurns);
   await prisma.aiEpisode.updateMany({
@@ -302,8 +355,17 @@ export async function processAi(job: AiJob) {
     data: {
       aiTurnsUsed: updatedTurns,
       isOpen: closeEpisode ? false : true,
+      ...(closeEpisode ? { closedAt: new Date() } : {}),
     },
   });
+  if (closeEpisode) {
+    await enqueueRecordDraft({ tenantId: job.tenantId, episodeId: episode.id });
+  }
+  await publishConversationEvent({
+    tenantId: job.tenantId,
+    conversationId: conversation.id,
+    event: { type: "episode.updated" },
+  });
 
   await logAuditEvent({
     tenantId: job.tenantId,
@@ -311,6 +373,8 @@ export async function processAi(job: AiJob) {
     targetType: "Message",
     targetId: aiMessage.id,
     meta: {
+      provider: llm?.provider ?? null,
+      model: llm?.model ?? null,
       signals: {
         anger: signals.anger,
         disconnect: signals.disconnect,
@@ -0,0 +1,33 @@
+import { prisma } from "@/lib/prisma";
+import { verifyAuditChain } from "@/lib/audit-chain";
+import { logAuditEvent } from "@/lib/audit";
+
+// Verifies one tenant's chain (on-demand job) or every tenant's (scheduled
+// job) and records the outcome, including the first broken link, in the
+// chain itself.
+export async function verifyAuditChains(params: { tenantId?: string }) {
+  const tenants = params.tenantId
+    ? [{ id: params.tenantId }]
+    : await prisma.tenant.findMany({ select: { id: true } });
+
+  for (const tenant of tenants) {
+    const result = await verifyAuditChain(tenant.id);
+    if (result.broken) {
+      console.error(
+        `[worker:audit-chain] tenant ${tenant.id} chain broken at ${result.broken.sequence}: ${result.broken.reason}`,
+      );
+    }
+    await logAuditEvent({
+      tenantId: tenant.id,
+      action: "audit.chain.verify",
+      targetType: "Tenant",
+      targetId: tenant.id,
+      meta: {
+        ok: result.ok,
+        checked: result.checked,
+        headSequence: result.headSequence,
+        broken: result.broken,
+      },
+    });
+  }
+}
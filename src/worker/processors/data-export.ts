@@ -0,0 +1,113 @@
+import type { DataExportFailureReason, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { encryptBytes, encryptDek, generateDek, getMasterKek } from "@/lib/crypto";
+import {
+  buildPatientArchive,
+  DATA_EXPORT_TTL_HOURS,
+  DataExportTooLargeError,
+  PURGED_ARCHIVE,
+} from "@/lib/data-export";
+import { logAuditEvent } from "@/lib/audit";
+
+type DataExportJob = {
+  tenantId: string;
+  exportId: string;
+};
+
+export async function processDataExport(job: DataExportJob) {
+  const item = await prisma.dataExport.findFirst({
+    where: { tenantId: job.tenantId, id: job.exportId },
+  });
+  if (!item || (item.status !== "PENDING" && item.status !== "RUNNING")) {
+    return;
+  }
+
+  await prisma.dataExport.update({
+    where: { id: item.id, tenantId: job.tenantId },
+    data: { status: "RUNNING", lastError: null },
+  });
+
+  let built: Awaited<ReturnType<typeof buildPatientArchive>>;
+  try {
+    built = await buildPatientArchive({
+      tenantId: job.tenantId,
+      patientUserId: item.patientUserId,
+    });
+  } catch (error) {
+    // Retrying would only hit the limit again.
+    if (error instanceof DataExportTooLargeError) {
+      await markDataExportFailed(job, error, "TOO_LARGE");
+      return;
+    }
+    throw error;
+  }
+  const { archive, counts } = built;
+
+  // Each archive gets its own key so dropping the key is enough to make a
+  // leftover copy of the ciphertext useless.
+  const key = generateDek();
+  const encrypted = encryptBytes(archive, key);
+  const readyAt = new Date();
+  await prisma.dataExport.update({
+    where: { id: item.id, tenantId: job.tenantId },
+    data: {
+      status: "READY",
+      keyEncrypted: encryptDek(key, getMasterKek()),
+      ciphertext: encrypted.ciphertext,
+      iv: encrypted.iv,
+      authTag: encrypted.authTag,
+      sizeBytes: archive.byteLength,
+      readyAt,
+      expiresAt: new Date(readyAt.getTime() + DATA_EXPORT_TTL_HOURS * 60 * 60 * 1000),
+    },
+  });
+
+  await logAuditEvent({
+    tenantId: job.tenantId,
+    action: "patient.export.ready",
+    targetType: "User",
+    targetId: item.patientUserId,
+    meta: { exportId: item.id, sizeBytes: archive.byteLength, ...counts },
+  });
+}
+
+export async function markDataExportFailed(
+  job: DataExportJob,
+  error: Error,
+  failureReason?: DataExportFailureReason,
+) {
+  await prisma.dataExport.updateMany({
+    where: {
+      tenantId: job.tenantId,
+      id: job.exportId,
+      status: { in: ["PENDING", "RUNNING"] },
+    },
+    data: { status: "FAILED", lastError: error.message.slice(0, 500), failureReason },
+  });
+}
+
+// Runs hourly: drops archives nobody downloaded in time.
+export async function expireDataExports() {
+  const expired = await prisma.dataExport.findMany({
+    where: { status: "READY", expiresAt: { lt: new Date() } },
+    select: { id: true, tenantId: true, patientUserId: true },
+    __allowMissingTenant: true,
+  } as Prisma.DataExportFindManyArgs & { __allowMissingTenant?: boolean });
+
+  for (const item of expired) {
+    const updated = await prisma.dataExport.updateMany({
+      where: { id: item.id, tenantId: item.tenantId, status: "READY" },
+      data: { ...PURGED_ARCHIVE, status: "EXPIRED" },
+    });
+    if (!updated.count) {
+      continue;
+    }
+    await logAuditEvent({
+      tenantId: item.tenantId,
+      action: "patient.export.expire",
+      targetType: "User",
+      targetId: item.patientUserId,
+      meta: { exportId: item.id },
+    });
+  }
+}
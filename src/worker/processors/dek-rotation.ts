@@ -0,0 +1,267 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  decryptBytes,
+  decryptMessage,
+  encryptBytes,
+  encryptDek,
+  encryptMessage,
+  generateDek,
+  getMasterKek,
+} from "@/lib/crypto";
+import { decryptJson, encryptJson, getConversationKeys } from "@/lib/conversation-keys";
+import { logAuditEvent } from "@/lib/audit";
+
+const REENCRYPT_BATCH_SIZE = 100;
+
+type DekRotationJob = {
+  tenantId: string;
+  rotationId: string;
+};
+
+async function reencryptInBatches<T extends { id: string }>(
+  findBatch: (afterId: string) => Promise<T[]>,
+  reencrypt: (row: T) => Promise<number>,
+  onBatch: (count: number) => Promise<unknown>,
+) {
+  let afterId = "";
+  for (;;) {
+    const rows = await findBatch(afterId);
+    if (!rows.length) {
+      return;
+    }
+    let count = 0;
+    for (const row of rows) {
+      count += await reencrypt(row);
+    }
+    afterId = rows[rows.length - 1].id;
+    await onBatch(count);
+  }
+}
+
+export async function processDekRotation(job: DekRotationJob) {
+  const rotation = await prisma.dekRotation.findFirst({
+    where: { tenantId: job.tenantId, id: job.rotationId },
+  });
+  if (!rotation || rotation.status === "COMPLETED") {
+    return;
+  }
+
+  await prisma.dekRotation.update({
+    where: { id: rotation.id, tenantId: job.tenantId },
+    data: {
+      status: "RUNNING",
+      startedAt: rotation.startedAt ?? new Date(),
+      lastError: null,
+    },
+  });
+
+  // Swap keys first so everything written from now on uses the new DEK. On a
+  // resumed job the conversation is already at the target version.
+  const before = await prisma.conversation.findFirst({
+    where: { tenantId: job.tenantId, id: rotation.conversationId },
+  });
+  if (!before) {
+    throw new Error(`Conversation ${rotation.conversationId} not found`);
+  }
+  if (before.dekVersion === rotation.fromVersion) {
+    await prisma.conversation.updateMany({
+      where: {
+        tenantId: job.tenantId,
+        id: before.id,
+        dekVersion: rotation.fromVersion,
+        encryptedDek: before.encryptedDek,
+      },
+      data: {
+        previousEncryptedDek: before.encryptedDek,
+        encryptedDek: encryptDek(generateDek(), getMasterKek()),
+        dekVersion: rotation.toVersion,
+      },
+    });
+  }
+
+  const conversation = await prisma.conversation.findFirst({
+    where: { tenantId: job.tenantId, id: rotation.conversationId },
+  });
+  if (!conversation || conversation.dekVersion !== rotation.toVersion) {
+    throw new Error(
+      `Conversation ${rotation.conversationId} is not at DEK version ${rotation.toVersion}`,
+    );
+  }
+  const keys = getConversationKeys(conversation);
+
+  const stale = {
+    tenantId: job.tenantId,
+    conversationId: conversation.id,
+    dekVersion: { lt: rotation.toVersion },
+  };
+  const addProgress = (count: number) =>
+    prisma.dekRotation.update({
+      where: { id: rotation.id, tenantId: job.tenantId },
+      data: { reencryptedCount: { increment: count } },
+    });
+
+  // Each row update is conditional: a row that changed under us (e.g. a
+  // transcript landed) is skipped and picked up again by the next run.
+  await reencryptInBatches(
+    (afterId) =>
+      prisma.message.findMany({
+        where: { ...stale, id: { gt: afterId } },
+        orderBy: { id: "asc" },
+        take: REENCRYPT_BATCH_SIZE,
+      }),
+    async (message) => {
+      const oldDek = keys.forVersion(message.dekVersion);
+      const text = encryptMessage(
+        decryptMessage(message.ciphertext, message.iv, message.authTag, oldDek),
+        keys.current,
+      );
+      const attachment =
+        message.attachmentCiphertext && message.attachmentIv && message.attachmentAuthTag
+          ? encryptBytes(
+              decryptBytes(
+                message.attachmentCiphertext,
+                message.attachmentIv,
+                message.attachmentAuthTag,
+                oldDek,
+              ),
+              keys.current,
+            )
+          : null;
+      const updated = await prisma.message.updateMany({
+        where: {
+          tenantId: job.tenantId,
+          id: message.id,
+          dekVersion: message.dekVersion,
+          ciphertext: message.ciphertext,
+        },
+        data: {
+          ciphertext: text.ciphertext,
+          iv: text.iv,
+          authTag: text.authTag,
+          ...(attachment
+            ? {
+                attachmentCiphertext: attachment.ciphertext,
+                attachmentIv: attachment.iv,
+                attachmentAuthTag: attachment.authTag,
+              }
+            : {}),
+          dekVersion: rotation.toVersion,
+        },
+      });
+      return updated.count;
+    },
+    addProgress,
+  );
+
+  // Legacy plaintext payloads are encrypted along the way.
+  await reencryptInBatches(
+    (afterId) =>
+      prisma.record.findMany({
+        where: { ...stale, id: { gt: afterId } },
+        orderBy: { id: "asc" },
+        take: REENCRYPT_BATCH_SIZE,
+      }),
+    async (record) => {
+      const data = decryptJson(record, record.dataJson, keys);
+      const updated = await prisma.record.updateMany({
+        where: {
+          tenantId: job.tenantId,
+          id: record.id,
+          dekVersion: record.dekVersion,
+          ciphertext: record.ciphertext,
+        },
+        data: { ...encryptJson(data, keys), dataJson: Prisma.DbNull },
+      });
+      return updated.count;
+    },
+    addProgress,
+  );
+
+  await reencryptInBatches(
+    (afterId) =>
+      prisma.weeklySummary.findMany({
+        where: { ...stale, id: { gt: afterId } },
+        orderBy: { id: "asc" },
+        take: REENCRYPT_BATCH_SIZE,
+      }),
+    async (summary) => {
+      const data = decryptJson(summary, summary.summaryJson, keys);
+      const updated = await prisma.weeklySummary.updateMany({
+        where: {
+          tenantId: job.tenantId,
+          id: summary.id,
+          dekVersion: summary.dekVersion,
+          updatedAt: summary.updatedAt,
+        },
+        data: { ...encryptJson(data, keys), summaryJson: Prisma.DbNull },
+      });
+      return updated.count;
+    },
+    addProgress,
+  );
+
+  // Reviewed drafts have no payload left.
+  const staleDraft = { ...stale, ciphertext: { not: null } };
+  await reencryptInBatches(
+    (afterId) =>
+      prisma.recordDraft.findMany({
+        where: { ...staleDraft, id: { gt: afterId } },
+        orderBy: { id: "asc" },
+        take: REENCRYPT_BATCH_SIZE,
+      }),
+    async (draft) => {
+      const data = decryptJson(draft, null, keys);
+      const updated = await prisma.recordDraft.updateMany({
+        where: {
+          tenantId: job.tenantId,
+          id: draft.id,
+          dekVersion: draft.dekVersion,
+          ciphertext: draft.ciphertext,
+        },
+        data: encryptJson(data, keys),
+      });
+      return updated.count;
+    },
+    addProgress,
+  );
+
+  const remaining =
+    (await prisma.message.count({ where: stale })) +
+    (await prisma.record.count({ where: stale })) +
+    (await prisma.weeklySummary.count({ where: stale })) +
+    (await prisma.recordDraft.count({ where: staleDraft }));
+  if (remaining > 0) {
+    throw new Error(`${remaining} row(s) still use the previous DEK`);
+  }
+
+  // Only now is the previous DEK unreachable data-wise; drop it.
+  await prisma.conversation.updateMany({
+    where: { tenantId: job.tenantId, id: conversation.id, dekVersion: rotation.toVersion },
+    data: { previousEncryptedDek: null },
+  });
+  const completed = await prisma.dekRotation.update({
+    where: { id: rotation.id, tenantId: job.tenantId },
+    data: { status: "COMPLETED", completedAt: new Date() },
+  });
+
+  await logAuditEvent({
+    tenantId: job.tenantId,
+    actorUserId: rotation.requestedByUserId,
+    action: "conversation.dek_rotate.complete",
+    targetType: "Conversation",
+    targetId: conversation.id,
+    meta: {
+      rotationId: rotation.id,
+      dekVersion: rotation.toVersion,
+      reencryptedCount: completed.reencryptedCount,
+    },
+  });
+}
+
+export async function markDekRotationFailed(job: DekRotationJob, error: Error) {
+  await prisma.dekRotation.updateMany({
+    where: { tenantId: job.tenantId, id: job.rotationId, status: { not: "COMPLETED" } },
+    data: { status: "FAILED", lastError: error.message.slice(0, 500) },
+  });
+}
@@ -0,0 +1,10 @@
+import { sendGrantUseNotice } from "@/lib/access-grants";
+
+type GrantNotifyJob = {
+  tenantId: string;
+  grantId: string;
+};
+
+export async function processGrantNotification(job: GrantNotifyJob) {
+  await sendGrantUseNotice(job);
+}
@@ -1,17 +1,56 @@
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import { decryptDek, encryptMessage, getMasterKek } from "@/lib/crypto";
-import { getAiQueue } from "@/lib/queues";
+import { encryptBytes, encryptMessage } from "@/lib/crypto";
+import { getConversationKeys } from "@/lib/conversation-keys";
+import { enqueueTranscription, getAiQueue } from "@/lib/queues";
 import { logAuditEvent } from "@/lib/audit";
+import { publishConversationEvent } from "@/lib/realtime";
+import { invalidateWeeklySummary } from "@/lib/weekly-summaries";
+import { indexMessageText } from "@/lib/search";
+import { downloadEvolutionMedia } from "@/lib/evolution";
+import { getEvolutionConfig } from "@/lib/channels";
+import {
+  getAttachmentKind,
+  MAX_ATTACHMENT_BYTES,
+  normalizeMime,
+  type AttachmentKind,
+} from "@/lib/attachments";
+
+type InboundMedia = {
+  kind: AttachmentKind;
+  mimeType: string;
+  fileName?: string;
+};
 
 type InboundJob = {
   tenantId: string;
   externalMessageId?: string;
   fromPhone: string;
   text: string;
+  media?: InboundMedia;
   source: "whatsapp" | "web";
 };
 
+async function fetchInboundMedia(
+  tenantId: string,
+  media: InboundMedia,
+  externalMessageId: string,
+) {
+  const config = await getEvolutionConfig(tenantId);
+  if (!config) {
+    return { ok: false as const, reason: "channel_not_configured" };
+  }
+  const downloaded = await downloadEvolutionMedia(config, externalMessageId);
+  const mimeType = normalizeMime(downloaded.mimeType ?? media.mimeType);
+  if (getAttachmentKind(mimeType) !== media.kind) {
+    return { ok: false as const, reason: "unsupported_type" };
+  }
+  if (downloaded.bytes.byteLength > MAX_ATTACHMENT_BYTES) {
+    return { ok: false as const, reason: "too_large" };
+  }
+  return { ok: true as const, bytes: downloaded.bytes, mimeType };
+}
+
 export async function processInbound(job: InboundJob) {
   const patient = await prisma.user.findFirst({
     where: {
@@ -53,8 +92,33 @@ export async function processInbound(job: InboundJob) {
     return;
   }
 
-  const dek = decryptDek(conversation.encryptedDek, getMasterKek());
-  const encrypted = encryptMessage(job.text, dek);
+  let attachment: { bytes: Buffer; mimeType: string } | null = null;
+  let text = job.text;
+  if (job.media && job.externalMessageId) {
+    const fetched = await fetchInboundMedia(job.tenantId, job.media, job.externalMessageId);
+    if (fetched.ok) {
+      attachment = fetched;
+      if (job.media.kind === "document" && !text) {
+        text = job.media.fileName ?? "";
+      }
+    } else {
+      await logAuditEvent({
+        tenantId: job.tenantId,
+        actorUserId: patient.id,
+        action: "inbound.media_rejected",
+        targetType: "Conversation",
+        targetId: conversation.id,
+        meta: { reason: fetched.reason, kind: job.media.kind },
+      });
+      if (!text) {
+        return;
+      }
+    }
+  }
+
+  const keys = getConversationKeys(conversation);
+  const encrypted = encryptMessage(text, keys.current);
+  const encryptedAttachment = attachment ? encryptBytes(attachment.bytes, keys.current) : null;
 
   let message;
   try {
@@ -67,7 +131,17 @@ export async function processInbound(job: InboundJob) {
         ciphertext: encrypted.ciphertext,
         iv: encrypted.iv,
         authTag: encrypted.authTag,
+        dekVersion: keys.version,
         externalMessageId: job.externalMessageId,
+        ...(attachment && encryptedAttachment
+          ? {
+              attachmentCiphertext: encryptedAttachment.ciphertext,
+              attachmentIv: encryptedAttachment.iv,
+              attachmentAuthTag: encryptedAttachment.authTag,
+              attachmentMime: attachment.mimeType,
+              attachmentSize: attachment.bytes.byteLength,
+            }
+          : {}),
       },
     });
   } catch (error) {
@@ -84,7 +158,32 @@ export async function processInbound(job: InboundJob) {
     return;
   }
 
-  if (conversation.aiEnabled) {
+  await indexMessageText({
+    tenantId: job.tenantId,
+    conversationId: conversation.id,
+    messageId: message.id,
+    createdAt: message.createdAt,
+    text,
+  });
+  await invalidateWeeklySummary({
+    tenantId: job.tenantId,
+    conversationId: conversation.id,
+    at: message.createdAt,
+  });
+
+  await publishConversationEvent({
+    tenantId: job.tenantId,
+    conversationId: conversation.id,
+    event: { type: "message.created", messageId: message.id },
+  });
+
+  // Voice notes get their AI reply once the transcript is in.
+  if (attachment && job.media?.kind === "audio") {
+    await enqueueTranscription({
+      tenantId: job.tenantId,
+      messageId: message.id,
+    });
+  } else if (conversation.aiEnabled && job.text.trim()) {
     await getAiQueue().add("ai_reply_generate", {
       tenantId: job.tenantId,
       conversationId: conversation.id,
@@ -98,6 +197,6 @@ export async function processInbound(job: InboundJob) {
     action: "message.inbound",
     targetType: "Message",
     targetId: message.id,
-    meta: { source: job.source },
+    meta: { source: job.source, attachmentKind: attachment ? job.media?.kind : undefined },
   });
 }
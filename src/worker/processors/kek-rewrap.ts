@@ -0,0 +1,85 @@
+import { prisma } from "@/lib/prisma";
+import { getMasterKek } from "@/lib/crypto";
+import { rewrapStaleKeys } from "@/lib/kek";
+import { logAuditEvent } from "@/lib/audit";
+
+type KekRewrapJob = {
+  rotationId: string;
+};
+
+export async function processKekRewrap(job: KekRewrapJob) {
+  const rotation = await prisma.keyRotation.findUnique({
+    where: { id: job.rotationId },
+    include: { startedBy: { select: { tenantId: true } } },
+  });
+  if (!rotation || rotation.status === "COMPLETED") {
+    return;
+  }
+
+  const keyring = getMasterKek();
+  if (keyring.currentKeyId !== rotation.targetKeyId) {
+    // The web app and the worker must be deployed with the same key set.
+    await prisma.keyRotation.update({
+      where: { id: rotation.id },
+      data: {
+        status: "FAILED",
+        lastError: `Worker current KEK is ${keyring.currentKeyId}, expected ${rotation.targetKeyId}`,
+      },
+    });
+    return;
+  }
+
+  await prisma.keyRotation.update({
+    where: { id: rotation.id },
+    data: {
+      status: "RUNNING",
+      startedAt: rotation.startedAt ?? new Date(),
+      lastError: null,
+    },
+  });
+
+  const perTenant = new Map<string, Record<string, number>>();
+  await rewrapStaleKeys(keyring, async (rewrapped) => {
+    for (const item of rewrapped) {
+      const counts = perTenant.get(item.tenantId) ?? {};
+      counts[item.target] = (counts[item.target] ?? 0) + 1;
+      perTenant.set(item.tenantId, counts);
+    }
+    await prisma.keyRotation.update({
+      where: { id: rotation.id },
+      data: { rewrappedCount: { increment: rewrapped.length } },
+    });
+  });
+
+  const completed = await prisma.keyRotation.update({
+    where: { id: rotation.id },
+    data: { status: "COMPLETED", completedAt: new Date() },
+  });
+
+  for (const [tenantId, counts] of perTenant) {
+    await logAuditEvent({
+      tenantId,
+      action: "kek.rewrap",
+      targetType: "KeyRotation",
+      targetId: rotation.id,
+      meta: { keyId: rotation.targetKeyId, ...counts },
+    });
+  }
+  if (rotation.startedBy) {
+    await logAuditEvent({
+      tenantId: rotation.startedBy.tenantId,
+      actorUserId: rotation.startedByUserId,
+      action: "kek.rotation.complete",
+      targetType: "KeyRotation",
+      targetId: rotation.id,
+      meta: { keyId: rotation.targetKeyId, rewrappedCount: completed.rewrappedCount },
+    });
+  }
+}
+
+export async function markKekRewrapFailed(job: KekRewrapJob, error: Error) {
+  await prisma.keyRotation.updateMany({
+    where: { id: job.rotationId, status: { not: "COMPLETED" } },
+    data: { status: "FAILED", lastError: error.message.slice(0, 500) },
+  });
+}
@@ -0,0 +1,98 @@
+import { prisma } from "@/lib/prisma";
+import { decryptBytes, decryptMessage } from "@/lib/crypto";
+import { getConversationKeys } from "@/lib/conversation-keys";
+import { sendEvolutionAudio, sendEvolutionText } from "@/lib/evolution";
+import { getEvolutionConfig } from "@/lib/channels";
+import { logAuditEvent } from "@/lib/audit";
+import { applyPendingAcks, updateDeliveryStatus } from "@/lib/delivery";
+
+type OutboundJob = {
+  tenantId: string;
+  messageId: string;
+};
+
+export async function processOutbound(job: OutboundJob) {
+  const config = await getEvolutionConfig(job.tenantId);
+  if (!config) {
+    console.log("[outbound] skipped: no WhatsApp channel for tenant");
+    return;
+  }
+
+  const message = await prisma.message.findFirst({
+    where: { tenantId: job.tenantId, id: job.messageId },
+    include: {
+      conversation: {
+        include: { patient: { include: { patientProfile: true } } },
+      },
+    },
+  });
+
+  if (!message || message.direction !== "OUT") {
+    return;
+  }
+  if (message.deletedAt || message.externalMessageId) {
+    return;
+  }
+
+  const phoneE164 = message.conversation.patient.patientProfile?.phoneE164;
+  if (!phoneE164) {
+    await logAuditEvent({
+      tenantId: job.tenantId,
+      action: "message.outbound.skipped",
+      targetType: "Message",
+      targetId: message.id,
+      meta: { reason: "patient_phone_missing" },
+    });
+    return;
+  }
+
+  const dek = getConversationKeys(message.conversation).forVersion(message.dekVersion);
+  let externalMessageId: string;
+  if (
+    message.attachmentCiphertext &&
+    message.attachmentIv &&
+    message.attachmentAuthTag &&
+    message.attachmentMime?.startsWith("audio/")
+  ) {
+    const audio = decryptBytes(
+      message.attachmentCiphertext,
+      message.attachmentIv,
+      message.attachmentAuthTag,
+      dek,
+    );
+    externalMessageId = await sendEvolutionAudio(config, { phoneE164, audio });
+  } else {
+    const text = decryptMessage(message.ciphertext, message.iv, message.authTag, dek);
+    if (!text.trim()) {
+      return;
+    }
+    externalMessageId = await sendEvolutionText(config, { phoneE164, text });
+  }
+
+  await prisma.message.updateMany({
+    where: { id: message.id, tenantId: job.tenantId },
+    data: { externalMessageId },
+  });
+  await updateDeliveryStatus({
+    tenantId: job.tenantId,
+    messageId: message.id,
+    status: "SENT",
+  });
+  await applyPendingAcks({ tenantId: job.tenantId, messageId: message.id, externalMessageId });
+
+  await logAuditEvent({
+    tenantId: job.tenantId,
+    action: "message.outbound",
+    targetType: "Message",
+    targetId: message.id,
+    meta: { authorType: message.authorType },
+  });
+}
+
+export async function markOutboundFailed(job: OutboundJob) {
+  await updateDeliveryStatus({
+    tenantId: job.tenantId,
+    messageId: job.messageId,
+    status: "FAILED",
+  });
+}
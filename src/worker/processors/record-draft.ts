@@ -0,0 +1,148 @@
+import { prisma } from "@/lib/prisma";
+import { decryptMessage } from "@/lib/crypto";
+import { encryptJson, getConversationKeys } from "@/lib/conversation-keys";
+import { completeChat, resolveLlmSelection } from "@/lib/ai/llm";
+import { parseRecordDraft } from "@/lib/record-drafts";
+import { logAuditEvent } from "@/lib/audit";
+import { publishConversationEvent } from "@/lib/realtime";
+
+type RecordDraftJob = {
+  tenantId: string;
+  episodeId: string;
+};
+
+const MAX_EPISODE_MESSAGES = 40;
+
+const FIELD_LANGUAGE = {
+  PT: "Portuguese",
+  ES: "Spanish",
+  EN: "English",
+} as const;
+
+function buildDraftPrompt(language: keyof typeof FIELD_LANGUAGE) {
+  return [
+    "You help a psychologist fill in a structured record from a chat between a patient and an assistant.",
+    "Use only what the patient said. Do not interpret, diagnose or add advice.",
+    'Reply with a single JSON object with the string keys "event", "thought", "emotion", "body", "action" and "result".',
+    "event: what happened. thought: what the patient thought. emotion: what they felt.",
+    "body: bodily sensations. action: what they did. result: what happened afterwards.",
+    'Use an empty string for anything the patient did not mention. If nothing happened worth recording, set "event" to an empty string.',
+    `Write the values in ${FIELD_LANGUAGE[language]}, briefly, in the patient's own terms.`,
+  ].join("\n");
+}
+
+export async function processRecordDraft(job: RecordDraftJob) {
+  const episode = await prisma.aiEpisode.findFirst({
+    where: { tenantId: job.tenantId, id: job.episodeId },
+    include: { recordDraft: { select: { id: true } } },
+  });
+  if (!episode || episode.isOpen || episode.recordDraft) {
+    return;
+  }
+
+  const conversation = await prisma.conversation.findFirst({
+    where: { tenantId: job.tenantId, id: episode.conversationId },
+    include: { patient: { include: { patientProfile: true } } },
+  });
+  if (!conversation) {
+    return;
+  }
+
+  const messages = await prisma.message.findMany({
+    where: {
+      tenantId: job.tenantId,
+      conversationId: conversation.id,
+      deletedAt: null,
+      createdAt: { gte: episode.createdAt, lte: episode.closedAt ?? episode.updatedAt },
+    },
+    orderBy: { createdAt: "asc" },
+    take: MAX_EPISODE_MESSAGES,
+  });
+  if (!messages.some((message) => message.authorType === "PATIENT")) {
+    return;
+  }
+
+  const keys = getConversationKeys(conversation);
+  const transcript = messages
+    .map((message) => {
+      const content = decryptMessage(
+        message.ciphertext,
+        message.iv,
+        message.authTag,
+        keys.forVersion(message.dekVersion),
+      ).trim();
+      if (!content) {
+        return "";
+      }
+      const label =
+        message.authorType === "PATIENT"
+          ? "Patient"
+          : message.authorType === "PSYCHOLOGIST"
+            ? "Psychologist"
+            : "Assistant";
+      return `${label}: ${content}`;
+    })
+    .filter(Boolean)
+    .join("\n");
+
+  const [tenant, psychologistPolicy] = await Promise.all([
+    prisma.tenant.findUnique({ where: { id: job.tenantId } }),
+    prisma.aiPolicy.findFirst({
+      where: {
+        tenantId: job.tenantId,
+        ownerUserId: conversation.psychologistUserId,
+        conversationId: null,
+      },
+    }),
+  ]);
+  if (!tenant) {
+    return;
+  }
+  const settings = (psychologistPolicy?.flagsJson as {
+    aiSettings?: { provider?: string | null; model?: string | null };
+  })?.aiSettings;
+  const llm = resolveLlmSelection({
+    tenant,
+    requested: { provider: settings?.provider, model: settings?.model },
+  });
+
+  const language = conversation.patient.patientProfile?.preferredLanguage ?? "ES";
+  const reply = await completeChat(llm, {
+    messages: [
+      { role: "system", content: buildDraftPrompt(language) },
+      { role: "user", content: transcript },
+    ],
+    maxTokens: 500,
+    temperature: 0,
+  });
+  const data = parseRecordDraft(reply);
+  if (!data) {
+    console.log("[record-draft] nothing to draft", { episodeId: episode.id });
+    return;
+  }
+
+  const draft = await prisma.recordDraft.create({
+    data: {
+      tenantId: job.tenantId,
+      conversationId: conversation.id,
+      episodeId: episode.id,
+      provider: llm.provider,
+      model: llm.model,
+      ...encryptJson(data, keys),
+    },
+  });
+
+  await publishConversationEvent({
+    tenantId: job.tenantId,
+    conversationId: conversation.id,
+    event: { type: "record_draft.created" },
+  });
+
+  await logAuditEvent({
+    tenantId: job.tenantId,
+    action: "record.draft.create",
+    targetType: "RecordDraft",
+    targetId: draft.id,
+    meta: { episodeId: episode.id, provider: llm.provider, model: llm.model },
+  });
+}
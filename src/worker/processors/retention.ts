@@ -0,0 +1,105 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { purgeExpiredMessages } from "@/lib/retention";
+import { erasePatient } from "@/lib/erasure";
+import { logAuditEvent } from "@/lib/audit";
+
+// Runs daily: applies each tenant's message retention policy.
+export async function purgeExpiredData() {
+  const tenants = await prisma.tenant.findMany({
+    where: { messageRetentionYears: { not: null } },
+    select: { id: true, messageRetentionYears: true },
+  });
+
+  for (const tenant of tenants) {
+    if (!tenant.messageRetentionYears) {
+      continue;
+    }
+    const purged = await purgeExpiredMessages({
+      tenantId: tenant.id,
+      retentionYears: tenant.messageRetentionYears,
+    });
+    if (!purged.messages && !purged.summaries) {
+      continue;
+    }
+    await logAuditEvent({
+      tenantId: tenant.id,
+      action: "retention.purge",
+      targetType: "Tenant",
+      targetId: tenant.id,
+      meta: {
+        retentionYears: tenant.messageRetentionYears,
+        cutoff: purged.cutoff.toISOString(),
+        messages: purged.messages,
+        summaries: purged.summaries,
+      },
+    });
+  }
+}
+
+// A RUNNING claim older than this is taken to be from a worker that died
+// mid-run; erasing is idempotent, so it is picked up again.
+const ERASURE_CLAIM_TIMEOUT_MS = 60 * 60 * 1000;
+
+// Runs hourly: carries out erasures whose cooling-off period is over. A
+// failure is recorded and the erasure goes back to scheduled for the next run.
+export async function runDueErasures() {
+  const now = new Date();
+  const abandoned = {
+    status: "RUNNING" as const,
+    updatedAt: { lt: new Date(now.getTime() - ERASURE_CLAIM_TIMEOUT_MS) },
+  };
+  const due = await prisma.patientErasure.findMany({
+    where: {
+      scheduledFor: { lte: now },
+      OR: [{ status: "SCHEDULED" }, abandoned],
+    },
+    orderBy: { scheduledFor: "asc" },
+    __allowMissingTenant: true,
+  } as Prisma.PatientErasureFindManyArgs & { __allowMissingTenant?: boolean });
+
+  for (const erasure of due) {
+    // Claiming first means a cancel that lands now either wins (and nothing
+    // is shredded) or finds the erasure already running and is refused.
+    const claimed = await prisma.patientErasure.updateMany({
+      where: {
+        tenantId: erasure.tenantId,
+        id: erasure.id,
+        OR: [{ status: "SCHEDULED" }, abandoned],
+      },
+      data: { status: "RUNNING" },
+    });
+    if (claimed.count !== 1) {
+      continue;
+    }
+    try {
+      const result = await erasePatient(erasure);
+      const completed = await prisma.patientErasure.updateMany({
+        where: { tenantId: erasure.tenantId, id: erasure.id, status: "RUNNING" },
+        data: {
+          status: "COMPLETED",
+          completedAt: new Date(),
+          conversationCount: result.conversations,
+          lastError: null,
+        },
+      });
+      if (!completed.count) {
+        continue;
+      }
+      await logAuditEvent({
+        tenantId: erasure.tenantId,
+        actorUserId: erasure.requestedByUserId,
+        action: "patient.erasure.complete",
+        targetType: "User",
+        targetId: erasure.patientUserId,
+        meta: { erasureId: erasure.id, conversations: result.conversations },
+      });
+    } catch (error) {
+      console.error(`[worker:retention] erasure ${erasure.id} failed:`, (error as Error).message);
+      await prisma.patientErasure.updateMany({
+        where: { tenantId: erasure.tenantId, id: erasure.id, status: "RUNNING" },
+        data: { status: "SCHEDULED", lastError: (error as Error).message.slice(0, 500) },
+      });
+    }
+  }
+}
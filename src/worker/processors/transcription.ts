@@ -0,0 +1,134 @@
+import { prisma } from "@/lib/prisma";
+import { decryptBytes, encryptMessage } from "@/lib/crypto";
+import { getConversationKeys } from "@/lib/conversation-keys";
+import { getAiQueue } from "@/lib/queues";
+import { logAuditEvent } from "@/lib/audit";
+import { publishConversationEvent } from "@/lib/realtime";
+import { invalidateWeeklySummary } from "@/lib/weekly-summaries";
+import { indexMessageText } from "@/lib/search";
+import { getTranscriptionProvider } from "@/lib/ai/transcription";
+
+type TranscriptionJob = {
+  tenantId: string;
+  messageId: string;
+};
+
+const WHISPER_LANGUAGE = {
+  ES: "es",
+  PT: "pt",
+  EN: "en",
+} as const;
+
+export async function processTranscription(job: TranscriptionJob) {
+  const provider = getTranscriptionProvider();
+  if (!provider) {
+    console.log("[transcription] skipped: TRANSCRIPTION_PROVIDER not configured");
+    return;
+  }
+
+  const message = await prisma.message.findFirst({
+    where: { tenantId: job.tenantId, id: job.messageId },
+    include: {
+      conversation: {
+        include: { patient: { include: { patientProfile: true } } },
+      },
+    },
+  });
+
+  if (!message || message.deletedAt || message.transcribedAt) {
+    return;
+  }
+  if (
+    !message.attachmentCiphertext ||
+    !message.attachmentIv ||
+    !message.attachmentAuthTag ||
+    !message.attachmentMime?.startsWith("audio/")
+  ) {
+    return;
+  }
+
+  // The transcript stays under the message's own DEK version so a rotation
+  // running in parallel re-encrypts it together with the audio.
+  const dek = getConversationKeys(message.conversation).forVersion(message.dekVersion);
+  const audio = decryptBytes(
+    message.attachmentCiphertext,
+    message.attachmentIv,
+    message.attachmentAuthTag,
+    dek,
+  );
+  const preferredLanguage =
+    message.conversation.patient.patientProfile?.preferredLanguage ?? "ES";
+  const transcript = (
+    await provider.transcribe({
+      audio,
+      mimeType: message.attachmentMime,
+      language: WHISPER_LANGUAGE[preferredLanguage],
+    })
+  ).slice(0, 4000);
+
+  const encrypted = encryptMessage(transcript, dek);
+  const updated = await prisma.message.updateMany({
+    where: {
+      tenantId: job.tenantId,
+      id: message.id,
+      deletedAt: null,
+      transcribedAt: null,
+      dekVersion: message.dekVersion,
+    },
+    data: {
+      ciphertext: encrypted.ciphertext,
+      iv: encrypted.iv,
+      authTag: encrypted.authTag,
+      transcribedAt: new Date(),
+    },
+  });
+  if (updated.count === 0) {
+    const current = await prisma.message.findFirst({
+      where: { tenantId: job.tenantId, id: message.id },
+      select: { deletedAt: true, transcribedAt: true, dekVersion: true },
+    });
+    if (current && !current.deletedAt && !current.transcribedAt) {
+      // Re-encrypted by a DEK rotation in the meantime; retry with the new key.
+      throw new Error(`Message ${message.id} DEK changed during transcription`);
+    }
+    return;
+  }
+  await indexMessageText({
+    tenantId: job.tenantId,
+    conversationId: message.conversationId,
+    messageId: message.id,
+    createdAt: message.createdAt,
+    text: transcript,
+  });
+  await invalidateWeeklySummary({
+    tenantId: job.tenantId,
+    conversationId: message.conversationId,
+    at: message.createdAt,
+  });
+
+  await publishConversationEvent({
+    tenantId: job.tenantId,
+    conversationId: message.conversationId,
+    event: { type: "message.updated", messageId: message.id },
+  });
+
+  await logAuditEvent({
+    tenantId: job.tenantId,
+    action: "message.transcribe",
+    targetType: "Message",
+    targetId: message.id,
+    meta: { provider: provider.name, empty: !transcript.trim() },
+  });
+
+  if (
+    message.authorType === "PATIENT" &&
+    message.conversation.aiEnabled &&
+    transcript.trim()
+  ) {
+    await getAiQueue().add("ai_reply_generate", {
+      tenantId: job.tenantId,
+      conversationId: message.conversationId,
+      triggerMessageId: message.id,
+    });
+  }
+}
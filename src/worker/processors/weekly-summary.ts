@@ -0,0 +1,108 @@
+import { prisma } from "@/lib/prisma";
+import { enqueueWeeklySummary } from "@/lib/queues";
+import { addDaysInTimeZone } from "@/lib/time-zone";
+import { getAllowedLlmProviders } from "@/lib/ai/llm";
+import {
+  getWeekBounds,
+  loadWeeklySummaryContext,
+  NARRATIVE_RETRY_MS,
+  refreshWeeklySummary,
+} from "@/lib/weekly-summaries";
+
+type WeeklySummaryJob = {
+  tenantId: string;
+  conversationId: string;
+  weekStart: string;
+};
+
+// Bounds the narrative retries queued per tenant in one run.
+const NARRATIVE_RETRY_BATCH = 100;
+
+// Runs hourly, so each tenant's previous week is picked up within an hour of
+// local midnight on its first weekday. Also sweeps closed weeks that late writes marked
+// stale and closed weeks whose narrative failed or had no provider; the current week is
+// only regenerated when someone opens it.
+export async function scheduleWeeklySummaries() {
+  const tenants = await prisma.tenant.findMany({
+    select: { id: true, timeZone: true, weekStartDay: true, llmAllowedProviders: true },
+  });
+  let queued = 0;
+
+  for (const tenant of tenants) {
+    const currentWeekStart = getWeekBounds(new Date(), tenant).weekStart;
+    const previousWeekStart = addDaysInTimeZone(currentWeekStart, -7, tenant.timeZone);
+
+    // Without any provider a retry would only record UNAVAILABLE again.
+    const narrativeStatuses = getAllowedLlmProviders(tenant).length
+      ? (["FAILED", "UNAVAILABLE"] as const)
+      : (["FAILED"] as const);
+
+    const [conversations, summarized, stale, narrativeRetries] = await Promise.all([
+      prisma.conversation.findMany({
+        where: { tenantId: tenant.id, status: "OPEN" },
+        select: { id: true },
+      }),
+      prisma.weeklySummary.findMany({
+        where: { tenantId: tenant.id, weekStart: previousWeekStart, staleAt: null },
+        select: { conversationId: true },
+      }),
+      prisma.weeklySummary.findMany({
+        where: {
+          tenantId: tenant.id,
+          staleAt: { not: null },
+          weekStart: { lt: currentWeekStart },
+        },
+        select: { conversationId: true, weekStart: true },
+      }),
+      prisma.weeklySummary.findMany({
+        where: {
+          tenantId: tenant.id,
+          staleAt: null,
+          weekStart: { lt: currentWeekStart },
+          narrativeStatus: { in: [...narrativeStatuses] },
+          narrativeAttemptedAt: { lt: new Date(Date.now() - NARRATIVE_RETRY_MS) },
+        },
+        select: { conversationId: true, weekStart: true },
+        orderBy: { weekStart: "desc" },
+        take: NARRATIVE_RETRY_BATCH,
+      }),
+    ]);
+
+    // A week queued twice collapses into one job through its jobId.
+    const done = new Set(summarized.map((item) => item.conversationId));
+    const pending = [
+      ...conversations
+        .filter((conversation) => !done.has(conversation.id))
+        .map((conversation) => ({ conversationId: conversation.id, weekStart: previousWeekStart })),
+      ...stale,
+      ...narrativeRetries,
+    ];
+
+    for (const item of pending) {
+      await enqueueWeeklySummary({
+        tenantId: tenant.id,
+        conversationId: item.conversationId,
+        weekStart: item.weekStart.toISOString(),
+      });
+    }
+    queued += pending.length;
+  }
+
+  if (queued > 0) {
+    console.log("[weekly-summary] queued", { count: queued });
+  }
+}
+
+export async function processWeeklySummary(job: WeeklySummaryJob) {
+  const conversation = await prisma.conversation.findFirst({
+    where: { tenantId: job.tenantId, id: job.conversationId },
+  });
+  if (!conversation) {
+    return;
+  }
+  const context = await loadWeeklySummaryContext(conversation);
+  if (!context) {
+    return;
+  }
+  await refreshWeeklySummary(context, new Date(job.weekStart));
+}
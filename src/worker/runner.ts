@@ -3,6 +3,30 @@ import { Worker, type Job } from "bullmq";
 import { getRedisConnectionOptions } from "@/lib/redis";
 import { processInbound } from "@/worker/processors/inbound";
 import { processAi } from "@/worker/processors/ai";
+import { markOutboundFailed, processOutbound } from "@/worker/processors/outbound";
+import { processTranscription } from "@/worker/processors/transcription";
+import { markKekRewrapFailed, processKekRewrap } from "@/worker/processors/kek-rewrap";
+import { markDekRotationFailed, processDekRotation } from "@/worker/processors/dek-rotation";
+import { processRecordDraft } from "@/worker/processors/record-draft";
+import {
+  processWeeklySummary,
+  scheduleWeeklySummaries,
+} from "@/worker/processors/weekly-summary";
+import {
+  expireDataExports,
+  markDataExportFailed,
+  processDataExport,
+} from "@/worker/processors/data-export";
+import { purgeExpiredData, runDueErasures } from "@/worker/processors/retention";
+import { verifyAuditChains } from "@/worker/processors/audit-chain";
+import { processGrantNotification } from "@/worker/processors/grant-notify";
+import {
+  getAuditChainQueue,
+  getDataExportQueue,
+  getRetentionQueue,
+  getWeeklySummaryQueue,
+} from "@/lib/queues";
+import { getConfiguredLlmProviders } from "@/lib/ai/llm";
 
 const connection = getRedisConnectionOptions();
 
@@ -18,6 +42,117 @@ const aiWorker = new Worker(
   { connection },
 );
 
+const outboundWorker = new Worker(
+  "outbound_send_retry",
+  async (job) => processOutbound(job.data),
+  { connection },
+);
+
+const transcriptionWorker = new Worker(
+  "audio_transcribe",
+  async (job) => processTranscription(job.data),
+  { connection },
+);
+
+const kekRewrapWorker = new Worker(
+  "kek_rewrap",
+  async (job) => processKekRewrap(job.data),
+  { connection },
+);
+
+const dekRotationWorker = new Worker(
+  "dek_rotate",
+  async (job) => processDekRotation(job.data),
+  { connection },
+);
+
+const recordDraftWorker = new Worker(
+  "record_draft_generate",
+  async (job) => processRecordDraft(job.data),
+  { connection },
+);
+
+const weeklySummaryWorker = new Worker(
+  "weekly_summary",
+  async (job) =>
+    job.name === "weekly_summary_schedule"
+      ? scheduleWeeklySummaries()
+      : processWeeklySummary(job.data),
+  { connection },
+);
+
+// Upserting keeps a single hourly scheduler across worker restarts.
+void getWeeklySummaryQueue()
+  .upsertJobScheduler(
+    "weekly-summary-schedule",
+    { pattern: "0 * * * *" },
+    { name: "weekly_summary_schedule", opts: { attempts: 1 } },
+  )
+  .catch((error: Error) => {
+    console.error("[worker:weekly-summary] failed to register scheduler:", error.message);
+  });
+
+const dataExportWorker = new Worker(
+  "data_export",
+  async (job) =>
+    job.name === "data_export_expire" ? expireDataExports() : processDataExport(job.data),
+  { connection },
+);
+
+void getDataExportQueue()
+  .upsertJobScheduler(
+    "data-export-expire",
+    { pattern: "15 * * * *" },
+    { name: "data_export_expire", opts: { attempts: 1 } },
+  )
+  .catch((error: Error) => {
+    console.error("[worker:data-export] failed to register scheduler:", error.message);
+  });
+
+const retentionWorker = new Worker(
+  "data_retention",
+  async (job) => (job.name === "retention_purge" ? purgeExpiredData() : runDueErasures()),
+  { connection },
+);
+
+const retentionQueue = getRetentionQueue();
+void Promise.all([
+  retentionQueue.upsertJobScheduler(
+    "retention-purge",
+    { pattern: "30 3 * * *" },
+    { name: "retention_purge", opts: { attempts: 1 } },
+  ),
+  retentionQueue.upsertJobScheduler(
+    "patient-erasure-run",
+    { pattern: "45 * * * *" },
+    { name: "patient_erasure_run", opts: { attempts: 1 } },
+  ),
+]).catch((error: Error) => {
+  console.error("[worker:retention] failed to register schedulers:", error.message);
+});
+
+const auditChainWorker = new Worker(
+  "audit_chain",
+  async (job) => verifyAuditChains(job.data ?? {}),
+  { connection },
+);
+
+void getAuditChainQueue()
+  .upsertJobScheduler(
+    "audit-chain-verify",
+    { pattern: "0 4 * * *" },
+    { name: "audit_chain_verify", opts: { attempts: 1 } },
+  )
+  .catch((error: Error) => {
+    console.error("[worker:audit-chain] failed to register scheduler:", error.message);
+  });
+
+const grantNotifyWorker = new Worker(
+  "grant_notify",
+  async (job) => processGrantNotification(job.data),
+  { connection },
+);
+
 const logFailure =
   (label: string) => (job: Job | undefined, error: Error) => {
     console.error(`[worker:${label}] job ${job?.id ?? "unknown"} failed:`, error.message);
@@ -25,9 +160,51 @@ const logFailure =
 
 inboundWorker.on("failed", logFailure("inbound"));
 aiWorker.on("failed", logFailure("ai"));
+outboundWorker.on("failed", logFailure("outbound"));
+transcriptionWorker.on("failed", logFailure("transcription"));
+kekRewrapWorker.on("failed", logFailure("kek-rewrap"));
+dekRotationWorker.on("failed", logFailure("dek-rotation"));
+recordDraftWorker.on("failed", logFailure("record-draft"));
+weeklySummaryWorker.on("failed", logFailure("weekly-summary"));
+dataExportWorker.on("failed", logFailure("data-export"));
+retentionWorker.on("failed", logFailure("retention"));
+auditChainWorker.on("failed", logFailure("audit-chain"));
+grantNotifyWorker.on("failed", logFailure("grant-notify"));
+outboundWorker.on("failed", (job) => {
+  if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    void markOutboundFailed(job.data).catch((error: Error) => {
+      console.error("[worker:outbound] failed to mark delivery:", error.message);
+    });
+  }
+});
+
+kekRewrapWorker.on("failed", (job, error) => {
+  if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    void markKekRewrapFailed(job.data, error).catch((markError: Error) => {
+      console.error("[worker:kek-rewrap] failed to mark rotation:", markError.message);
+    });
+  }
+});
+
+dekRotationWorker.on("failed", (job, error) => {
+  if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    void markDekRotationFailed(job.data, error).catch((markError: Error) => {
+      console.error("[worker:dek-rotation] failed to mark rotation:", markError.message);
+    });
+  }
+});
+
+dataExportWorker.on("failed", (job, error) => {
+  if (job && job.name !== "data_export_expire" && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    void markDataExportFailed(job.data, error).catch((markError: Error) => {
+      console.error("[worker:data-export] failed to mark export:", markError.message);
+    });
+  }
+});
 
 console.log(
   "Worker running",
-  `| OPENAI_MODEL=${process.env.OPENAI_MODEL ?? "unset"}`,
-  `| OPENAI_API_KEY=${process.env.OPENAI_API_KEY ? "set" : "missing"}`,
+  `| LLM_PROVIDER=${process.env.LLM_PROVIDER ?? "OPENAI"}`,
+  `| LLM providers configured=${getConfiguredLlmProviders().join(",") || "none"}`,
+  `| TRANSCRIPTION_PROVIDER=${process.env.TRANSCRIPTION_PROVIDER ?? "unset"}`,
 );